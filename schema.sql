@@ -5,17 +5,464 @@ START TRANSACTION;
 
 CREATE TABLE IF NOT EXISTS `api_configs` (
   `site_key` VARCHAR(191) NOT NULL,
-  `cayman_api_key` VARCHAR(255) NOT NULL,
+  `cayman_api_key` VARCHAR(512) NOT NULL,
   `cayman_api_username` VARCHAR(255) NOT NULL,
-  `cayman_api_password` VARCHAR(255) NOT NULL,
-  `mindbody_api_key` VARCHAR(255) DEFAULT NULL,
+  `cayman_api_password` VARCHAR(512) NOT NULL,
+  `mindbody_api_key` VARCHAR(512) DEFAULT NULL,
   `mindbody_source_name` VARCHAR(255) DEFAULT NULL,
-  `mindbody_source_password` VARCHAR(255) DEFAULT NULL,
+  `mindbody_source_password` VARCHAR(512) DEFAULT NULL,
   `mindbody_site_id` VARCHAR(64) DEFAULT NULL,
+  `key_id` VARCHAR(64) DEFAULT NULL,
+  `wrapped_key` VARCHAR(255) DEFAULT NULL,
   `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   PRIMARY KEY (`site_key`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+CREATE TABLE IF NOT EXISTS `checkout_sessions` (
+  `id` VARCHAR(64) NOT NULL,
+  `site_key` VARCHAR(191) NOT NULL,
+  `status` VARCHAR(32) NOT NULL,
+  `order_id` VARCHAR(191) DEFAULT NULL,
+  `cayman_transaction_id` VARCHAR(191) DEFAULT NULL,
+  `customer_email` VARCHAR(255) DEFAULT NULL,
+  `client_id` VARCHAR(64) DEFAULT NULL,
+  `total` DECIMAL(12,2) NOT NULL,
+  `payload` JSON NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_checkout_sessions_order_id` (`order_id`),
+  UNIQUE KEY `uniq_checkout_sessions_transaction_id` (`cayman_transaction_id`),
+  KEY `idx_checkout_sessions_status_expires` (`status`, `expires_at`),
+  KEY `idx_checkout_sessions_customer_email` (`customer_email`),
+  KEY `idx_checkout_sessions_created_at` (`created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `checkout_session_events` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `session_id` VARCHAR(64) NOT NULL,
+  `type` VARCHAR(64) NOT NULL,
+  `from_status` VARCHAR(32) DEFAULT NULL,
+  `to_status` VARCHAR(32) DEFAULT NULL,
+  `actor` VARCHAR(100) DEFAULT NULL,
+  `detail` JSON DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_checkout_session_events_session_id` (`session_id`, `id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `fulfilment_jobs` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `session_id` VARCHAR(64) NOT NULL,
+  `site_key` VARCHAR(191) NOT NULL,
+  `status` VARCHAR(16) NOT NULL,
+  `attempts` INT UNSIGNED NOT NULL DEFAULT 0,
+  `max_attempts` INT UNSIGNED NOT NULL,
+  `next_attempt_at` DATETIME NOT NULL,
+  `locked_until` DATETIME DEFAULT NULL,
+  `last_error` TEXT DEFAULT NULL,
+  `last_error_kind` VARCHAR(16) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_fulfilment_jobs_session_id` (`session_id`),
+  KEY `idx_fulfilment_jobs_status_next_attempt` (`status`, `next_attempt_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `refunds` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `idempotency_key` VARCHAR(128) NOT NULL,
+  `session_id` VARCHAR(64) NOT NULL,
+  `site_key` VARCHAR(191) NOT NULL,
+  `amount` DECIMAL(12,2) NOT NULL,
+  `status` VARCHAR(16) NOT NULL,
+  `cayman_transaction_id` VARCHAR(191) DEFAULT NULL,
+  `cayman_refund_id` VARCHAR(191) DEFAULT NULL,
+  `cayman_response` JSON DEFAULT NULL,
+  `mindbody_status` VARCHAR(32) NOT NULL,
+  `mindbody_detail` TEXT DEFAULT NULL,
+  `reason` VARCHAR(255) DEFAULT NULL,
+  `actor` VARCHAR(100) DEFAULT NULL,
+  `error` TEXT DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_refunds_idempotency_key` (`idempotency_key`),
+  KEY `idx_refunds_session_id` (`session_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `pricing_rules` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(191) NOT NULL,
+  `item_type` VARCHAR(16) DEFAULT NULL,
+  `item_id` VARCHAR(64) DEFAULT NULL,
+  `kind` VARCHAR(16) NOT NULL,
+  `value` DECIMAL(12,2) NOT NULL,
+  `min_price` DECIMAL(12,2) DEFAULT NULL,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `starts_at` DATETIME DEFAULT NULL,
+  `ends_at` DATETIME DEFAULT NULL,
+  `note` VARCHAR(255) DEFAULT NULL,
+  `created_by` VARCHAR(100) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_pricing_rules_site_key` (`site_key`, `active`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `price_overrides` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `rule_id` BIGINT UNSIGNED NOT NULL,
+  `site_key` VARCHAR(191) NOT NULL,
+  `item_type` VARCHAR(16) NOT NULL,
+  `item_id` VARCHAR(64) NOT NULL,
+  `catalog_price` DECIMAL(12,2) NOT NULL,
+  `final_price` DECIMAL(12,2) NOT NULL,
+  `signed_by` VARCHAR(100) NOT NULL,
+  `context` VARCHAR(16) NOT NULL,
+  `note` VARCHAR(100) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_price_overrides_rule_id` (`rule_id`),
+  KEY `idx_price_overrides_site_key` (`site_key`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `promo_codes` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `code` VARCHAR(64) NOT NULL,
+  `site_key` VARCHAR(191) NOT NULL,
+  `kind` VARCHAR(16) NOT NULL,
+  `value` DECIMAL(12,2) NOT NULL,
+  `item_type` VARCHAR(16) DEFAULT NULL,
+  `item_id` VARCHAR(64) DEFAULT NULL,
+  `first_purchase_only` TINYINT(1) NOT NULL DEFAULT 0,
+  `max_redemptions` INT UNSIGNED DEFAULT NULL,
+  `max_per_email` INT UNSIGNED DEFAULT NULL,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `starts_at` DATETIME DEFAULT NULL,
+  `ends_at` DATETIME DEFAULT NULL,
+  `note` VARCHAR(255) DEFAULT NULL,
+  `created_by` VARCHAR(100) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_promo_codes_site_code` (`site_key`, `code`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `promo_redemptions` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `promo_code_id` BIGINT UNSIGNED NOT NULL,
+  `reference` VARCHAR(64) NOT NULL,
+  `email` VARCHAR(191) DEFAULT NULL,
+  `discount` DECIMAL(12,2) NOT NULL,
+  `status` VARCHAR(16) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_promo_redemptions_reference` (`reference`),
+  KEY `idx_promo_redemptions_code_status` (`promo_code_id`, `status`, `created_at`),
+  KEY `idx_promo_redemptions_email` (`email`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `tenants` (
+  `site_key` VARCHAR(191) NOT NULL,
+  `label` VARCHAR(191) DEFAULT NULL,
+  `mindbody_site_id` VARCHAR(64) NOT NULL,
+  `mindbody_api_key` VARCHAR(512) NOT NULL,
+  `staff_username` VARCHAR(255) DEFAULT NULL,
+  `staff_password` VARCHAR(512) DEFAULT NULL,
+  `custom_tender_id` INT UNSIGNED DEFAULT NULL,
+  `currency` CHAR(3) DEFAULT NULL,
+  `default_service_id` VARCHAR(64) DEFAULT NULL,
+  `billing_defaults` JSON DEFAULT NULL,
+  `webhook_secret` VARCHAR(512) DEFAULT NULL,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `key_id` VARCHAR(64) DEFAULT NULL,
+  `wrapped_key` VARCHAR(255) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`site_key`),
+  KEY `idx_tenants_mindbody_site_id` (`mindbody_site_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `api_config_versions` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(191) NOT NULL,
+  `version` INT UNSIGNED NOT NULL,
+  `action` VARCHAR(16) NOT NULL,
+  `changed_fields` JSON DEFAULT NULL,
+  `actor` VARCHAR(100) NOT NULL,
+  `source_ip` VARCHAR(64) DEFAULT NULL,
+  `rolled_back_from` INT UNSIGNED DEFAULT NULL,
+  `cayman_api_key` VARCHAR(512) NOT NULL,
+  `cayman_api_username` VARCHAR(255) NOT NULL,
+  `cayman_api_password` VARCHAR(512) NOT NULL,
+  `mindbody_api_key` VARCHAR(512) DEFAULT NULL,
+  `mindbody_source_name` VARCHAR(255) DEFAULT NULL,
+  `mindbody_source_password` VARCHAR(512) DEFAULT NULL,
+  `mindbody_site_id` VARCHAR(64) DEFAULT NULL,
+  `key_id` VARCHAR(64) DEFAULT NULL,
+  `wrapped_key` VARCHAR(255) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_api_config_versions_site_version` (`site_key`, `version`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `admin_users` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `email` VARCHAR(191) NOT NULL,
+  `display_name` VARCHAR(191) DEFAULT NULL,
+  `password_hash` VARCHAR(255) NOT NULL,
+  `role` VARCHAR(16) NOT NULL,
+  `site_keys` JSON DEFAULT NULL,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `last_login_at` TIMESTAMP NULL DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_admin_users_email` (`email`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `admin_sessions` (
+  `id` CHAR(64) NOT NULL,
+  `user_id` BIGINT UNSIGNED NOT NULL,
+  `source_ip` VARCHAR(64) DEFAULT NULL,
+  `user_agent` VARCHAR(255) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `expires_at` TIMESTAMP NOT NULL,
+  `last_seen_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `revoked_at` TIMESTAMP NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  KEY `idx_admin_sessions_user` (`user_id`, `revoked_at`, `expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `api_keys` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `prefix` CHAR(12) NOT NULL,
+  `secret_hash` CHAR(64) NOT NULL,
+  `scopes` JSON NOT NULL,
+  `rate_limit_per_minute` INT UNSIGNED DEFAULT NULL,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `expires_at` TIMESTAMP NULL DEFAULT NULL,
+  `rotated_from_id` BIGINT UNSIGNED DEFAULT NULL,
+  `last_used_at` TIMESTAMP NULL DEFAULT NULL,
+  `last_used_ip` VARCHAR(64) DEFAULT NULL,
+  `created_by` VARCHAR(191) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_api_keys_prefix` (`prefix`),
+  KEY `idx_api_keys_site` (`site_key`, `active`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `payment_alerts` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `session_id` VARCHAR(64) DEFAULT NULL,
+  `transaction_id` VARCHAR(191) DEFAULT NULL,
+  `kind` VARCHAR(32) NOT NULL,
+  `source` VARCHAR(32) NOT NULL,
+  `message` VARCHAR(500) NOT NULL,
+  `expected` JSON NOT NULL,
+  `actual` JSON NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'open',
+  `resolved_by` VARCHAR(191) DEFAULT NULL,
+  `resolved_at` TIMESTAMP NULL DEFAULT NULL,
+  `resolution_note` VARCHAR(1000) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_payment_alerts_site_status` (`site_key`, `status`, `created_at`),
+  KEY `idx_payment_alerts_session` (`session_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `webhook_events` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `dedupe_key` VARCHAR(191) DEFAULT NULL,
+  `kind` VARCHAR(16) NOT NULL,
+  `source` VARCHAR(32) NOT NULL,
+  `method` VARCHAR(8) NOT NULL,
+  `site_key` VARCHAR(100) DEFAULT NULL,
+  `session_id` VARCHAR(64) DEFAULT NULL,
+  `transaction_id` VARCHAR(191) DEFAULT NULL,
+  `headers` JSON NOT NULL,
+  `query_params` JSON NOT NULL,
+  `raw_query` TEXT DEFAULT NULL,
+  `raw_body` MEDIUMTEXT DEFAULT NULL,
+  `body_params` JSON NOT NULL,
+  `signature_result` VARCHAR(16) DEFAULT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'received',
+  `outcome` JSON DEFAULT NULL,
+  `error` VARCHAR(1000) DEFAULT NULL,
+  `attempts` INT UNSIGNED NOT NULL DEFAULT 1,
+  `replay_of` BIGINT UNSIGNED DEFAULT NULL,
+  `actor` VARCHAR(191) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `processed_at` TIMESTAMP NULL DEFAULT NULL,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_webhook_events_dedupe` (`dedupe_key`),
+  KEY `idx_webhook_events_site` (`site_key`, `created_at`),
+  KEY `idx_webhook_events_session` (`session_id`),
+  KEY `idx_webhook_events_transaction` (`transaction_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `reconciliation_runs` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `window_start` DATE NOT NULL,
+  `window_end` DATE NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'running',
+  `triggered_by` VARCHAR(191) NOT NULL,
+  `schedule_key` VARCHAR(191) DEFAULT NULL,
+  `summary` JSON DEFAULT NULL,
+  `entries` JSON DEFAULT NULL,
+  `error` VARCHAR(2000) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `completed_at` TIMESTAMP NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_reconciliation_runs_schedule` (`schedule_key`),
+  KEY `idx_reconciliation_runs_site` (`site_key`, `created_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `saved_cards` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `client_id` VARCHAR(64) NOT NULL,
+  `vault_id` VARCHAR(191) DEFAULT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'pending',
+  `email` VARCHAR(255) DEFAULT NULL,
+  `last4` CHAR(4) DEFAULT NULL,
+  `card_type` VARCHAR(32) DEFAULT NULL,
+  `setup_token_hash` CHAR(64) NOT NULL,
+  `created_by` VARCHAR(191) NOT NULL,
+  `error` VARCHAR(500) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `activated_at` TIMESTAMP NULL DEFAULT NULL,
+  `removed_at` TIMESTAMP NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_saved_cards_setup_token` (`setup_token_hash`),
+  KEY `idx_saved_cards_client` (`site_key`, `client_id`, `status`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `membership_plans` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `name` VARCHAR(191) NOT NULL,
+  `item_type` VARCHAR(16) NOT NULL,
+  `item_id` VARCHAR(64) NOT NULL,
+  `amount` DECIMAL(12,2) NOT NULL,
+  `frequency_days` SMALLINT UNSIGNED NOT NULL,
+  `trial_days` SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+  `active` TINYINT(1) NOT NULL DEFAULT 1,
+  `created_by` VARCHAR(191) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `idx_membership_plans_site` (`site_key`, `active`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `memberships` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `plan_id` BIGINT UNSIGNED NOT NULL,
+  `plan_name` VARCHAR(191) NOT NULL,
+  `item_type` VARCHAR(16) NOT NULL,
+  `item_id` VARCHAR(64) NOT NULL,
+  `amount` DECIMAL(12,2) NOT NULL,
+  `frequency_days` SMALLINT UNSIGNED NOT NULL,
+  `client_id` VARCHAR(64) NOT NULL,
+  `email` VARCHAR(255) NOT NULL,
+  `first_name` VARCHAR(100) NOT NULL,
+  `last_name` VARCHAR(100) NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'pending',
+  `notify_token_hash` CHAR(64) NOT NULL,
+  `cayman_subscription_id` BIGINT UNSIGNED DEFAULT NULL,
+  `cayman_customer_guid` VARCHAR(64) DEFAULT NULL,
+  `current_period_end` DATETIME DEFAULT NULL,
+  `failed_attempts` INT UNSIGNED NOT NULL DEFAULT 0,
+  `next_retry_at` DATETIME DEFAULT NULL,
+  `cancelled_at` TIMESTAMP NULL DEFAULT NULL,
+  `cancelled_by` VARCHAR(191) DEFAULT NULL,
+  `cancel_reason` VARCHAR(16) DEFAULT NULL,
+  `error` VARCHAR(500) DEFAULT NULL,
+  `created_by` VARCHAR(191) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `activated_at` TIMESTAMP NULL DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_memberships_notify_token` (`notify_token_hash`),
+  KEY `idx_memberships_client` (`site_key`, `client_id`),
+  KEY `idx_memberships_retry` (`status`, `next_retry_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `membership_charges` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `membership_id` BIGINT UNSIGNED NOT NULL,
+  `session_id` VARCHAR(64) NOT NULL,
+  `transaction_id` VARCHAR(64) DEFAULT NULL,
+  `kind` VARCHAR(16) NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'pending',
+  `detail` VARCHAR(500) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_membership_charges_session` (`session_id`),
+  UNIQUE KEY `uniq_membership_charges_transaction` (`transaction_id`),
+  KEY `idx_membership_charges_membership` (`membership_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `payment_holds` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `session_id` VARCHAR(64) NOT NULL,
+  `client_id` VARCHAR(64) NOT NULL,
+  `visit_type` VARCHAR(16) NOT NULL,
+  `visit_id` VARCHAR(64) NOT NULL,
+  `visit_starts_at` DATETIME NOT NULL,
+  `amount` DECIMAL(10,2) NOT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'pending',
+  `transaction_id` VARCHAR(64) DEFAULT NULL,
+  `capture_transaction_id` VARCHAR(64) DEFAULT NULL,
+  `hold_token_hash` CHAR(64) NOT NULL,
+  `hold_expires_at` DATETIME NOT NULL,
+  `next_check_at` DATETIME DEFAULT NULL,
+  `void_reason` VARCHAR(16) DEFAULT NULL,
+  `error` VARCHAR(500) DEFAULT NULL,
+  `created_by` VARCHAR(191) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `authorized_at` DATETIME DEFAULT NULL,
+  `settled_by` VARCHAR(191) DEFAULT NULL,
+  `captured_at` DATETIME DEFAULT NULL,
+  `voided_at` DATETIME DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_payment_holds_session` (`session_id`),
+  UNIQUE KEY `uniq_payment_holds_token` (`hold_token_hash`),
+  KEY `idx_payment_holds_due` (`status`, `next_check_at`),
+  KEY `idx_payment_holds_site_client` (`site_key`, `client_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `appointment_holds` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `site_key` VARCHAR(100) NOT NULL,
+  `session_id` VARCHAR(64) NOT NULL,
+  `client_id` VARCHAR(64) DEFAULT NULL,
+  `session_type_id` VARCHAR(64) NOT NULL,
+  `staff_id` VARCHAR(64) NOT NULL,
+  `location_id` VARCHAR(64) NOT NULL,
+  `start_date_time` DATETIME NOT NULL,
+  `slot_key` VARCHAR(191) DEFAULT NULL,
+  `status` VARCHAR(16) NOT NULL DEFAULT 'held',
+  `hold_expires_at` DATETIME NOT NULL,
+  `appointment_id` VARCHAR(64) DEFAULT NULL,
+  `error` VARCHAR(500) DEFAULT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `booked_at` DATETIME DEFAULT NULL,
+  `released_at` DATETIME DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uniq_appointment_holds_session` (`session_id`),
+  UNIQUE KEY `uniq_appointment_holds_slot` (`slot_key`),
+  KEY `idx_appointment_holds_lapsed` (`status`, `hold_expires_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- Seed row used by the application when no API credentials exist yet.
 -- Replace the placeholder values below with your production credentials before importing.
 INSERT INTO `api_configs` (
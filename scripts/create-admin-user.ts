@@ -0,0 +1,64 @@
+import "dotenv/config";
+import crypto from "node:crypto";
+import { getPool, isDatabaseConfigured } from "../src/db/mysql.js";
+import { ADMIN_ROLES, hashPassword, MIN_PASSWORD_LENGTH } from "../src/services/adminAuth.js";
+import { createAdminUser, type AdminRole } from "../src/storage/adminUsers.js";
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const email = args.find((arg, index) => !arg.startsWith("--") && !args[index - 1]?.startsWith("--"));
+const role = (option("role") ?? "owner") as AdminRole;
+const siteKeys = option("sites")
+  ?.split(",")
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+
+const run = async (): Promise<void> => {
+  if (!isDatabaseConfigured()) {
+    throw new Error("Set DATABASE_URL or MYSQL_* variables before creating admin accounts");
+  }
+  if (!email) {
+    throw new Error("Usage: npm run users:create -- <email> [--role owner|admin|front_desk|auditor] [--sites a,b] [--name \"Display Name\"]");
+  }
+  if (!ADMIN_ROLES.includes(role)) {
+    throw new Error(`Role must be one of ${ADMIN_ROLES.join(", ")}`);
+  }
+
+  // A generated password is printed once; set ADMIN_USER_PASSWORD to choose one instead.
+  const provided = process.env.ADMIN_USER_PASSWORD;
+  if (provided !== undefined && provided.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`ADMIN_USER_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const password = provided ?? crypto.randomBytes(18).toString("base64url");
+
+  const user = await createAdminUser({
+    email,
+    displayName: option("name"),
+    passwordHash: await hashPassword(password),
+    role,
+    siteKeys: siteKeys?.length ? siteKeys : undefined
+  });
+  if (!user) {
+    throw new Error(`An account for ${email} already exists`);
+  }
+
+  console.log(`[users:create] Created ${user.role} account ${user.email} (id ${user.id})`);
+  if (provided === undefined) {
+    console.log(`[users:create] Password: ${password}`);
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error("[users:create] Failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    if (isDatabaseConfigured()) {
+      await getPool().end();
+    }
+  });
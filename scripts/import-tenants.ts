@@ -0,0 +1,75 @@
+import "dotenv/config";
+import fs from "node:fs";
+import { getPool, isDatabaseConfigured } from "../src/db/mysql.js";
+import { upsertTenantRecord } from "../src/storage/tenants.js";
+
+interface TenantFileEntry {
+  siteId?: string | number;
+  siteKey?: string;
+  label?: string;
+  mbApiKey?: string;
+  staffUser?: string;
+  staffPass?: string;
+  customTenderId?: number;
+  currency?: string;
+  webhookSecret?: string;
+}
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const path = args.find((arg) => !arg.startsWith("--")) ?? process.env.TENANTS_PATH ?? "./tenants.json";
+
+const run = async (): Promise<void> => {
+  if (!dryRun && !isDatabaseConfigured()) {
+    throw new Error("Set DATABASE_URL or MYSQL_* variables before importing tenants");
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(path, "utf8")) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Tenants file at ${path} must contain an array`);
+  }
+
+  let imported = 0;
+  for (const entry of parsed as TenantFileEntry[]) {
+    const siteId = entry.siteId === undefined || entry.siteId === null ? "" : String(entry.siteId).trim();
+    if (!siteId || !entry.mbApiKey) {
+      console.warn("[tenants:import] Skipping entry without siteId or mbApiKey", { label: entry.label ?? null });
+      continue;
+    }
+
+    // Existing links carry the Mindbody site id, so it stays the site key unless the file names one.
+    const siteKey = entry.siteKey?.trim() || siteId;
+
+    if (dryRun) {
+      console.log(`[tenants:import] Would import ${siteKey} (Mindbody site ${siteId})`);
+      continue;
+    }
+
+    await upsertTenantRecord({
+      siteKey,
+      label: entry.label,
+      mindbodySiteId: siteId,
+      mindbodyApiKey: entry.mbApiKey,
+      staffUsername: entry.staffUser,
+      staffPassword: entry.staffPass,
+      customTenderId: Number.isInteger(entry.customTenderId) ? entry.customTenderId : undefined,
+      currency: entry.currency?.toUpperCase(),
+      webhookSecret: entry.webhookSecret
+    });
+    imported += 1;
+    console.log(`[tenants:import] Imported ${siteKey} (Mindbody site ${siteId})`);
+  }
+
+  console.log(`[tenants:import] ${dryRun ? "Checked" : "Imported"} ${dryRun ? parsed.length : imported} tenant(s) from ${path}`);
+};
+
+run()
+  .catch((error) => {
+    console.error("[tenants:import] Failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    if (isDatabaseConfigured()) {
+      await getPool().end();
+    }
+  });
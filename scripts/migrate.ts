@@ -0,0 +1,179 @@
+import "dotenv/config";
+import { type RowDataPacket } from "mysql2/promise";
+import { execute, getPool, isDatabaseConfigured, query } from "../src/db/mysql.js";
+
+const dryRun = process.argv.slice(2).includes("--dry-run");
+
+interface ColumnRow extends RowDataPacket {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  CHARACTER_MAXIMUM_LENGTH: number | null;
+}
+
+interface IndexRow extends RowDataPacket {
+  TABLE_NAME: string;
+  INDEX_NAME: string;
+}
+
+interface Schema {
+  tables: Set<string>;
+  columns: Map<string, number | null>;
+  indexes: Set<string>;
+}
+
+/**
+ * Column and index changes to tables that older releases created; `schema.sql` only creates what is missing.
+ * Each step checks the live schema first, so running the script again changes nothing.
+ */
+interface Step {
+  table: string;
+  description: string;
+  pending: (schema: Schema) => boolean;
+  sql: string | ((schema: Schema) => string);
+  /** Resolves a reason the step cannot run yet. */
+  blocker?: () => Promise<string | undefined>;
+}
+
+const hasColumn = (schema: Schema, table: string, column: string): boolean => schema.columns.has(`${table}.${column}`);
+
+const narrowerThan = (schema: Schema, table: string, columns: string[], length: number): boolean =>
+  columns.some((column) => (schema.columns.get(`${table}.${column}`) ?? length) < length);
+
+const steps: Step[] = [
+  {
+    table: "api_configs",
+    description: "widen secret columns for ciphertext",
+    pending: (schema) =>
+      narrowerThan(schema, "api_configs", ["cayman_api_key", "cayman_api_password", "mindbody_api_key", "mindbody_source_password"], 512),
+    sql: `ALTER TABLE api_configs
+      MODIFY cayman_api_key VARCHAR(512) NOT NULL,
+      MODIFY cayman_api_password VARCHAR(512) NOT NULL,
+      MODIFY mindbody_api_key VARCHAR(512) DEFAULT NULL,
+      MODIFY mindbody_source_password VARCHAR(512) DEFAULT NULL`
+  },
+  {
+    table: "api_configs",
+    description: "add key_id and wrapped_key",
+    pending: (schema) => !hasColumn(schema, "api_configs", "key_id"),
+    sql: `ALTER TABLE api_configs
+      ADD COLUMN key_id VARCHAR(64) DEFAULT NULL,
+      ADD COLUMN wrapped_key VARCHAR(255) DEFAULT NULL`
+  },
+  {
+    table: "tenants",
+    description: "widen secret columns for ciphertext",
+    pending: (schema) => narrowerThan(schema, "tenants", ["mindbody_api_key", "staff_password"], 512),
+    sql: `ALTER TABLE tenants
+      MODIFY mindbody_api_key VARCHAR(512) NOT NULL,
+      MODIFY staff_password VARCHAR(512) DEFAULT NULL`
+  },
+  {
+    table: "tenants",
+    description: "add webhook_secret",
+    pending: (schema) => !hasColumn(schema, "tenants", "webhook_secret"),
+    sql: "ALTER TABLE tenants ADD COLUMN webhook_secret VARCHAR(512) DEFAULT NULL"
+  },
+  {
+    table: "tenants",
+    description: "add key_id and wrapped_key",
+    pending: (schema) => !hasColumn(schema, "tenants", "key_id"),
+    sql: `ALTER TABLE tenants
+      ADD COLUMN key_id VARCHAR(64) DEFAULT NULL,
+      ADD COLUMN wrapped_key VARCHAR(255) DEFAULT NULL`
+  },
+  {
+    table: "checkout_sessions",
+    description: "make cayman_transaction_id unique",
+    pending: (schema) => !schema.indexes.has("checkout_sessions.uniq_checkout_sessions_transaction_id"),
+    sql: (schema) =>
+      schema.indexes.has("checkout_sessions.idx_checkout_sessions_transaction_id")
+        ? `ALTER TABLE checkout_sessions
+          DROP INDEX idx_checkout_sessions_transaction_id,
+          ADD UNIQUE KEY uniq_checkout_sessions_transaction_id (cayman_transaction_id)`
+        : "ALTER TABLE checkout_sessions ADD UNIQUE KEY uniq_checkout_sessions_transaction_id (cayman_transaction_id)",
+    blocker: async () => {
+      const rows = await query<RowDataPacket[]>(
+        `SELECT cayman_transaction_id FROM checkout_sessions WHERE cayman_transaction_id IS NOT NULL
+         GROUP BY cayman_transaction_id HAVING COUNT(*) > 1 LIMIT 5`
+      );
+      return rows.length > 0
+        ? `transaction ids recorded on more than one session: ${rows.map((row) => row.cayman_transaction_id).join(", ")}`
+        : undefined;
+    }
+  },
+  {
+    table: "price_overrides",
+    description: "add note",
+    pending: (schema) => !hasColumn(schema, "price_overrides", "note"),
+    sql: "ALTER TABLE price_overrides ADD COLUMN note VARCHAR(100) DEFAULT NULL AFTER context"
+  }
+];
+
+const readSchema = async (): Promise<Schema> => {
+  const tables = [...new Set(steps.map((step) => step.table))];
+  const columns = await query<ColumnRow[]>(
+    `SELECT TABLE_NAME, COLUMN_NAME, CHARACTER_MAXIMUM_LENGTH FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME IN (?)`,
+    [tables]
+  );
+  const indexes = await query<IndexRow[]>(
+    `SELECT DISTINCT TABLE_NAME, INDEX_NAME FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME IN (?)`,
+    [tables]
+  );
+  return {
+    tables: new Set(columns.map((row) => row.TABLE_NAME)),
+    columns: new Map(columns.map((row) => [`${row.TABLE_NAME}.${row.COLUMN_NAME}`, row.CHARACTER_MAXIMUM_LENGTH])),
+    indexes: new Set(indexes.map((row) => `${row.TABLE_NAME}.${row.INDEX_NAME}`))
+  };
+};
+
+const run = async (): Promise<void> => {
+  if (!isDatabaseConfigured()) {
+    throw new Error("Set DATABASE_URL or MYSQL_* variables before migrating");
+  }
+
+  const schema = await readSchema();
+  let applied = 0;
+  let blocked = 0;
+
+  for (const step of steps) {
+    const label = `${step.table}: ${step.description}`;
+    // A table this database never had is created whole by schema.sql, already in its current shape.
+    if (!schema.tables.has(step.table) || !step.pending(schema)) {
+      continue;
+    }
+
+    const blocker = await step.blocker?.();
+    if (blocker) {
+      blocked += 1;
+      console.error(`[db:migrate] Cannot ${label}: ${blocker}`);
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`[db:migrate] Would ${label}`);
+      continue;
+    }
+
+    await execute(typeof step.sql === "string" ? step.sql : step.sql(schema));
+    applied += 1;
+    console.log(`[db:migrate] Applied ${label}`);
+  }
+
+  console.log(`[db:migrate] ${applied} change(s) applied`);
+  if (blocked > 0) {
+    throw new Error(`${blocked} change(s) could not be applied; fix the data above and run again`);
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error("[db:migrate] Failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    if (isDatabaseConfigured()) {
+      await getPool().end();
+    }
+  });
@@ -0,0 +1,72 @@
+import "dotenv/config";
+import { getPool, isDatabaseConfigured } from "../src/db/mysql.js";
+import { listApiConfigKeyIds, reencryptApiConfig } from "../src/storage/apiConfig.js";
+import { listApiConfigVersionKeyIds, reencryptApiConfigVersion } from "../src/storage/apiConfigVersions.js";
+import { listTenantKeyIds, reencryptTenantRecord } from "../src/storage/tenants.js";
+import { activeCredentialKeyId } from "../src/utils/envelope.js";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+// Rows already under the active key are skipped unless --all asks for fresh data keys everywhere.
+const all = args.includes("--all");
+
+interface KeyedRow {
+  siteKey: string;
+  version?: number;
+  keyId?: string;
+}
+
+const tables: Array<{ name: string; list: () => Promise<KeyedRow[]>; reencrypt: (row: KeyedRow) => Promise<boolean> }> = [
+  { name: "api_configs", list: listApiConfigKeyIds, reencrypt: (row) => reencryptApiConfig(row.siteKey) },
+  {
+    name: "api_config_versions",
+    list: listApiConfigVersionKeyIds,
+    reencrypt: (row) => reencryptApiConfigVersion(row.siteKey, row.version as number)
+  },
+  { name: "tenants", list: listTenantKeyIds, reencrypt: (row) => reencryptTenantRecord(row.siteKey) }
+];
+
+const describe = (row: KeyedRow): string => (row.version === undefined ? row.siteKey : `${row.siteKey}@${row.version}`);
+
+const run = async (): Promise<void> => {
+  if (!isDatabaseConfigured()) {
+    throw new Error("Set DATABASE_URL or MYSQL_* variables before rotating credentials");
+  }
+
+  const activeKeyId = activeCredentialKeyId();
+  if (!activeKeyId) {
+    throw new Error("Configure CREDENTIALS_MASTER_KEY or CREDENTIALS_KEY_FILE before rotating credentials");
+  }
+
+  for (const table of tables) {
+    let rotated = 0;
+    for (const row of await table.list()) {
+      if (!all && row.keyId === activeKeyId) {
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`[credentials:rotate] Would re-encrypt ${table.name}/${describe(row)} (${row.keyId ?? "plaintext"} -> ${activeKeyId})`);
+        continue;
+      }
+
+      // Reading decrypts with whichever key the row names, so every key still referenced must be in the keyring.
+      if (await table.reencrypt(row)) {
+        rotated += 1;
+        console.log(`[credentials:rotate] Re-encrypted ${table.name}/${describe(row)} (${row.keyId ?? "plaintext"} -> ${activeKeyId})`);
+      }
+    }
+    console.log(`[credentials:rotate] ${table.name}: ${rotated} row(s) re-encrypted`);
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error("[credentials:rotate] Failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    if (isDatabaseConfigured()) {
+      await getPool().end();
+    }
+  });
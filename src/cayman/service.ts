@@ -12,6 +12,8 @@ import {
   CaymanSubscriptionRequest,
   CaymanTransactionDetailsResponse,
   CaymanTransactionInfoRequest,
+  CaymanTransactionQueryRequest,
+  CaymanTransactionQueryResponse,
   CaymanVoidRequest,
   CaymanAuthOnlyRequest
 } from "../types/cayman.js";
@@ -36,6 +38,7 @@ export interface CaymanService {
   cancelSubscription(request: CaymanCancelSubscriptionRequest): Promise<CaymanConsumerResponse>;
   triggerRecurringCharge(request: CaymanRecurringChargeRequest): Promise<CaymanConsumerResponse>;
   getTransactionDetails(request: CaymanTransactionInfoRequest): Promise<CaymanTransactionDetailsResponse>;
+  queryTransactions(request: CaymanTransactionQueryRequest): Promise<CaymanTransactionQueryResponse>;
 }
 
 const createAxiosClient = (config: CaymanConfig): AxiosInstance => {
@@ -126,6 +129,13 @@ export const createCaymanService = (config: CaymanConfig): CaymanService => {
         ...withApiKey(config.apiKey, request as Record<string, unknown>)
       });
       return response.data;
+    },
+
+    queryTransactions: async (request) => {
+      const response = await client.post<CaymanTransactionQueryResponse>("/transaction-query", {
+        ...withApiKey(config.apiKey, request as Record<string, unknown>)
+      });
+      return response.data;
     }
   };
 };
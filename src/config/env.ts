@@ -2,29 +2,30 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
-// Ensure database-backed credentials hydrate process.env before validation runs.
-await import("./loadDbEnv.js");
-
 export interface EnvConfig {
   port: number;
   appBaseUrl: string;
   publicBaseUrl: string;
   linkSigningSecret: string;
-  mindbodySiteId: number;
+  mindbodySiteId?: number;
   mindbodyServiceId: string;
   mindbodyBaseUrl: string;
-  mindbodyApiKey: string;
-  mindbodySourceName: string;
-  mindbodySourcePassword: string;
+  mindbodyApiKey?: string;
+  mindbodySourceName?: string;
+  mindbodySourcePassword?: string;
   mindbodyUserToken?: string;
   customPaymentMethodId: number;
   mindbodyCaymanPaymentMethodId?: string;
   caymanWebhookSecret: string;
+  /**
+   * Credentials set in the environment, if any. They are the default site's fallback only: requests read
+   * credentials through services/tenants, which prefers the site's `api_configs` row.
+   */
   cayman: {
     baseUrl: string;
-    apiKey: string;
-    username: string;
-    password: string;
+    apiKey?: string;
+    username?: string;
+    password?: string;
   };
 }
 
@@ -37,7 +38,11 @@ const toNumber = (value: string | undefined, fallback: number): number => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const parseRequiredInteger = (value: string, name: string): number => {
+const parseOptionalInteger = (value: string | undefined, name: string): number | undefined => {
+  if (!value || value.trim().length === 0) {
+    return undefined;
+  }
+
   const parsed = Number.parseInt(value, 10);
 
   if (!Number.isFinite(parsed)) {
@@ -57,20 +62,14 @@ const must = (key: string, fallbackKey?: string): string => {
   return value;
 };
 
+const optional = (key: string): string | undefined => {
+  const value = process.env[key];
+  return value && value.trim().length > 0 ? value : undefined;
+};
+
 const buildEnv = (): EnvConfig => {
-  const required = [
-    "PUBLIC_BASE_URL",
-    "LINK_SIGNING_SECRET",
-    "MINDBODY_SITE_ID",
-    "MINDBODY_API_KEY",
-    "MINDBODY_SOURCE_NAME",
-    "MINDBODY_SOURCE_PASSWORD",
-    "CAYMAN_API_KEY",
-    "CAYMAN_API_USERNAME",
-    "CAYMAN_API_PASSWORD",
-    "CAYMAN_API_BASE_URL",
-    "CAYMAN_WEBHOOK_SECRET"
-  ] as const;
+  // Site credentials may live in `api_configs` instead, so only deployment-wide settings are required.
+  const required = ["PUBLIC_BASE_URL", "LINK_SIGNING_SECRET", "CAYMAN_WEBHOOK_SECRET"] as const;
 
   const missing = required.filter((key) => !process.env[key]);
 
@@ -78,7 +77,7 @@ const buildEnv = (): EnvConfig => {
     throw new Error(`Missing required environment variables: ${missing.join(", ")}`);
   }
 
-  const mindbodySiteId = parseRequiredInteger(process.env.MINDBODY_SITE_ID as string, "MINDBODY_SITE_ID");
+  const mindbodySiteId = parseOptionalInteger(process.env.MINDBODY_SITE_ID, "MINDBODY_SITE_ID");
   const rawCustomPaymentMethod = process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID;
   const customPaymentMethodId = Number.isFinite(Number.parseInt(rawCustomPaymentMethod ?? "", 10))
     ? Number.parseInt(rawCustomPaymentMethod ?? "", 10)
@@ -96,18 +95,18 @@ const buildEnv = (): EnvConfig => {
     mindbodySiteId,
     mindbodyServiceId: process.env.MINDBODY_SERVICE_ID ?? "",
     mindbodyBaseUrl,
-    mindbodyApiKey: process.env.MINDBODY_API_KEY as string,
-    mindbodySourceName: must("MINDBODY_SOURCE_NAME"),
-    mindbodySourcePassword: must("MINDBODY_SOURCE_PASSWORD"),
+    mindbodyApiKey: optional("MINDBODY_API_KEY"),
+    mindbodySourceName: optional("MINDBODY_SOURCE_NAME"),
+    mindbodySourcePassword: optional("MINDBODY_SOURCE_PASSWORD"),
     mindbodyUserToken: process.env.MINDBODY_USER_TOKEN,
     customPaymentMethodId,
     mindbodyCaymanPaymentMethodId: process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID,
     caymanWebhookSecret: must("CAYMAN_WEBHOOK_SECRET"),
     cayman: {
       baseUrl: caymanBaseUrl,
-      apiKey: process.env.CAYMAN_API_KEY as string,
-      username: process.env.CAYMAN_API_USERNAME as string,
-      password: process.env.CAYMAN_API_PASSWORD as string
+      apiKey: optional("CAYMAN_API_KEY"),
+      username: optional("CAYMAN_API_USERNAME"),
+      password: optional("CAYMAN_API_PASSWORD")
     }
   };
 };
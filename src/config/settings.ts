@@ -14,6 +14,8 @@ interface SecretSettings {
   admin?: string;
   adminWrite?: string;
   staff?: string;
+  /** Whether the shared secrets are still accepted alongside admin accounts (`LEGACY_SHARED_SECRETS`). */
+  legacyEnabled: boolean;
 }
 
 interface CaymanDefaults {
@@ -28,14 +30,16 @@ interface CaymanDefaults {
 }
 
 interface MindbodySettings {
-  siteId: number;
-  siteIdString: string;
+  siteId?: number;
+  siteIdString?: string;
   siteKey?: string;
   defaultServiceId?: string;
 }
 
 interface FlagSettings {
   mboCheckoutTest: boolean;
+  /** Whether `/api/paylinks` and the storefront API refuse callers without an API key (`API_KEYS_REQUIRED`). */
+  apiKeysRequired: boolean;
 }
 
 export interface AppSettings {
@@ -124,7 +128,7 @@ const buildSettings = (): AppSettings => {
     currency: parseCurrency(trimmed(process.env.CAYMAN_DEFAULT_CURRENCY))
   };
 
-  const mindbodySiteIdString = trimmed(process.env.MINDBODY_SITE_ID) ?? String(envConfig.mindbodySiteId);
+  const mindbodySiteIdString = trimmed(process.env.MINDBODY_SITE_ID);
 
   const mindbodySettings: MindbodySettings = {
     siteId: envConfig.mindbodySiteId,
@@ -134,7 +138,8 @@ const buildSettings = (): AppSettings => {
   };
 
   const flags: FlagSettings = {
-    mboCheckoutTest: parseBoolean(trimmed(process.env.MBO_CHECKOUT_TEST))
+    mboCheckoutTest: parseBoolean(trimmed(process.env.MBO_CHECKOUT_TEST)),
+    apiKeysRequired: parseBoolean(trimmed(process.env.API_KEYS_REQUIRED), true)
   };
 
   return {
@@ -148,7 +153,8 @@ const buildSettings = (): AppSettings => {
     secrets: {
       admin: adminSecret,
       adminWrite: adminWriteSecret,
-      staff: staffSecret
+      staff: staffSecret,
+      legacyEnabled: parseBoolean(trimmed(process.env.LEGACY_SHARED_SECRETS), true)
     },
     defaults: {
       cayman: caymanDefaults
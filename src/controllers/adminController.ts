@@ -1,8 +1,110 @@
 import express, { Request, Response } from "express";
-import { reloadEnv } from "../config/env.js";
-import { getSettings, refreshSettings } from "../config/settings.js";
-import { refreshMboClientFromEnv } from "../services/http.js";
-import { getApiConfig, getLatestApiConfig, upsertApiConfig, type ApiConfig } from "../storage/apiConfig.js";
+import { getSettings } from "../config/settings.js";
+import { defaultSiteKey as defaultTenantSiteKey, invalidateTenant, UnknownTenantError } from "../services/tenants.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import {
+  findByTransactionId as findSessionByTransactionId,
+  get as getSession,
+  history as getSessionHistory,
+  isSettled,
+  search as searchSessions,
+  SESSION_TRANSITIONS,
+  type SessionStatus
+} from "../lib/sessions.js";
+import {
+  AdminAuthError,
+  authenticateToken,
+  canAccessSite,
+  hashPassword,
+  hasPermission,
+  ROLE_PERMISSIONS,
+  sharedSecretPrincipal,
+  type Principal
+} from "../services/adminAuth.js";
+import { issueApiKey, rotateIssuedApiKey } from "../services/apiKeys.js";
+import { verifyApiCredentials } from "../services/credentialCheck.js";
+import { reconcileSession, redriveFulfilmentJob, retrySessionFulfilment } from "../services/fulfilment.js";
+import { cancelMembership, MembershipError } from "../services/memberships.js";
+import { capturePaymentHold, PaymentHoldError, voidPaymentHold } from "../services/paymentHolds.js";
+import { buildPaymentExport, paymentExportToCsv, PaymentExportError } from "../services/paymentExport.js";
+import { ReconciliationWindowError, runReconciliation } from "../services/reconciliation.js";
+import { RefundError, type RefundService } from "../services/refunds.js";
+import { revokeAdminSessionsForUser } from "../storage/adminSessions.js";
+import {
+  countActiveOwners,
+  createAdminUser,
+  getAdminUser,
+  listAdminUsers,
+  updateAdminUser,
+  type AdminRole,
+  type AdminUser
+} from "../storage/adminUsers.js";
+import {
+  getApiConfig,
+  getLatestApiConfig,
+  upsertApiConfig,
+  type ApiConfig,
+  type UpsertApiConfigInput
+} from "../storage/apiConfig.js";
+import { getApiConfigVersionSnapshot, listApiConfigVersions } from "../storage/apiConfigVersions.js";
+import { getApiKey, listApiKeys, revokeApiKey, updateApiKey, type ApiKeyScope } from "../storage/apiKeys.js";
+import {
+  getFulfilmentJob,
+  getFulfilmentJobBySessionId,
+  listFulfilmentJobs,
+  type FulfilmentJobStatus
+} from "../storage/fulfilmentJobs.js";
+import {
+  createPricingRule,
+  deactivatePricingRule,
+  getPricingRule,
+  listPriceOverrides,
+  listPricingRules,
+  type PricingRuleKind
+} from "../storage/pricingRules.js";
+import {
+  createPromoCode,
+  deactivatePromoCode,
+  findPromoCode,
+  getPromoCode,
+  listPromoCodes,
+  listPromoRedemptions,
+  type PromoKind
+} from "../storage/promoCodes.js";
+import {
+  createMembershipPlan,
+  deactivateMembershipPlan,
+  getMembership,
+  getMembershipPlan,
+  listMembershipCharges,
+  listMembershipPlans,
+  listMemberships,
+  type MembershipItemType,
+  type MembershipStatus
+} from "../storage/memberships.js";
+import { getPaymentAlert, listPaymentAlerts, resolvePaymentAlert, type PaymentAlertStatus } from "../storage/paymentAlerts.js";
+import { getPaymentHold, listPaymentHolds, type PaymentHold, type PaymentHoldStatus } from "../storage/paymentHolds.js";
+import { getReconciliationRun, listReconciliationRuns, type ReconciliationRunStatus } from "../storage/reconciliationRuns.js";
+import { listRefundsForSession } from "../storage/refunds.js";
+import {
+  createTenantRecord,
+  deactivateTenantRecord,
+  getTenantRecord,
+  listTenantRecords,
+  updateTenantRecord,
+  type TenantBillingDefaults,
+  type TenantRecord,
+  type TenantRecordInput
+} from "../storage/tenants.js";
+import {
+  getWebhookEvent,
+  listWebhookEvents,
+  type WebhookEventKind,
+  type WebhookEventStatus
+} from "../storage/webhookEvents.js";
+import { CredentialKeyError } from "../utils/envelope.js";
+import { replayCaymanNotification } from "../routes/webhooks.js";
+import { currentPrincipal, ensureSiteAccess, readSessionToken } from "./authController.js";
 
 const toOptionalTrimmedString = (value: unknown): string | undefined => {
   if (typeof value === "string") {
@@ -40,7 +142,11 @@ const respondError = (
   res.status(status).json({ error, ...(extra ?? {}) });
 };
 
-export const requireAdminSecret = (req: Request, res: Response, next: express.NextFunction): void => {
+/** Shared secrets identify nobody, so the console asks staff to type a name for the audit trail. */
+const sharedSecretActor = (req: Request): string =>
+  toOptionalTrimmedString((req.body as Record<string, unknown> | undefined)?.actor)?.slice(0, 100) ?? "admin";
+
+const requireAdminSecret = (req: Request, res: Response, next: express.NextFunction): void => {
   const { secrets } = getSettings();
   const adminSecret = toOptionalTrimmedString(secrets.admin);
 
@@ -120,6 +226,8 @@ export const requireAdminSecret = (req: Request, res: Response, next: express.Ne
   res.locals.adminWriteSecret = confirmedWriteSecret;
   res.locals.adminRequiresWriteSecret = requiresWriteSecret;
   res.locals.adminWriteSecretError = writeSecretError;
+  // The write secret has always unlocked everything; the read secret alone only ever allowed viewing.
+  res.locals.principal = sharedSecretPrincipal(sharedSecretActor(req), ROLE_PERMISSIONS[confirmedWriteSecret ? "owner" : "auditor"]);
 
   if (writeSecretError && needsWriteSecret && req.method === "GET") {
     next();
@@ -129,6 +237,90 @@ export const requireAdminSecret = (req: Request, res: Response, next: express.Ne
   next();
 };
 
+const rejectAdminRequest = (req: Request, res: Response, next: express.NextFunction, error: string): void => {
+  // GET requests continue so the config page can render a sign-in prompt; `requirePermission` stops the rest.
+  if (req.method === "GET") {
+    res.locals.adminAuthRequired = true;
+    res.locals.adminAuthError = error;
+    res.locals.adminRequiresWriteSecret = false;
+    next();
+    return;
+  }
+  respondError(res, 401, error);
+};
+
+/**
+ * Identifies the caller on every `/admin` route: an account session when a token or session cookie is
+ * sent, otherwise the shared `ADMIN_SECRET`/`ADMIN_WRITE_SECRET` while `LEGACY_SHARED_SECRETS` allows it.
+ * Routes then check what the caller may do with `requirePermission`.
+ */
+export const authenticateAdmin = async (req: Request, res: Response, next: express.NextFunction): Promise<void> => {
+  const token = readSessionToken(req);
+
+  if (token && isDatabaseConfigured()) {
+    try {
+      const principal = await authenticateToken(token);
+      res.locals.principal = principal;
+      res.locals.adminAuthRequired = false;
+      res.locals.adminAuthError = undefined;
+      res.locals.adminRequiresWriteSecret = false;
+      next();
+    } catch (error) {
+      if (error instanceof AdminAuthError) {
+        rejectAdminRequest(req, res, next, error.message);
+        return;
+      }
+      console.error("[admin] failed to authenticate session", error);
+      respondError(res, 500, "Unable to verify session. Check server logs for details.");
+    }
+    return;
+  }
+
+  if (getSettings().secrets.legacyEnabled) {
+    requireAdminSecret(req, res, next);
+    return;
+  }
+
+  rejectAdminRequest(req, res, next, "Sign in required");
+};
+
+/**
+ * For routes outside `/admin` (paylink signing) whose privileged options need pricing write access to the site.
+ * Resolves the principal that has it, so audit rows name who approved rather than a name from the body.
+ */
+export const pricingWriteAccess = async (req: Request, siteKey: string): Promise<Principal | undefined> => {
+  const token = readSessionToken(req);
+  if (token && isDatabaseConfigured()) {
+    try {
+      const principal = await authenticateToken(token);
+      return hasPermission(principal, "pricing:write") && canAccessSite(principal, siteKey) ? principal : undefined;
+    } catch (error) {
+      if (!(error instanceof AdminAuthError)) {
+        console.error("[admin] failed to authenticate session", error);
+      }
+      return undefined;
+    }
+  }
+
+  const { secrets } = getSettings();
+  if (!secrets.legacyEnabled) {
+    return undefined;
+  }
+
+  const writeSecret = toOptionalTrimmedString(secrets.adminWrite);
+  const expected = writeSecret ?? toOptionalTrimmedString(secrets.admin);
+
+  if (!expected) {
+    return undefined;
+  }
+
+  const provided = writeSecret
+    ? toOptionalTrimmedString(req.headers["x-admin-write-secret"])
+    : toOptionalTrimmedString(req.headers["x-admin-write-secret"]) ?? toOptionalTrimmedString(req.headers["x-admin-secret"]);
+
+  return provided === expected ? sharedSecretPrincipal("shared-secret", ROLE_PERMISSIONS.owner) : undefined;
+};
+
 const sanitizeInput = (value: string): string => value.trim();
 
 type RenderMode = "view" | "edit";
@@ -154,34 +346,31 @@ interface AdminConfigState {
   warning?: string;
   updatedAt?: string;
   defaults: FormValues;
+  maskedFields: SecretFormField[];
 }
 
-const applyConfigToEnv = (config: ApiConfig): void => {
-  process.env.CAYMAN_API_KEY = config.caymanApiKey;
-  process.env.CAYMAN_API_USERNAME = config.caymanApiUsername;
-  process.env.CAYMAN_API_PASSWORD = config.caymanApiPassword;
+const maskSecret = (value: string | undefined): string | undefined =>
+  value ? `${"*".repeat(Math.max(value.length - 4, 4))}${value.slice(-4)}` : undefined;
 
-  if (config.mindbodyApiKey) {
-    process.env.MINDBODY_API_KEY = config.mindbodyApiKey;
-  }
-  if (config.mindbodySourceName) {
-    process.env.MINDBODY_SOURCE_NAME = config.mindbodySourceName;
-  }
-  if (config.mindbodySourcePassword) {
-    process.env.MINDBODY_SOURCE_PASSWORD = config.mindbodySourcePassword;
-  }
-  if (config.mindbodySiteId) {
-    process.env.MINDBODY_SITE_ID = config.mindbodySiteId;
-  }
+/** Secrets are only ever sent back masked; the form posts the mask unchanged when a secret is left alone. */
+const SECRET_FIELDS = ["caymanApiKey", "caymanApiPassword", "mindbodyApiKey", "mindbodySourcePassword"] as const;
+
+type SecretFormField = (typeof SECRET_FIELDS)[number];
 
-  reloadEnv();
-  refreshSettings();
-  refreshMboClientFromEnv();
+const maskFormValues = (values: FormValues): FormValues => {
+  const masked = { ...values };
+  for (const field of SECRET_FIELDS) {
+    masked[field] = maskSecret(values[field]) ?? "";
+  }
+  return masked;
 };
 
+const unmaskSubmitted = (submitted: string, current: string | undefined): string =>
+  current && submitted === maskSecret(current) ? current : submitted;
+
 export const getAdminConfig = async (req: Request, res: Response): Promise<void> => {
   const settings = getSettings();
-  const defaultSiteKey = settings.mindbody.siteKey ?? settings.mindbody.siteIdString ?? "default";
+  const defaultSiteKey = defaultTenantSiteKey();
   const requestedSiteKey = typeof req.query.siteKey === "string" && req.query.siteKey.trim().length
     ? req.query.siteKey.trim()
     : defaultSiteKey;
@@ -195,15 +384,25 @@ export const getAdminConfig = async (req: Request, res: Response): Promise<void>
     return;
   }
 
+  const principal = currentPrincipal(res);
+  if (!hasPermission(principal, "config:read")) {
+    respondError(res, 403, "Your role does not allow this action", { permission: "config:read" });
+    return;
+  }
+  if (!ensureSiteAccess(res, requestedSiteKey)) {
+    return;
+  }
+
   let existingMessage: string | undefined;
   let existing: ApiConfig | undefined;
   let siteKey = requestedSiteKey;
 
   try {
     existing = await getApiConfig(siteKey);
-    if (!existing) {
+    // Only an unqualified visit may open the most recent config; a named site must never show another tenant's.
+    if (!existing && requestedSiteKey === defaultSiteKey) {
       const latest = await getLatestApiConfig();
-      if (latest) {
+      if (latest && canAccessSite(principal, latest.siteKey)) {
         existing = latest;
         siteKey = latest.siteKey;
       }
@@ -217,7 +416,8 @@ export const getAdminConfig = async (req: Request, res: Response): Promise<void>
   const writeSecretError = typeof res.locals.adminWriteSecretError === "string" ? res.locals.adminWriteSecretError : undefined;
   const requiresWriteSecret = Boolean(res.locals.adminRequiresWriteSecret);
   const hasWriteSecret = typeof res.locals.adminWriteSecret === "string" && res.locals.adminWriteSecret.length > 0;
-  const canEdit = !requiresWriteSecret || hasWriteSecret;
+  const canEdit =
+    principal?.kind === "account" ? hasPermission(principal, "config:write") : !requiresWriteSecret || hasWriteSecret;
   let mode: RenderMode;
 
   if (!hasExisting) {
@@ -261,11 +461,11 @@ export const getAdminConfig = async (req: Request, res: Response): Promise<void>
     mindbodySiteId: existing?.mindbodySiteId ?? envValues.mindbodySiteId
   };
 
-  const formValues = canEdit
+  const formValues = maskFormValues(canEdit
     ? storedValues
     : hasExisting
       ? blankValues
-      : envValues;
+      : envValues);
 
   const payload: AdminConfigState = {
     mode,
@@ -276,15 +476,22 @@ export const getAdminConfig = async (req: Request, res: Response): Promise<void>
     writeSecretError,
     warning: existingMessage,
     updatedAt: existing?.updatedAt ? existing.updatedAt.toISOString() : undefined,
-    defaults: formValues
+    defaults: formValues,
+    maskedFields: SECRET_FIELDS.slice()
   };
 
   res.json(payload);
 };
 
-export const saveAdminConfig = async (req: Request, res: Response): Promise<void> => {
+/** Makes a saved config live here at once; other instances pick it up when their registry cache expires. */
+const publishSavedConfig = (saved: ApiConfig): void => {
+  invalidateTenant(saved.siteKey);
+};
+
+/** The submitted form as a config row; a secret field still holding the mask from GET means "unchanged". */
+const resolveSubmittedConfig = async (req: Request): Promise<UpsertApiConfigInput> => {
   const siteKey = sanitizeInput(req.body.siteKey);
-  const data = {
+  const data: UpsertApiConfigInput = {
     siteKey,
     caymanApiKey: sanitizeInput(req.body.caymanApiKey),
     caymanApiUsername: sanitizeInput(req.body.caymanApiUsername),
@@ -295,24 +502,1846 @@ export const saveAdminConfig = async (req: Request, res: Response): Promise<void
     mindbodySiteId: sanitizeInput(req.body.mindbodySiteId)
   };
 
+  // Resolve masks against what the form was showing: the stored row, else the environment.
+  const existing = await getApiConfig(siteKey);
+  const { env: envSettings } = getSettings();
+  const current: Record<SecretFormField, string | undefined> = {
+    caymanApiKey: existing?.caymanApiKey ?? envSettings.cayman.apiKey,
+    caymanApiPassword: existing?.caymanApiPassword ?? envSettings.cayman.password,
+    mindbodyApiKey: existing?.mindbodyApiKey ?? envSettings.mindbodyApiKey,
+    mindbodySourcePassword: existing?.mindbodySourcePassword ?? envSettings.mindbodySourcePassword
+  };
+  for (const field of SECRET_FIELDS) {
+    data[field] = unmaskSubmitted(data[field], current[field]);
+  }
+  return data;
+};
+
+const isTruthyFlag = (value: unknown): boolean => value === true || value === "true" || value === "1";
+
+/** Tries the submitted credentials against Mindbody and Cayman without saving them. */
+export const testAdminConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const data = await resolveSubmittedConfig(req);
+    const checks = await verifyApiCredentials(data);
+    res.json({ status: checks.ok ? "ok" : "failed", siteKey: data.siteKey, checks });
+  } catch (error) {
+    console.error("[admin] failed to test API configuration", error);
+    respondError(res, 500, "Unable to test configuration. Check server logs for details.");
+  }
+};
+
+export const saveAdminConfig = async (req: Request, res: Response): Promise<void> => {
   const writeSecret = typeof req.body.writeSecret === "string" ? sanitizeInput(req.body.writeSecret) : "";
   const requiresWriteSecret = Boolean(res.locals.adminRequiresWriteSecret);
+  const verify = isTruthyFlag(req.body.verify);
+  const force = isTruthyFlag(req.body.force);
 
   try {
-    const saved = await upsertApiConfig(data);
-    applyConfigToEnv(saved);
+    const data = await resolveSubmittedConfig(req);
+    const actor = resolveAdminActor(res);
+
+    // Broken credentials would otherwise go live and only surface when the next payment fails.
+    const checks = verify ? await verifyApiCredentials(data) : undefined;
+    if (checks && !checks.ok) {
+      if (!force) {
+        respondError(res, 422, "Credentials failed verification; nothing was saved. Resubmit with force to save anyway.", {
+          siteKey: data.siteKey,
+          checks
+        });
+        return;
+      }
+      console.warn("[admin] Saving API configuration that failed verification", {
+        siteKey: data.siteKey,
+        actor,
+        mindbody: checks.mindbody.ok,
+        cayman: checks.cayman.ok
+      });
+    }
+
+    const saved = await upsertApiConfig(data, { action: "save", actor, sourceIp: req.ip });
+    publishSavedConfig(saved);
 
     res.json({
       status: "ok",
-      siteKey,
+      siteKey: data.siteKey,
       hasExisting: true,
       canEdit: !requiresWriteSecret || writeSecret.length > 0,
       requiresWriteSecret,
       updatedAt: saved.updatedAt ? saved.updatedAt.toISOString() : undefined,
+      checks,
       message: "Configuration saved successfully."
     });
   } catch (error) {
     console.error("[admin] failed to save API configuration", error);
     respondError(res, 500, "Unable to save configuration. Check server logs for details.");
   }
-};
\ No newline at end of file
+};
+const requireConfigHistoryStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Configuration history requires a configured database");
+    return false;
+  }
+  return true;
+};
+
+/** Version metadata only: who changed which fields, when and from where. Secret values are never returned. */
+export const listAdminConfigHistory = async (req: Request, res: Response): Promise<void> => {
+  if (!requireConfigHistoryStore(res)) {
+    return;
+  }
+
+  const siteKey = toOptionalTrimmedString(req.query.siteKey) ?? defaultTenantSiteKey();
+  if (!ensureSiteAccess(res, siteKey)) {
+    return;
+  }
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const versions = await listApiConfigVersions(siteKey, Number.isFinite(limit) ? limit : undefined);
+    res.json({ siteKey, versions });
+  } catch (error) {
+    console.error("[admin] failed to load configuration history", error);
+    respondError(res, 500, "Unable to load configuration history. Check server logs for details.");
+  }
+};
+
+/** Restores a prior version's values as a new version, so the rollback itself shows up in the history. */
+export const rollbackAdminConfig = async (req: Request, res: Response): Promise<void> => {
+  if (!requireConfigHistoryStore(res)) {
+    return;
+  }
+
+  const siteKey = toOptionalTrimmedString(req.body.siteKey) ?? "";
+  const version = Number(req.body.version);
+
+  try {
+    const snapshot = await getApiConfigVersionSnapshot(siteKey, version);
+    if (!snapshot) {
+      respondError(res, 404, "Configuration version not found", { siteKey, version });
+      return;
+    }
+
+    const actor = resolveAdminActor(res);
+    const checks = isTruthyFlag(req.body.verify) ? await verifyApiCredentials(snapshot.config) : undefined;
+    if (checks && !checks.ok && !isTruthyFlag(req.body.force)) {
+      respondError(res, 422, "Credentials in this version failed verification; nothing was restored.", { siteKey, version, checks });
+      return;
+    }
+
+    const saved = await upsertApiConfig(snapshot.config, {
+      action: "rollback",
+      actor,
+      sourceIp: req.ip,
+      rolledBackFrom: version
+    });
+    publishSavedConfig(saved);
+    console.info("[admin] API configuration rolled back", { siteKey, version, actor });
+
+    const [latest] = await listApiConfigVersions(siteKey, 1);
+    res.json({
+      status: "ok",
+      siteKey,
+      restoredVersion: version,
+      version: latest?.version,
+      checks,
+      updatedAt: saved.updatedAt ? saved.updatedAt.toISOString() : undefined
+    });
+  } catch (error) {
+    if (error instanceof CredentialKeyError) {
+      console.error("[admin] configuration version cannot be decrypted", { siteKey, version, keyId: error.keyId });
+      respondError(res, 409, "Configuration version is encrypted under a master key that is not loaded", { keyId: error.keyId });
+      return;
+    }
+    console.error("[admin] failed to roll back API configuration", error);
+    respondError(res, 500, "Unable to roll back configuration. Check server logs for details.");
+  }
+};
+
+const FULFILMENT_JOB_STATUSES: ReadonlyArray<FulfilmentJobStatus> = ["pending", "running", "succeeded", "dead"];
+
+const parsePositiveId = (value: unknown): number | undefined => {
+  const parsed = Number.parseInt(typeof value === "string" ? value : "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export const listAdminFulfilmentJobs = async (req: Request, res: Response): Promise<void> => {
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !FULFILMENT_JOB_STATUSES.includes(status as FulfilmentJobStatus)) {
+    respondError(res, 400, "Invalid status filter", { allowed: FULFILMENT_JOB_STATUSES });
+    return;
+  }
+
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const jobs = await listFulfilmentJobs({
+      status: status as FulfilmentJobStatus | undefined,
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    res.json({ jobs });
+  } catch (error) {
+    console.error("[admin] failed to list fulfilment jobs", error);
+    respondError(res, 500, "Unable to load fulfilment jobs. Check server logs for details.");
+  }
+};
+
+export const getAdminFulfilmentJob = async (req: Request, res: Response): Promise<void> => {
+  const jobId = parsePositiveId(req.params.id);
+  if (!jobId) {
+    respondError(res, 400, "Invalid job id");
+    return;
+  }
+
+  try {
+    const job = await getFulfilmentJob(jobId);
+    if (!job) {
+      respondError(res, 404, "Fulfilment job not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, job.siteKey)) {
+      return;
+    }
+
+    const session = await getSession(job.sessionId);
+    res.json({ job, session: session ?? null });
+  } catch (error) {
+    console.error("[admin] failed to load fulfilment job", error);
+    respondError(res, 500, "Unable to load fulfilment job. Check server logs for details.");
+  }
+};
+
+export const retryAdminFulfilmentJob = async (req: Request, res: Response): Promise<void> => {
+  const jobId = parsePositiveId(req.params.id);
+  if (!jobId) {
+    respondError(res, 400, "Invalid job id");
+    return;
+  }
+
+  try {
+    const existing = await getFulfilmentJob(jobId);
+    if (!existing) {
+      respondError(res, 404, "Fulfilment job not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, existing.siteKey)) {
+      return;
+    }
+
+    const outcome = await redriveFulfilmentJob(jobId, resolveAdminActor(res));
+    if (!outcome) {
+      respondError(res, 409, `Fulfilment job is ${existing.status} and cannot be retried`, { job: existing });
+      return;
+    }
+
+    const job = await getFulfilmentJob(jobId);
+    res.json({ status: "ok", outcome, job });
+  } catch (error) {
+    console.error("[admin] failed to retry fulfilment job", error);
+    respondError(res, 500, "Unable to retry fulfilment job. Check server logs for details.");
+  }
+};
+
+const SESSION_STATUSES: ReadonlyArray<SessionStatus> = Object.keys(SESSION_TRANSITIONS) as SessionStatus[];
+
+const parseDateQuery = (value: unknown): Date | null | undefined => {
+  const raw = toOptionalTrimmedString(value);
+  if (!raw) {
+    return undefined;
+  }
+
+  const parsed = new Date(raw);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/** Who is acting, for audit trails: the signed-in account's email, or the name typed in with a shared secret. */
+const resolveAdminActor = (res: Response): string => currentPrincipal(res)?.name ?? "admin";
+
+export const listAdminSessions = async (req: Request, res: Response): Promise<void> => {
+  const statuses = (toOptionalTrimmedString(req.query.status) ?? "")
+    .split(",")
+    .map((status) => status.trim().toLowerCase())
+    .filter(Boolean);
+  const invalidStatus = statuses.find((status) => !SESSION_STATUSES.includes(status as SessionStatus));
+  if (invalidStatus) {
+    respondError(res, 400, `Invalid status filter: ${invalidStatus}`, { allowed: SESSION_STATUSES });
+    return;
+  }
+
+  const createdFrom = parseDateQuery(req.query.from);
+  const createdTo = parseDateQuery(req.query.to);
+  if (createdFrom === null || createdTo === null) {
+    respondError(res, 400, "from and to must be ISO-8601 dates");
+    return;
+  }
+
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+  const offset = Number.parseInt(toOptionalTrimmedString(req.query.offset) ?? "", 10);
+
+  try {
+    const sessions = await searchSessions({
+      status: statuses.length ? (statuses as SessionStatus[]) : undefined,
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      email: toOptionalTrimmedString(req.query.email),
+      orderId: toOptionalTrimmedString(req.query.orderId),
+      transactionId: toOptionalTrimmedString(req.query.transactionId),
+      createdFrom,
+      createdTo,
+      limit: Number.isFinite(limit) ? limit : undefined,
+      offset: Number.isFinite(offset) ? offset : undefined
+    });
+    res.json({ sessions });
+  } catch (error) {
+    console.error("[admin] failed to search checkout sessions", error);
+    respondError(res, 500, "Unable to search checkout sessions. Check server logs for details.");
+  }
+};
+
+export const getAdminSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = await getSession(req.params.id);
+    if (!session) {
+      respondError(res, 404, "Checkout session not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, session.siteKey)) {
+      return;
+    }
+
+    const [events, fulfilmentJob, refunds] = await Promise.all([
+      getSessionHistory(session.id),
+      isDatabaseConfigured() ? getFulfilmentJobBySessionId(session.id) : Promise.resolve(undefined),
+      isDatabaseConfigured() ? listRefundsForSession(session.id) : Promise.resolve([])
+    ]);
+
+    res.json({ session, history: events, fulfilmentJob: fulfilmentJob ?? null, refunds });
+  } catch (error) {
+    console.error("[admin] failed to load checkout session", error);
+    respondError(res, 500, "Unable to load checkout session. Check server logs for details.");
+  }
+};
+
+export const retryAdminSessionFulfilment = async (req: Request, res: Response): Promise<void> => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Fulfilment retries require a configured database");
+    return;
+  }
+
+  try {
+    const session = await getSession(req.params.id);
+    if (!session) {
+      respondError(res, 404, "Checkout session not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, session.siteKey)) {
+      return;
+    }
+
+    if (isSettled(session) || session.reconciled) {
+      respondError(res, 409, "Checkout session is already settled", { session });
+      return;
+    }
+
+    const job = await getFulfilmentJobBySessionId(session.id);
+    if (job?.status === "running") {
+      respondError(res, 409, "A fulfilment attempt is already running", { job });
+      return;
+    }
+
+    if (!job && !session.cayman?.transactionId) {
+      respondError(res, 409, "No confirmed Cayman payment is recorded for this session", { session });
+      return;
+    }
+
+    const outcome = await retrySessionFulfilment(session, resolveAdminActor(res));
+    if (!outcome) {
+      respondError(res, 409, "Fulfilment job cannot be retried", { job });
+      return;
+    }
+
+    res.json({
+      status: "ok",
+      outcome,
+      session: (await getSession(session.id)) ?? session,
+      fulfilmentJob: (await getFulfilmentJobBySessionId(session.id)) ?? null
+    });
+  } catch (error) {
+    console.error("[admin] failed to retry checkout session fulfilment", error);
+    respondError(res, 500, "Unable to retry fulfilment. Check server logs for details.");
+  }
+};
+
+export const reconcileAdminSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const session = await getSession(req.params.id);
+    if (!session) {
+      respondError(res, 404, "Checkout session not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, session.siteKey)) {
+      return;
+    }
+
+    if (session.reconciled) {
+      respondError(res, 409, "Checkout session is already reconciled", { session });
+      return;
+    }
+
+    const note = toOptionalTrimmedString((req.body as Record<string, unknown> | undefined)?.note)?.slice(0, 1000);
+    const reconciled = await reconcileSession(session, resolveAdminActor(res), note);
+
+    res.json({ status: "ok", session: reconciled ?? session });
+  } catch (error) {
+    console.error("[admin] failed to reconcile checkout session", error);
+    respondError(res, 500, "Unable to reconcile checkout session. Check server logs for details.");
+  }
+};
+
+export interface AdminRefundHandlerDependencies {
+  refundService: RefundService;
+}
+
+const readIdempotencyKey = (req: Request): string | undefined =>
+  toOptionalTrimmedString(req.headers["idempotency-key"]) ??
+  toOptionalTrimmedString((req.body as Record<string, unknown> | undefined)?.idempotencyKey);
+
+export const createAdminRefundHandler = ({ refundService }: AdminRefundHandlerDependencies) =>
+  async (req: Request, res: Response): Promise<void> => {
+    if (!isDatabaseConfigured()) {
+      respondError(res, 503, "Refunds require a configured database");
+      return;
+    }
+
+    const idempotencyKey = readIdempotencyKey(req);
+    if (!idempotencyKey) {
+      respondError(res, 400, "An Idempotency-Key header or idempotencyKey field is required");
+      return;
+    }
+
+    const body = req.body as Record<string, unknown>;
+    const sessionId = toOptionalTrimmedString(body.sessionId);
+    const transactionId = toOptionalTrimmedString(body.transactionId);
+    if (!sessionId && !transactionId) {
+      respondError(res, 400, "sessionId or transactionId is required");
+      return;
+    }
+
+    const amount = body.amount === undefined || body.amount === "" ? undefined : Number(body.amount);
+
+    try {
+      // Accounts limited to some sites may only refund their own sessions.
+      if (currentPrincipal(res)?.siteKeys) {
+        const target = sessionId ? await getSession(sessionId) : await findSessionByTransactionId(transactionId as string);
+        if (target && !ensureSiteAccess(res, target.siteKey)) {
+          return;
+        }
+      }
+
+      const outcome = await refundService.refundSession({
+        sessionId,
+        transactionId,
+        amount,
+        reason: toOptionalTrimmedString(body.reason),
+        idempotencyKey: idempotencyKey.slice(0, 128),
+        actor: resolveAdminActor(res)
+      });
+
+      res.status(outcome.replayed ? 200 : 201).json({ status: "ok", ...outcome });
+    } catch (error) {
+      if (error instanceof RefundError) {
+        respondError(res, error.status, error.message, error.details);
+        return;
+      }
+
+      console.error("[admin] failed to refund checkout session", error);
+      respondError(res, 500, "Unable to process refund. Check server logs for details.");
+    }
+  };
+
+const PRICING_RULE_KINDS: ReadonlyArray<PricingRuleKind> = ["fixed_price", "percent_off", "amount_off"];
+
+const requirePricingStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Pricing rules require a configured database");
+    return false;
+  }
+  return true;
+};
+
+export const listAdminPricingRules = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePricingStore(res)) {
+    return;
+  }
+
+  try {
+    const rules = await listPricingRules(toOptionalTrimmedString(req.query.siteKey));
+    res.json({ rules });
+  } catch (error) {
+    console.error("[admin] failed to list pricing rules", error);
+    respondError(res, 500, "Unable to load pricing rules. Check server logs for details.");
+  }
+};
+
+export const createAdminPricingRule = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePricingStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const kind = toOptionalTrimmedString(body.kind) as PricingRuleKind | undefined;
+  if (!kind || !PRICING_RULE_KINDS.includes(kind)) {
+    respondError(res, 400, "Invalid rule kind", { allowed: PRICING_RULE_KINDS });
+    return;
+  }
+
+  const value = Number(body.value);
+  if (kind === "percent_off" && value > 100) {
+    respondError(res, 400, "percent_off value cannot exceed 100");
+    return;
+  }
+
+  const startsAt = parseDateQuery(body.startsAt);
+  const endsAt = parseDateQuery(body.endsAt);
+  if (startsAt === null || endsAt === null) {
+    respondError(res, 400, "startsAt and endsAt must be valid dates");
+    return;
+  }
+  if (startsAt && endsAt && endsAt.getTime() <= startsAt.getTime()) {
+    respondError(res, 400, "endsAt must be after startsAt");
+    return;
+  }
+
+  try {
+    const rule = await createPricingRule({
+      siteKey: toOptionalTrimmedString(body.siteKey) as string,
+      itemType: toOptionalTrimmedString(body.itemType),
+      itemId: toOptionalTrimmedString(body.itemId),
+      kind,
+      value,
+      minPrice: body.minPrice === undefined || body.minPrice === "" ? undefined : Number(body.minPrice),
+      startsAt,
+      endsAt,
+      note: toOptionalTrimmedString(body.note)?.slice(0, 255),
+      createdBy: resolveAdminActor(res)
+    });
+
+    console.info("[admin] Pricing rule created", { ruleId: rule.id, siteKey: rule.siteKey, createdBy: rule.createdBy });
+    res.status(201).json({ status: "ok", rule });
+  } catch (error) {
+    console.error("[admin] failed to create pricing rule", error);
+    respondError(res, 500, "Unable to create pricing rule. Check server logs for details.");
+  }
+};
+
+export const deactivateAdminPricingRule = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePricingStore(res)) {
+    return;
+  }
+
+  const ruleId = parsePositiveId(req.params.id);
+  if (!ruleId) {
+    respondError(res, 400, "Invalid pricing rule id");
+    return;
+  }
+
+  try {
+    const rule = await getPricingRule(ruleId);
+    if (!rule) {
+      respondError(res, 404, "Pricing rule not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, rule.siteKey)) {
+      return;
+    }
+
+    await deactivatePricingRule(ruleId);
+    console.info("[admin] Pricing rule deactivated", { ruleId, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", rule: (await getPricingRule(ruleId)) ?? rule });
+  } catch (error) {
+    console.error("[admin] failed to deactivate pricing rule", error);
+    respondError(res, 500, "Unable to deactivate pricing rule. Check server logs for details.");
+  }
+};
+
+export const listAdminPriceOverrides = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePricingStore(res)) {
+    return;
+  }
+
+  try {
+    const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+    const overrides = await listPriceOverrides({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      ruleId: parsePositiveId(req.query.ruleId),
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    res.json({ overrides });
+  } catch (error) {
+    console.error("[admin] failed to list price overrides", error);
+    respondError(res, 500, "Unable to load price overrides. Check server logs for details.");
+  }
+};
+
+const PROMO_KINDS: ReadonlyArray<PromoKind> = ["percent_off", "amount_off"];
+
+const requirePromoStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Promo codes require a configured database");
+    return false;
+  }
+  return true;
+};
+
+const parseOptionalCount = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export const listAdminPromoCodes = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePromoStore(res)) {
+    return;
+  }
+
+  try {
+    const promoCodes = await listPromoCodes(toOptionalTrimmedString(req.query.siteKey));
+    res.json({ promoCodes });
+  } catch (error) {
+    console.error("[admin] failed to list promo codes", error);
+    respondError(res, 500, "Unable to load promo codes. Check server logs for details.");
+  }
+};
+
+export const getAdminPromoCode = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePromoStore(res)) {
+    return;
+  }
+
+  const promoCodeId = parsePositiveId(req.params.id);
+  if (!promoCodeId) {
+    respondError(res, 400, "Invalid promo code id");
+    return;
+  }
+
+  try {
+    const promoCode = await getPromoCode(promoCodeId);
+    if (!promoCode) {
+      respondError(res, 404, "Promo code not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, promoCode.siteKey)) {
+      return;
+    }
+
+    const redemptions = await listPromoRedemptions(promoCodeId);
+    res.json({ promoCode, redemptions });
+  } catch (error) {
+    console.error("[admin] failed to load promo code", error);
+    respondError(res, 500, "Unable to load promo code. Check server logs for details.");
+  }
+};
+
+export const createAdminPromoCode = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePromoStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const kind = toOptionalTrimmedString(body.kind) as PromoKind | undefined;
+  if (!kind || !PROMO_KINDS.includes(kind)) {
+    respondError(res, 400, "Invalid promo kind", { allowed: PROMO_KINDS });
+    return;
+  }
+
+  const value = Number(body.value);
+  if (kind === "percent_off" && value >= 100) {
+    respondError(res, 400, "percent_off value must be below 100");
+    return;
+  }
+
+  const startsAt = parseDateQuery(body.startsAt);
+  const endsAt = parseDateQuery(body.endsAt);
+  if (startsAt === null || endsAt === null) {
+    respondError(res, 400, "startsAt and endsAt must be valid dates");
+    return;
+  }
+  if (startsAt && endsAt && endsAt.getTime() <= startsAt.getTime()) {
+    respondError(res, 400, "endsAt must be after startsAt");
+    return;
+  }
+
+  const siteKey = toOptionalTrimmedString(body.siteKey) as string;
+  const code = toOptionalTrimmedString(body.code) as string;
+
+  try {
+    if (await findPromoCode(siteKey, code)) {
+      respondError(res, 409, "Promo code already exists for this site");
+      return;
+    }
+
+    const promoCode = await createPromoCode({
+      code,
+      siteKey,
+      kind,
+      value,
+      itemType: toOptionalTrimmedString(body.itemType),
+      itemId: toOptionalTrimmedString(body.itemId),
+      firstPurchaseOnly: body.firstPurchaseOnly === true || body.firstPurchaseOnly === "true",
+      maxRedemptions: parseOptionalCount(body.maxRedemptions),
+      maxPerEmail: parseOptionalCount(body.maxPerEmail),
+      startsAt,
+      endsAt,
+      note: toOptionalTrimmedString(body.note)?.slice(0, 255),
+      createdBy: resolveAdminActor(res)
+    });
+
+    console.info("[admin] Promo code created", { promoCodeId: promoCode.id, code: promoCode.code, siteKey });
+    res.status(201).json({ status: "ok", promoCode });
+  } catch (error) {
+    console.error("[admin] failed to create promo code", error);
+    respondError(res, 500, "Unable to create promo code. Check server logs for details.");
+  }
+};
+
+export const deactivateAdminPromoCode = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePromoStore(res)) {
+    return;
+  }
+
+  const promoCodeId = parsePositiveId(req.params.id);
+  if (!promoCodeId) {
+    respondError(res, 400, "Invalid promo code id");
+    return;
+  }
+
+  try {
+    const promoCode = await getPromoCode(promoCodeId);
+    if (!promoCode) {
+      respondError(res, 404, "Promo code not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, promoCode.siteKey)) {
+      return;
+    }
+
+    await deactivatePromoCode(promoCodeId);
+    console.info("[admin] Promo code deactivated", { promoCodeId, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", promoCode: (await getPromoCode(promoCodeId)) ?? promoCode });
+  } catch (error) {
+    console.error("[admin] failed to deactivate promo code", error);
+    respondError(res, 500, "Unable to deactivate promo code. Check server logs for details.");
+  }
+};
+
+const TENANT_BILLING_FIELDS: ReadonlyArray<keyof TenantBillingDefaults> = [
+  "street1",
+  "street2",
+  "city",
+  "state",
+  "zip",
+  "country",
+  "phone"
+];
+
+const requireTenantStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Tenant management requires a configured database");
+    return false;
+  }
+  return true;
+};
+
+/** Staff passwords and webhook secrets are never returned; API keys only by their last four characters. */
+const toAdminTenant = ({ staffPassword, webhookSecret, mindbodyApiKey, ...tenant }: TenantRecord) => ({
+  ...tenant,
+  mindbodyApiKey: maskSecret(mindbodyApiKey),
+  hasStaffPassword: Boolean(staffPassword),
+  hasWebhookSecret: Boolean(webhookSecret)
+});
+
+const parseTenantBilling = (value: unknown): TenantBillingDefaults | undefined => {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const source = value as Record<string, unknown>;
+  const billing: TenantBillingDefaults = {};
+  for (const field of TENANT_BILLING_FIELDS) {
+    const entry = toOptionalTrimmedString(source[field]);
+    if (entry) {
+      billing[field] = field === "country" ? entry.toUpperCase() : entry;
+    }
+  }
+  return Object.keys(billing).length > 0 ? billing : undefined;
+};
+
+/** Fields left out of the body keep their current value; an empty `staffPassword` or `webhookSecret` never clears a stored one. */
+const buildTenantInput = (siteKey: string, body: Record<string, unknown>, current?: TenantRecord): TenantRecordInput => {
+  const customTenderId = Number.parseInt(String(body.customTenderId ?? ""), 10);
+
+  return {
+    siteKey,
+    label: "label" in body ? toOptionalTrimmedString(body.label) : current?.label,
+    mindbodySiteId: toOptionalTrimmedString(body.mindbodySiteId) ?? current?.mindbodySiteId ?? "",
+    mindbodyApiKey: toOptionalTrimmedString(body.mindbodyApiKey) ?? current?.mindbodyApiKey ?? "",
+    staffUsername: "staffUsername" in body ? toOptionalTrimmedString(body.staffUsername) : current?.staffUsername,
+    staffPassword: toOptionalTrimmedString(body.staffPassword) ?? current?.staffPassword,
+    customTenderId: "customTenderId" in body
+      ? (Number.isFinite(customTenderId) ? customTenderId : undefined)
+      : current?.customTenderId,
+    currency: "currency" in body ? toOptionalTrimmedString(body.currency)?.toUpperCase() : current?.currency,
+    defaultServiceId: "defaultServiceId" in body ? toOptionalTrimmedString(body.defaultServiceId) : current?.defaultServiceId,
+    billing: "billing" in body ? parseTenantBilling(body.billing) : current?.billing,
+    webhookSecret: toOptionalTrimmedString(body.webhookSecret) ?? current?.webhookSecret
+  };
+};
+
+export const listAdminTenants = async (req: Request, res: Response): Promise<void> => {
+  if (!requireTenantStore(res)) {
+    return;
+  }
+
+  try {
+    const tenants = await listTenantRecords(toOptionalTrimmedString(req.query.includeInactive) === "true");
+    const principal = currentPrincipal(res);
+    res.json({ tenants: tenants.filter((tenant) => canAccessSite(principal, tenant.siteKey)).map(toAdminTenant) });
+  } catch (error) {
+    console.error("[admin] failed to list tenants", error);
+    respondError(res, 500, "Unable to load tenants. Check server logs for details.");
+  }
+};
+
+export const getAdminTenant = async (req: Request, res: Response): Promise<void> => {
+  if (!requireTenantStore(res)) {
+    return;
+  }
+
+  try {
+    const tenant = await getTenantRecord(req.params.siteKey);
+    if (!tenant) {
+      respondError(res, 404, "Tenant not found");
+      return;
+    }
+    res.json({ tenant: toAdminTenant(tenant) });
+  } catch (error) {
+    console.error("[admin] failed to load tenant", error);
+    respondError(res, 500, "Unable to load tenant. Check server logs for details.");
+  }
+};
+
+export const createAdminTenant = async (req: Request, res: Response): Promise<void> => {
+  if (!requireTenantStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const siteKey = toOptionalTrimmedString(body.siteKey) as string;
+
+  try {
+    const tenant = await createTenantRecord(buildTenantInput(siteKey, body));
+    if (!tenant) {
+      respondError(res, 409, "A tenant with this site key already exists");
+      return;
+    }
+
+    // Cached lookups by Mindbody site id may now resolve to this tenant, so drop them all.
+    invalidateTenant();
+    console.info("[admin] Tenant created", { siteKey, actor: resolveAdminActor(res) });
+    res.status(201).json({ status: "ok", tenant: toAdminTenant(tenant) });
+  } catch (error) {
+    console.error("[admin] failed to create tenant", error);
+    respondError(res, 500, "Unable to create tenant. Check server logs for details.");
+  }
+};
+
+export const updateAdminTenant = async (req: Request, res: Response): Promise<void> => {
+  if (!requireTenantStore(res)) {
+    return;
+  }
+
+  const siteKey = req.params.siteKey;
+
+  try {
+    const current = await getTenantRecord(siteKey);
+    if (!current) {
+      respondError(res, 404, "Tenant not found");
+      return;
+    }
+
+    const tenant = await updateTenantRecord(buildTenantInput(siteKey, req.body as Record<string, unknown>, current));
+    invalidateTenant();
+    console.info("[admin] Tenant updated", { siteKey, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", tenant: toAdminTenant(tenant ?? current) });
+  } catch (error) {
+    console.error("[admin] failed to update tenant", error);
+    respondError(res, 500, "Unable to update tenant. Check server logs for details.");
+  }
+};
+
+export const deactivateAdminTenant = async (req: Request, res: Response): Promise<void> => {
+  if (!requireTenantStore(res)) {
+    return;
+  }
+
+  const siteKey = req.params.siteKey;
+
+  try {
+    const tenant = await getTenantRecord(siteKey);
+    if (!tenant) {
+      respondError(res, 404, "Tenant not found");
+      return;
+    }
+
+    await deactivateTenantRecord(siteKey);
+    invalidateTenant();
+    console.info("[admin] Tenant deactivated", { siteKey, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", tenant: toAdminTenant((await getTenantRecord(siteKey)) ?? tenant) });
+  } catch (error) {
+    console.error("[admin] failed to deactivate tenant", error);
+    respondError(res, 500, "Unable to deactivate tenant. Check server logs for details.");
+  }
+};
+
+const requireAccountStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Admin accounts require a configured database");
+    return false;
+  }
+  return true;
+};
+
+/** `null`/empty clears the restriction (every tenant); `undefined` leaves it unchanged. */
+const parseSiteKeys = (value: unknown): string[] | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const list = (Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [])
+    .map((entry) => toOptionalTrimmedString(entry))
+    .filter((entry): entry is string => Boolean(entry));
+  return list.length ? [...new Set(list)] : null;
+};
+
+// Owners are the only accounts that can manage accounts, so the last one may not be demoted or removed.
+const wouldRemoveLastOwner = async (current: AdminUser, next: { role?: AdminRole; active?: boolean }): Promise<boolean> =>
+  current.role === "owner" &&
+  current.active &&
+  ((next.role !== undefined && next.role !== "owner") || next.active === false) &&
+  (await countActiveOwners()) <= 1;
+
+export const listAdminAccounts = async (req: Request, res: Response): Promise<void> => {
+  if (!requireAccountStore(res)) {
+    return;
+  }
+
+  try {
+    const users = await listAdminUsers(toOptionalTrimmedString(req.query.includeInactive) === "true");
+    res.json({ users });
+  } catch (error) {
+    console.error("[admin] failed to list admin accounts", error);
+    respondError(res, 500, "Unable to load admin accounts. Check server logs for details.");
+  }
+};
+
+export const createAdminAccount = async (req: Request, res: Response): Promise<void> => {
+  if (!requireAccountStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const email = toOptionalTrimmedString(body.email) as string;
+
+  try {
+    const user = await createAdminUser({
+      email,
+      displayName: toOptionalTrimmedString(body.displayName),
+      passwordHash: await hashPassword(String(body.password)),
+      role: body.role as AdminRole,
+      siteKeys: parseSiteKeys(body.siteKeys) ?? undefined
+    });
+    if (!user) {
+      respondError(res, 409, "An account with this email already exists");
+      return;
+    }
+
+    console.info("[admin] Admin account created", { userId: user.id, role: user.role, actor: resolveAdminActor(res) });
+    res.status(201).json({ status: "ok", user });
+  } catch (error) {
+    console.error("[admin] failed to create admin account", error);
+    respondError(res, 500, "Unable to create admin account. Check server logs for details.");
+  }
+};
+
+/** Changing the role, sites or password signs the account out everywhere so the change applies at once. */
+export const updateAdminAccount = async (req: Request, res: Response): Promise<void> => {
+  if (!requireAccountStore(res)) {
+    return;
+  }
+
+  const userId = parsePositiveId(req.params.id);
+  if (!userId) {
+    respondError(res, 400, "Invalid account id");
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+
+  try {
+    const current = await getAdminUser(userId);
+    if (!current) {
+      respondError(res, 404, "Admin account not found");
+      return;
+    }
+
+    const role = body.role === undefined ? undefined : (body.role as AdminRole);
+    const active = body.active === undefined ? undefined : body.active === true || body.active === "true";
+    if (await wouldRemoveLastOwner(current, { role, active })) {
+      respondError(res, 409, "At least one active owner account is required");
+      return;
+    }
+
+    const password = typeof body.password === "string" && body.password.length ? body.password : undefined;
+    const siteKeys = parseSiteKeys(body.siteKeys);
+    const user = await updateAdminUser(userId, {
+      displayName: "displayName" in body ? toOptionalTrimmedString(body.displayName) ?? "" : undefined,
+      role,
+      siteKeys,
+      passwordHash: password ? await hashPassword(password) : undefined,
+      active
+    });
+
+    const revoked = role !== undefined || siteKeys !== undefined || password || active === false
+      ? await revokeAdminSessionsForUser(userId)
+      : 0;
+    console.info("[admin] Admin account updated", { userId, revokedSessions: revoked, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", user: user ?? current, revokedSessions: revoked });
+  } catch (error) {
+    console.error("[admin] failed to update admin account", error);
+    respondError(res, 500, "Unable to update admin account. Check server logs for details.");
+  }
+};
+
+/** Revokes one employee's access without touching anyone else's: the account is disabled and its sessions end. */
+export const deactivateAdminAccount = async (req: Request, res: Response): Promise<void> => {
+  if (!requireAccountStore(res)) {
+    return;
+  }
+
+  const userId = parsePositiveId(req.params.id);
+  if (!userId) {
+    respondError(res, 400, "Invalid account id");
+    return;
+  }
+
+  try {
+    const current = await getAdminUser(userId);
+    if (!current) {
+      respondError(res, 404, "Admin account not found");
+      return;
+    }
+    if (await wouldRemoveLastOwner(current, { active: false })) {
+      respondError(res, 409, "At least one active owner account is required");
+      return;
+    }
+
+    const user = await updateAdminUser(userId, { active: false });
+    const revoked = await revokeAdminSessionsForUser(userId);
+    console.info("[admin] Admin account deactivated", { userId, revokedSessions: revoked, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", user: user ?? current, revokedSessions: revoked });
+  } catch (error) {
+    console.error("[admin] failed to deactivate admin account", error);
+    respondError(res, 500, "Unable to deactivate admin account. Check server logs for details.");
+  }
+};
+
+const requireApiKeyStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "API keys require a configured database");
+    return false;
+  }
+  return true;
+};
+
+const parseApiKeyScopes = (value: unknown): ApiKeyScope[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const list = (Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [])
+    .map((entry) => toOptionalTrimmedString(entry))
+    .filter((entry): entry is string => Boolean(entry));
+  return [...new Set(list)] as ApiKeyScope[];
+};
+
+/** `null`/empty falls back to `API_KEY_RATE_LIMIT_PER_MINUTE`; `undefined` leaves it unchanged. */
+const parseRateLimit = (value: unknown): number | null | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const loadScopedApiKey = async (req: Request, res: Response) => {
+  const apiKeyId = parsePositiveId(req.params.id);
+  if (!apiKeyId) {
+    respondError(res, 400, "Invalid API key id");
+    return undefined;
+  }
+
+  const apiKey = await getApiKey(apiKeyId);
+  if (!apiKey) {
+    respondError(res, 404, "API key not found");
+    return undefined;
+  }
+  return ensureSiteAccess(res, apiKey.siteKey) ? apiKey : undefined;
+};
+
+export const listAdminApiKeys = async (req: Request, res: Response): Promise<void> => {
+  if (!requireApiKeyStore(res)) {
+    return;
+  }
+
+  try {
+    const apiKeys = await listApiKeys({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      includeInactive: toOptionalTrimmedString(req.query.includeInactive) === "true"
+    });
+    const principal = currentPrincipal(res);
+    res.json({ apiKeys: apiKeys.filter((apiKey) => canAccessSite(principal, apiKey.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list API keys", error);
+    respondError(res, 500, "Unable to load API keys. Check server logs for details.");
+  }
+};
+
+/** The key itself is in this response only; afterwards it is identified by its prefix. */
+export const createAdminApiKey = async (req: Request, res: Response): Promise<void> => {
+  if (!requireApiKeyStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const siteKey = toOptionalTrimmedString(body.siteKey) as string;
+
+  try {
+    const issued = await issueApiKey({
+      siteKey,
+      name: toOptionalTrimmedString(body.name) as string,
+      scopes: parseApiKeyScopes(body.scopes) ?? [],
+      rateLimitPerMinute: parseRateLimit(body.rateLimitPerMinute) ?? undefined,
+      createdBy: resolveAdminActor(res)
+    });
+
+    console.info("[admin] API key created", {
+      siteKey,
+      apiKeyId: issued.key.id,
+      prefix: issued.key.prefix,
+      scopes: issued.key.scopes,
+      actor: resolveAdminActor(res)
+    });
+    res.status(201).json({ status: "ok", apiKey: issued.key, key: issued.token });
+  } catch (error) {
+    console.error("[admin] failed to create API key", error);
+    respondError(res, 500, "Unable to create API key. Check server logs for details.");
+  }
+};
+
+export const updateAdminApiKey = async (req: Request, res: Response): Promise<void> => {
+  if (!requireApiKeyStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+
+  try {
+    const current = await loadScopedApiKey(req, res);
+    if (!current) {
+      return;
+    }
+
+    const apiKey = await updateApiKey(current.id, {
+      name: toOptionalTrimmedString(body.name),
+      scopes: parseApiKeyScopes(body.scopes),
+      rateLimitPerMinute: parseRateLimit(body.rateLimitPerMinute)
+    });
+    console.info("[admin] API key updated", { apiKeyId: current.id, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", apiKey: apiKey ?? current });
+  } catch (error) {
+    console.error("[admin] failed to update API key", error);
+    respondError(res, 500, "Unable to update API key. Check server logs for details.");
+  }
+};
+
+/** Issues a replacement with the same scopes; the old key keeps working for `graceMinutes` (default 60) so callers can switch over. */
+export const rotateAdminApiKey = async (req: Request, res: Response): Promise<void> => {
+  if (!requireApiKeyStore(res)) {
+    return;
+  }
+
+  const graceMinutes = Number.parseInt(String(req.body?.graceMinutes ?? ""), 10);
+
+  try {
+    const current = await loadScopedApiKey(req, res);
+    if (!current) {
+      return;
+    }
+
+    const issued = await rotateIssuedApiKey(
+      current,
+      Number.isFinite(graceMinutes) && graceMinutes >= 0 ? graceMinutes : 60,
+      resolveAdminActor(res)
+    );
+    if (!issued) {
+      respondError(res, 409, "API key is revoked or expired and cannot be rotated");
+      return;
+    }
+
+    console.info("[admin] API key rotated", {
+      siteKey: current.siteKey,
+      apiKeyId: issued.key.id,
+      rotatedFromId: current.id,
+      actor: resolveAdminActor(res)
+    });
+    res.status(201).json({
+      status: "ok",
+      apiKey: issued.key,
+      key: issued.token,
+      previous: (await getApiKey(current.id)) ?? current
+    });
+  } catch (error) {
+    console.error("[admin] failed to rotate API key", error);
+    respondError(res, 500, "Unable to rotate API key. Check server logs for details.");
+  }
+};
+
+export const revokeAdminApiKey = async (req: Request, res: Response): Promise<void> => {
+  if (!requireApiKeyStore(res)) {
+    return;
+  }
+
+  try {
+    const current = await loadScopedApiKey(req, res);
+    if (!current) {
+      return;
+    }
+
+    await revokeApiKey(current.id);
+    console.info("[admin] API key revoked", { siteKey: current.siteKey, apiKeyId: current.id, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", apiKey: (await getApiKey(current.id)) ?? current });
+  } catch (error) {
+    console.error("[admin] failed to revoke API key", error);
+    respondError(res, 500, "Unable to revoke API key. Check server logs for details.");
+  }
+};
+
+const PAYMENT_ALERT_STATUSES: PaymentAlertStatus[] = ["open", "resolved"];
+
+const requirePaymentAlertStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Payment alerts require a configured database");
+    return false;
+  }
+  return true;
+};
+
+export const listAdminPaymentAlerts = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentAlertStore(res)) {
+    return;
+  }
+
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !PAYMENT_ALERT_STATUSES.includes(status as PaymentAlertStatus)) {
+    respondError(res, 400, `Invalid status filter: ${status}`, { allowed: PAYMENT_ALERT_STATUSES });
+    return;
+  }
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const alerts = await listPaymentAlerts({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      status: status as PaymentAlertStatus | undefined,
+      sessionId: toOptionalTrimmedString(req.query.sessionId),
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    const principal = currentPrincipal(res);
+    res.json({ alerts: alerts.filter((alert) => canAccessSite(principal, alert.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list payment alerts", error);
+    respondError(res, 500, "Unable to load payment alerts. Check server logs for details.");
+  }
+};
+
+/** Closes an alert once someone has checked the transaction against Cayman and the session; it is kept for audit. */
+export const resolveAdminPaymentAlert = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentAlertStore(res)) {
+    return;
+  }
+
+  const alertId = parsePositiveId(req.params.id);
+  if (!alertId) {
+    respondError(res, 400, "Invalid payment alert id");
+    return;
+  }
+
+  try {
+    const alert = await getPaymentAlert(alertId);
+    if (!alert) {
+      respondError(res, 404, "Payment alert not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, alert.siteKey)) {
+      return;
+    }
+
+    const actor = resolveAdminActor(res);
+    const resolved = await resolvePaymentAlert(alertId, actor, toOptionalTrimmedString((req.body as Record<string, unknown>).note));
+    if (!resolved) {
+      respondError(res, 409, "Payment alert is already resolved");
+      return;
+    }
+
+    console.info("[admin] payment alert resolved", { siteKey: alert.siteKey, alertId, sessionId: alert.sessionId, actor });
+    res.json({ status: "ok", alert: (await getPaymentAlert(alertId)) ?? alert });
+  } catch (error) {
+    console.error("[admin] failed to resolve payment alert", error);
+    respondError(res, 500, "Unable to resolve payment alert. Check server logs for details.");
+  }
+};
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ["received", "processed", "rejected", "error"];
+const WEBHOOK_EVENT_KINDS: WebhookEventKind[] = ["notification", "event", "vault", "subscription", "authorization"];
+
+const requireWebhookEventStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "The webhook event log requires a configured database");
+    return false;
+  }
+  return true;
+};
+
+const loadScopedWebhookEvent = async (req: Request, res: Response) => {
+  const eventId = parsePositiveId(req.params.id);
+  if (!eventId) {
+    respondError(res, 400, "Invalid webhook event id");
+    return undefined;
+  }
+
+  const event = await getWebhookEvent(eventId);
+  if (!event) {
+    respondError(res, 404, "Webhook event not found");
+    return undefined;
+  }
+  return ensureSiteAccess(res, event.siteKey) ? event : undefined;
+};
+
+export const listAdminWebhookEvents = async (req: Request, res: Response): Promise<void> => {
+  if (!requireWebhookEventStore(res)) {
+    return;
+  }
+
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+    respondError(res, 400, `Invalid status filter: ${status}`, { allowed: WEBHOOK_EVENT_STATUSES });
+    return;
+  }
+  const kind = toOptionalTrimmedString(req.query.kind)?.toLowerCase();
+  if (kind && !WEBHOOK_EVENT_KINDS.includes(kind as WebhookEventKind)) {
+    respondError(res, 400, `Invalid kind filter: ${kind}`, { allowed: WEBHOOK_EVENT_KINDS });
+    return;
+  }
+
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+  const offset = Number.parseInt(toOptionalTrimmedString(req.query.offset) ?? "", 10);
+
+  try {
+    const events = await listWebhookEvents({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      sessionId: toOptionalTrimmedString(req.query.sessionId),
+      transactionId: toOptionalTrimmedString(req.query.transactionId),
+      status: status as WebhookEventStatus | undefined,
+      kind: kind as WebhookEventKind | undefined,
+      limit: Number.isFinite(limit) ? limit : undefined,
+      offset: Number.isFinite(offset) ? offset : undefined
+    });
+    const principal = currentPrincipal(res);
+    res.json({ events: events.filter((event) => canAccessSite(principal, event.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list webhook events", error);
+    respondError(res, 500, "Unable to load webhook events. Check server logs for details.");
+  }
+};
+
+export const getAdminWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+  if (!requireWebhookEventStore(res)) {
+    return;
+  }
+
+  try {
+    const event = await loadScopedWebhookEvent(req, res);
+    if (event) {
+      res.json({ event });
+    }
+  } catch (error) {
+    console.error("[admin] failed to load webhook event", error);
+    respondError(res, 500, "Unable to load webhook event. Check server logs for details.");
+  }
+};
+
+/** Session state still decides what happens: replaying a notification for a paid session changes nothing. */
+export const replayAdminWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+  if (!requireWebhookEventStore(res)) {
+    return;
+  }
+
+  try {
+    const original = await loadScopedWebhookEvent(req, res);
+    if (!original) {
+      return;
+    }
+    if (original.kind !== "notification") {
+      respondError(res, 409, "Only /webhook/cayman notifications can be replayed", { kind: original.kind });
+      return;
+    }
+
+    const actor = resolveAdminActor(res);
+    const { event, result } = await replayCaymanNotification(original, actor);
+    console.info("[admin] webhook event replayed", {
+      siteKey: original.siteKey,
+      eventId: original.id,
+      replayId: event.id,
+      outcome: result.status,
+      actor
+    });
+    res.json({ status: "ok", result, event });
+  } catch (error) {
+    console.error("[admin] failed to replay webhook event", error);
+    respondError(res, 500, "Unable to replay webhook event. Check server logs for details.");
+  }
+};
+
+const RECONCILIATION_RUN_STATUSES: ReconciliationRunStatus[] = ["running", "completed", "failed"];
+
+const requireReconciliationStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Reconciliation requires a configured database");
+    return false;
+  }
+  return true;
+};
+
+export const listAdminReconciliationRuns = async (req: Request, res: Response): Promise<void> => {
+  if (!requireReconciliationStore(res)) {
+    return;
+  }
+
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !RECONCILIATION_RUN_STATUSES.includes(status as ReconciliationRunStatus)) {
+    respondError(res, 400, `Invalid status filter: ${status}`, { allowed: RECONCILIATION_RUN_STATUSES });
+    return;
+  }
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const runs = await listReconciliationRuns({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      status: status as ReconciliationRunStatus | undefined,
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    const principal = currentPrincipal(res);
+    res.json({ runs: runs.filter((run) => canAccessSite(principal, run.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list reconciliation runs", error);
+    respondError(res, 500, "Unable to load reconciliation runs. Check server logs for details.");
+  }
+};
+
+export const getAdminReconciliationRun = async (req: Request, res: Response): Promise<void> => {
+  if (!requireReconciliationStore(res)) {
+    return;
+  }
+
+  const runId = parsePositiveId(req.params.id);
+  if (!runId) {
+    respondError(res, 400, "Invalid reconciliation run id");
+    return;
+  }
+
+  try {
+    const run = await getReconciliationRun(runId);
+    if (!run) {
+      respondError(res, 404, "Reconciliation run not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, run.siteKey)) {
+      return;
+    }
+    res.json({ run });
+  } catch (error) {
+    console.error("[admin] failed to load reconciliation run", error);
+    respondError(res, 500, "Unable to load reconciliation run. Check server logs for details.");
+  }
+};
+
+/** Runs on demand and waits for the report; the nightly schedule is unaffected. */
+export const createAdminReconciliationRun = async (req: Request, res: Response): Promise<void> => {
+  if (!requireReconciliationStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const siteKey = toOptionalTrimmedString(body.siteKey) as string;
+  const from = toOptionalTrimmedString(body.from) as string;
+  const to = toOptionalTrimmedString(body.to) ?? from;
+  const actor = resolveAdminActor(res);
+
+  try {
+    const run = await runReconciliation(siteKey, { from, to }, actor);
+    console.info("[admin] reconciliation run", { siteKey, from, to, runId: run?.id, actor });
+    res.status(201).json({ run });
+  } catch (error) {
+    if (error instanceof ReconciliationWindowError) {
+      respondError(res, 400, error.message);
+      return;
+    }
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, error.message);
+      return;
+    }
+    console.error("[admin] reconciliation run failed", error);
+    respondError(res, 502, "Reconciliation failed. The run is recorded as failed; check server logs for details.");
+  }
+};
+
+const yesterdayUtc = (): string => new Date(Date.now() - 86_400_000).toISOString().slice(0, 10);
+
+/** `format=csv` (the default) downloads a file; `format=json` returns the same rows as JSON. */
+export const exportAdminPayments = async (req: Request, res: Response): Promise<void> => {
+  const format = (toOptionalTrimmedString(req.query.format) ?? "csv").toLowerCase();
+  if (format !== "csv" && format !== "json") {
+    respondError(res, 400, `Invalid format: ${format}`, { allowed: ["csv", "json"] });
+    return;
+  }
+
+  const siteKey = toOptionalTrimmedString(req.query.siteKey) ?? defaultTenantSiteKey();
+  const from = toOptionalTrimmedString(req.query.from) ?? yesterdayUtc();
+  const to = toOptionalTrimmedString(req.query.to) ?? from;
+
+  try {
+    const report = await buildPaymentExport(siteKey, { from, to });
+    console.info("[admin] payment export", { siteKey, from, to, format, rows: report.payments.length, actor: resolveAdminActor(res) });
+
+    if (format === "json") {
+      res.json(report);
+      return;
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="payments-${report.siteKey}-${from}-${to}.csv"`);
+    res.send(paymentExportToCsv(report.payments));
+  } catch (error) {
+    if (error instanceof PaymentExportError) {
+      respondError(res, 400, error.message);
+      return;
+    }
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, error.message);
+      return;
+    }
+    console.error("[admin] payment export failed", error);
+    respondError(res, 500, "Unable to export payments. Check server logs for details.");
+  }
+};
+
+const MEMBERSHIP_STATUSES: MembershipStatus[] = ["pending", "active", "past_due", "cancelled", "failed"];
+
+const requireMembershipStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Memberships require a configured database");
+    return false;
+  }
+  return true;
+};
+
+export const listAdminMembershipPlans = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  try {
+    const plans = await listMembershipPlans(toOptionalTrimmedString(req.query.siteKey) ?? defaultTenantSiteKey(), {
+      includeInactive: toOptionalTrimmedString(req.query.includeInactive) === "true"
+    });
+    res.json({ plans });
+  } catch (error) {
+    console.error("[admin] failed to list membership plans", error);
+    respondError(res, 500, "Unable to load membership plans. Check server logs for details.");
+  }
+};
+
+export const createAdminMembershipPlan = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  const body = req.body as Record<string, unknown>;
+  const siteKey = toOptionalTrimmedString(body.siteKey) as string;
+
+  try {
+    const plan = await createMembershipPlan({
+      siteKey,
+      name: toOptionalTrimmedString(body.name) as string,
+      itemType: toOptionalTrimmedString(body.itemType) as MembershipItemType,
+      itemId: toOptionalTrimmedString(body.itemId) as string,
+      amount: Number(body.amount),
+      frequencyDays: Number(body.frequencyDays),
+      trialDays: body.trialDays === undefined || body.trialDays === "" ? 0 : Number(body.trialDays),
+      createdBy: resolveAdminActor(res)
+    });
+
+    console.info("[admin] Membership plan created", { planId: plan.id, siteKey, actor: plan.createdBy });
+    res.status(201).json({ status: "ok", plan });
+  } catch (error) {
+    console.error("[admin] failed to create membership plan", error);
+    respondError(res, 500, "Unable to create membership plan. Check server logs for details.");
+  }
+};
+
+export const deactivateAdminMembershipPlan = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  const planId = parsePositiveId(req.params.id);
+  if (!planId) {
+    respondError(res, 400, "Invalid membership plan id");
+    return;
+  }
+
+  try {
+    const plan = await getMembershipPlan(planId);
+    if (!plan) {
+      respondError(res, 404, "Membership plan not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, plan.siteKey)) {
+      return;
+    }
+
+    await deactivateMembershipPlan(planId);
+    console.info("[admin] Membership plan deactivated", { planId, actor: resolveAdminActor(res) });
+    res.json({ status: "ok", plan: (await getMembershipPlan(planId)) ?? plan });
+  } catch (error) {
+    console.error("[admin] failed to deactivate membership plan", error);
+    respondError(res, 500, "Unable to deactivate membership plan. Check server logs for details.");
+  }
+};
+
+export const listAdminMemberships = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !MEMBERSHIP_STATUSES.includes(status as MembershipStatus)) {
+    respondError(res, 400, `Invalid status filter: ${status}`, { allowed: MEMBERSHIP_STATUSES });
+    return;
+  }
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const memberships = await listMemberships({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      clientId: toOptionalTrimmedString(req.query.clientId),
+      status: status as MembershipStatus | undefined,
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    const principal = currentPrincipal(res);
+    res.json({ memberships: memberships.filter((membership) => canAccessSite(principal, membership.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list memberships", error);
+    respondError(res, 500, "Unable to load memberships. Check server logs for details.");
+  }
+};
+
+export const getAdminMembership = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  const membershipId = parsePositiveId(req.params.id);
+  if (!membershipId) {
+    respondError(res, 400, "Invalid membership id");
+    return;
+  }
+
+  try {
+    const membership = await getMembership(membershipId);
+    if (!membership) {
+      respondError(res, 404, "Membership not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, membership.siteKey)) {
+      return;
+    }
+
+    res.json({ membership, charges: await listMembershipCharges(membershipId) });
+  } catch (error) {
+    console.error("[admin] failed to load membership", error);
+    respondError(res, 500, "Unable to load membership. Check server logs for details.");
+  }
+};
+
+/** Stops billing at Cayman; the client keeps access until the end of the period already paid for. */
+export const cancelAdminMembership = async (req: Request, res: Response): Promise<void> => {
+  if (!requireMembershipStore(res)) {
+    return;
+  }
+
+  const membershipId = parsePositiveId(req.params.id);
+  if (!membershipId) {
+    respondError(res, 400, "Invalid membership id");
+    return;
+  }
+
+  try {
+    const membership = await getMembership(membershipId);
+    if (!membership) {
+      respondError(res, 404, "Membership not found");
+      return;
+    }
+    if (!ensureSiteAccess(res, membership.siteKey)) {
+      return;
+    }
+
+    const cancelled = await cancelMembership(membership, resolveAdminActor(res), "staff");
+    res.json({ status: "ok", membership: cancelled });
+  } catch (error) {
+    if (error instanceof MembershipError) {
+      respondError(res, error.status, error.message, error.details);
+      return;
+    }
+    console.error("[admin] failed to cancel membership", error);
+    respondError(res, 500, "Unable to cancel membership. Check server logs for details.");
+  }
+};
+
+const PAYMENT_HOLD_STATUSES: PaymentHoldStatus[] = ["pending", "authorized", "captured", "voided", "failed"];
+
+const requirePaymentHoldStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Payment holds require a configured database");
+    return false;
+  }
+  return true;
+};
+
+export const listAdminPaymentHolds = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentHoldStore(res)) {
+    return;
+  }
+
+  const status = toOptionalTrimmedString(req.query.status)?.toLowerCase();
+  if (status && !PAYMENT_HOLD_STATUSES.includes(status as PaymentHoldStatus)) {
+    respondError(res, 400, `Invalid status filter: ${status}`, { allowed: PAYMENT_HOLD_STATUSES });
+    return;
+  }
+  const limit = Number.parseInt(toOptionalTrimmedString(req.query.limit) ?? "", 10);
+
+  try {
+    const holds = await listPaymentHolds({
+      siteKey: toOptionalTrimmedString(req.query.siteKey),
+      clientId: toOptionalTrimmedString(req.query.clientId),
+      status: status as PaymentHoldStatus | undefined,
+      limit: Number.isFinite(limit) ? limit : undefined
+    });
+    const principal = currentPrincipal(res);
+    res.json({ holds: holds.filter((hold) => canAccessSite(principal, hold.siteKey)) });
+  } catch (error) {
+    console.error("[admin] failed to list payment holds", error);
+    respondError(res, 500, "Unable to load payment holds. Check server logs for details.");
+  }
+};
+
+/** Loads the hold named in the route for the handlers below; answers the request itself when it cannot. */
+const loadAdminPaymentHold = async (req: Request, res: Response): Promise<PaymentHold | undefined> => {
+  const holdId = parsePositiveId(req.params.id);
+  if (!holdId) {
+    respondError(res, 400, "Invalid payment hold id");
+    return undefined;
+  }
+
+  const hold = await getPaymentHold(holdId);
+  if (!hold) {
+    respondError(res, 404, "Payment hold not found");
+    return undefined;
+  }
+  return ensureSiteAccess(res, hold.siteKey) ? hold : undefined;
+};
+
+export const getAdminPaymentHold = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentHoldStore(res)) {
+    return;
+  }
+
+  try {
+    const hold = await loadAdminPaymentHold(req, res);
+    if (hold) {
+      res.json({ hold });
+    }
+  } catch (error) {
+    console.error("[admin] failed to load payment hold", error);
+    respondError(res, 500, "Unable to load payment hold. Check server logs for details.");
+  }
+};
+
+/** Captures an authorized hold without waiting for Mindbody to record the visit, and fulfils its session. */
+export const captureAdminPaymentHold = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentHoldStore(res)) {
+    return;
+  }
+
+  try {
+    const hold = await loadAdminPaymentHold(req, res);
+    if (!hold) {
+      return;
+    }
+
+    const actor = resolveAdminActor(res);
+    const captured = await capturePaymentHold(hold, actor);
+    console.info("[admin] Payment hold captured", { holdId: hold.id, sessionId: hold.sessionId, actor });
+    res.json({ status: "ok", hold: captured });
+  } catch (error) {
+    if (error instanceof PaymentHoldError) {
+      respondError(res, error.status, error.message, error.details);
+      return;
+    }
+    console.error("[admin] failed to capture payment hold", error);
+    respondError(res, 500, "Unable to capture payment hold. Check server logs for details.");
+  }
+};
+
+export const voidAdminPaymentHold = async (req: Request, res: Response): Promise<void> => {
+  if (!requirePaymentHoldStore(res)) {
+    return;
+  }
+
+  try {
+    const hold = await loadAdminPaymentHold(req, res);
+    if (!hold) {
+      return;
+    }
+
+    const actor = resolveAdminActor(res);
+    const voided = await voidPaymentHold(hold, actor);
+    console.info("[admin] Payment hold voided", { holdId: hold.id, sessionId: hold.sessionId, actor });
+    res.json({ status: "ok", hold: voided });
+  } catch (error) {
+    if (error instanceof PaymentHoldError) {
+      respondError(res, error.status, error.message, error.details);
+      return;
+    }
+    console.error("[admin] failed to void payment hold", error);
+    respondError(res, 500, "Unable to void payment hold. Check server logs for details.");
+  }
+};
@@ -0,0 +1,231 @@
+import { Request, RequestHandler, Response } from "express";
+import { getSettings } from "../config/settings.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import {
+  AdminAuthError,
+  authenticateToken,
+  canAccessSite,
+  hasPermission,
+  login,
+  logout,
+  type Permission,
+  type Principal
+} from "../services/adminAuth.js";
+import { API_KEY_HEADER, ApiKeyError, authenticateApiKey } from "../services/apiKeys.js";
+import { type ApiKey, type ApiKeyScope } from "../storage/apiKeys.js";
+
+export const SESSION_COOKIE = "admin_session";
+
+const respondError = (res: Response, status: number, error: string, extra?: Record<string, unknown>): void => {
+  res.status(status).json({ error, ...(extra ?? {}) });
+};
+
+const trimmed = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return trimmed(decodeURIComponent(part.slice(separator + 1)));
+    }
+  }
+  return undefined;
+};
+
+/** `Authorization: Bearer <token>` for API clients, the `admin_session` cookie for the browser pages. */
+export const readSessionToken = (req: Request): string | undefined => {
+  const header = trimmed(req.headers.authorization);
+  if (header?.toLowerCase().startsWith("bearer ")) {
+    return trimmed(header.slice(7));
+  }
+  return readCookie(req, SESSION_COOKIE);
+};
+
+export const currentPrincipal = (res: Response): Principal | undefined => res.locals.principal as Principal | undefined;
+
+const requestedSiteKey = (req: Request): string | undefined =>
+  trimmed(req.params.siteKey) ??
+  trimmed((req.body as Record<string, unknown> | undefined)?.siteKey) ??
+  trimmed(req.query.siteKey);
+
+/** For handlers that load a record by id: answers 403 when the record belongs to a tenant outside the caller's scope. */
+export const ensureSiteAccess = (res: Response, siteKey: string | undefined): boolean => {
+  if (canAccessSite(currentPrincipal(res), siteKey)) {
+    return true;
+  }
+  respondError(res, 403, "Not permitted for this site", { siteKey: siteKey ?? null });
+  return false;
+};
+
+/**
+ * Per-route authorization, after `authenticateAdmin` has identified the caller. A `siteKey` named in the
+ * path, body or query must be within the caller's tenants; with `requireSiteKey`, tenant-scoped callers
+ * must name one (list endpoints would otherwise span every tenant).
+ */
+export const requirePermission =
+  (permission: Permission, options: { requireSiteKey?: boolean } = {}): RequestHandler =>
+  (req, res, next) => {
+    const principal = currentPrincipal(res);
+    if (!principal || res.locals.adminAuthRequired) {
+      const error = typeof res.locals.adminAuthError === "string" ? res.locals.adminAuthError : undefined;
+      respondError(res, 401, error ?? "Sign in required");
+      return;
+    }
+
+    if (!hasPermission(principal, permission)) {
+      respondError(res, 403, "Your role does not allow this action", { permission });
+      return;
+    }
+
+    const siteKey = requestedSiteKey(req);
+    if (siteKey) {
+      if (!ensureSiteAccess(res, siteKey)) {
+        return;
+      }
+    } else if (options.requireSiteKey && principal.siteKeys) {
+      respondError(res, 400, "siteKey is required for accounts limited to specific sites", {
+        siteKeys: [...principal.siteKeys]
+      });
+      return;
+    }
+
+    next();
+  };
+
+export const currentApiKey = (res: Response): ApiKey | undefined => res.locals.apiKey as ApiKey | undefined;
+
+/** Who approved a privileged request, for audit rows: the signed-in account, else the API key that carried it. */
+export const approverName = (res: Response, principal: Principal): string => {
+  const apiKey = currentApiKey(res);
+  return principal.kind === "account" || !apiKey ? principal.name : `api-key:${apiKey.prefix}`;
+};
+
+/**
+ * For machine callers of the public API: a key presented in `X-Api-Key` must be valid, carry `scope` and
+ * be under its rate limit. Requests without one are refused unless `API_KEYS_REQUIRED=false`; with
+ * `alwaysRequired` they are refused regardless, for endpoints that never worked without a key.
+ */
+export const requireApiKey =
+  (scope: ApiKeyScope, options: { alwaysRequired?: boolean } = {}): RequestHandler =>
+  async (req, res, next) => {
+    const token = trimmed(req.headers[API_KEY_HEADER]);
+    if (!token) {
+      if (options.alwaysRequired || getSettings().flags.apiKeysRequired) {
+        respondError(res, 401, `An API key with the ${scope} scope is required`, { code: "missing_api_key" });
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (!isDatabaseConfigured()) {
+      respondError(res, 503, "API keys require a configured database");
+      return;
+    }
+
+    try {
+      res.locals.apiKey = await authenticateApiKey(token, scope, req.ip);
+      next();
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        if (error.retryAfterSec) {
+          res.set("Retry-After", String(error.retryAfterSec));
+        }
+        respondError(res, error.status, error.message, { code: error.code });
+        return;
+      }
+      console.error("[api-keys] failed to check API key", error);
+      respondError(res, 500, "Unable to check API key. Check server logs for details.");
+    }
+  };
+
+/** API keys belong to one tenant; answers 403 when the request targets another. */
+export const ensureApiKeySite = (res: Response, siteKey: string): boolean => {
+  const apiKey = currentApiKey(res);
+  if (!apiKey || apiKey.siteKey === siteKey) {
+    return true;
+  }
+  respondError(res, 403, "This API key belongs to a different site", { siteKey });
+  return false;
+};
+
+const toAccountSummary = (principal: Principal) => ({
+  kind: principal.kind,
+  name: principal.name,
+  userId: principal.userId ?? null,
+  role: principal.role ?? null,
+  permissions: [...principal.permissions],
+  siteKeys: principal.siteKeys ? [...principal.siteKeys] : null
+});
+
+export const loginHandler = async (req: Request, res: Response): Promise<void> => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Admin accounts require a configured database");
+    return;
+  }
+
+  try {
+    const session = await login(String(req.body.email), String(req.body.password), {
+      sourceIp: req.ip,
+      userAgent: trimmed(req.headers["user-agent"])
+    });
+
+    res.cookie(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: req.secure,
+      expires: session.expiresAt,
+      path: "/"
+    });
+    res.json({
+      status: "ok",
+      token: session.token,
+      expiresAt: session.expiresAt.toISOString(),
+      user: { id: session.user.id, email: session.user.email, role: session.user.role, siteKeys: session.user.siteKeys ?? null }
+    });
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      respondError(res, error.status, error.message, { code: error.code });
+      return;
+    }
+    console.error("[auth] failed to sign in", error);
+    respondError(res, 500, "Unable to sign in. Check server logs for details.");
+  }
+};
+
+export const logoutHandler = async (req: Request, res: Response): Promise<void> => {
+  const token = readSessionToken(req);
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+
+  if (!token || !isDatabaseConfigured()) {
+    res.json({ status: "ok", revoked: false });
+    return;
+  }
+
+  try {
+    res.json({ status: "ok", revoked: await logout(token) });
+  } catch (error) {
+    console.error("[auth] failed to sign out", error);
+    respondError(res, 500, "Unable to sign out. Check server logs for details.");
+  }
+};
+
+export const getCurrentAccount = async (req: Request, res: Response): Promise<void> => {
+  const token = readSessionToken(req);
+  if (!token || !isDatabaseConfigured()) {
+    respondError(res, 401, "Sign in required");
+    return;
+  }
+
+  try {
+    res.json({ account: toAccountSummary(await authenticateToken(token)) });
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      respondError(res, error.status, error.message, { code: error.code });
+      return;
+    }
+    console.error("[auth] failed to load account", error);
+    respondError(res, 500, "Unable to load account. Check server logs for details.");
+  }
+};
@@ -5,6 +5,14 @@ import { CaymanService } from "../cayman/service.js";
 import { CaymanWebhookNotification } from "../types/cayman.js";
 import { NonJsonResponseError } from "../mindbody/client.js";
 import { transactionMetaStore } from "../storage/transactionMetaStore.js";
+import { raisePaymentAlert } from "../services/paymentAlerts.js";
+import { resolveTenant, UnknownTenantError, type Tenant } from "../services/tenants.js";
+import {
+  NotificationVerificationError,
+  readRawBody,
+  SIGNATURE_HEADER,
+  verifyCaymanNotification
+} from "../services/webhookVerification.js";
 
 const parseAmount = (amount: number | string | undefined): number | undefined => {
   if (typeof amount === "number") {
@@ -171,6 +179,32 @@ export const createCaymanWebhookHandler = (
 
   const caymanAmount = toMoney(amountValue);
 
+  // The payload is only believed once Cayman confirms the transaction and amount.
+  let tenant: Tenant | undefined;
+  try {
+    tenant = await resolveTenant();
+    await verifyCaymanNotification(
+      tenant,
+      { rawBody: readRawBody(req), signature: req.get(SIGNATURE_HEADER), transactionId },
+      { amount: caymanAmount, currency: tenant.currency }
+    );
+  } catch (error) {
+    if (error instanceof NotificationVerificationError && tenant) {
+      await raisePaymentAlert(error, { siteKey: tenant.siteKey, transactionId, source: "webhook:legacy" });
+    }
+    if (!(error instanceof NotificationVerificationError) && !(error instanceof UnknownTenantError)) {
+      console.error("Failed to verify Cayman webhook", error);
+      res.status(500).json({ error: "Unable to verify Cayman notification." });
+      return;
+    }
+    const reason = error instanceof NotificationVerificationError ? error.reason : "unknown_site";
+    console.warn("Rejected unverified Cayman webhook", { transactionId, reason, detail: (error as Error).message });
+    res
+      .status(reason === "bad_signature" ? 401 : reason === "lookup_failed" ? 503 : 422)
+      .json({ error: "Cayman notification could not be verified.", reason, detail: (error as Error).message });
+    return;
+  }
+
   try {
     await mindbodyService.ensureUserToken();
 
@@ -1,29 +1,21 @@
 import { type RequestHandler } from "express";
 import { body, query } from "express-validator";
 import { randomUUID } from "node:crypto";
-import { save, get, type Session } from "../lib/sessions.js";
+import { save, get, isSettled, type Session, type SessionLine } from "../lib/sessions.js";
 import { createHostedPayment, type HostedPaymentBilling } from "../services/cayman.js";
-import { getServiceById } from "../services/mbo.js";
+import {
+  catalogSourceForTenant,
+  loadCatalog,
+  normalizeItemType,
+  type CatalogEntry,
+  type CatalogItemType
+} from "../services/pricing.js";
+import { applyPromoCode, PromoError, releasePromoRedemption, toSessionPromo, type PromoApplication } from "../services/promotions.js";
+import { resolveTenant, UnknownTenantError, type Tenant } from "../services/tenants.js";
 import { badRequest, paymentRequired } from "../utils/validate.js";
 import { type CaymanCurrency } from "../types/cayman.js";
 import { processCaymanNotification, type CaymanNotificationResult } from "../routes/webhooks.js";
 
-const priceFromService = (service: any): number => {
-  const candidates = [service?.OnlinePrice, service?.Price, service?.price, service?.OnlinePrice?.Amount];
-  for (const candidate of candidates) {
-    if (typeof candidate === "number" && Number.isFinite(candidate)) {
-      return candidate;
-    }
-    if (typeof candidate === "string" && candidate.trim().length > 0) {
-      const parsed = Number.parseFloat(candidate);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
-    }
-  }
-  return NaN;
-};
-
 const baseUrl = (): string => {
   const envBase = process.env.PUBLIC_BASE_URL;
   if (envBase && envBase.length > 0) {
@@ -68,8 +60,8 @@ const defaultBilling: HostedPaymentBilling = {
   phone: process.env.CAYMAN_DEFAULT_PHONE ?? undefined
 };
 
-const resolveCurrency = (): CaymanCurrency => {
-  const raw = (process.env.CAYMAN_DEFAULT_CURRENCY ?? "USD").toUpperCase();
+const resolveCurrency = (tenantCurrency?: string): CaymanCurrency => {
+  const raw = (tenantCurrency ?? process.env.CAYMAN_DEFAULT_CURRENCY ?? "USD").toUpperCase();
   return raw === "KYD" ? "KYD" : "USD";
 };
 
@@ -129,7 +121,7 @@ const readMindbodyErrorMessage = (result: CaymanNotificationResult | undefined):
   return undefined;
 };
 
-const buildBilling = (customer: Record<string, unknown>): HostedPaymentBilling => {
+const buildBilling = (customer: Record<string, unknown>, tenant: Tenant): HostedPaymentBilling => {
   const addressRaw = customer?.address;
   const address = typeof addressRaw === "object" && addressRaw !== null ? (addressRaw as Record<string, unknown>) : {};
 
@@ -168,6 +160,7 @@ const buildBilling = (customer: Record<string, unknown>): HostedPaymentBilling =
 
   const merged: HostedPaymentBilling = {
     ...defaultBilling,
+    ...tenant.billing,
     ...pick("street1", street1Raw),
     ...pick("city", cityRaw),
     ...pick("country", typeof countryRaw === "string" ? countryRaw.toUpperCase() : undefined),
@@ -184,10 +177,44 @@ const buildBilling = (customer: Record<string, unknown>): HostedPaymentBilling =
   return merged;
 };
 
+const MAX_CART_LINES = 50;
+
+interface CartItemInput {
+  productId: string;
+  type?: string;
+  qty?: number;
+}
+
+/** Collapses repeated cart entries so each Mindbody item appears once with the combined quantity. */
+const mergeCartItems = (items: CartItemInput[]): Array<{ productId: string; type: CatalogItemType; qty: number }> => {
+  const merged = new Map<string, { productId: string; type: CatalogItemType; qty: number }>();
+
+  for (const item of items) {
+    const productId = String(item.productId).trim();
+    const type = normalizeItemType(item.type);
+    const qty = Number.isInteger(item.qty) && (item.qty as number) > 0 ? (item.qty as number) : 1;
+    const key = `${type}:${productId}`;
+    const existing = merged.get(key);
+
+    if (existing) {
+      existing.qty += qty;
+    } else {
+      merged.set(key, { productId, type, qty });
+    }
+  }
+
+  return [...merged.values()];
+};
+
 export const checkoutValidators = [
   body("siteKey").isString().trim().notEmpty(),
-  body("productId").isString().trim().notEmpty(),
-  body("qty").optional().isInt({ min: 1 }),
+  body("items").optional().isArray({ min: 1, max: MAX_CART_LINES }),
+  body("items.*.productId").customSanitizer((value) => (value === undefined || value === null ? "" : String(value))).trim().notEmpty(),
+  body("items.*.type").optional().isIn(["service", "product", "package", "Service", "Product", "Package"]),
+  body("items.*.qty").optional().isInt({ min: 1, max: 99 }).toInt(),
+  body("productId").if(body("items").not().exists()).isString().trim().notEmpty(),
+  body("qty").optional().isInt({ min: 1 }).toInt(),
+  body("promoCode").optional({ checkFalsy: true }).isString().trim().isLength({ max: 64 }),
   body("customer.email").isEmail().normalizeEmail(),
   body("customer.firstName").isString().trim().notEmpty(),
   body("customer.lastName").isString().trim().notEmpty()
@@ -196,41 +223,109 @@ export const checkoutValidators = [
 export const checkoutReturnValidators = [query("sessionId").isString().trim().notEmpty()];
 
 export const createCheckoutSessionHandler = (): RequestHandler => async (req, res) => {
-  const { siteKey, productId, qty, customer } = req.body as {
+  const { siteKey, items, productId, qty, promoCode, customer } = req.body as {
     siteKey: string;
-    productId: string;
+    items?: CartItemInput[];
+    productId?: string;
     qty?: number;
+    promoCode?: string;
     customer: { email: string; firstName: string; lastName: string };
   };
 
-  const desiredProductId = productId.trim();
+  // The single `productId` + `qty` form predates carts and is kept for existing embeds; it always meant a service.
+  const requestedItems = Array.isArray(items) && items.length > 0
+    ? mergeCartItems(items)
+    : mergeCartItems([{ productId: productId ?? "", type: "Service", qty }]);
 
-  if (!desiredProductId) {
+  if (requestedItems.some((item) => !item.productId)) {
     badRequest(res, "product_required", { productId });
     return;
   }
 
-  const service = await getServiceById(desiredProductId);
+  let tenant: Tenant;
+  let catalog: Map<string, CatalogEntry>;
 
-  if (!service || !service.Id) {
-    badRequest(res, "service_not_found", { productId: desiredProductId });
+  try {
+    tenant = await resolveTenant(siteKey);
+    catalog = await loadCatalog(catalogSourceForTenant(tenant), new Set(requestedItems.map((item) => item.type)));
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      badRequest(res, "unknown_site", { siteKey });
+      return;
+    }
+
+    res.status(502).json({
+      error: "catalog_unavailable",
+      details: { message: error instanceof Error ? error.message : "Mindbody catalog error" }
+    });
     return;
   }
 
-  const quantity = Number.isInteger(qty) && (qty as number) > 0 ? (qty as number) : 1;
-  const unitPrice = priceFromService(service);
+  const lines: SessionLine[] = [];
+
+  for (const item of requestedItems) {
+    const entry = catalog.get(`${item.type}:${item.productId}`);
 
-  if (!Number.isFinite(unitPrice)) {
-    paymentRequired(res, "invalid_service_price", { productId: service.Id });
+    if (!entry) {
+      badRequest(res, item.type === "Service" ? "service_not_found" : "item_not_found", {
+        productId: item.productId,
+        type: item.type
+      });
+      return;
+    }
+
+    if (!Number.isFinite(entry.unitPrice) || entry.unitPrice < 0) {
+      paymentRequired(res, "invalid_service_price", { productId: entry.id, type: item.type });
+      return;
+    }
+
+    lines.push({
+      productId: entry.id,
+      name: entry.name,
+      unitPrice: entry.unitPrice,
+      qty: item.qty,
+      type: item.type
+    });
+  }
+
+  // Sum in cents so a long cart cannot drift from what Mindbody will total.
+  const totalCents = lines.reduce((acc, line) => acc + Math.round(line.unitPrice * 100) * line.qty, 0);
+  let totalNumber = Number.parseFloat((totalCents / 100).toFixed(2));
+
+  if (totalNumber <= 0) {
+    paymentRequired(res, "invalid_cart_total", { total: totalNumber });
     return;
   }
 
-  const total = (unitPrice * quantity).toFixed(2);
-  const totalNumber = Number.parseFloat(total);
   const sessionId = randomUUID();
+  let promoApplication: PromoApplication | undefined;
+
+  if (promoCode) {
+    try {
+      promoApplication = await applyPromoCode({
+        code: promoCode,
+        siteKey,
+        email: customer.email,
+        lines,
+        reference: sessionId
+      });
+    } catch (error) {
+      if (error instanceof PromoError) {
+        badRequest(res, error.code, error.details);
+        return;
+      }
+      res.status(502).json({
+        error: "promo_unavailable",
+        details: { message: error instanceof Error ? error.message : "Promo code lookup failed" }
+      });
+      return;
+    }
 
-  const billing = buildBilling(customer as Record<string, unknown>);
-  const currency = resolveCurrency();
+    totalNumber = promoApplication.total;
+  }
+
+  const billing = buildBilling(customer as Record<string, unknown>, tenant);
+  const currency = resolveCurrency(tenant.currency);
 
   const orderId = `os_${Date.now()}_${sessionId}`;
 
@@ -242,17 +337,12 @@ export const createCheckoutSessionHandler = (): RequestHandler => async (req, re
       firstName: customer.firstName,
       lastName: customer.lastName
     },
-    lines: [
-      {
-        productId: String(service.Id ?? desiredProductId ?? ""),
-        name: String(service.Name ?? service.name ?? "Service"),
-        unitPrice,
-        qty: quantity
-      }
-    ],
+    lines: promoApplication?.lines ?? lines,
     total: totalNumber,
     status: "created",
-    inStore: false,
+    ...(promoApplication ? { promo: toSessionPromo(promoApplication) } : {}),
+    // Mindbody only sells retail products as in-store sales.
+    inStore: lines.some((line) => line.type === "Product"),
     cayman: {
       orderId
     }
@@ -279,6 +369,9 @@ export const createCheckoutSessionHandler = (): RequestHandler => async (req, re
       siteKey
     });
   } catch (error) {
+    if (promoApplication) {
+      await releasePromoRedemption(sessionId);
+    }
     paymentRequired(res, "cayman_session_failed", {
       sessionId,
       error: error instanceof Error ? error.message : "Cayman session error"
@@ -287,13 +380,31 @@ export const createCheckoutSessionHandler = (): RequestHandler => async (req, re
   }
 
   if (!hostedPayment.ok || !hostedPayment.redirectUrl) {
+    if (promoApplication) {
+      await releasePromoRedemption(sessionId);
+    }
     paymentRequired(res, "cayman_session_failed", { sessionId, response: hostedPayment.raw });
     return;
   }
 
-  save(session);
+  try {
+    await save(session);
+  } catch (error) {
+    // Without the session the payment page can never settle, so the code's use must not count.
+    if (promoApplication) {
+      await releasePromoRedemption(sessionId);
+    }
+    console.error("[checkout] Failed to save checkout session", { sessionId, error });
+    res.status(500).json({ error: "session_save_failed", details: { sessionId } });
+    return;
+  }
 
-  res.status(201).json({ redirectUrl: hostedPayment.redirectUrl, sessionId });
+  res.status(201).json({
+    redirectUrl: hostedPayment.redirectUrl,
+    sessionId,
+    total: totalNumber,
+    ...(promoApplication ? { discount: promoApplication.discount } : {})
+  });
 };
 
 export const createCheckoutReturnHandler = (): RequestHandler => async (req, res) => {
@@ -304,7 +415,7 @@ export const createCheckoutReturnHandler = (): RequestHandler => async (req, res
     return;
   }
 
-  const session = get(sessionId);
+  const session = await get(sessionId);
 
   if (!session) {
     badRequest(res, "session_not_found", { sessionId });
@@ -313,7 +424,7 @@ export const createCheckoutReturnHandler = (): RequestHandler => async (req, res
 
   let notificationResult: CaymanNotificationResult | undefined;
 
-  if (session.status !== "paid") {
+  if (!isSettled(session)) {
     try {
       const rawQuery = (() => {
         const url = req.originalUrl ?? "";
@@ -334,7 +445,7 @@ export const createCheckoutReturnHandler = (): RequestHandler => async (req, res
     }
   }
 
-  const refreshed = get(sessionId) ?? session;
+  const refreshed = (await get(sessionId)) ?? session;
 
   const responseBody: Record<string, unknown> = {
     status: refreshed.status,
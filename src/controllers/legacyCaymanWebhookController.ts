@@ -1,8 +1,15 @@
 import { type RequestHandler } from "express";
-import { hmacVerify } from "../lib/crypto.js";
-import { env } from "../lib/env.js";
-import { once } from "../utils/idempotency.js";
 import { checkoutShoppingCart, issueStaffUserToken, upsertClient } from "../services/mindbody.js";
+import { resolveTenant } from "../services/tenants.js";
+import { claimWebhookDelivery, completionFromResponse, finishWebhookDelivery, logWebhookDelivery } from "../services/webhookEvents.js";
+import { raisePaymentAlert } from "../services/paymentAlerts.js";
+import {
+  confirmCaymanTransaction,
+  NotificationVerificationError,
+  SIGNATURE_HEADER,
+  verifyCaymanSignature
+} from "../services/webhookVerification.js";
+import { type WebhookSignatureResult } from "../storage/webhookEvents.js";
 
 interface CaymanWebhookEvent {
   id?: string;
@@ -40,19 +47,35 @@ const parseAmount = (value: unknown): number | undefined => {
 };
 
 export const createLegacyCaymanWebhookHandler = (): RequestHandler => async (req, res) => {
+  const logged = await logWebhookDelivery(req, { kind: "event", source: "webhook:legacy-event" });
+  const known: { siteKey?: string; transactionId?: string; signatureResult?: WebhookSignatureResult } = {};
+  const reply = async (status: number, body: Record<string, unknown>): Promise<void> => {
+    await finishWebhookDelivery(logged, { ...completionFromResponse(status, body, known.signatureResult), ...known });
+    res.status(status).json(body);
+  };
+
   try {
     const rawBody = req.body as Buffer;
 
     if (!Buffer.isBuffer(rawBody)) {
-      res.status(400).json({ error: "Missing raw request body" });
+      await reply(400, { error: "Missing raw request body" });
       return;
     }
 
-    const signature = req.get("cayman-signature") ?? req.get("Cayman-Signature");
-
-    if (!hmacVerify(rawBody, signature, env.CAYMAN_WEBHOOK_SECRET)) {
-      res.status(400).json({ error: "Invalid Cayman webhook signature" });
-      return;
+    // This endpoint only ever fulfils against the default site, so its secret is the one to check.
+    const tenant = await resolveTenant();
+    known.siteKey = tenant.siteKey;
+    try {
+      verifyCaymanSignature(tenant, rawBody, req.get(SIGNATURE_HEADER));
+      known.signatureResult = "valid";
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        known.signatureResult = "invalid";
+        console.warn("[cayman:legacy-webhook] Rejected webhook", { reason: error.reason, detail: error.message });
+        await reply(401, { error: "Invalid Cayman webhook signature", reason: error.reason, detail: error.message });
+        return;
+      }
+      throw error;
     }
 
     let event: CaymanWebhookEvent;
@@ -60,22 +83,43 @@ export const createLegacyCaymanWebhookHandler = (): RequestHandler => async (req
     try {
       event = JSON.parse(rawBody.toString("utf8"));
     } catch (_parseError) {
-      res.status(400).json({ error: "Invalid JSON webhook payload" });
+      await reply(400, { error: "Invalid JSON webhook payload" });
       return;
     }
 
     if (!event.id) {
-      res.status(400).json({ error: "Webhook event missing id" });
+      await reply(400, { error: "Webhook event missing id" });
       return;
     }
+    known.transactionId = event.id;
 
-    if (!once(`cg:${event.id}`)) {
-      res.json({ ok: true, deduped: true });
+    if (event.status !== "succeeded") {
+      await reply(200, { ok: true, ignored: true });
       return;
     }
 
-    if (event.status !== "succeeded") {
-      res.json({ ok: true, ignored: true });
+    const rawAmount = parseAmount(event.amount);
+
+    if (rawAmount === undefined) {
+      await reply(400, { error: "Webhook amount missing or invalid" });
+      return;
+    }
+
+    // Confirmed with Cayman before dedupe, so an event refused during a lookup outage can be redelivered.
+    try {
+      await confirmCaymanTransaction(tenant, event.id, { amount: rawAmount / 100, currency: tenant.currency });
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        console.warn("[cayman:legacy-webhook] Rejected unconfirmed event", { eventId: event.id, reason: error.reason });
+        await raisePaymentAlert(error, { siteKey: tenant.siteKey, transactionId: event.id, source: "webhook:event" });
+        await reply(error.reason === "lookup_failed" ? 503 : 422, { error: "Unconfirmed payment", reason: error.reason, detail: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    if (!(await claimWebhookDelivery(logged, `cg:${event.id}`))) {
+      await reply(200, { ok: true, deduped: true });
       return;
     }
 
@@ -84,18 +128,16 @@ export const createLegacyCaymanWebhookHandler = (): RequestHandler => async (req
     const itemType = metadata.itemType;
 
     if (!itemId || !itemType) {
-      res.status(400).json({ error: "Webhook metadata missing itemId or itemType" });
+      await reply(400, { error: "Webhook metadata missing itemId or itemType" });
       return;
     }
 
-    const rawAmount = parseAmount(event.amount);
-
-    if (rawAmount === undefined) {
-      res.status(400).json({ error: "Webhook amount missing or invalid" });
-      return;
+    const { siteId, apiKey, username, password, paymentMethodId } = tenant.mindbody;
+    if (!username || !password) {
+      throw new Error(`Mindbody staff credentials missing for site ${siteId}`);
     }
-
-    const accessToken = await issueStaffUserToken();
+    const site = { siteId, apiKey, paymentMethodId };
+    const accessToken = await issueStaffUserToken({ ...site, username, password });
 
     let clientId: string | number;
     if (typeof metadata.clientId === "string" || typeof metadata.clientId === "number") {
@@ -103,14 +145,14 @@ export const createLegacyCaymanWebhookHandler = (): RequestHandler => async (req
     } else {
       const email = typeof metadata.email === "string" ? metadata.email : undefined;
       if (!email) {
-        res.status(400).json({ error: "Webhook metadata missing clientId and email" });
+        await reply(400, { error: "Webhook metadata missing clientId and email" });
         return;
       }
-      const client = await upsertClient(accessToken, email);
+      const client = await upsertClient(site, accessToken, email);
       clientId = client.Id;
     }
 
-    const sale = await checkoutShoppingCart(accessToken, {
+    const sale = await checkoutShoppingCart(site, accessToken, {
       clientId: parseClientId(clientId) ?? String(clientId),
       itemId: String(itemId),
       itemType: String(itemType),
@@ -118,9 +160,9 @@ export const createLegacyCaymanWebhookHandler = (): RequestHandler => async (req
       notes: `Cayman ${event.id}`
     });
 
-    res.json({ ok: true, sale });
+    await reply(200, { ok: true, sale });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Webhook processing failed";
-    res.status(400).json({ error: message });
+    await reply(400, { error: message });
   }
 };
\ No newline at end of file
@@ -1,14 +1,24 @@
 import { type RequestHandler } from "express";
 import { env } from "../config/env.js";
 import { signCheckoutToken } from "../utils/signing.js";
+import { pricingWriteAccess } from "./adminController.js";
+import { approverName, currentApiKey, ensureApiKeySite } from "./authController.js";
+import { catalogSourceForTenant, pricesMatch, PricingError, quotePrice, recordOverride } from "../services/pricing.js";
+import { applyPromoCode, PromoError, type PromoApplication } from "../services/promotions.js";
+import { defaultSiteKey, resolveTenant, UnknownTenantError } from "../services/tenants.js";
 
 interface PaylinkRequestBody {
+  /** Defaults to the API key's site, or the deployment's own site key. */
+  siteKey?: string;
   clientId?: string | number;
   email?: string;
   itemId?: string | number;
   itemType?: string;
   price?: number;
   classId?: string | number;
+  ruleId?: string | number;
+  signedBy?: string;
+  promoCode?: string;
 }
 
 const EXPIRES_IN_SECONDS = 3600;
@@ -21,8 +31,9 @@ const normalizeOptionalString = (value: string | number | undefined): string | u
   return normalized.length > 0 ? normalized : undefined;
 };
 
-export const createPaylinkHandler = (): RequestHandler => (req, res) => {
-  const { clientId, email, itemId, itemType = "Service", price, classId } = (req.body ?? {}) as PaylinkRequestBody;
+export const createPaylinkHandler = (): RequestHandler => async (req, res) => {
+  const { siteKey: requestedSiteKey, clientId, email, itemId, itemType = "Service", price, classId, ruleId, signedBy, promoCode } = (req.body ??
+    {}) as PaylinkRequestBody;
 
   if (!itemId) {
     res.status(400).json({ error: "itemId is required" });
@@ -34,24 +45,100 @@ export const createPaylinkHandler = (): RequestHandler => (req, res) => {
     return;
   }
 
-  const token = signCheckoutToken(
-    {
-      clientId: normalizeOptionalString(clientId),
-      email: normalizeOptionalString(email),
+  const targetSiteKey = normalizeOptionalString(requestedSiteKey) ?? currentApiKey(res)?.siteKey ?? defaultSiteKey();
+  const ruleIdValue = normalizeOptionalString(ruleId) === undefined ? undefined : Number(ruleId);
+  const signer = normalizeOptionalString(signedBy)?.slice(0, 100);
+
+  let approver: string | undefined;
+  if (ruleIdValue !== undefined) {
+    if (!Number.isInteger(ruleIdValue) || ruleIdValue <= 0) {
+      res.status(400).json({ error: "ruleId must be a positive integer" });
+      return;
+    }
+    const principal = await pricingWriteAccess(req, targetSiteKey);
+    if (!principal) {
+      res.status(401).json({ error: "price overrides require pricing write access to this site" });
+      return;
+    }
+    approver = approverName(res, principal);
+  }
+
+  try {
+    const tenant = await resolveTenant(targetSiteKey);
+    const siteKey = tenant.siteKey;
+    if (!ensureApiKeySite(res, siteKey)) {
+      return;
+    }
+    const quote = await quotePrice({
+      source: catalogSourceForTenant(tenant),
+      siteKey,
       itemId: String(itemId),
       itemType: String(itemType),
-      price: typeof price === "number" && Number.isFinite(price) ? price : undefined,
-      classId: normalizeOptionalString(classId)
-    },
-    EXPIRES_IN_SECONDS
-  );
-
-  const url = `${env.publicBaseUrl.replace(/\/$/, "")}/checkout?token=${encodeURIComponent(token)}`;
-
-  res.json({
-    url,
-    expiresInSec: EXPIRES_IN_SECONDS
-  });
+      ruleId: ruleIdValue
+    });
+
+    if (typeof price === "number" && Number.isFinite(price) && !pricesMatch(price, quote.price)) {
+      res.status(422).json({
+        error: "price_override_not_allowed",
+        details: { requested: price, price: quote.price, hint: "Use an allow-listed ruleId to change the price" }
+      });
+      return;
+    }
+
+    // Checked now so staff hear about a bad code before sending the link; /checkout applies it again.
+    const promo = normalizeOptionalString(promoCode);
+    let promoApplication: PromoApplication | undefined;
+    if (promo) {
+      promoApplication = await applyPromoCode({
+        code: promo,
+        siteKey,
+        email: normalizeOptionalString(email),
+        lines: [{ productId: quote.entry.id, name: quote.entry.name, unitPrice: quote.price, qty: 1, type: quote.entry.type }]
+      });
+    }
+
+    if (quote.rule && approver) {
+      await recordOverride(quote, siteKey, approver, "paylink", signer);
+    }
+
+    const token = signCheckoutToken(
+      {
+        siteKey,
+        clientId: normalizeOptionalString(clientId),
+        email: normalizeOptionalString(email),
+        itemId: String(itemId),
+        itemType: String(itemType),
+        price: quote.price,
+        ruleId: quote.rule?.id,
+        signedBy: quote.rule ? approver : undefined,
+        promoCode: promoApplication?.promo.code,
+        classId: normalizeOptionalString(classId)
+      },
+      EXPIRES_IN_SECONDS
+    );
+
+    const url = `${env.publicBaseUrl.replace(/\/$/, "")}/checkout?token=${encodeURIComponent(token)}`;
+
+    res.json({
+      url,
+      expiresInSec: EXPIRES_IN_SECONDS,
+      price: quote.price,
+      catalogPrice: quote.catalogPrice,
+      ...(promoApplication ? { discount: promoApplication.discount, total: promoApplication.total } : {})
+    });
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      res.status(404).json({ error: "unknown_site", siteKey: error.siteKey });
+      return;
+    }
+    if (error instanceof PricingError || error instanceof PromoError) {
+      res.status(422).json({ error: error.code, details: error.details ?? null });
+      return;
+    }
+
+    console.error("[paylinks] Failed to create paylink", error);
+    res.status(502).json({ error: "Unable to price item" });
+  }
 };
 
 export const PAYLINK_EXPIRATION_SECONDS = EXPIRES_IN_SECONDS;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextFunction, Request, Response, type RequestHandler } from "express";
 import { randomUUID } from "node:crypto";
 import { getSettings } from "../config/settings.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
 import { type MindbodyService } from "../mindbody/service.js";
 import {
   listServices,
@@ -10,9 +11,22 @@ import {
   type MindbodyProductItem,
   type MindbodyPackageItem
 } from "../services/mbo.js";
-import { save, get as getSession } from "../lib/sessions.js";
+import { save, get as getSession, type Session, type SessionLine } from "../lib/sessions.js";
+import { AdminAuthError, authenticateToken, canAccessSite, hasPermission, type Principal } from "../services/adminAuth.js";
 import { createHostedPayment, type HostedPaymentBilling } from "../services/cayman.js";
+import {
+  chargeResponseStatus,
+  chargeSessionWithSavedCard,
+  loadChargeableCard,
+  SavedCardError,
+  startCardSetup,
+  toSavedCardSummary
+} from "../services/savedCards.js";
+import { applyPromoCode, PromoError, releasePromoRedemption, toSessionPromo, type PromoApplication } from "../services/promotions.js";
+import { defaultSiteKey, getMindbodyClient, resolveTenant, UnknownTenantError, type Tenant } from "../services/tenants.js";
+import { getSavedCard, listSavedCardsForClient, removeSavedCard, type SavedCard } from "../storage/savedCards.js";
 import { type CaymanCurrency } from "../types/cayman.js";
+import { readSessionToken } from "./authController.js";
 
 interface StaffControllerDependencies {
   mindbodyService: MindbodyService;
@@ -55,6 +69,7 @@ interface StaffClientResult {
 }
 
 interface StaffPaySummary {
+  siteKey: string;
   warnTest: boolean;
   returnUrl: string;
   currency: CaymanCurrency;
@@ -65,10 +80,13 @@ interface StaffPaySummary {
     createPayment: string;
     clients: string;
     receipt: string;
+    cards: string;
   };
 }
 
 interface StaffPayRequestBody {
+  /** Defaults to the deployment's own site key. */
+  siteKey?: unknown;
   itemId?: unknown;
   itemType?: unknown;
   serviceId?: unknown;
@@ -86,6 +104,23 @@ interface StaffPayRequestBody {
   secret?: unknown;
   returnUrl?: unknown;
   cancelUrl?: unknown;
+  promoCode?: unknown;
+  /** Charges this saved card of `mindbodyClientId` instead of opening Cayman's hosted page. */
+  savedCardId?: unknown;
+}
+
+interface StaffCardSetupBody {
+  siteKey?: unknown;
+  mindbodyClientId?: unknown;
+  clientId?: unknown;
+  firstName?: unknown;
+  lastName?: unknown;
+  email?: unknown;
+  street1?: unknown;
+  city?: unknown;
+  country?: unknown;
+  zip?: unknown;
+  returnUrl?: unknown;
 }
 
 const MAX_CLIENT_RESULTS = 25;
@@ -153,6 +188,14 @@ const isHidden = (record: Record<string, unknown>): boolean => {
   return false;
 };
 
+const parseCardId = (value: unknown): number | undefined => {
+  const parsed = Number.parseInt(trimmed(value) ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/** Who is acting, for saved-card logs: the signed-in account, or `staff` with the shared secret. */
+const staffActor = (res: Response): string => (res.locals.principal as Principal | undefined)?.name ?? "staff";
+
 const resolveCurrency = (): CaymanCurrency => getSettings().defaults.cayman.currency;
 
 const baseUrlFromEnv = (): string | undefined => {
@@ -339,6 +382,17 @@ const pickCatalogItem = (
   return catalog[0] ?? null;
 };
 
+const loadTenantCatalog = async (siteKey: string | undefined): Promise<{ tenant: Tenant; catalog: StaffCatalogItem[] }> => {
+  const tenant = await resolveTenant(siteKey);
+  const client = getMindbodyClient(tenant);
+  const [services, products, packages] = await Promise.all([
+    listServices(client),
+    listProducts(client),
+    listPackages(client)
+  ]);
+  return { tenant, catalog: toStaffCatalogItems(services, products, packages) };
+};
+
 const respondError = (res: Response, status: number, message: string, details?: unknown): void => {
   res.status(status).json({
     error: message,
@@ -346,8 +400,41 @@ const respondError = (res: Response, status: number, message: string, details?:
   });
 };
 
-export const requireStaffSecret = (req: Request, res: Response, next: NextFunction): void => {
+/**
+ * Staff pages accept a signed-in account allowed to take payments for the site, or — while
+ * `LEGACY_SHARED_SECRETS` is on — the shared `STAFF_SECRET`.
+ */
+export const requireStaffAccess = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const siteKey =
+    trimmed(req.query.siteKey) ?? trimmed((req.body as Record<string, unknown> | undefined)?.siteKey) ?? defaultSiteKey();
+  const token = readSessionToken(req);
+
+  if (token && isDatabaseConfigured()) {
+    try {
+      const principal = await authenticateToken(token);
+      if (!hasPermission(principal, "staff:pay") || !canAccessSite(principal, siteKey)) {
+        respondError(res, 403, "Your account cannot take payments for this site.", { siteKey });
+        return;
+      }
+      res.locals.principal = principal;
+      next();
+    } catch (error) {
+      if (error instanceof AdminAuthError) {
+        respondError(res, error.status, error.message);
+        return;
+      }
+      console.error("[staff] failed to authenticate session", error);
+      respondError(res, 500, "Unable to verify session.");
+    }
+    return;
+  }
+
   const { secrets } = getSettings();
+  if (!secrets.legacyEnabled) {
+    respondError(res, 401, "Sign in required.");
+    return;
+  }
+
   const expected = trimmed(secrets.staff);
   const provided =
     trimmed(req.query.secret) ??
@@ -398,8 +485,7 @@ export const createGetStaffPaySummaryHandler = (): RequestHandler => async (req,
   const settings = getSettings();
 
   try {
-    const [services, products, packages] = await Promise.all([listServices(), listProducts(), listPackages()]);
-    const catalog = toStaffCatalogItems(services, products, packages);
+    const { tenant, catalog } = await loadTenantCatalog(trimmed(query.siteKey));
 
     if (!catalog.length) {
       respondError(res, 502, "Unable to load Mindbody catalog items.");
@@ -411,6 +497,7 @@ export const createGetStaffPaySummaryHandler = (): RequestHandler => async (req,
       trimmed((query as Record<string, unknown>).item_id) ??
       trimmed(query.serviceId) ??
       trimmed((query as Record<string, unknown>).service_id) ??
+      trimmed(tenant.defaultServiceId) ??
       trimmed(settings.mindbody.defaultServiceId);
     const requestedType =
       normalizeCatalogType(query.itemType) ??
@@ -421,6 +508,7 @@ export const createGetStaffPaySummaryHandler = (): RequestHandler => async (req,
     const selectedItem = pickCatalogItem(catalog, requestedItemId, requestedType);
 
     const payload: StaffPaySummary = {
+      siteKey: tenant.siteKey,
       warnTest: settings.flags.mboCheckoutTest,
       returnUrl,
       currency: settings.defaults.cayman.currency,
@@ -430,12 +518,17 @@ export const createGetStaffPaySummaryHandler = (): RequestHandler => async (req,
       links: {
         createPayment: "/staff/pay",
         clients: "/staff/clients",
-        receipt: "/staff/receipt"
+        receipt: "/staff/receipt",
+        cards: "/staff/cards"
       }
     };
 
     res.json(payload);
   } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, "Unknown site key.", { siteKey: error.siteKey });
+      return;
+    }
     console.error("[staff] failed to load payment metadata", error);
     respondError(res, 502, "Unable to prepare staff checkout data.");
   }
@@ -445,11 +538,9 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
   const body = req.body as StaffPayRequestBody;
   const settings = getSettings();
   const currency = settings.defaults.cayman.currency;
-  const billingDefaults = settings.defaults.cayman;
 
   try {
-    const [services, products, packages] = await Promise.all([listServices(), listProducts(), listPackages()]);
-    const catalog = toStaffCatalogItems(services, products, packages);
+    const { tenant, catalog } = await loadTenantCatalog(trimmed(body.siteKey));
 
     if (!catalog.length) {
       respondError(res, 502, "Unable to load Mindbody catalog items.");
@@ -458,7 +549,7 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
 
     const selectedItem = pickCatalogItem(
       catalog,
-      body.itemId ?? body.serviceId ?? settings.mindbody.defaultServiceId,
+      body.itemId ?? body.serviceId ?? tenant.defaultServiceId ?? settings.mindbody.defaultServiceId,
       body.itemType ?? body.serviceType
     );
 
@@ -468,9 +559,9 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
     }
 
     const sessionId = randomUUID();
-    const siteKey = String(settings.mindbody.siteKey ?? settings.mindbody.siteIdString ?? "default");
+    const siteKey = tenant.siteKey;
     const orderId = `staff_${Date.now()}_${sessionId}`;
-    const amount = Number.parseFloat(selectedItem.price.toFixed(2));
+    const catalogAmount = Number.parseFloat(selectedItem.price.toFixed(2));
 
     const customerFirstName = trimmed(body.firstName) ?? "Guest";
     const customerLastName = trimmed(body.lastName) ?? "Checkout";
@@ -482,33 +573,90 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
     }
 
     const clientId = trimmed(body.mindbodyClientId ?? body.clientId);
+    const savedCardId = parseCardId(body.savedCardId);
+    let savedCard: SavedCard | undefined;
 
-    save({
-      id: sessionId,
-      siteKey,
-      customer: {
-        email: customerEmail,
-        firstName: customerFirstName,
-        lastName: customerLastName
-      },
-      lines: [
-        {
-          productId: selectedItem.id,
-          name: selectedItem.name,
-          unitPrice: amount,
-          qty: 1,
-          type: selectedItem.type
+    if (trimmed(body.savedCardId) !== undefined) {
+      if (!savedCardId || !clientId) {
+        respondError(res, 400, "savedCardId must be a card id and needs mindbodyClientId.");
+        return;
+      }
+      if (!isDatabaseConfigured()) {
+        respondError(res, 503, "Saved cards require a configured database.");
+        return;
+      }
+      savedCard = await loadChargeableCard(siteKey, clientId, savedCardId);
+    }
+
+    const lines: SessionLine[] = [
+      {
+        productId: selectedItem.id,
+        name: selectedItem.name,
+        unitPrice: catalogAmount,
+        qty: 1,
+        type: selectedItem.type
+      }
+    ];
+
+    const promoCode = trimmed(body.promoCode);
+    let promoApplication: PromoApplication | undefined;
+
+    if (promoCode) {
+      try {
+        promoApplication = await applyPromoCode({ code: promoCode, siteKey, email: customerEmail, lines, reference: sessionId });
+      } catch (error) {
+        if (error instanceof PromoError) {
+          respondError(res, 400, error.message, { code: error.code, ...(error.details ?? {}) });
+          return;
         }
-      ],
-      total: amount,
-      status: "created",
-      inStore: selectedItem.type === "Product",
-      ...(clientId ? { clientId } : {}),
-      cayman: {
-        orderId
+        throw error;
       }
-    });
+    }
 
+    const amount = promoApplication?.total ?? catalogAmount;
+
+    let session: Session;
+    try {
+      session = await save({
+        id: sessionId,
+        siteKey,
+        customer: {
+          email: customerEmail,
+          firstName: customerFirstName,
+          lastName: customerLastName
+        },
+        lines: promoApplication?.lines ?? lines,
+        total: amount,
+        status: "created",
+        ...(promoApplication ? { promo: toSessionPromo(promoApplication) } : {}),
+        inStore: selectedItem.type === "Product",
+        ...(clientId ? { clientId } : {}),
+        cayman: {
+          orderId
+        }
+      });
+    } catch (error) {
+      if (promoApplication) {
+        await releasePromoRedemption(sessionId);
+      }
+      throw error;
+    }
+
+    if (savedCard) {
+      const charge = await chargeSessionWithSavedCard(session, savedCard, tenant, "staff:vault");
+      res.status(chargeResponseStatus(charge)).json({
+        status: charge.session.status,
+        sessionId,
+        orderId,
+        amount,
+        transactionId: charge.transactionId ?? null,
+        result: charge.result,
+        ...(promoApplication ? { discount: promoApplication.discount } : {})
+      });
+      return;
+    }
+
+    const billingDefaults = { ...settings.defaults.cayman, ...tenant.billing };
     const billing: HostedPaymentBilling = {
       street1: trimmed(body.street1) ?? billingDefaults.street1,
       city: trimmed(body.city) ?? billingDefaults.city,
@@ -554,6 +702,9 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
 
     if (!hostedPayment.ok || !hostedPayment.redirectUrl) {
       console.error("[staff] hosted payment failed", hostedPayment.raw);
+      if (promoApplication) {
+        await releasePromoRedemption(sessionId);
+      }
       respondError(res, 502, "Failed to prepare Cayman checkout session.", hostedPayment.raw);
       return;
     }
@@ -561,14 +712,143 @@ export const createStaffPayHandler = (): RequestHandler => async (req, res) => {
     res.json({
       redirectUrl: hostedPayment.redirectUrl,
       sessionId,
-      orderId
+      orderId,
+      amount,
+      ...(promoApplication ? { discount: promoApplication.discount } : {})
     });
   } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, "Unknown site key.", { siteKey: error.siteKey });
+      return;
+    }
+    if (error instanceof SavedCardError) {
+      respondError(res, error.status, error.message, error.details);
+      return;
+    }
     console.error("[staff] failed to start hosted payment", error);
     respondError(res, 502, "Failed to start payment.");
   }
 };
 
+const requireCardStore = (res: Response): boolean => {
+  if (!isDatabaseConfigured()) {
+    respondError(res, 503, "Saved cards require a configured database.");
+    return false;
+  }
+  return true;
+};
+
+export const createGetStaffCardsHandler = (): RequestHandler => async (req, res) => {
+  if (!requireCardStore(res)) {
+    return;
+  }
+
+  const clientId = trimmed(req.query.mindbodyClientId ?? req.query.clientId);
+  if (!clientId) {
+    respondError(res, 400, "mindbodyClientId is required.");
+    return;
+  }
+
+  try {
+    const tenant = await resolveTenant(trimmed(req.query.siteKey));
+    const cards = await listSavedCardsForClient(tenant.siteKey, clientId);
+    res.json({ siteKey: tenant.siteKey, clientId, cards: cards.map(toSavedCardSummary) });
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, "Unknown site key.", { siteKey: error.siteKey });
+      return;
+    }
+    console.error("[staff] failed to list saved cards", error);
+    respondError(res, 500, "Unable to load saved cards.");
+  }
+};
+
+/** Opens Cayman's hosted add-card page so a client's card can be saved for later charges. */
+export const createStaffCardSetupHandler = (): RequestHandler => async (req, res) => {
+  if (!requireCardStore(res)) {
+    return;
+  }
+
+  const body = req.body as StaffCardSetupBody;
+  const clientId = trimmed(body.mindbodyClientId ?? body.clientId);
+  const email = trimmed(body.email);
+  if (!clientId || !email) {
+    respondError(res, 400, "mindbodyClientId and email are required.");
+    return;
+  }
+
+  try {
+    const tenant = await resolveTenant(trimmed(body.siteKey));
+    const billingDefaults = { ...getSettings().defaults.cayman, ...tenant.billing };
+    const setup = await startCardSetup({
+      tenant,
+      clientId,
+      customer: {
+        email,
+        firstName: trimmed(body.firstName) ?? "Guest",
+        lastName: trimmed(body.lastName) ?? "Checkout"
+      },
+      billing: {
+        street1: trimmed(body.street1) ?? billingDefaults.street1,
+        city: trimmed(body.city) ?? billingDefaults.city,
+        country: (trimmed(body.country) ?? billingDefaults.country).toUpperCase(),
+        zip: trimmed(body.zip) ?? billingDefaults.zip,
+        state: billingDefaults.state,
+        street2: billingDefaults.street2,
+        phone: billingDefaults.phone
+      },
+      notificationUrl: buildAbsoluteUrl(req, "/webhook/cayman/vault"),
+      returnUrl: trimmed(body.returnUrl) ?? buildFrontendUrl(req, "/staff/pay", { siteKey: tenant.siteKey, mindbodyClientId: clientId }),
+      createdBy: staffActor(res)
+    });
+    console.info("[staff] card setup started", { siteKey: tenant.siteKey, clientId, cardId: setup.cardId, actor: staffActor(res) });
+    res.status(201).json(setup);
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, "Unknown site key.", { siteKey: error.siteKey });
+      return;
+    }
+    if (error instanceof SavedCardError) {
+      respondError(res, error.status, error.message, error.details);
+      return;
+    }
+    console.error("[staff] failed to start card setup", error);
+    respondError(res, 502, "Failed to start card setup.");
+  }
+};
+
+export const createDeleteStaffCardHandler = (): RequestHandler => async (req, res) => {
+  if (!requireCardStore(res)) {
+    return;
+  }
+
+  const cardId = parseCardId(req.params.id);
+  if (!cardId) {
+    respondError(res, 400, "Invalid saved card id.");
+    return;
+  }
+
+  try {
+    const tenant = await resolveTenant(trimmed(req.query.siteKey));
+    const card = await getSavedCard(cardId);
+    if (!card || card.siteKey !== tenant.siteKey) {
+      respondError(res, 404, "Saved card not found.");
+      return;
+    }
+
+    await removeSavedCard(cardId);
+    console.info("[staff] saved card removed", { siteKey: card.siteKey, clientId: card.clientId, cardId, actor: staffActor(res) });
+    res.json({ status: "removed", card: toSavedCardSummary((await getSavedCard(cardId)) ?? card) });
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      respondError(res, 404, "Unknown site key.", { siteKey: error.siteKey });
+      return;
+    }
+    console.error("[staff] failed to remove saved card", error);
+    respondError(res, 500, "Unable to remove saved card.");
+  }
+};
+
 export const createGetStaffClientsHandler = ({ mindbodyService }: StaffControllerDependencies): RequestHandler => async (
   req,
   res
@@ -649,7 +929,7 @@ export const createGetStaffReceiptHandler = (): RequestHandler => async (req, re
   const canceled = trimmed(req.query.cancel) === "1";
   const errorMessage = trimmed(req.query.errorMessage ?? req.query.error);
 
-  const session = sessionId ? getSession(sessionId) : undefined;
+  const session = sessionId ? await getSession(sessionId) : undefined;
   const amountFromQuery = amountRaw ? Number.parseFloat(amountRaw) : undefined;
   const hasAmount = Number.isFinite(amountFromQuery);
 
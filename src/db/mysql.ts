@@ -130,6 +130,10 @@ const createPool = (): Pool => {
   return createdPool;
 };
 
+/** True when the environment points at a database; callers use it to pick DB-backed code paths. */
+export const isDatabaseConfigured = (): boolean =>
+  Boolean(process.env.DATABASE_URL?.trim() || process.env.MYSQL_HOST?.trim());
+
 export const getPool = (): Pool => {
   if (!pool) {
     pool = createPool();
@@ -1,6 +1,11 @@
 import { getEnv } from "./config/env.js";
-import { createCaymanService } from "./cayman/service.js";
 import { createMindbodyService } from "./mindbody/service.js";
+import { startAppointmentHoldWorker } from "./services/appointments.js";
+import { startFulfilmentWorker } from "./services/fulfilment.js";
+import { startMembershipWorker } from "./services/memberships.js";
+import { startPaymentHoldWorker } from "./services/paymentHolds.js";
+import { startReconciliationWorker } from "./services/reconciliation.js";
+import { createDefaultSiteCaymanService } from "./services/tenants.js";
 import { createApp } from "./server.js";
 
 const bootstrap = (): void => {
@@ -17,17 +22,17 @@ const bootstrap = (): void => {
       caymanPaymentMethodId: env.mindbodyCaymanPaymentMethodId
     });
 
-    const caymanService = createCaymanService({
-      baseUrl: env.cayman.baseUrl,
-      apiKey: env.cayman.apiKey,
-      username: env.cayman.username,
-      password: env.cayman.password
-    });
+    const caymanService = createDefaultSiteCaymanService();
 
     const app = createApp({ mindbodyService, caymanService });
 
     app.listen(env.port, () => {
       console.log(`Server listening on port ${env.port}`);
+      startFulfilmentWorker();
+      startReconciliationWorker();
+      startMembershipWorker();
+      startPaymentHoldWorker();
+      startAppointmentHoldWorker();
     });
   } catch (error) {
     console.error("Failed to start server", error);
@@ -16,13 +16,13 @@ export interface CreatePaymentResponse {
   [key: string]: unknown;
 }
 
-const caymanClient = http(env.CAYMAN_BASE_URL, {
-  Authorization: `Bearer ${env.CAYMAN_API_KEY}`,
-  Accept: "application/json",
-  "Content-Type": "application/json"
-});
-
-export const createPayment = async (payload: CreatePaymentInput): Promise<CreatePaymentResponse> => {
+/** Starts a hosted payment with the tenant's own Cayman key; only the base URL is shared by every tenant. */
+export const createPayment = async (apiKey: string, payload: CreatePaymentInput): Promise<CreatePaymentResponse> => {
+  const caymanClient = http(env.CAYMAN_BASE_URL, {
+    Authorization: `Bearer ${apiKey}`,
+    Accept: "application/json",
+    "Content-Type": "application/json"
+  });
   const response = await caymanClient.post("/payments", payload);
   return response.data as CreatePaymentResponse;
 };
@@ -6,6 +6,7 @@ export interface MindbodyServiceSummary {
   Id?: number | string;
   Name?: string;
   Price?: number | string;
+  OnlinePrice?: number | string;
 }
 
 export interface MindbodyClientSummary {
@@ -19,9 +20,18 @@ export interface CheckoutShoppingCartInput {
   itemId: number | string;
   itemType: string;
   amountPaid: number;
+  /** Promo discount on the item, so the Mindbody receipt matches `amountPaid`. */
+  discountAmount?: number;
   notes?: string;
 }
 
+export interface AddClientToClassInput {
+  clientId: number | string;
+  classId: number | string;
+  /** Joins the class's waitlist instead of the class itself. */
+  waitlist?: boolean;
+}
+
 export const mbClient = (tenant: TenantConfig): AxiosInstance =>
   http(env.MINDBODY_BASE_URL, {
     "Api-Key": tenant.mbApiKey
@@ -127,7 +137,7 @@ export const upsertClient = async (
 export const checkoutShoppingCart = async (
   tenant: TenantConfig,
   accessToken: string,
-  { clientId, itemId, itemType, amountPaid, notes }: CheckoutShoppingCartInput
+  { clientId, itemId, itemType, amountPaid, discountAmount, notes }: CheckoutShoppingCartInput
 ): Promise<unknown> => {
   const client = mbClient(tenant);
 
@@ -140,7 +150,8 @@ export const checkoutShoppingCart = async (
           Id: itemId,
           Type: itemType
         },
-        Quantity: 1
+        Quantity: 1,
+        ...(discountAmount ? { DiscountAmount: discountAmount } : {})
       }
     ],
     Payments: [
@@ -164,3 +175,33 @@ export const checkoutShoppingCart = async (
 
   return response.data;
 };
+
+/**
+ * Books the client into the class without taking payment there; the sale that pays for it is posted
+ * separately. Mindbody answers with the visit, or the waitlist entry when `waitlist` is set.
+ */
+export const addClientToClass = async (
+  tenant: TenantConfig,
+  accessToken: string,
+  { clientId, classId, waitlist = false }: AddClientToClassInput
+): Promise<Record<string, unknown>> => {
+  const client = mbClient(tenant);
+
+  const response = await client.post(
+    "/class/addclienttoclass",
+    {
+      ClientId: String(clientId),
+      ClassId: Number(classId),
+      RequirePayment: false,
+      Waitlist: waitlist,
+      SendEmail: true
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`
+      }
+    }
+  );
+
+  return (response.data ?? {}) as Record<string, unknown>;
+};
@@ -1,9 +1,6 @@
 import "dotenv/config";
 import fs from "node:fs";
 
-// Hydrate env vars from the database before we validate required keys.
-await import("../config/loadDbEnv.js");
-
 export interface TenantConfig {
   siteId: string;
   label?: string;
@@ -12,13 +9,13 @@ export interface TenantConfig {
   staffPass: string;
   customTenderId?: number;
   currency?: string;
+  webhookSecret?: string;
 }
 
 export const env = {
   APP_BASE_URL: must("APP_BASE_URL", "PUBLIC_BASE_URL"),
   LINK_SIGNING_SECRET: must("LINK_SIGNING_SECRET"),
   CAYMAN_BASE_URL: must("CAYMAN_BASE_URL", "CAYMAN_API_BASE_URL"),
-  CAYMAN_API_KEY: must("CAYMAN_API_KEY"),
   CAYMAN_WEBHOOK_SECRET: must("CAYMAN_WEBHOOK_SECRET"),
   MINDBODY_BASE_URL: must("MINDBODY_BASE_URL"),
   TENANTS_PATH: process.env.TENANTS_PATH || "./tenants.json"
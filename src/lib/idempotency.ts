@@ -9,3 +9,8 @@ export const once = (key: string, ttlMs = 600_000): boolean => {
   setTimeout(() => seen.delete(key), ttlMs).unref?.();
   return true;
 };
+
+/** Lets `key` through again, for work that failed after `once` admitted it. */
+export const forget = (key: string): void => {
+  seen.delete(key);
+};
@@ -1,3 +1,6 @@
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { createMysqlSessionDriver } from "../storage/checkoutSessions.js";
+
 export interface SessionCustomer {
   email: string;
   firstName: string;
@@ -10,6 +13,14 @@ export interface SessionLine {
   unitPrice: number;
   qty: number;
   type?: string;
+  /** Promotional discount for the whole line (not per unit); sent to Mindbody as `DiscountAmount`. */
+  discount?: number;
+}
+
+export interface SessionPromo {
+  code: string;
+  promoCodeId: number;
+  discount: number;
 }
 
 export interface SessionCaymanMetadata {
@@ -17,9 +28,30 @@ export interface SessionCaymanMetadata {
   transactionId?: string;
   auth?: string;
   last4?: string;
+  resultCode?: string;
+  resultText?: string;
+}
+
+export interface SessionMindbodyMetadata {
+  receiptId?: string;
+  fulfilledAt?: string;
+}
+
+/** Set when support staff settled a session by hand; fulfilment retries and late webhooks leave it alone. */
+export interface SessionReconciliation {
+  at: string;
+  by: string;
+  note?: string;
 }
 
-export type SessionStatus = "created" | "processing" | "paid" | "failed";
+export type SessionStatus =
+  | "created"
+  | "processing"
+  | "paid"
+  | "failed"
+  | "partially_refunded"
+  | "refunded"
+  | "expired";
 
 export interface Session {
   id: string;
@@ -29,34 +61,357 @@ export interface Session {
   total: number;
   status: SessionStatus;
   cayman?: SessionCaymanMetadata;
+  mindbody?: SessionMindbodyMetadata;
+  reconciled?: SessionReconciliation;
+  /** `hold`: Cayman only authorizes the amount; the payment hold captures it at check-in, never a notification. */
+  captureMode?: "hold";
+  /** Appointment slot held for this checkout; the appointment is booked in Mindbody once the session is paid. */
+  appointmentHoldId?: number;
+  promo?: SessionPromo;
+  /** Running total of successful refunds, in the session currency. */
+  refundedAmount?: number;
   clientId?: string;
   inStore?: boolean;
+  createdAt?: string;
+  expiresAt?: string;
+}
+
+/** Status changes go through `transition`; plain updates may only touch the remaining fields. */
+export type SessionPatch = Partial<Omit<Session, "id" | "status">>;
+
+/** One line of a session's audit trail: status changes are recorded automatically, other events by callers. */
+export interface SessionEvent {
+  id?: number;
+  sessionId: string;
+  type: string;
+  fromStatus?: SessionStatus;
+  toStatus?: SessionStatus;
+  actor?: string;
+  detail?: Record<string, unknown>;
+  createdAt: string;
 }
 
-const store = new Map<string, Session>();
+export type NewSessionEvent = Omit<SessionEvent, "id" | "createdAt">;
 
-export const save = (session: Session): Session => {
-  store.set(session.id, session);
-  return session;
+export interface SessionSearchFilter {
+  status?: SessionStatus[];
+  siteKey?: string;
+  email?: string;
+  orderId?: string;
+  transactionId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend for checkout sessions. The MySQL driver is used whenever a database is configured;
+ * the in-memory driver keeps a single process working without one and is what tests plug in.
+ */
+export interface SessionDriver {
+  save(session: Session): Promise<Session>;
+  get(id: string): Promise<Session | undefined>;
+  /** Throws `TransactionInUseError` when the patch records a Cayman transaction another session holds. */
+  update(id: string, patch: SessionPatch): Promise<Session | undefined>;
+  /**
+   * Atomically moves a session from one of `from` to `to`, applying `patch` in the same write.
+   * Resolves `undefined` when the session is missing or no longer in one of the expected states, and
+   * throws `TransactionInUseError` like `update`.
+   */
+  transition(id: string, from: SessionStatus[], to: SessionStatus, patch?: SessionPatch): Promise<Session | undefined>;
+  findByOrderId(orderId: string): Promise<Session | undefined>;
+  findByTransactionId(transactionId: string): Promise<Session | undefined>;
+  expireStale(now?: Date): Promise<number>;
+  search(filter: SessionSearchFilter): Promise<Session[]>;
+  history(id: string): Promise<SessionEvent[]>;
+  recordEvent(event: NewSessionEvent): Promise<void>;
+}
+
+/**
+ * Legal moves of the checkout state machine. A failed or expired session may go back to processing
+ * because Cayman can still confirm a payment after we gave up on it; the customer has paid either way.
+ */
+export const SESSION_TRANSITIONS: Readonly<Record<SessionStatus, ReadonlyArray<SessionStatus>>> = {
+  created: ["processing", "failed", "expired"],
+  processing: ["paid", "failed"],
+  failed: ["processing", "expired"],
+  paid: ["partially_refunded", "refunded"],
+  partially_refunded: ["refunded"],
+  refunded: [],
+  expired: ["processing"]
 };
 
-export const get = (id: string): Session | undefined => store.get(id);
+/** Sessions that never reached a terminal state are marked expired once they pass `expiresAt`. */
+export const EXPIRABLE_STATUSES: ReadonlyArray<SessionStatus> = ["created", "failed"];
+
+/** Cayman has taken the money and Mindbody has the sale; refunds only ever move a session between these. */
+export const SETTLED_STATUSES: ReadonlyArray<SessionStatus> = ["paid", "partially_refunded", "refunded"];
+
+export const isSettled = (session: Session): boolean => SETTLED_STATUSES.includes(session.status);
 
-export const update = (id: string, patch: Partial<Session>): Session | undefined => {
-  const existing = store.get(id);
-  if (!existing) {
-    return undefined;
+export class SessionTransitionError extends Error {
+  constructor(
+    public from: SessionStatus,
+    public to: SessionStatus
+  ) {
+    super(`Illegal checkout session transition ${from} -> ${to}`);
+    this.name = "SessionTransitionError";
   }
+}
+
+/** One Cayman transaction pays for one session; a write that would record it on a second one is refused. */
+export class TransactionInUseError extends Error {
+  constructor(
+    public transactionId: string,
+    public sessionId?: string
+  ) {
+    super(`Cayman transaction ${transactionId} is already recorded on ${sessionId ? `session ${sessionId}` : "another session"}`);
+    this.name = "TransactionInUseError";
+  }
+}
+
+export const canTransition = (from: SessionStatus, to: SessionStatus): boolean =>
+  SESSION_TRANSITIONS[from]?.includes(to) ?? false;
 
-  const updated: Session = {
-    ...existing,
-    ...patch,
-    cayman: {
-      ...existing.cayman,
-      ...patch.cayman
+export const assertTransitions = (from: SessionStatus[], to: SessionStatus): void => {
+  for (const status of from) {
+    if (!canTransition(status, to)) {
+      throw new SessionTransitionError(status, to);
     }
+  }
+};
+
+const ttlHoursEnv = Number.parseFloat(process.env.SESSION_TTL_HOURS ?? "");
+export const SESSION_TTL_MS = (Number.isFinite(ttlHoursEnv) && ttlHoursEnv > 0 ? ttlHoursEnv : 72) * 3_600_000;
+
+export const isExpired = (session: Session, now = new Date()): boolean =>
+  EXPIRABLE_STATUSES.includes(session.status) &&
+  typeof session.expiresAt === "string" &&
+  Date.parse(session.expiresAt) <= now.getTime();
+
+export const applySessionPatch = (existing: Session, patch: Partial<Session>): Session => ({
+  ...existing,
+  ...patch,
+  cayman: {
+    ...existing.cayman,
+    ...patch.cayman
+  },
+  mindbody: {
+    ...existing.mindbody,
+    ...patch.mindbody
+  }
+});
+
+export const SESSION_SEARCH_MAX_LIMIT = 200;
+
+export const clampSearchLimit = (limit: number | undefined): number =>
+  Math.min(Math.max(limit ?? 50, 1), SESSION_SEARCH_MAX_LIMIT);
+
+const matchesFilter = (session: Session, filter: SessionSearchFilter): boolean => {
+  const createdAt = Date.parse(session.createdAt ?? "");
+
+  return (
+    (!filter.status?.length || filter.status.includes(session.status)) &&
+    (!filter.siteKey || session.siteKey === filter.siteKey) &&
+    (!filter.email || session.customer?.email?.toLowerCase() === filter.email.toLowerCase()) &&
+    (!filter.orderId || session.cayman?.orderId === filter.orderId) &&
+    (!filter.transactionId || session.cayman?.transactionId === filter.transactionId) &&
+    (!filter.createdFrom || createdAt >= filter.createdFrom.getTime()) &&
+    (!filter.createdTo || createdAt < filter.createdTo.getTime())
+  );
+};
+
+const withTimestamps = (session: Session): Session => {
+  const createdAt = session.createdAt ?? new Date().toISOString();
+  const expiresAt = session.expiresAt ?? new Date(Date.parse(createdAt) + SESSION_TTL_MS).toISOString();
+  return { ...session, createdAt, expiresAt };
+};
+
+export const createMemorySessionDriver = (): SessionDriver => {
+  const store = new Map<string, Session>();
+  const byOrderId = new Map<string, string>();
+  const byTransactionId = new Map<string, string>();
+  const events = new Map<string, SessionEvent[]>();
+
+  const record = (event: NewSessionEvent): void => {
+    const trail = events.get(event.sessionId) ?? [];
+    trail.push({ ...event, createdAt: new Date().toISOString() });
+    events.set(event.sessionId, trail);
   };
 
-  store.set(id, updated);
-  return updated;
+  const index = (session: Session): void => {
+    if (session.cayman?.orderId) {
+      byOrderId.set(session.cayman.orderId, session.id);
+    }
+    if (session.cayman?.transactionId) {
+      byTransactionId.set(session.cayman.transactionId, session.id);
+    }
+  };
+
+  const read = (id: string | undefined): Session | undefined => (id ? store.get(id) : undefined);
+
+  // Mirrors the unique index on `checkout_sessions.cayman_transaction_id`.
+  const assertTransactionFree = (session: Session): void => {
+    const transactionId = session.cayman?.transactionId;
+    const holder = transactionId ? byTransactionId.get(transactionId) : undefined;
+    if (transactionId && holder && holder !== session.id) {
+      throw new TransactionInUseError(transactionId, holder);
+    }
+  };
+
+  const write = (session: Session): Session => {
+    store.set(session.id, session);
+    index(session);
+    return session;
+  };
+
+  return {
+    async save(session) {
+      assertTransactionFree(session);
+      record({ sessionId: session.id, type: "created", toStatus: session.status });
+      return write(session);
+    },
+
+    async get(id) {
+      return read(id);
+    },
+
+    async update(id, patch) {
+      const existing = read(id);
+      if (!existing) {
+        return undefined;
+      }
+
+      const next = applySessionPatch(existing, patch);
+      assertTransactionFree(next);
+      return write(next);
+    },
+
+    async transition(id, from, to, patch = {}) {
+      assertTransitions(from, to);
+
+      const existing = read(id);
+      if (!existing || !from.includes(existing.status)) {
+        return undefined;
+      }
+
+      const next: Session = { ...applySessionPatch(existing, patch), status: to };
+      assertTransactionFree(next);
+      record({ sessionId: id, type: "status", fromStatus: existing.status, toStatus: to });
+      return write(next);
+    },
+
+    async findByOrderId(orderId) {
+      return read(byOrderId.get(orderId));
+    },
+
+    async findByTransactionId(transactionId) {
+      return read(byTransactionId.get(transactionId));
+    },
+
+    async expireStale(now = new Date()) {
+      let expired = 0;
+      for (const session of store.values()) {
+        if (isExpired(session, now)) {
+          record({ sessionId: session.id, type: "status", fromStatus: session.status, toStatus: "expired", actor: "sweeper" });
+          write({ ...session, status: "expired" });
+          expired += 1;
+        }
+      }
+      return expired;
+    },
+
+    async search(filter) {
+      const offset = Math.max(filter.offset ?? 0, 0);
+      return [...store.values()]
+        .filter((session) => matchesFilter(session, filter))
+        .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""))
+        .slice(offset, offset + clampSearchLimit(filter.limit));
+    },
+
+    async history(id) {
+      return [...(events.get(id) ?? [])];
+    },
+
+    async recordEvent(event) {
+      record(event);
+    }
+  };
+};
+
+const resolveDefaultDriver = (): SessionDriver => {
+  const configured = (process.env.SESSION_STORE ?? "").trim().toLowerCase();
+
+  if (configured === "memory") {
+    return createMemorySessionDriver();
+  }
+
+  if (configured === "mysql" || isDatabaseConfigured()) {
+    return createMysqlSessionDriver();
+  }
+
+  console.warn("[sessions] No database configured; checkout sessions are kept in memory only.");
+  return createMemorySessionDriver();
+};
+
+let driver: SessionDriver | undefined;
+
+export const setSessionDriver = (next: SessionDriver): void => {
+  driver = next;
 };
+
+export const getSessionDriver = (): SessionDriver => {
+  if (!driver) {
+    driver = resolveDefaultDriver();
+  }
+  return driver;
+};
+
+export const save = (session: Session): Promise<Session> => getSessionDriver().save(withTimestamps(session));
+
+export const get = (id: string): Promise<Session | undefined> => getSessionDriver().get(id);
+
+export const update = (id: string, patch: SessionPatch): Promise<Session | undefined> =>
+  getSessionDriver().update(id, patch);
+
+export const transition = (
+  id: string,
+  from: SessionStatus | SessionStatus[],
+  to: SessionStatus,
+  patch?: SessionPatch
+): Promise<Session | undefined> => getSessionDriver().transition(id, Array.isArray(from) ? from : [from], to, patch);
+
+export const findByOrderId = (orderId: string): Promise<Session | undefined> =>
+  getSessionDriver().findByOrderId(orderId);
+
+export const findByTransactionId = (transactionId: string): Promise<Session | undefined> =>
+  getSessionDriver().findByTransactionId(transactionId);
+
+export const search = (filter: SessionSearchFilter): Promise<Session[]> => getSessionDriver().search(filter);
+
+export const history = (id: string): Promise<SessionEvent[]> => getSessionDriver().history(id);
+
+export const recordEvent = (event: NewSessionEvent): Promise<void> => getSessionDriver().recordEvent(event);
+
+const sweepIntervalEnv = Number.parseInt(process.env.SESSION_SWEEP_INTERVAL_MS ?? "", 10);
+const sweepIntervalMs = Number.isFinite(sweepIntervalEnv) && sweepIntervalEnv >= 0 ? sweepIntervalEnv : 15 * 60_000;
+
+if (sweepIntervalMs > 0) {
+  const timer = setInterval(() => {
+    getSessionDriver()
+      .expireStale()
+      .then((expired) => {
+        if (expired > 0) {
+          console.info("[sessions] Expired stale checkout sessions", { expired });
+        }
+      })
+      .catch((error) => {
+        console.error("[sessions] Failed to expire stale checkout sessions", error);
+      });
+  }, sweepIntervalMs);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+}
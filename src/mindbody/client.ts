@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
 
+/** Read on every request, so a caller may update it in place; the environment only fills what it leaves unset. */
 export interface MindbodyClientOptions {
   apiKey?: string;
   siteId?: number;
@@ -138,19 +139,23 @@ const ensureJsonResponse = <T>(response: AxiosResponse<T>): AxiosResponse<T> =>
 
 export const createMindbodyClient = (options: MindbodyClientOptions = {}): AxiosInstance => {
   const resolveApiKey = (): string => {
+    if (typeof options.apiKey === "string" && options.apiKey.trim().length > 0) {
+      return options.apiKey.trim();
+    }
+
     const fromEnv = process.env.MINDBODY_API_KEY?.trim();
     if (fromEnv) {
       return fromEnv;
     }
 
-    if (typeof options.apiKey === "string" && options.apiKey.trim().length > 0) {
-      return options.apiKey.trim();
-    }
-
     throw new Error("Mindbody client is missing MINDBODY_API_KEY environment variable.");
   };
 
   const resolveSiteId = (): number => {
+    if (typeof options.siteId === "number" && Number.isFinite(options.siteId)) {
+      return options.siteId;
+    }
+
     const rawEnv = process.env.MINDBODY_SITE_ID;
 
     if (typeof rawEnv === "string" && rawEnv.trim().length > 0) {
@@ -160,10 +165,6 @@ export const createMindbodyClient = (options: MindbodyClientOptions = {}): Axios
       }
     }
 
-    if (typeof options.siteId === "number" && Number.isFinite(options.siteId)) {
-      return options.siteId;
-    }
-
     throw new Error("Mindbody client is missing MINDBODY_SITE_ID environment variable.");
   };
 
@@ -172,21 +173,10 @@ export const createMindbodyClient = (options: MindbodyClientOptions = {}): Axios
     return (fromEnv && fromEnv.trim().length > 0 ? fromEnv.trim() : MINDBODY_PUBLIC_V6_BASE_URL).replace(/\/$/, "");
   };
 
-  const applyDefaults = (client: AxiosInstance): void => {
-    const apiKey = resolveApiKey();
-    const siteIdHeader = resolveSiteId().toString();
-    client.defaults.baseURL = `${resolveBaseUrl()}`;
-    client.defaults.headers.common["Api-Key"] = apiKey;
-    client.defaults.headers.common.SiteId = siteIdHeader;
-    client.defaults.headers.common.Accept = "application/json";
-    client.defaults.headers.common["Content-Type"] = "application/json";
-  };
-
+  // Credentials are applied per request below, so a client can be created before they are known.
   const client = axios.create({
     baseURL: resolveBaseUrl(),
     headers: {
-      "Api-Key": resolveApiKey(),
-      SiteId: resolveSiteId().toString(),
       Accept: "application/json",
       "Content-Type": "application/json"
     },
@@ -210,7 +200,7 @@ export const createMindbodyClient = (options: MindbodyClientOptions = {}): Axios
     config.headers["Content-Type"] = "application/json";
 
     const envToken = process.env.MINDBODY_USER_TOKEN?.trim();
-    const token = envToken?.length ? envToken : options.userToken;
+    const token = options.userToken ?? (envToken?.length ? envToken : undefined);
 
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
@@ -260,8 +250,6 @@ export const createMindbodyClient = (options: MindbodyClientOptions = {}): Axios
     }
   );
 
-  applyDefaults(client);
-
   return client;
 };
 
@@ -1,11 +1,13 @@
 import axios, { AxiosError, AxiosHeaders, AxiosInstance, AxiosRequestHeaders, InternalAxiosRequestConfig } from "axios";
 import { createMindbodyClient, mbGet, mbPost, NonJsonResponseError, MindbodyClientOptions } from "./client.js";
 import { isCheckoutTest } from "../config/env.js";
+import { defaultSiteKey, resolveTenant, UnknownTenantError, type Tenant } from "../services/tenants.js";
 
+/** Fallback credentials for when the default site key has no tenant registered; the registry wins otherwise. */
 export interface MindbodyConfig {
-  siteId: number;
+  siteId?: number;
   serviceId: string;
-  apiKey: string;
+  apiKey?: string;
   userToken?: string;
   userTokenUsername?: string;
   userTokenPassword?: string;
@@ -104,13 +106,16 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
     return value.replace(/\/$/, "");
   };
 
+  // The default site's credentials as last read from the tenant registry; undefined when it has none.
+  let defaultCredentials: Tenant["mindbody"] | undefined;
+
   const resolveApiKey = (): string => {
-    const fromEnv = process.env.MINDBODY_API_KEY?.trim();
-    if (fromEnv) {
-      return fromEnv;
+    const fromTenant = defaultCredentials?.apiKey.trim();
+    if (fromTenant) {
+      return fromTenant;
     }
 
-    if (config.apiKey.trim().length > 0) {
+    if (config.apiKey && config.apiKey.trim().length > 0) {
       return config.apiKey.trim();
     }
 
@@ -118,16 +123,12 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
   };
 
   const resolveSiteId = (): number => {
-    const rawEnv = process.env.MINDBODY_SITE_ID;
-
-    if (rawEnv && rawEnv.trim().length > 0) {
-      const parsed = Number.parseInt(rawEnv.trim(), 10);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
+    const fromTenant = Number.parseInt(defaultCredentials?.siteId.trim() ?? "", 10);
+    if (Number.isFinite(fromTenant)) {
+      return fromTenant;
     }
 
-    if (Number.isFinite(config.siteId)) {
+    if (config.siteId !== undefined && Number.isFinite(config.siteId)) {
       return config.siteId;
     }
 
@@ -145,9 +146,9 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
   };
 
   const resolveSourceName = (): string => {
-    const envValue = stripQuotes(process.env.MINDBODY_SOURCE_NAME);
-    if (envValue && envValue.length > 0) {
-      return envValue;
+    const tenantValue = stripQuotes(defaultCredentials?.username);
+    if (tenantValue && tenantValue.length > 0) {
+      return tenantValue;
     }
 
     const configValue = stripQuotes(config.userTokenUsername);
@@ -159,9 +160,9 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
   };
 
   const resolveSourcePassword = (): string => {
-    const envValue = stripQuotes(process.env.MINDBODY_SOURCE_PASSWORD);
-    if (envValue && envValue.length > 0) {
-      return envValue;
+    const tenantValue = stripQuotes(defaultCredentials?.password);
+    if (tenantValue && tenantValue.length > 0) {
+      return tenantValue;
     }
 
     const configValue = stripQuotes(config.userTokenPassword);
@@ -205,24 +206,61 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
     return undefined;
   };
 
-  const readEnvUserToken = (): string | undefined => {
-    const token = process.env.MINDBODY_USER_TOKEN;
-    if (typeof token === "string" && token.trim().length > 0) {
-      return token.trim();
-    }
-    return undefined;
-  };
-
-  let cachedUserToken = readEnvUserToken() ?? config.userToken;
+  let cachedUserToken = config.userToken;
   let issuingUserTokenPromise: Promise<string> | null = null;
+  let credentialsFingerprint: string | undefined;
 
   const setUserToken = (token: string): string => {
     cachedUserToken = token;
     clientOptions.userToken = token;
-    process.env.MINDBODY_USER_TOKEN = token;
     return token;
   };
 
+  const resolveSiteIdOrUndefined = (): number | undefined => {
+    try {
+      return resolveSiteId();
+    } catch (_error) {
+      return undefined;
+    }
+  };
+
+  /**
+   * Re-reads the default site from the tenant registry, which caches it for `API_CONFIG_REFRESH_INTERVAL_MS`.
+   * A token issued under other credentials is dropped so it is never sent with the new ones.
+   */
+  const loadDefaultCredentials = async (): Promise<void> => {
+    let next: Tenant["mindbody"] | undefined;
+    try {
+      next = (await resolveTenant(defaultSiteKey())).mindbody;
+    } catch (error) {
+      if (!(error instanceof UnknownTenantError)) {
+        throw error;
+      }
+    }
+
+    const fingerprint = JSON.stringify([next?.siteId, next?.apiKey, next?.username, next?.password]);
+    if (fingerprint !== credentialsFingerprint) {
+      credentialsFingerprint = fingerprint;
+      cachedUserToken = next?.userToken ?? config.userToken;
+    }
+
+    defaultCredentials = next;
+    clientOptions.apiKey = defaultCredentials?.apiKey ?? config.apiKey;
+    clientOptions.siteId = resolveSiteIdOrUndefined();
+    clientOptions.userToken = cachedUserToken;
+  };
+
+  const currentSiteId = async (): Promise<number> => {
+    await loadDefaultCredentials();
+    return resolveSiteId();
+  };
+
+  // Added after the client's own request interceptor, so axios runs it first and the headers see fresh credentials.
+  client.interceptors.request.use(async (requestConfig) => {
+    await loadDefaultCredentials();
+    return requestConfig;
+  });
+
   const issueUserToken = async (): Promise<string> => {
     const username = resolveSourceName();
     const password = resolveSourcePassword();
@@ -316,12 +354,7 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
   };
 
   const ensureUserToken = async (forceRefresh = false): Promise<string> => {
-    const envToken = readEnvUserToken();
-    if (!forceRefresh && envToken && envToken !== cachedUserToken) {
-      cachedUserToken = envToken;
-      clientOptions.userToken = envToken;
-      return envToken;
-    }
+    await loadDefaultCredentials();
 
     if (!forceRefresh && cachedUserToken) {
       return cachedUserToken;
@@ -701,7 +734,7 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
 
       const payload = {
         ClientId: saleInput.clientId,
-        SiteId: resolveSiteId(),
+        SiteId: await currentSiteId(),
         Test: checkoutTest ? true : false,
         Items: [
           {
@@ -793,7 +826,7 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
 
     async clearClientCart(clientId: number) {
       try {
-        await mbPost("/sale/clearclientcart", { ClientId: clientId, SiteId: resolveSiteId() }, client);
+        await mbPost("/sale/clearclientcart", { ClientId: clientId, SiteId: await currentSiteId() }, client);
       } catch (error) {
         if (error instanceof NonJsonResponseError && error.details.status === 404) {
           console.warn("Mindbody cart already empty (non-JSON 404)", {
@@ -853,7 +886,7 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
 
       const payload = {
         ClientId: input.clientId,
-        SiteId: resolveSiteId(),
+        SiteId: await currentSiteId(),
         Test: isCheckoutTest() ? true : false,
         Items: [
           {
@@ -895,7 +928,7 @@ export const createMindbodyService = (config: MindbodyConfig): MindbodyService =
       const type = input.sellType === "pricingOption" ? "PricingOption" : "Service";
       const payload = {
         ClientId: input.clientId,
-        SiteId: resolveSiteId(),
+        SiteId: await currentSiteId(),
         Test: isCheckoutTest() ? true : false,
         Items: [
           {
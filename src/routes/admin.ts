@@ -1,21 +1,79 @@
 import express from "express";
 import { body } from "express-validator";
-import { requireAdminSecret, getAdminConfig, saveAdminConfig } from "../controllers/adminController.js";
+import {
+  authenticateAdmin,
+  getAdminConfig,
+  saveAdminConfig,
+  testAdminConfig,
+  listAdminConfigHistory,
+  rollbackAdminConfig,
+  listAdminFulfilmentJobs,
+  getAdminFulfilmentJob,
+  retryAdminFulfilmentJob,
+  listAdminSessions,
+  getAdminSession,
+  retryAdminSessionFulfilment,
+  reconcileAdminSession,
+  createAdminRefundHandler,
+  listAdminPricingRules,
+  createAdminPricingRule,
+  deactivateAdminPricingRule,
+  listAdminPriceOverrides,
+  listAdminPromoCodes,
+  getAdminPromoCode,
+  createAdminPromoCode,
+  deactivateAdminPromoCode,
+  listAdminMembershipPlans,
+  createAdminMembershipPlan,
+  deactivateAdminMembershipPlan,
+  listAdminMemberships,
+  getAdminMembership,
+  cancelAdminMembership,
+  listAdminPaymentHolds,
+  getAdminPaymentHold,
+  captureAdminPaymentHold,
+  voidAdminPaymentHold,
+  listAdminTenants,
+  getAdminTenant,
+  createAdminTenant,
+  updateAdminTenant,
+  deactivateAdminTenant,
+  listAdminAccounts,
+  createAdminAccount,
+  updateAdminAccount,
+  deactivateAdminAccount,
+  listAdminApiKeys,
+  createAdminApiKey,
+  updateAdminApiKey,
+  rotateAdminApiKey,
+  revokeAdminApiKey,
+  listAdminPaymentAlerts,
+  resolveAdminPaymentAlert,
+  listAdminWebhookEvents,
+  getAdminWebhookEvent,
+  replayAdminWebhookEvent,
+  listAdminReconciliationRuns,
+  getAdminReconciliationRun,
+  createAdminReconciliationRun,
+  exportAdminPayments
+} from "../controllers/adminController.js";
+import { requirePermission } from "../controllers/authController.js";
+import { ADMIN_ROLES, MIN_PASSWORD_LENGTH } from "../services/adminAuth.js";
+import { API_KEY_SCOPES } from "../services/apiKeys.js";
+import { createRefundService } from "../services/refunds.js";
 import { validate } from "../utils/validate.js";
 
-export const adminRouter = express.Router();
+export const createAdminRouter = (): express.Router => {
+  const adminRouter = express.Router();
+  const refundService = createRefundService();
 
-adminRouter.use(express.json({ limit: "1mb" }));
-adminRouter.use(express.urlencoded({ extended: false }));
-adminRouter.use(requireAdminSecret);
+  adminRouter.use(express.json({ limit: "1mb" }));
+  adminRouter.use(express.urlencoded({ extended: false }));
+  adminRouter.use(authenticateAdmin);
 
-adminRouter.get("/config", getAdminConfig);
+  adminRouter.get("/config", getAdminConfig);
 
-adminRouter.post(
-  "/config",
-  validate([
-    body("secret").isString().trim().notEmpty(),
-    body("writeSecret").optional({ checkFalsy: true }).isString().trim(),
+  const configValidators = [
     body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
     body("caymanApiKey").isString().trim().isLength({ min: 1 }),
     body("caymanApiUsername").isString().trim().isLength({ min: 1, max: 255 }),
@@ -24,6 +82,265 @@ adminRouter.post(
     body("mindbodySourceName").isString().trim().isLength({ min: 1 }),
     body("mindbodySourcePassword").isString().trim().isLength({ min: 1 }),
     body("mindbodySiteId").isString().trim().isLength({ min: 1, max: 100 })
-  ]),
-  saveAdminConfig
-);
+  ];
+  const verifyValidators = [body("verify").optional().isBoolean(), body("force").optional().isBoolean()];
+
+  adminRouter.post(
+    "/config",
+    requirePermission("config:write"),
+    validate([
+      body("writeSecret").optional({ checkFalsy: true }).isString().trim(),
+      ...configValidators,
+      ...verifyValidators
+    ]),
+    saveAdminConfig
+  );
+  adminRouter.post("/config/test", requirePermission("config:write"), validate(configValidators), testAdminConfig);
+  adminRouter.get("/config/history", requirePermission("config:read"), listAdminConfigHistory);
+  adminRouter.post(
+    "/config/rollback",
+    requirePermission("config:write"),
+    validate([
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("version").isInt({ min: 1 }),
+      ...verifyValidators
+    ]),
+    rollbackAdminConfig
+  );
+
+  adminRouter.get(
+    "/fulfilment/jobs",
+    requirePermission("fulfilment:read", { requireSiteKey: true }),
+    listAdminFulfilmentJobs
+  );
+  adminRouter.get("/fulfilment/jobs/:id", requirePermission("fulfilment:read"), getAdminFulfilmentJob);
+  adminRouter.post("/fulfilment/jobs/:id/retry", requirePermission("fulfilment:write"), retryAdminFulfilmentJob);
+
+  adminRouter.get("/sessions", requirePermission("sessions:read", { requireSiteKey: true }), listAdminSessions);
+  adminRouter.get("/sessions/:id", requirePermission("sessions:read"), getAdminSession);
+  adminRouter.post("/sessions/:id/retry-fulfilment", requirePermission("fulfilment:write"), retryAdminSessionFulfilment);
+  adminRouter.post(
+    "/sessions/:id/reconcile",
+    requirePermission("sessions:write"),
+    validate([body("note").optional().isString().trim().isLength({ max: 1000 })]),
+    reconcileAdminSession
+  );
+
+  adminRouter.post(
+    "/refunds",
+    requirePermission("refunds:write"),
+    validate([
+      body("sessionId").optional().isString().trim().isLength({ min: 1, max: 64 }),
+      body("transactionId").optional().isString().trim().isLength({ min: 1, max: 191 }),
+      body("amount").optional().isFloat({ gt: 0 }),
+      body("reason").optional().isString().trim().isLength({ max: 255 })
+    ]),
+    createAdminRefundHandler({ refundService })
+  );
+
+  adminRouter.get("/pricing/rules", requirePermission("pricing:read", { requireSiteKey: true }), listAdminPricingRules);
+  adminRouter.post(
+    "/pricing/rules",
+    requirePermission("pricing:write"),
+    validate([
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("itemType").optional({ checkFalsy: true }).isIn(["Service", "Product", "Package"]),
+      body("itemId").optional({ checkFalsy: true }).isString().trim().isLength({ max: 64 }),
+      body("kind").isIn(["fixed_price", "percent_off", "amount_off"]),
+      body("value").isFloat({ gt: 0 }),
+      body("minPrice").optional({ checkFalsy: true }).isFloat({ min: 0 }),
+      body("startsAt").optional({ checkFalsy: true }).isISO8601(),
+      body("endsAt").optional({ checkFalsy: true }).isISO8601(),
+      body("note").optional().isString().trim().isLength({ max: 255 })
+    ]),
+    createAdminPricingRule
+  );
+  adminRouter.post("/pricing/rules/:id/deactivate", requirePermission("pricing:write"), deactivateAdminPricingRule);
+  adminRouter.get(
+    "/pricing/overrides",
+    requirePermission("pricing:read", { requireSiteKey: true }),
+    listAdminPriceOverrides
+  );
+
+  adminRouter.get("/promos", requirePermission("promos:read", { requireSiteKey: true }), listAdminPromoCodes);
+  adminRouter.get("/promos/:id", requirePermission("promos:read"), getAdminPromoCode);
+  adminRouter.post(
+    "/promos",
+    requirePermission("promos:write"),
+    validate([
+      body("code").isString().trim().matches(/^[A-Za-z0-9_-]{3,64}$/),
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("kind").isIn(["percent_off", "amount_off"]),
+      body("value").isFloat({ gt: 0 }),
+      body("itemType").optional({ checkFalsy: true }).isIn(["Service", "Product", "Package"]),
+      body("itemId").optional({ checkFalsy: true }).isString().trim().isLength({ max: 64 }),
+      body("firstPurchaseOnly").optional().isBoolean(),
+      body("maxRedemptions").optional({ checkFalsy: true }).isInt({ min: 1 }),
+      body("maxPerEmail").optional({ checkFalsy: true }).isInt({ min: 1 }),
+      body("startsAt").optional({ checkFalsy: true }).isISO8601(),
+      body("endsAt").optional({ checkFalsy: true }).isISO8601(),
+      body("note").optional().isString().trim().isLength({ max: 255 })
+    ]),
+    createAdminPromoCode
+  );
+  adminRouter.post("/promos/:id/deactivate", requirePermission("promos:write"), deactivateAdminPromoCode);
+
+  adminRouter.get(
+    "/memberships/plans",
+    requirePermission("memberships:read", { requireSiteKey: true }),
+    listAdminMembershipPlans
+  );
+  adminRouter.post(
+    "/memberships/plans",
+    requirePermission("memberships:write"),
+    validate([
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("name").isString().trim().isLength({ min: 1, max: 191 }),
+      body("itemType").isIn(["Service", "Package"]),
+      body("itemId").isString().trim().isLength({ min: 1, max: 64 }),
+      body("amount").isFloat({ gt: 0 }),
+      body("frequencyDays").isInt({ min: 1, max: 366 }),
+      body("trialDays").optional({ checkFalsy: true }).isInt({ min: 0, max: 366 })
+    ]),
+    createAdminMembershipPlan
+  );
+  adminRouter.post("/memberships/plans/:id/deactivate", requirePermission("memberships:write"), deactivateAdminMembershipPlan);
+  adminRouter.get("/memberships", requirePermission("memberships:read", { requireSiteKey: true }), listAdminMemberships);
+  adminRouter.get("/memberships/:id", requirePermission("memberships:read"), getAdminMembership);
+  adminRouter.post("/memberships/:id/cancel", requirePermission("memberships:write"), cancelAdminMembership);
+
+  adminRouter.get("/holds", requirePermission("sessions:read", { requireSiteKey: true }), listAdminPaymentHolds);
+  adminRouter.get("/holds/:id", requirePermission("sessions:read"), getAdminPaymentHold);
+  adminRouter.post("/holds/:id/capture", requirePermission("sessions:write"), captureAdminPaymentHold);
+  adminRouter.post("/holds/:id/void", requirePermission("sessions:write"), voidAdminPaymentHold);
+
+  const tenantValidators = [
+    body("label").optional().isString().trim().isLength({ max: 191 }),
+    body("staffUsername").optional().isString().trim().isLength({ max: 255 }),
+    body("staffPassword").optional().isString().isLength({ max: 255 }),
+    body("webhookSecret").optional().isString().isLength({ max: 255 }),
+    body("customTenderId").optional({ checkFalsy: true }).isInt({ min: 1 }),
+    body("currency").optional({ checkFalsy: true }).isIn(["USD", "KYD", "usd", "kyd"]),
+    body("defaultServiceId").optional().isString().trim().isLength({ max: 64 }),
+    body("billing").optional({ nullable: true }).isObject(),
+    body("billing.*").optional().isString().trim().isLength({ max: 255 })
+  ];
+
+  adminRouter.get("/tenants", requirePermission("tenants:read"), listAdminTenants);
+  adminRouter.get("/tenants/:siteKey", requirePermission("tenants:read"), getAdminTenant);
+  adminRouter.post(
+    "/tenants",
+    requirePermission("tenants:write"),
+    validate([
+      body("siteKey").isString().trim().matches(/^[A-Za-z0-9_.-]{1,100}$/),
+      body("mindbodySiteId").isString().trim().isLength({ min: 1, max: 64 }),
+      body("mindbodyApiKey").isString().trim().isLength({ min: 1, max: 255 }),
+      ...tenantValidators
+    ]),
+    createAdminTenant
+  );
+  adminRouter.post(
+    "/tenants/:siteKey",
+    requirePermission("tenants:write"),
+    validate([
+      body("mindbodySiteId").optional().isString().trim().isLength({ min: 1, max: 64 }),
+      body("mindbodyApiKey").optional().isString().trim().isLength({ min: 1, max: 255 }),
+      ...tenantValidators
+    ]),
+    updateAdminTenant
+  );
+  adminRouter.post("/tenants/:siteKey/deactivate", requirePermission("tenants:write"), deactivateAdminTenant);
+
+  const accountValidators = [
+    body("displayName").optional().isString().trim().isLength({ max: 191 }),
+    body("siteKeys").optional({ nullable: true }).custom(
+      (value: unknown) => typeof value === "string" || (Array.isArray(value) && value.every((entry) => typeof entry === "string"))
+    )
+  ];
+
+  adminRouter.get("/users", requirePermission("users:manage"), listAdminAccounts);
+  adminRouter.post(
+    "/users",
+    requirePermission("users:manage"),
+    validate([
+      body("email").isString().trim().isEmail().isLength({ max: 191 }),
+      body("password").isString().isLength({ min: MIN_PASSWORD_LENGTH, max: 1024 }),
+      body("role").isIn(ADMIN_ROLES),
+      ...accountValidators
+    ]),
+    createAdminAccount
+  );
+  adminRouter.post(
+    "/users/:id",
+    requirePermission("users:manage"),
+    validate([
+      body("password").optional().isString().isLength({ min: MIN_PASSWORD_LENGTH, max: 1024 }),
+      body("role").optional().isIn(ADMIN_ROLES),
+      body("active").optional().isBoolean(),
+      ...accountValidators
+    ]),
+    updateAdminAccount
+  );
+  adminRouter.post("/users/:id/deactivate", requirePermission("users:manage"), deactivateAdminAccount);
+
+  const apiKeyValidators = [
+    body("scopes").optional().isArray({ min: 1 }),
+    body("scopes.*").isIn(API_KEY_SCOPES),
+    body("rateLimitPerMinute").optional({ nullable: true, checkFalsy: true }).isInt({ min: 1, max: 100000 })
+  ];
+
+  adminRouter.get("/api-keys", requirePermission("api_keys:read", { requireSiteKey: true }), listAdminApiKeys);
+  adminRouter.post(
+    "/api-keys",
+    requirePermission("api_keys:write"),
+    validate([
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("name").isString().trim().isLength({ min: 1, max: 100 }),
+      body("scopes").isArray({ min: 1 }),
+      ...apiKeyValidators
+    ]),
+    createAdminApiKey
+  );
+  adminRouter.post(
+    "/api-keys/:id",
+    requirePermission("api_keys:write"),
+    validate([body("name").optional().isString().trim().isLength({ min: 1, max: 100 }), ...apiKeyValidators]),
+    updateAdminApiKey
+  );
+  adminRouter.post(
+    "/api-keys/:id/rotate",
+    requirePermission("api_keys:write"),
+    validate([body("graceMinutes").optional().isInt({ min: 0, max: 10080 })]),
+    rotateAdminApiKey
+  );
+  adminRouter.post("/api-keys/:id/revoke", requirePermission("api_keys:write"), revokeAdminApiKey);
+
+  adminRouter.get("/payment-alerts", requirePermission("sessions:read", { requireSiteKey: true }), listAdminPaymentAlerts);
+  adminRouter.post(
+    "/payment-alerts/:id/resolve",
+    requirePermission("sessions:write"),
+    validate([body("note").optional().isString().trim().isLength({ max: 1000 })]),
+    resolveAdminPaymentAlert
+  );
+
+  adminRouter.get("/webhook-events", requirePermission("fulfilment:read", { requireSiteKey: true }), listAdminWebhookEvents);
+  adminRouter.get("/webhook-events/:id", requirePermission("fulfilment:read"), getAdminWebhookEvent);
+  adminRouter.post("/webhook-events/:id/replay", requirePermission("fulfilment:write"), replayAdminWebhookEvent);
+
+  adminRouter.get("/reconciliation/runs", requirePermission("sessions:read", { requireSiteKey: true }), listAdminReconciliationRuns);
+  adminRouter.get("/reconciliation/runs/:id", requirePermission("sessions:read"), getAdminReconciliationRun);
+  adminRouter.post(
+    "/reconciliation/runs",
+    requirePermission("sessions:write"),
+    validate([
+      body("siteKey").isString().trim().isLength({ min: 1, max: 100 }),
+      body("from").isISO8601({ strict: true }),
+      body("to").optional().isISO8601({ strict: true })
+    ]),
+    createAdminReconciliationRun
+  );
+
+  adminRouter.get("/exports/payments", requirePermission("sessions:read", { requireSiteKey: true }), exportAdminPayments);
+
+  return adminRouter;
+};
@@ -0,0 +1,24 @@
+import express from "express";
+import { body } from "express-validator";
+import { getCurrentAccount, loginHandler, logoutHandler } from "../controllers/authController.js";
+import { validate } from "../utils/validate.js";
+
+export const createAuthRouter = (): express.Router => {
+  const authRouter = express.Router();
+
+  authRouter.use(express.json({ limit: "16kb" }));
+  authRouter.use(express.urlencoded({ extended: false }));
+
+  authRouter.post(
+    "/login",
+    validate([
+      body("email").isString().trim().isEmail().isLength({ max: 191 }),
+      body("password").isString().isLength({ min: 1, max: 1024 })
+    ]),
+    loginHandler
+  );
+  authRouter.post("/logout", logoutHandler);
+  authRouter.get("/me", getCurrentAccount);
+
+  return authRouter;
+};
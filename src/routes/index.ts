@@ -14,7 +14,8 @@ import { catalogRouter } from "../web/catalog.js";
 import { paylinksRouter } from "../web/paylinks.js";
 import { checkoutRouter } from "../web/checkout.js";
 import { createFrontendApiRouter } from "../web/frontendApi.js";
-import { adminRouter } from "./admin.js";
+import { createAdminRouter } from "./admin.js";
+import { createAuthRouter } from "./auth.js";
 
 export interface RouteDependencies {
   mindbodyService: MindbodyService;
@@ -31,7 +32,8 @@ export const registerRoutes = (app: Express, deps: RouteDependencies): void => {
   app.use(catalogRouter);
   app.use(paylinksRouter);
   app.use(checkoutRouter);
-  app.use("/admin", adminRouter);
+  app.use("/auth", createAuthRouter());
+  app.use("/admin", createAdminRouter());
 
   app.get("/", (_req, res) => {
     res.send("Cayman Gateway ↔ Mindbody integration is running!");
@@ -1,8 +1,9 @@
 import { Router } from "express";
+import { requireApiKey } from "../controllers/authController.js";
 import { createPaylinkHandler } from "../controllers/paylinksController.js";
 
 export const paylinksRouter = Router();
 
 const paylinkHandler = createPaylinkHandler();
 
-paylinksRouter.post("/", paylinkHandler);
+paylinksRouter.post("/", requireApiKey("paylinks:create"), paylinkHandler);
@@ -1,11 +1,14 @@
 import express from "express";
 import { type MindbodyService } from "../mindbody/service.js";
 import {
+  createDeleteStaffCardHandler,
+  createGetStaffCardsHandler,
   createGetStaffClientsHandler,
   createGetStaffPaySummaryHandler,
   createGetStaffReceiptHandler,
+  createStaffCardSetupHandler,
   createStaffPayHandler,
-  requireStaffSecret,
+  requireStaffAccess,
   type StaffControllerDependencies
 } from "../controllers/staffController.js";
 
@@ -21,18 +24,25 @@ export const createStaffRouter = ({ mindbodyService }: StaffRouterDependencies):
   const controllerDependencies: StaffControllerDependencies = { mindbodyService };
   const getStaffClients = createGetStaffClientsHandler(controllerDependencies);
   const getStaffReceipt = createGetStaffReceiptHandler();
+  const getStaffCards = createGetStaffCardsHandler();
+  const staffCardSetup = createStaffCardSetupHandler();
+  const deleteStaffCard = createDeleteStaffCardHandler();
 
-  router.get("/pay", requireStaffSecret, getStaffPaySummary);
+  router.get("/pay", requireStaffAccess, getStaffPaySummary);
 
   router.post(
     "/pay",
     express.json(),
     express.urlencoded({ extended: true }),
-    requireStaffSecret,
+    requireStaffAccess,
     staffPayHandler
   );
 
-  router.get("/clients", requireStaffSecret, getStaffClients);
+  router.get("/clients", requireStaffAccess, getStaffClients);
+
+  router.get("/cards", requireStaffAccess, getStaffCards);
+  router.post("/cards", express.json(), express.urlencoded({ extended: true }), requireStaffAccess, staffCardSetup);
+  router.delete("/cards/:id", requireStaffAccess, deleteStaffCard);
   router.get("/receipt", getStaffReceipt);
 
   return router;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { handleHoldNotification } from "../services/paymentHolds.js";
+import { createTokenNotificationHandler } from "../services/webhookEvents.js";
+
+/** Cayman's authonly notification for the payment hold named by `holdToken`. */
+const handleCaymanAuthorizationNotification = createTokenNotificationHandler({
+  kind: "authorization",
+  tokenParam: "holdToken",
+  label: "authorization",
+  unavailable: "Payment holds require a configured database",
+  handle: ({ token, ...notification }) => handleHoldNotification({ holdToken: token, ...notification })
+});
+
+export const holdWebhookRouter = Router();
+
+holdWebhookRouter.all("/cayman/authorization", handleCaymanAuthorizationNotification);
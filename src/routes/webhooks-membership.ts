@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { handleMembershipNotification } from "../services/memberships.js";
+import { createTokenNotificationHandler } from "../services/webhookEvents.js";
+
+/** Cayman's subscribe and scheduled-charge notifications for the membership named by `notifyToken`. */
+const handleCaymanSubscriptionNotification = createTokenNotificationHandler({
+  kind: "subscription",
+  tokenParam: "notifyToken",
+  label: "subscription",
+  unavailable: "Memberships require a configured database",
+  handle: ({ token, ...notification }) => handleMembershipNotification({ notifyToken: token, ...notification })
+});
+
+export const membershipWebhookRouter = Router();
+
+membershipWebhookRouter.all("/cayman/subscription", handleCaymanSubscriptionNotification);
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { completeCardSetup } from "../services/savedCards.js";
+import { createTokenNotificationHandler } from "../services/webhookEvents.js";
+
+/** Cayman's add-customer notification: saves the vault id on the pending card named by `setupToken`. */
+const handleCaymanVaultNotification = createTokenNotificationHandler({
+  kind: "vault",
+  tokenParam: "setupToken",
+  label: "add-card",
+  unavailable: "Saved cards require a configured database",
+  handle: ({ token, payload, rawBody, signature }) => completeCardSetup({ setupToken: token, payload, rawBody, signature })
+});
+
+export const vaultWebhookRouter = Router();
+
+vaultWebhookRouter.all("/cayman/vault", handleCaymanVaultNotification);
@@ -1,7 +1,33 @@
 import { isAxiosError } from "axios";
 import { Router, type RequestHandler } from "express";
-import { get, update } from "../lib/sessions.js";
-import { checkoutShoppingCart, getOrCreateClient } from "../services/mbo.js";
+import { findByTransactionId, get, isSettled, transition, TransactionInUseError, type Session } from "../lib/sessions.js";
+import { releaseAppointmentCheckout } from "../services/appointments.js";
+import { deferFulfilment, fulfilSession, markSessionFulfilled, sanitizeReference } from "../services/fulfilment.js";
+import { getSettings } from "../config/settings.js";
+import { raisePaymentAlert } from "../services/paymentAlerts.js";
+import { confirmPromoRedemption, releasePromoRedemption } from "../services/promotions.js";
+import { resolveTenant, UnknownTenantError } from "../services/tenants.js";
+import {
+  finishWebhookDelivery,
+  logWebhookDelivery,
+  notificationDedupeKey,
+  type LoggedDelivery
+} from "../services/webhookEvents.js";
+import {
+  NotificationVerificationError,
+  readRawBody,
+  SIGNATURE_HEADER,
+  verifyCaymanFailure,
+  verifyCaymanNotification,
+  type ConfirmedTransaction,
+  type NotificationRejectReason
+} from "../services/webhookVerification.js";
+import {
+  createWebhookEvent,
+  getWebhookEvent,
+  type WebhookEvent,
+  type WebhookSignatureResult
+} from "../storage/webhookEvents.js";
 
 type LooseRecord = Record<string, unknown>;
 
@@ -77,12 +103,30 @@ export interface CaymanNotificationPayload {
   query?: LooseRecord;
   body?: LooseRecord;
   rawQuery?: string;
+  /** Exact request body and `cayman-signature` header, when the notification was POSTed. */
+  rawBody?: Buffer;
+  signature?: string;
 }
 
 export interface CaymanNotificationResult {
   sessionId?: string;
-  status: "ignored" | "missing_session" | "no_session" | "failed" | "paid" | "already_paid" | "processing";
+  status:
+    | "ignored"
+    | "missing_session"
+    | "no_session"
+    | "failed"
+    | "paid"
+    | "already_paid"
+    | "processing"
+    | "expired"
+    | "rejected";
   detail?: string;
+  /** Why an unverified notification was refused; only set with `rejected`. */
+  reason?: NotificationRejectReason | "unknown_site";
+  /** Set when the refusal was recorded as a payment alert for review. */
+  alerted?: boolean;
+  /** Once Cayman confirmed the payment: whether a valid `cayman-signature` came with the notification. */
+  signed?: boolean;
   receiptId?: string | number | null;
   mindbody?: {
     status: number | null;
@@ -164,25 +208,6 @@ const extractAuthCode = (payload: LooseRecord): string | undefined =>
 const extractMaskedPan = (payload: LooseRecord): string | undefined =>
   extractFirstString(payload.maskedPAN) ?? extractFirstString(payload["masked-pan"]);
 
-const sanitizeReference = (value: string | undefined): string | undefined => {
-  if (!value) {
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return undefined;
-  }
-
-  const normalized = trimmed.replace(/[^A-Za-z0-9_-]/g, "");
-  if (!normalized) {
-    return undefined;
-  }
-
-  const limited = normalized.slice(0, 30);
-  return limited;
-};
-
 const parseRawQuery = (raw: string | undefined): LooseRecord => {
   if (!raw || raw.trim().length === 0) {
     return {};
@@ -226,151 +251,188 @@ export const processCaymanNotification = async (
     return { status: "missing_session", detail: "sessionId not provided" };
   }
 
-  const session = get(sessionId);
+  const session = await get(sessionId);
 
   if (!session) {
     console.warn(`[cayman:${source}] Session not found`, { sessionId });
     return { status: "no_session", sessionId, detail: "Session not found" };
   }
 
-  if (session.status === "paid") {
-    return { status: "already_paid", sessionId };
+  const settledResult = (current: Session): CaymanNotificationResult | undefined => {
+    if (isSettled(current)) {
+      return { status: "already_paid", sessionId };
+    }
+    if (current.reconciled) {
+      return { status: "already_paid", sessionId, detail: "Session reconciled manually" };
+    }
+    if (current.status === "processing") {
+      return { status: "processing", sessionId };
+    }
+    return undefined;
+  };
+
+  const settled = settledResult(session);
+  if (settled) {
+    return settled;
   }
 
-  if (session.status === "processing") {
-    return { status: "processing", sessionId };
+  // An approved authorization would pass the transaction-info check below, but no money has been taken yet.
+  if (session.captureMode === "hold") {
+    console.warn(`[cayman:${source}] Ignored notification for a held authorization`, { sessionId });
+    return { status: "ignored", sessionId, detail: "Held authorizations are captured at check-in" };
   }
 
   const { isSuccess, resultCode, resultText } = determineSuccess(payload);
+  const transactionId = extractTransactionId(payload);
 
   if (!isSuccess) {
-    update(sessionId, { status: "failed" });
+    if (session.status === "expired") {
+      return { status: "expired", sessionId, detail: "Session expired" };
+    }
+
+    // Failing the session gives back its promo code use and appointment slot while the customer may still
+    // be paying, so only a signed failure or one Cayman confirms is acted on; the sweeper expires the rest.
+    try {
+      const tenant = await resolveTenant(session.siteKey);
+      await verifyCaymanFailure(
+        tenant,
+        { rawBody: input.rawBody, signature: input.signature, transactionId },
+        { orderId: session.cayman?.orderId }
+      );
+    } catch (error) {
+      if (error instanceof NotificationVerificationError || error instanceof UnknownTenantError) {
+        const reason = error instanceof NotificationVerificationError ? error.reason : "unknown_site";
+        console.warn(`[cayman:${source}] Ignored unverified failure`, { sessionId, transactionId, reason, detail: error.message });
+        // A bad signature is refused as on the success path; a lookup that failed is refused so it can be retried.
+        return reason === "bad_signature" || reason === "lookup_failed"
+          ? { status: "rejected", sessionId, reason, detail: error.message }
+          : { status: "ignored", sessionId, detail: `Failure not verified (${reason}); the session is left to expire` };
+      }
+      throw error;
+    }
+
+    // Only the notification that moves the session to failed releases what it held: one that lost the
+    // race to a payment, or found it already failed, must not free a slot or promo use still in play.
+    const failed = await transition(sessionId, "created", "failed");
+    if (!failed) {
+      const current = await get(sessionId);
+      return (current && settledResult(current)) ?? { status: "ignored", sessionId, detail: `Session is ${current?.status ?? "gone"}` };
+    }
+    if (session.promo) {
+      await releasePromoRedemption(sessionId);
+    }
+    await releaseAppointmentCheckout(session);
     console.warn(`[cayman:${source}] Marked session failed`, { sessionId, resultCode, resultText });
     return { status: "failed", sessionId, detail: "Gateway reported failure" };
   }
 
-  const lockedSession = update(sessionId, { status: "processing" });
-  if (!lockedSession) {
-    console.warn(`[cayman:${source}] Session disappeared during processing`, { sessionId });
-    return { status: "no_session", sessionId, detail: "Session missing during processing" };
+  // Whatever the payload says, the sale is only posted for a transaction Cayman itself reports as
+  // approved for this session's amount, currency and order; contradictions become payment alerts.
+  let confirmed: ConfirmedTransaction;
+  let signed: boolean;
+  try {
+    const tenant = await resolveTenant(session.siteKey);
+    const verified = await verifyCaymanNotification(
+      tenant,
+      { rawBody: input.rawBody, signature: input.signature, transactionId },
+      {
+        amount: session.total,
+        currency: tenant.currency ?? getSettings().defaults.cayman.currency,
+        orderId: session.cayman?.orderId
+      }
+    );
+    confirmed = verified.transaction;
+    signed = verified.signed;
+    console.info(`[cayman:${source}] Payment confirmed with Cayman`, { sessionId, transactionId, signed: verified.signed });
+  } catch (error) {
+    if (error instanceof NotificationVerificationError || error instanceof UnknownTenantError) {
+      const reason = error instanceof NotificationVerificationError ? error.reason : "unknown_site";
+      console.warn(`[cayman:${source}] Rejected unverified notification`, { sessionId, transactionId, reason, detail: error.message });
+      const alerted =
+        error instanceof NotificationVerificationError &&
+        (await raisePaymentAlert(error, { siteKey: session.siteKey, sessionId, transactionId, source }));
+      return { status: "rejected", sessionId, reason, detail: error.message, ...(alerted ? { alerted } : {}) };
+    }
+    throw error;
   }
 
-  if (lockedSession.status === "paid") {
-    return { status: "already_paid", sessionId };
-  }
+  const maskedPan = extractMaskedPan(payload);
+  const confirmedTransactionId = sanitizeReference(confirmed.transactionId);
+
+  // Keep what Cayman told us on the session so an outbox retry can rebuild the same Mindbody sale;
+  // the confirmed record wins over the notification's copy of the same fields.
+  const gatewayDetails = Object.fromEntries(
+    Object.entries({
+      transactionId: confirmedTransactionId,
+      auth: confirmed.authCode ?? extractAuthCode(payload),
+      last4: confirmed.last4 ?? (typeof maskedPan === "string" && maskedPan.length >= 4 ? maskedPan.slice(-4) : undefined),
+      resultCode: confirmed.resultCode ?? (resultCode || undefined),
+      resultText: confirmed.resultText ?? (resultText || undefined)
+    }).filter(([, value]) => value !== undefined)
+  );
+
+  // An approved transaction for the same amount would pass the lookup for any session, so one already
+  // recorded on another session is refused; the unique transaction id column settles concurrent attempts.
+  const rejectReused = async (holder: string | undefined): Promise<CaymanNotificationResult> => {
+    const error = new NotificationVerificationError(
+      `Transaction ${confirmedTransactionId} already paid for ${holder ? `session ${holder}` : "another session"}`,
+      "transaction_reused",
+      { sessionId },
+      { sessionId: holder ?? null }
+    );
+    console.warn(`[cayman:${source}] Rejected reused transaction`, { sessionId, transactionId, holder });
+    const alerted = await raisePaymentAlert(error, { siteKey: session.siteKey, sessionId, transactionId, source });
+    return { status: "rejected", sessionId, reason: error.reason, detail: error.message, ...(alerted ? { alerted } : {}) };
+  };
 
-  const customer = lockedSession.customer;
-  if (!customer && !lockedSession.clientId) {
-    update(sessionId, { status: "failed" });
-    console.warn(`[cayman:${source}] Missing customer data`, { sessionId });
-    return { status: "failed", sessionId, detail: "Customer data missing" };
+  const holder = confirmedTransactionId ? await findByTransactionId(confirmedTransactionId) : undefined;
+  if (holder && holder.id !== sessionId) {
+    return rejectReused(holder.id);
   }
 
+  // Only one caller (webhook, return page or another instance) wins this move; everyone else
+  // observes the state the winner left behind and must not post a second Mindbody sale.
+  let processingSession: Session | undefined;
   try {
-    let resolvedClientId: string | number | undefined = lockedSession.clientId;
-
-    if (!resolvedClientId) {
-      if (!customer) {
-        update(sessionId, { status: "failed" });
-        console.warn(`[cayman:${source}] Missing customer info for client creation`, { sessionId });
-        return { status: "failed", sessionId, detail: "Mindbody client missing" };
-      }
-
-      const client = await getOrCreateClient(customer.email, customer.firstName, customer.lastName);
-      resolvedClientId = client?.Id ?? client?.ID;
-
-      if (!resolvedClientId) {
-        update(sessionId, { status: "failed" });
-        console.warn(`[cayman:${source}] Mindbody client missing`, { sessionId });
-        return { status: "failed", sessionId, detail: "Mindbody client missing" };
-      }
-
-      update(sessionId, { clientId: String(resolvedClientId) });
-    }
-
-    const resolveMindbodyItemType = (lineType: string | undefined): string => {
-      if (typeof lineType === "string") {
-        const normalized = lineType.trim().toLowerCase();
-        if (normalized === "product") return "Product";
-        if (normalized === "package" || normalized === "pricingoption") return "PricingOption";
-        if (normalized === "service") return "Service";
-      }
-      return "Service";
-    };
-
-    const items = lockedSession.lines.map((line) => ({
-      Type: resolveMindbodyItemType(line.type),
-      Item: {
-        Id: Number.isFinite(Number(line.productId)) ? Number(line.productId) : line.productId
-      },
-      Quantity: line.qty,
-      Price: line.unitPrice,
-      Description: line.name
-    }));
-
-    const transactionId = extractTransactionId(payload);
-    const authCode = extractAuthCode(payload);
-    const maskedPan = extractMaskedPan(payload);
-    const last4 = typeof maskedPan === "string" && maskedPan.length >= 4 ? maskedPan.slice(-4) : undefined;
-
-    const notesParts = ["Gateway=Cayman"];
-    const sanitizedTxnId = sanitizeReference(transactionId);
-    if (sanitizedTxnId) {
-      notesParts.push(`TxnId=${sanitizedTxnId}`);
+    processingSession = await transition(sessionId, ["created", "failed", "expired"], "processing", { cayman: gatewayDetails });
+  } catch (error) {
+    if (error instanceof TransactionInUseError) {
+      return rejectReused(error.sessionId);
     }
-    if (authCode) notesParts.push(`Auth=${authCode}`);
-    if (last4) notesParts.push(`Last4=${last4}`);
-    if (typeof resultCode === "string" && resultCode.length > 0) notesParts.push(`ResultCode=${resultCode}`);
-    if (typeof resultText === "string" && resultText.length > 0) notesParts.push(`Result=${resultText}`);
-
-    const orderId = sanitizeReference(lockedSession.cayman?.orderId);
-    if (orderId) {
-      notesParts.push(`OrderId=${orderId}`);
+    throw error;
+  }
+  if (!processingSession) {
+    const current = await get(sessionId);
+    if (!current) {
+      console.warn(`[cayman:${source}] Session disappeared during processing`, { sessionId });
+      return { status: "no_session", sessionId, detail: "Session missing during processing" };
     }
+    return { ...(settledResult(current) ?? { status: "processing", sessionId }), signed };
+  }
 
-    const referenceValue = sanitizedTxnId ?? orderId ?? sanitizeReference(sessionId);
-
-    console.info(`[cayman:${source}] Mindbody checkout reference`, {
-      sessionId,
-      transactionId: sanitizedTxnId ?? null,
-      orderId: orderId ?? null,
-      referenceValue
-    });
-
-    const isInStore = lockedSession.inStore === true;
-
-    const receipt = await checkoutShoppingCart({
-      ClientId: resolvedClientId,
-      Items: items,
-      Total: lockedSession.total,
-      Notes: notesParts.join(" | "),
-      inStore: isInStore,
-      paymentReference: referenceValue,
-      externalReferenceId: referenceValue
-    });
-
-    const storedTransactionId = sanitizeReference(transactionId) ?? sanitizeReference(orderId);
-
-    update(sessionId, {
-      status: "paid",
-      cayman: {
-        transactionId: storedTransactionId,
-        auth: authCode,
-        last4
-      }
-    });
+  // The discount is spent once Cayman has taken the money, whatever happens to the Mindbody sale.
+  if (processingSession.promo) {
+    await confirmPromoRedemption(sessionId);
+  }
 
-    const receiptId = (receipt as LooseRecord)?.ReceiptId ?? (receipt as LooseRecord)?.SaleId ?? null;
+  try {
+    const receipt = await fulfilSession(processingSession, source);
+    await markSessionFulfilled(processingSession, receipt);
 
-    console.info(`[cayman:${source}] Session marked paid`, { sessionId, transactionId, receiptId });
+    console.info(`[cayman:${source}] Session marked paid`, { sessionId, transactionId, receiptId: receipt.receiptId });
 
     return {
       status: "paid",
       sessionId,
-      receiptId: typeof receiptId === "string" || typeof receiptId === "number" ? receiptId : null
+      signed,
+      receiptId: receipt.receiptId
     };
   } catch (error) {
-    update(sessionId, { status: "failed" });
+    const deferred = await deferFulfilment(processingSession, error, source);
+
+    if (deferred === "queued") {
+      return { status: "processing", sessionId, signed, detail: "Mindbody fulfilment queued for retry" };
+    }
 
     if (isAxiosError(error)) {
       const status = error.response?.status;
@@ -387,6 +449,7 @@ export const processCaymanNotification = async (
       return {
         status: "failed",
         sessionId,
+        signed,
         detail: `Mindbody checkout failed${status ? ` (status ${status})` : ""}`,
         mindbody: {
           status: status ?? null,
@@ -400,19 +463,107 @@ export const processCaymanNotification = async (
     return {
       status: "failed",
       sessionId,
+      signed,
       detail: error instanceof Error ? error.message : "Mindbody fulfillment failed"
     };
   }
 };
 
-const handleCaymanNotification: RequestHandler = async (req, res) => {
-  const result = await processCaymanNotification({
-    source: req.method === "GET" ? "webhook:get" : "webhook:post",
-    query: req.query as LooseRecord,
-    body: req.body as LooseRecord,
-    rawQuery: extractRawQuery(req.originalUrl)
+const signatureResultOf = (input: CaymanNotificationPayload, result: CaymanNotificationResult): WebhookSignatureResult => {
+  if (!input.signature) {
+    return "absent";
+  }
+  if (result.reason === "bad_signature") {
+    return "invalid";
+  }
+  return result.signed ? "valid" : "unchecked";
+};
+
+/** Runs a notification and records its outcome against the stored delivery. */
+const processLoggedNotification = async (
+  input: CaymanNotificationPayload,
+  logged: LoggedDelivery
+): Promise<CaymanNotificationResult> => {
+  let result: CaymanNotificationResult;
+  try {
+    result = await processCaymanNotification(input);
+  } catch (error) {
+    await finishWebhookDelivery(logged, { status: "error", error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+
+  await finishWebhookDelivery(logged, {
+    status: result.status === "rejected" ? "rejected" : "processed",
+    outcome: { ...result },
+    signatureResult: signatureResultOf(input, result),
+    sessionId: result.sessionId
+  });
+  return result;
+};
+
+/** Runs a stored notification through `processCaymanNotification` again, recorded as a new `replay` event. */
+export const replayCaymanNotification = async (
+  original: WebhookEvent,
+  actor: string
+): Promise<{ event: WebhookEvent; result: CaymanNotificationResult }> => {
+  const signature = original.headers[SIGNATURE_HEADER];
+  const { event } = await createWebhookEvent({
+    kind: "notification",
+    source: "replay",
+    method: original.method,
+    siteKey: original.siteKey,
+    transactionId: original.transactionId,
+    headers: original.headers,
+    query: original.query,
+    rawQuery: original.rawQuery,
+    rawBody: original.rawBody,
+    body: original.body,
+    signatureResult: signature ? undefined : "absent",
+    replayOf: original.id,
+    actor
   });
 
+  const result = await processLoggedNotification(
+    {
+      source: "replay",
+      query: original.query,
+      body: original.body,
+      rawQuery: original.rawQuery,
+      rawBody: original.rawBody === undefined ? undefined : Buffer.from(original.rawBody, "utf8"),
+      signature
+    },
+    { event }
+  );
+  return { event: (await getWebhookEvent(event.id)) ?? event, result };
+};
+
+const handleCaymanNotification: RequestHandler = async (req, res) => {
+  const source = req.method === "GET" ? "webhook:get" : "webhook:post";
+  const logged = await logWebhookDelivery(req, { kind: "notification", source, dedupeKey: notificationDedupeKey(req) });
+  if (logged.duplicate) {
+    console.info(`[cayman:${source}] Duplicate notification`, { eventId: logged.duplicate.id });
+    res.json({ received: true, deduped: true, ...logged.duplicate.outcome });
+    return;
+  }
+
+  const result = await processLoggedNotification(
+    {
+      source,
+      query: req.query as LooseRecord,
+      body: req.body as LooseRecord,
+      rawQuery: extractRawQuery(req.originalUrl),
+      rawBody: readRawBody(req),
+      signature: req.get(SIGNATURE_HEADER)
+    },
+    logged
+  );
+
+  if (result.status === "rejected") {
+    const status = result.reason === "bad_signature" ? 401 : result.reason === "lookup_failed" ? 503 : 422;
+    res.status(status).json({ received: false, ...result });
+    return;
+  }
+
   res.json({ received: true, ...result });
 };
 
@@ -1,18 +1,21 @@
 import "dotenv/config";
-import "./config/loadDbEnv.js";
 import express, { Express } from "express";
 import cors from "cors";
 import morgan from "morgan";
 import { registerRoutes, RouteDependencies } from "./routes/index.js";
 import { storeRouter } from "./routes/store.js";
 import { webhookRouter } from "./routes/webhooks.js";
+import { holdWebhookRouter } from "./routes/webhooks-hold.js";
+import { membershipWebhookRouter } from "./routes/webhooks-membership.js";
+import { vaultWebhookRouter } from "./routes/webhooks-vault.js";
+import { captureRawBody } from "./services/webhookVerification.js";
 
 export const createApp = (deps: RouteDependencies): Express => {
   const app = express();
 
   app.use(cors());
   app.use(morgan("combined"));
-  app.use(express.json());
+  app.use(express.json({ verify: captureRawBody }));
 
   app.get("/", (_req, res) => {
     res.json({ status: "ok" });
@@ -20,6 +23,9 @@ export const createApp = (deps: RouteDependencies): Express => {
 
   app.use("/store", storeRouter);
   app.use("/webhook", webhookRouter);
+  app.use("/webhook", vaultWebhookRouter);
+  app.use("/webhook", membershipWebhookRouter);
+  app.use("/webhook", holdWebhookRouter);
 
   registerRoutes(app, deps);
 
@@ -0,0 +1,206 @@
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+import { createAdminSession, getActiveAdminSession, revokeAdminSession, touchAdminSession } from "../storage/adminSessions.js";
+import { findAdminUserCredentials, getAdminUser, recordAdminLogin, type AdminRole, type AdminUser } from "../storage/adminUsers.js";
+
+export const ADMIN_ROLES: ReadonlyArray<AdminRole> = ["owner", "admin", "front_desk", "auditor"];
+
+export const PERMISSIONS = [
+  "config:read",
+  "config:write",
+  "tenants:read",
+  "tenants:write",
+  "sessions:read",
+  "sessions:write",
+  "fulfilment:read",
+  "fulfilment:write",
+  "refunds:write",
+  "pricing:read",
+  "pricing:write",
+  "promos:read",
+  "promos:write",
+  "memberships:read",
+  "memberships:write",
+  "api_keys:read",
+  "api_keys:write",
+  "staff:pay",
+  "users:manage"
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_PERMISSIONS = PERMISSIONS.filter((permission) => permission.endsWith(":read"));
+
+export const ROLE_PERMISSIONS: Record<AdminRole, ReadonlyArray<Permission>> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS.filter((permission) => permission !== "users:manage"),
+  front_desk: ["staff:pay", "sessions:read"],
+  auditor: READ_PERMISSIONS
+};
+
+/**
+ * Whoever is behind a request: a signed-in account, or — while `LEGACY_SHARED_SECRETS` is on — someone
+ * holding a shared secret, who gets the permissions that secret always implied.
+ */
+export interface Principal {
+  kind: "account" | "shared_secret";
+  /** Recorded as the actor in audit trails; for shared secrets this is the name typed into the console. */
+  name: string;
+  userId?: number;
+  role?: AdminRole;
+  permissions: ReadonlySet<Permission>;
+  /** Undefined means every tenant. */
+  siteKeys?: ReadonlySet<string>;
+  sessionId?: string;
+}
+
+export const hasPermission = (principal: Principal | undefined, permission: Permission): boolean =>
+  Boolean(principal?.permissions.has(permission));
+
+export const canAccessSite = (principal: Principal | undefined, siteKey: string | undefined): boolean =>
+  Boolean(principal) && (!principal?.siteKeys || (siteKey !== undefined && principal.siteKeys.has(siteKey)));
+
+export const toAccountPrincipal = (user: AdminUser, sessionId?: string): Principal => ({
+  kind: "account",
+  name: user.email,
+  userId: user.id,
+  role: user.role,
+  permissions: new Set(ROLE_PERMISSIONS[user.role] ?? []),
+  siteKeys: user.role === "owner" || !user.siteKeys ? undefined : new Set(user.siteKeys),
+  sessionId
+});
+
+export const sharedSecretPrincipal = (name: string, permissions: ReadonlyArray<Permission>): Principal => ({
+  kind: "shared_secret",
+  name,
+  permissions: new Set(permissions)
+});
+
+export class AdminAuthError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: "invalid_credentials" | "too_many_attempts" | "session_expired"
+  ) {
+    super(message);
+    this.name = "AdminAuthError";
+  }
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const HASH_BYTES = 64;
+export const MIN_PASSWORD_LENGTH = 12;
+
+/** `scrypt$N$r$p$salt$hash`, so the cost can be raised later without invalidating stored hashes. */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, HASH_BYTES, SCRYPT_PARAMS);
+  return ["scrypt", SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p, salt.toString("base64"), hash.toString("base64")].join("$");
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, n, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p)
+  });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+// Unknown emails still pay for a hash comparison so response times do not reveal which accounts exist.
+const DUMMY_HASH = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+const ttlEnv = Number.parseInt(process.env.ADMIN_SESSION_TTL_MINUTES ?? "", 10);
+const SESSION_TTL_MS = (Number.isFinite(ttlEnv) && ttlEnv > 0 ? ttlEnv : 480) * 60_000;
+
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60_000;
+const failedLogins = new Map<string, { count: number; firstAt: number }>();
+
+const isLockedOut = (key: string): boolean => {
+  const entry = failedLogins.get(key);
+  if (!entry) {
+    return false;
+  }
+  if (Date.now() - entry.firstAt > FAILED_LOGIN_WINDOW_MS) {
+    failedLogins.delete(key);
+    return false;
+  }
+  return entry.count >= MAX_FAILED_LOGINS;
+};
+
+const recordFailedLogin = (key: string): void => {
+  const entry = failedLogins.get(key);
+  if (!entry || Date.now() - entry.firstAt > FAILED_LOGIN_WINDOW_MS) {
+    failedLogins.set(key, { count: 1, firstAt: Date.now() });
+    return;
+  }
+  entry.count += 1;
+};
+
+const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+export interface AdminLogin {
+  token: string;
+  expiresAt: Date;
+  user: AdminUser;
+}
+
+/** Throws `AdminAuthError`. Failures are counted per email and address; the fifth within 15 minutes locks both out for the rest of the window. */
+export const login = async (
+  email: string,
+  password: string,
+  context: { sourceIp?: string; userAgent?: string } = {}
+): Promise<AdminLogin> => {
+  const throttleKeys = [`email:${email.trim().toLowerCase()}`, `ip:${context.sourceIp ?? "unknown"}`];
+  if (throttleKeys.some(isLockedOut)) {
+    throw new AdminAuthError("Too many failed sign-in attempts. Try again later.", 429, "too_many_attempts");
+  }
+
+  const found = await findAdminUserCredentials(email);
+  const valid = await verifyPassword(password, found?.passwordHash ?? (await DUMMY_HASH));
+  if (!found || !valid || !found.user.active) {
+    throttleKeys.forEach(recordFailedLogin);
+    console.warn("[auth] Failed admin sign-in", { email: email.trim().toLowerCase(), sourceIp: context.sourceIp });
+    throw new AdminAuthError("Invalid email or password", 401, "invalid_credentials");
+  }
+
+  throttleKeys.forEach((key) => failedLogins.delete(key));
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await createAdminSession({ id: hashToken(token), userId: found.user.id, expiresAt, ...context });
+  await recordAdminLogin(found.user.id);
+  console.info("[auth] Admin signed in", { userId: found.user.id, role: found.user.role, sourceIp: context.sourceIp });
+
+  return { token, expiresAt, user: found.user };
+};
+
+/** Resolves a bearer token to its account. Throws `AdminAuthError` when the session is expired, revoked or the account inactive. */
+export const authenticateToken = async (token: string): Promise<Principal> => {
+  const sessionId = hashToken(token);
+  const session = await getActiveAdminSession(sessionId);
+  const user = session ? await getAdminUser(session.userId) : undefined;
+
+  if (!session || !user || !user.active) {
+    throw new AdminAuthError("Session expired or revoked. Sign in again.", 401, "session_expired");
+  }
+
+  await touchAdminSession(sessionId);
+  return toAccountPrincipal(user, sessionId);
+};
+
+export const logout = async (token: string): Promise<boolean> => revokeAdminSession(hashToken(token));
@@ -0,0 +1,143 @@
+import crypto from "node:crypto";
+import {
+  createApiKey,
+  findUsableApiKey,
+  recordApiKeyUse,
+  rotateApiKey,
+  type ApiKey,
+  type ApiKeyScope
+} from "../storage/apiKeys.js";
+
+export const API_KEY_SCOPES: ReadonlyArray<ApiKeyScope> = [
+  "paylinks:create",
+  "clients:write",
+  "checkout:create",
+  "cards:write",
+  "cards:charge",
+  "memberships:write"
+];
+
+export const API_KEY_HEADER = "x-api-key";
+
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: "missing_api_key" | "invalid_api_key" | "insufficient_scope" | "rate_limited",
+    public retryAfterSec?: number
+  ) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+const KEY_PATTERN = /^cgk_([A-Za-z0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+const hashSecret = (secret: string): string => crypto.createHash("sha256").update(secret).digest("hex");
+
+const generateKey = (): { token: string; prefix: string; secretHash: string } => {
+  const prefix = crypto.randomBytes(9).toString("base64url").replace(/[-_]/g, "x").slice(0, 12);
+  const secret = crypto.randomBytes(32).toString("base64url");
+  return { token: `cgk_${prefix}_${secret}`, prefix, secretHash: hashSecret(secret) };
+};
+
+export interface IssuedApiKey {
+  key: ApiKey;
+  /** Shown once; only its hash is stored. */
+  token: string;
+}
+
+export const issueApiKey = async (input: {
+  siteKey: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  createdBy: string;
+}): Promise<IssuedApiKey> => {
+  const { token, prefix, secretHash } = generateKey();
+  const key = await createApiKey({ ...input, prefix, secretHash });
+  if (!key) {
+    throw new Error("API key was not stored");
+  }
+  return { key, token };
+};
+
+/** The replacement inherits the old key's tenant, name, scopes and limit; the old key works for `graceMinutes` more. */
+export const rotateIssuedApiKey = async (
+  current: ApiKey,
+  graceMinutes: number,
+  createdBy: string
+): Promise<IssuedApiKey | undefined> => {
+  const { token, prefix, secretHash } = generateKey();
+  const key = await rotateApiKey(
+    current.id,
+    {
+      siteKey: current.siteKey,
+      name: current.name,
+      prefix,
+      secretHash,
+      scopes: current.scopes,
+      rateLimitPerMinute: current.rateLimitPerMinute,
+      createdBy
+    },
+    new Date(Date.now() + graceMinutes * 60_000)
+  );
+  return key ? { key, token } : undefined;
+};
+
+const rateEnv = Number.parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE ?? "", 10);
+const DEFAULT_RATE_LIMIT = Number.isFinite(rateEnv) && rateEnv > 0 ? rateEnv : 60;
+
+const RATE_WINDOW_MS = 60_000;
+const rateWindows = new Map<number, { count: number; startedAt: number }>();
+
+// Fixed one-minute windows per key, in process memory: each instance enforces the limit on its own share of traffic.
+const consumeRateLimit = (key: ApiKey): void => {
+  const limit = key.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT;
+  const now = Date.now();
+  const window = rateWindows.get(key.id);
+
+  if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+    rateWindows.set(key.id, { count: 1, startedAt: now });
+    return;
+  }
+  if (window.count >= limit) {
+    const retryAfterSec = Math.max(1, Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000));
+    throw new ApiKeyError(`Rate limit of ${limit} requests per minute exceeded`, 429, "rate_limited", retryAfterSec);
+  }
+  window.count += 1;
+};
+
+// `last_used_at` is written at most once a minute per key rather than on every request.
+const USE_RECORD_INTERVAL_MS = 60_000;
+const lastRecordedUse = new Map<number, number>();
+
+const noteUse = (key: ApiKey, sourceIp?: string): void => {
+  const previous = lastRecordedUse.get(key.id) ?? 0;
+  if (Date.now() - previous < USE_RECORD_INTERVAL_MS) {
+    return;
+  }
+  lastRecordedUse.set(key.id, Date.now());
+  recordApiKeyUse(key.id, sourceIp).catch((error) => console.warn("[api-keys] failed to record key use", error));
+};
+
+/** Resolves a presented key and charges it one request. Throws `ApiKeyError`. */
+export const authenticateApiKey = async (token: string, scope: ApiKeyScope, sourceIp?: string): Promise<ApiKey> => {
+  const match = KEY_PATTERN.exec(token);
+  const found = match ? await findUsableApiKey(match[1]) : undefined;
+  const presented = match ? Buffer.from(hashSecret(match[2])) : undefined;
+  const stored = found ? Buffer.from(found.secretHash) : undefined;
+
+  if (!found || !presented || !stored || presented.length !== stored.length || !crypto.timingSafeEqual(presented, stored)) {
+    console.warn("[api-keys] Rejected API key", { prefix: match?.[1], sourceIp });
+    throw new ApiKeyError("Invalid, revoked or expired API key", 401, "invalid_api_key");
+  }
+
+  if (!found.key.scopes.includes(scope)) {
+    throw new ApiKeyError(`This API key lacks the ${scope} scope`, 403, "insufficient_scope");
+  }
+
+  consumeRateLimit(found.key);
+  noteUse(found.key, sourceIp);
+  return found.key;
+};
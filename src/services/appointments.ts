@@ -0,0 +1,412 @@
+import { isAxiosError } from "axios";
+import { randomUUID } from "node:crypto";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { recordEvent, save, transition, type Session, type SessionCustomer } from "../lib/sessions.js";
+import {
+  createAppointmentHold,
+  getAppointmentHold,
+  markAppointmentHoldBooked,
+  markAppointmentHoldFailed,
+  releaseAppointmentHold,
+  releaseLapsedAppointmentHolds
+} from "../storage/appointmentHolds.js";
+import { createHostedPayment, type HostedPaymentBilling } from "./cayman.js";
+import { addAppointment, listBookableItems, type MindbodyAvailability } from "./mbo.js";
+import { catalogSourceForTenant, PricingError, quotePrice } from "./pricing.js";
+import { createRefundService } from "./refunds.js";
+import { tenantCurrency } from "./savedCards.js";
+import { getMindbodyClient, resolveTenant, type Tenant } from "./tenants.js";
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** How long a slot is kept for a client on the payment page; the checkout session expires with it. */
+const HOLD_MS = readPositiveInt(process.env.APPOINTMENT_HOLD_MINUTES, 15) * 60_000;
+const POLL_INTERVAL_MS = readPositiveInt(process.env.APPOINTMENT_HOLD_POLL_INTERVAL_MS, 60_000);
+/** Widest availability window one lookup may ask Mindbody for. */
+const MAX_RANGE_MS = 31 * 86_400_000;
+
+/** Actor recorded on refunds and session events raised by the booking. */
+const APPOINTMENTS_ACTOR = "appointments";
+
+/** Carries the HTTP status callers should answer with. */
+export class AppointmentError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "AppointmentError";
+  }
+}
+
+/** One window in which a staff member can start an appointment of the session type. */
+export interface AppointmentAvailability {
+  sessionTypeId: string;
+  sessionTypeName?: string;
+  staffId: string;
+  staffName?: string;
+  locationId: string;
+  locationName?: string;
+  /** Appointments may start anywhere from `startsFrom` to `latestStart`. */
+  startsFrom: string;
+  latestStart: string;
+  lengthMinutes?: number;
+}
+
+export interface AppointmentAvailabilityQuery {
+  tenant: Tenant;
+  sessionTypeId: string;
+  staffId?: string;
+  locationId?: string;
+  from: Date;
+  to: Date;
+}
+
+const toId = (value: unknown): string | undefined =>
+  (typeof value === "string" && value.trim().length > 0) || (typeof value === "number" && Number.isFinite(value))
+    ? String(value).trim()
+    : undefined;
+
+const toAvailability = (item: MindbodyAvailability): AppointmentAvailability | undefined => {
+  const sessionTypeId = toId(item.SessionType?.Id);
+  const staffId = toId(item.Staff?.Id);
+  const locationId = toId(item.Location?.Id);
+  const startsFrom = item.StartDateTime;
+  const latestStart = item.BookableEndDateTime ?? item.EndDateTime;
+  if (!sessionTypeId || !staffId || !locationId || !startsFrom || !latestStart) {
+    return undefined;
+  }
+
+  const staffName = item.Staff?.DisplayName ?? [item.Staff?.FirstName, item.Staff?.LastName].filter(Boolean).join(" ");
+  return {
+    sessionTypeId,
+    ...(item.SessionType?.Name ? { sessionTypeName: item.SessionType.Name } : {}),
+    staffId,
+    ...(staffName ? { staffName } : {}),
+    locationId,
+    ...(item.Location?.Name ? { locationName: item.Location.Name } : {}),
+    startsFrom,
+    latestStart,
+    ...(typeof item.SessionType?.DefaultTimeLength === "number" ? { lengthMinutes: item.SessionType.DefaultTimeLength } : {})
+  };
+};
+
+/** Mindbody's bookable windows for a session type, optionally narrowed to one staff member and location. */
+export const listAppointmentAvailability = async (query: AppointmentAvailabilityQuery): Promise<AppointmentAvailability[]> => {
+  const range = query.to.getTime() - query.from.getTime();
+  if (!Number.isFinite(range) || range <= 0) {
+    throw new AppointmentError("The end of the range must come after its start", 422);
+  }
+  if (range > MAX_RANGE_MS) {
+    throw new AppointmentError("Availability can be looked up at most 31 days at a time", 422);
+  }
+
+  const items = await listBookableItems(
+    { sessionTypeId: query.sessionTypeId, staffId: query.staffId, locationId: query.locationId, from: query.from, to: query.to },
+    getMindbodyClient(query.tenant)
+  );
+  return items.map(toAvailability).filter((slot): slot is AppointmentAvailability => slot !== undefined);
+};
+
+export interface AppointmentSlot {
+  sessionTypeId: string;
+  staffId: string;
+  locationId: string;
+  startDateTime: Date;
+}
+
+/** The slot must fall inside a window Mindbody still offers; a slot taken since the lookup is gone from it. */
+const ensureSlotBookable = async (tenant: Tenant, slot: AppointmentSlot): Promise<void> => {
+  const start = slot.startDateTime.getTime();
+  const windows = await listAppointmentAvailability({
+    tenant,
+    sessionTypeId: slot.sessionTypeId,
+    staffId: slot.staffId,
+    locationId: slot.locationId,
+    from: new Date(start - 86_400_000),
+    to: new Date(start + 86_400_000)
+  });
+
+  const bookable = windows.some(
+    (window) =>
+      window.sessionTypeId === slot.sessionTypeId &&
+      window.staffId === slot.staffId &&
+      window.locationId === slot.locationId &&
+      new Date(window.startsFrom).getTime() <= start &&
+      start <= new Date(window.latestStart).getTime()
+  );
+  if (!bookable) {
+    throw new AppointmentError("The appointment slot is no longer available", 409, {
+      staffId: slot.staffId,
+      startDateTime: slot.startDateTime
+    });
+  }
+};
+
+export interface AppointmentCheckoutInput {
+  tenant: Tenant;
+  slot: AppointmentSlot;
+  /** Mindbody service (pricing option) sold for the appointment; its catalog price is charged. */
+  serviceId: string;
+  customer: SessionCustomer;
+  clientId?: string;
+  billing: Partial<HostedPaymentBilling>;
+  notificationUrl: string;
+  returnUrl: string;
+  cancelUrl?: string;
+}
+
+export interface AppointmentCheckout {
+  holdId: number;
+  sessionId: string;
+  redirectUrl: string;
+  amount: number;
+  holdExpiresAt: Date;
+}
+
+/**
+ * Holds an appointment slot and opens a Cayman payment page for it. The appointment is only booked in
+ * Mindbody once the payment is confirmed and its sale posted; a failed payment or a session that expires
+ * unpaid releases the slot for other clients.
+ */
+export const startAppointmentCheckout = async (input: AppointmentCheckoutInput): Promise<AppointmentCheckout> => {
+  if (!isDatabaseConfigured()) {
+    throw new AppointmentError("Appointment checkout requires a configured database", 503);
+  }
+  if (!Number.isFinite(input.slot.startDateTime.getTime()) || input.slot.startDateTime.getTime() <= Date.now()) {
+    throw new AppointmentError("The appointment has already started", 422, { startDateTime: input.slot.startDateTime });
+  }
+
+  let quote;
+  try {
+    quote = await quotePrice({
+      source: catalogSourceForTenant(input.tenant),
+      siteKey: input.tenant.siteKey,
+      itemId: input.serviceId,
+      itemType: "Service"
+    });
+  } catch (error) {
+    if (error instanceof PricingError) {
+      throw new AppointmentError(error.message, 422, { code: error.code, ...error.details });
+    }
+    throw error;
+  }
+  if (!Number.isFinite(quote.price) || quote.price <= 0) {
+    throw new AppointmentError("The service has no chargeable price", 422, { serviceId: input.serviceId });
+  }
+
+  await ensureSlotBookable(input.tenant, input.slot);
+
+  const sessionId = randomUUID();
+  const holdExpiresAt = new Date(Date.now() + HOLD_MS);
+  const holdId = await createAppointmentHold({
+    siteKey: input.tenant.siteKey,
+    sessionId,
+    clientId: input.clientId,
+    sessionTypeId: input.slot.sessionTypeId,
+    staffId: input.slot.staffId,
+    locationId: input.slot.locationId,
+    startDateTime: input.slot.startDateTime,
+    holdExpiresAt
+  });
+  if (holdId === undefined) {
+    throw new AppointmentError("The appointment slot is being booked by another client", 409, {
+      staffId: input.slot.staffId,
+      startDateTime: input.slot.startDateTime
+    });
+  }
+
+  const orderId = `appt_${Date.now()}_${sessionId}`;
+  await save({
+    id: sessionId,
+    siteKey: input.tenant.siteKey,
+    customer: input.customer,
+    lines: [{ productId: quote.entry.id, name: quote.entry.name, unitPrice: quote.price, qty: 1, type: quote.entry.type }],
+    total: quote.price,
+    status: "created",
+    appointmentHoldId: holdId,
+    ...(input.clientId ? { clientId: input.clientId } : {}),
+    cayman: { orderId },
+    expiresAt: holdExpiresAt.toISOString()
+  });
+
+  const fail = async (detail: string): Promise<void> => {
+    await releaseAppointmentHold(sessionId, detail);
+    await transition(sessionId, "created", "failed");
+  };
+
+  const notificationUrl = new URL(input.notificationUrl);
+  notificationUrl.searchParams.set("sessionId", sessionId);
+
+  let hostedPayment;
+  try {
+    hostedPayment = await createHostedPayment({
+      amount: quote.price,
+      orderId,
+      sessionId,
+      currency: tenantCurrency(input.tenant),
+      customer: input.customer,
+      notificationUrl: notificationUrl.toString(),
+      returnUrl: input.returnUrl,
+      ...(input.cancelUrl ? { cancelUrl: input.cancelUrl } : {}),
+      billing: input.billing,
+      siteKey: input.tenant.siteKey
+    });
+  } catch (error) {
+    await fail(error instanceof Error ? error.message : String(error));
+    throw new AppointmentError("Failed to create Cayman checkout session", 502);
+  }
+
+  if (!hostedPayment.ok || !hostedPayment.redirectUrl) {
+    await fail("Cayman returned no payment page");
+    throw new AppointmentError("Failed to create Cayman checkout session", 502, { response: hostedPayment.raw });
+  }
+
+  return { holdId, sessionId, redirectUrl: hostedPayment.redirectUrl, amount: quote.price, holdExpiresAt };
+};
+
+/** Mindbody's reason for turning the booking down; `undefined` when it failed for another reason. */
+const mindbodyRefusal = (error: unknown): string | undefined => {
+  if (!isAxiosError(error) || !error.response || error.response.status >= 500) {
+    return undefined;
+  }
+  const data = error.response.data as { Error?: { Code?: unknown; Message?: unknown } } | undefined;
+  const reason = [toId(data?.Error?.Code), toId(data?.Error?.Message)].filter(Boolean).join(": ");
+  return reason || `Mindbody refused the appointment (status ${error.response.status})`;
+};
+
+/** The audit trail is best effort; losing an entry must never fail a payment. */
+const noteBookingEvent = async (session: Session, type: string, detail: Record<string, unknown>): Promise<void> => {
+  try {
+    await recordEvent({ sessionId: session.id, type, actor: APPOINTMENTS_ACTOR, detail });
+  } catch (error) {
+    console.error("[appointments] Failed to record session event", { sessionId: session.id, type, error });
+  }
+};
+
+/** One refund per hold, whichever path gave up on the booking. */
+const refundUnbookedAppointment = async (session: Session, holdId: number, reason: string): Promise<void> => {
+  await createRefundService().refundSession({
+    sessionId: session.id,
+    reason,
+    idempotencyKey: `appointment:${holdId}`,
+    actor: APPOINTMENTS_ACTOR
+  });
+};
+
+/**
+ * Books the held appointment once its session is paid and the sale is in Mindbody. If the hold lapsed
+ * before the payment arrived, or Mindbody refuses the slot, the payment is refunded in full; any other
+ * failure is left on the hold and the session history for staff, as the appointment may have been
+ * booked after all. Never throws.
+ */
+export const bookPaidAppointment = async (session: Session): Promise<void> => {
+  if (session.appointmentHoldId === undefined || !session.clientId) {
+    return;
+  }
+
+  try {
+    const hold = await getAppointmentHold(session.appointmentHoldId);
+    if (!hold || hold.sessionId !== session.id || hold.status === "booked" || hold.status === "failed") {
+      return;
+    }
+
+    if (hold.status === "released") {
+      // The slot was freed for other checkouts, so booking it now could double-book the staff member.
+      const message = "Hold lapsed before payment";
+      if (!(await markAppointmentHoldFailed(hold.id, message))) {
+        return;
+      }
+      await noteBookingEvent(session, "appointment_booking_failed", { holdId: hold.id, error: message, refused: false, lapsed: true });
+      await refundUnbookedAppointment(session, hold.id, "Appointment hold lapsed before payment");
+      console.warn("[appointments] Payment arrived after the hold lapsed; payment refunded", { sessionId: session.id, holdId: hold.id });
+      return;
+    }
+
+    const tenant = await resolveTenant(session.siteKey);
+    try {
+      const appointment = await addAppointment(
+        {
+          clientId: session.clientId,
+          sessionTypeId: hold.sessionTypeId,
+          staffId: hold.staffId,
+          locationId: hold.locationId,
+          startDateTime: hold.startDateTime,
+          notes: `Cayman ${session.cayman?.transactionId ?? session.cayman?.orderId ?? session.id}`
+        },
+        getMindbodyClient(tenant)
+      );
+      const appointmentId = toId(appointment.Id);
+      await markAppointmentHoldBooked(hold.id, appointmentId, session.clientId);
+      await noteBookingEvent(session, "appointment_booked", { holdId: hold.id, appointmentId: appointmentId ?? null });
+      console.info("[appointments] Appointment booked", { sessionId: session.id, holdId: hold.id, appointmentId });
+      return;
+    } catch (error) {
+      const refusal = mindbodyRefusal(error);
+      const message = refusal ?? (error instanceof Error ? error.message : String(error));
+      await markAppointmentHoldFailed(hold.id, message);
+      await noteBookingEvent(session, "appointment_booking_failed", { holdId: hold.id, error: message, refused: Boolean(refusal) });
+      if (!refusal) {
+        console.error("[appointments] Appointment could not be booked; check Mindbody before refunding", {
+          sessionId: session.id,
+          holdId: hold.id,
+          error: message
+        });
+        return;
+      }
+    }
+
+    await refundUnbookedAppointment(session, hold.id, "Appointment slot could not be booked");
+    console.warn("[appointments] Appointment refused by Mindbody; payment refunded", { sessionId: session.id, holdId: hold.id });
+  } catch (error) {
+    console.error("[appointments] Failed to book paid appointment", { sessionId: session.id, error });
+  }
+};
+
+/** Releases the slot of an appointment checkout whose payment failure was verified; otherwise the slot is held until it lapses. */
+export const releaseAppointmentCheckout = async (session: Session): Promise<void> => {
+  if (session.appointmentHoldId === undefined) {
+    return;
+  }
+  try {
+    await releaseAppointmentHold(session.id, "Payment failed");
+  } catch (error) {
+    console.error("[appointments] Failed to release appointment hold", { sessionId: session.id, error });
+  }
+};
+
+/** Frees slots whose checkout lapsed unpaid; the session sweeper expires the sessions themselves. */
+export const startAppointmentHoldWorker = (): void => {
+  if (!isDatabaseConfigured()) {
+    console.warn("[appointments] No database configured; appointment checkout is unavailable.");
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    releaseLapsedAppointmentHolds()
+      .then((released) => {
+        if (released > 0) {
+          console.info("[appointments] Released lapsed appointment holds", { released });
+        }
+      })
+      .catch((error) => {
+        console.error("[appointments] Failed to release lapsed appointment holds", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, POLL_INTERVAL_MS);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+};
@@ -1,7 +1,7 @@
 import axios from "axios";
 import { isAxiosError } from "axios";
 import { type CaymanConsumerResponse, type CaymanCurrency } from "../types/cayman.js";
-import { getApiConfig } from "../storage/apiConfig.js";
+import { resolveTenant } from "./tenants.js";
 
 interface CaymanApiCredentials {
   baseUrl: string;
@@ -10,71 +10,20 @@ interface CaymanApiCredentials {
   password: string;
 }
 
-const sanitizeSiteKey = (value: string | undefined): string | undefined => {
-  if (!value) {
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-};
-
-const envCredentials = (baseUrl: string): CaymanApiCredentials | undefined => {
-  const apiKey = process.env.CAYMAN_API_KEY?.trim();
-  const username = process.env.CAYMAN_API_USERNAME?.trim();
-  const password = process.env.CAYMAN_API_PASSWORD ?? "";
-
-  if (!apiKey || !username) {
-    return undefined;
-  }
-
-  return {
-    baseUrl,
-    apiKey,
-    username,
-    password
-  } satisfies CaymanApiCredentials;
-};
-
+/**
+ * Credentials come only from the tenant named by `siteKey`. There is deliberately no fallback to the
+ * deployment default: charging through another studio's Cayman account is worse than failing.
+ */
 const resolveCaymanCredentials = async (siteKey?: string): Promise<CaymanApiCredentials> => {
-    const baseUrl = process.env.CAYMAN_API_BASE_URL?.trim();
-
-    if (!baseUrl) {
-      throw new Error("CAYMAN_API_BASE_URL environment variable is required.");
-    }
-
-  const candidates = Array.from(
-    new Set(
-      [
-        sanitizeSiteKey(siteKey),
-        sanitizeSiteKey(process.env.MINDBODY_SITE_ID),
-        "default"
-      ].filter((value): value is string => Boolean(value))
-    )
-  );
-
-  for (const key of candidates) {
-    try {
-      const config = await getApiConfig(key);
-      if (config) {
-        return {
-          baseUrl,
-          apiKey: config.caymanApiKey,
-          username: config.caymanApiUsername,
-          password: config.caymanApiPassword
-        } satisfies CaymanApiCredentials;
-      }
-    } catch (error) {
-      console.error("[cayman] failed to load API config", { siteKey: key, error });
-    }
-  }
+  const tenant = await resolveTenant(siteKey);
 
-  const fallback = envCredentials(baseUrl);
-  if (fallback) {
-    return fallback;
+  if (!tenant.cayman) {
+    throw new Error(
+      `Cayman API credentials are not configured for site key ${tenant.siteKey}. Use /admin/config to provide them.`
+    );
   }
 
-  throw new Error("Cayman API credentials are not configured. Use /admin/config to provide them or set environment variables.");
+  return tenant.cayman;
 };
 
 export interface HostedPaymentCustomer {
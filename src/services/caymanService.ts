@@ -1,4 +1,5 @@
 import { cayman } from "./http.js";
+import { defaultSiteKey, resolveTenant } from "./tenants.js";
 
 export type CaymanOperation = "sale" | "authorize" | "capture" | "void" | "refund";
 
@@ -14,10 +15,10 @@ export interface CaymanThreeStepResponse {
   masked?: string;
 }
 
-const withApiKey = (payload: Record<string, unknown>): Record<string, unknown> => ({
-  ...payload,
-  "api-key": process.env.CAYMAN_API_KEY ?? ""
-});
+const withApiKey = async (payload: Record<string, unknown>): Promise<Record<string, unknown>> => {
+  const tenant = await resolveTenant(defaultSiteKey());
+  return { ...payload, "api-key": tenant.cayman?.apiKey ?? "" };
+};
 
 export const isOk = (code?: string | number, fallbackSuccess?: boolean): boolean => {
   if (typeof code === "string") {
@@ -31,7 +32,7 @@ export const threeStep = async (
   operation: CaymanOperation,
   payload: Record<string, unknown>
 ): Promise<CaymanThreeStepResponse> => {
-  const response = await cayman.post("/three-step", { [operation]: withApiKey(payload) });
+  const response = await cayman.post("/three-step", { [operation]: await withApiKey(payload) });
   const data = response.data as Record<string, unknown>;
   const resultCode = (data["result-code"] || data.result || data.code) as string | undefined;
   const txnId = (data["transaction-id"] || data.transactionId || data.txnId) as string | undefined;
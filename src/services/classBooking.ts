@@ -0,0 +1,134 @@
+import { isAxiosError } from "axios";
+import { addClientToClass } from "../integrations/mindbody.js";
+import { type TenantConfig } from "../lib/env.js";
+import { isOk } from "./caymanService.js";
+import { getCaymanService, type Tenant } from "./tenants.js";
+
+/** Put the client on a full class's waitlist; with `false` a full class is refunded straight away. */
+const WAITLIST_WHEN_FULL = (process.env.CLASS_BOOKING_WAITLIST ?? "true").toLowerCase() !== "false";
+
+/** `refunded`: Mindbody would take neither a booking nor a waitlist entry, so the payment was returned. */
+export type ClassBookingStatus = "booked" | "waitlisted" | "refunded";
+
+export interface ClassBooking {
+  status: ClassBookingStatus;
+  classId: string;
+  visitId?: string;
+  waitlistEntryId?: string;
+  refundTransactionId?: string;
+  /** Why Mindbody refused the class, when it did. */
+  detail?: string;
+}
+
+export interface PaidClassBookingInput {
+  tenant: Tenant;
+  tenantConfig: TenantConfig;
+  accessToken: string;
+  clientId: string | number;
+  classId: string;
+  /** The Cayman payment for the class, refunded in full if the client cannot be booked. */
+  transactionId: string;
+  amount: number;
+}
+
+const toId = (value: unknown): string | undefined =>
+  (typeof value === "string" && value.trim().length > 0) || (typeof value === "number" && Number.isFinite(value))
+    ? String(value).trim()
+    : undefined;
+
+/** Mindbody's reason for turning the request down; `undefined` when it failed for another reason and may work later. */
+const mindbodyRefusal = (error: unknown): string | undefined => {
+  if (!isAxiosError(error) || !error.response || error.response.status >= 500) {
+    return undefined;
+  }
+  const data = error.response.data as { Error?: { Code?: unknown; Message?: unknown } } | undefined;
+  const reason = [toId(data?.Error?.Code), toId(data?.Error?.Message)].filter(Boolean).join(": ");
+  return reason || `Mindbody refused the booking (status ${error.response.status})`;
+};
+
+const isClassFull = (refusal: string): boolean => /full|capacity/i.test(refusal);
+
+const isAlreadyBooked = (refusal: string): boolean => /already\s+(booked|enrolled|in|on|signed)/i.test(refusal);
+
+const readVisit = (data: Record<string, unknown>): Pick<ClassBooking, "visitId" | "waitlistEntryId"> => {
+  const visit = (data.Visit && typeof data.Visit === "object" ? data.Visit : {}) as Record<string, unknown>;
+  const visitId = toId(visit.Id);
+  const waitlistEntryId = toId(visit.WaitlistEntryId ?? data.WaitlistEntryId);
+  return { ...(visitId ? { visitId } : {}), ...(waitlistEntryId ? { waitlistEntryId } : {}) };
+};
+
+const refundUnbookedClass = async (input: PaidClassBookingInput, refusal: string): Promise<ClassBooking> => {
+  const response = await getCaymanService(input.tenant).refundTransaction({
+    "transaction-id": input.transactionId,
+    amount: input.amount.toFixed(2)
+  });
+  if (!isOk(response["result-code"] ?? response.result, response.success)) {
+    throw new Error(
+      `Class ${input.classId} could not be booked (${refusal}) and Cayman declined the refund: ${response["result-text"] ?? "no reason given"}`
+    );
+  }
+
+  console.warn("[class-booking] Class could not be booked; payment refunded", {
+    siteKey: input.tenant.siteKey,
+    classId: input.classId,
+    transactionId: input.transactionId,
+    refusal
+  });
+  const refundTransactionId = toId(response["transaction-id"]);
+  return { status: "refunded", classId: input.classId, ...(refundTransactionId ? { refundTransactionId } : {}), detail: refusal };
+};
+
+/**
+ * Books the client into the class a paylink paid for, before the sale is posted. A full class puts the
+ * client on its waitlist (unless `CLASS_BOOKING_WAITLIST=false`); if Mindbody refuses both, the Cayman
+ * payment is refunded in full and no sale should be posted. A repeat for a client already booked counts
+ * as booked. Errors Mindbody may recover from are thrown and nothing is refunded: `/webhooks/cayman` then
+ * gives its dedupe claim back, so Cayman's redelivery (or an admin replay) tries the booking again.
+ */
+export const bookPaidClass = async (input: PaidClassBookingInput): Promise<ClassBooking> => {
+  const attempt = (waitlist: boolean): Promise<Record<string, unknown>> =>
+    addClientToClass(input.tenantConfig, input.accessToken, { clientId: input.clientId, classId: input.classId, waitlist });
+
+  let refusal: string;
+  try {
+    return { status: "booked", classId: input.classId, ...readVisit(await attempt(false)) };
+  } catch (error) {
+    const refused = mindbodyRefusal(error);
+    if (!refused) {
+      throw error;
+    }
+    if (isAlreadyBooked(refused)) {
+      return { status: "booked", classId: input.classId, detail: refused };
+    }
+    refusal = refused;
+  }
+
+  if (WAITLIST_WHEN_FULL && isClassFull(refusal)) {
+    try {
+      return { status: "waitlisted", classId: input.classId, ...readVisit(await attempt(true)), detail: refusal };
+    } catch (error) {
+      const refused = mindbodyRefusal(error);
+      if (!refused) {
+        throw error;
+      }
+      if (isAlreadyBooked(refused)) {
+        return { status: "waitlisted", classId: input.classId, detail: refused };
+      }
+      refusal = `${refusal}; waitlist: ${refused}`;
+    }
+  }
+
+  return refundUnbookedClass(input, refusal);
+};
+
+/** One line for the Mindbody sale notes, which print on the client's receipt. */
+export const describeClassBooking = (booking: ClassBooking): string => {
+  switch (booking.status) {
+    case "booked":
+      return `Booked into class ${booking.classId}${booking.visitId ? ` (visit ${booking.visitId})` : ""}`;
+    case "waitlisted":
+      return `Class ${booking.classId} is full; waitlisted${booking.waitlistEntryId ? ` (entry ${booking.waitlistEntryId})` : ""}`;
+    default:
+      return `Class ${booking.classId} could not be booked; payment refunded`;
+  }
+};
@@ -0,0 +1,97 @@
+import { isAxiosError } from "axios";
+import { createCaymanService } from "../cayman/service.js";
+import { type UpsertApiConfigInput } from "../storage/apiConfig.js";
+import { issueStaffUserToken } from "./mindbody.js";
+import { caymanBaseUrl } from "./tenants.js";
+
+export interface CredentialCheck {
+  ok: boolean;
+  /** HTTP status from the remote system, when it answered. */
+  status?: number;
+  message: string;
+}
+
+export interface CredentialCheckResult {
+  ok: boolean;
+  mindbody: CredentialCheck;
+  cayman: CredentialCheck;
+  checkedAt: string;
+}
+
+const timeoutEnv = Number.parseInt(process.env.CREDENTIAL_CHECK_TIMEOUT_MS ?? "", 10);
+const CHECK_TIMEOUT_MS = Number.isFinite(timeoutEnv) && timeoutEnv > 0 ? timeoutEnv : 10_000;
+
+// Cayman answers a lookup of an unknown transaction with 200 and an error text; only these mean the credentials were refused.
+const CAYMAN_AUTH_FAILURE = /api[\s-]?key|authenticat|unauthori[sz]ed|credential|forbidden|access denied/i;
+
+const withTimeout = <T>(promise: Promise<T>, label: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${label} did not respond within ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const describeFailure = (error: unknown): CredentialCheck => {
+  if (isAxiosError(error)) {
+    const data = error.response?.data as Record<string, unknown> | string | undefined;
+    const remoteMessage =
+      typeof data === "string"
+        ? data
+        : (data?.Error as Record<string, unknown> | undefined)?.Message ?? data?.["result-text"] ?? data?.message;
+    return {
+      ok: false,
+      status: error.response?.status,
+      message: typeof remoteMessage === "string" && remoteMessage.trim() ? remoteMessage.trim().slice(0, 255) : error.message
+    };
+  }
+  return { ok: false, message: error instanceof Error ? error.message : String(error) };
+};
+
+/** Issues a staff user token, exactly as fulfilment does before its first Mindbody call. */
+const checkMindbody = async (config: UpsertApiConfigInput): Promise<CredentialCheck> => {
+  try {
+    await issueStaffUserToken({
+      siteId: config.mindbodySiteId,
+      apiKey: config.mindbodyApiKey,
+      username: config.mindbodySourceName,
+      password: config.mindbodySourcePassword
+    });
+    return { ok: true, message: "Issued a Mindbody staff user token" };
+  } catch (error) {
+    return describeFailure(error);
+  }
+};
+
+/** Looks up a transaction that cannot exist: read-only, and it needs both the basic-auth login and the API key. */
+const checkCayman = async (config: UpsertApiConfigInput): Promise<CredentialCheck> => {
+  const baseUrl = caymanBaseUrl();
+  if (!baseUrl) {
+    return { ok: false, message: "CAYMAN_API_BASE_URL is not configured" };
+  }
+
+  const service = createCaymanService({
+    baseUrl,
+    apiKey: config.caymanApiKey,
+    username: config.caymanApiUsername,
+    password: config.caymanApiPassword
+  });
+
+  try {
+    const response = await withTimeout(
+      service.getTransactionDetails({ "transaction-id": `credential-check-${Date.now()}` }),
+      "Cayman"
+    );
+    const resultText = String(response?.["result-text"] ?? response?.message ?? "");
+    if (CAYMAN_AUTH_FAILURE.test(resultText)) {
+      return { ok: false, message: resultText.slice(0, 255) };
+    }
+    return { ok: true, message: "Cayman accepted the API key and login" };
+  } catch (error) {
+    return describeFailure(error);
+  }
+};
+
+/** Tries the submitted credentials against both systems without saving them; checks run in parallel. */
+export const verifyApiCredentials = async (config: UpsertApiConfigInput): Promise<CredentialCheckResult> => {
+  const [mindbody, cayman] = await Promise.all([checkMindbody(config), checkCayman(config)]);
+  return { ok: mindbody.ok && cayman.ok, mindbody, cayman, checkedAt: new Date().toISOString() };
+};
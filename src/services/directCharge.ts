@@ -0,0 +1,48 @@
+import { processCaymanNotification, type CaymanNotificationResult } from "../routes/webhooks.js";
+
+/** Fields of a Cayman answer that say what happened to the card; everything else stays behind. */
+const RESULT_FIELDS = ["result", "result-code", "result-text", "authorization-code"];
+
+export const pickString = (source: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if ((typeof value === "string" && value.trim().length > 0) || typeof value === "number") {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+};
+
+export interface DirectChargeEvidence {
+  /** Exact request body and `cayman-signature` header, when the answer arrived as a signed notification. */
+  rawBody?: Buffer;
+  signature?: string;
+}
+
+/**
+ * Settles a `created` session charged without a redirect (a saved card, a membership renewal) from
+ * Cayman's answer, through `processCaymanNotification`, so the charge is confirmed with transaction-info
+ * and fulfilled in Mindbody exactly as a hosted payment would be. Only the result fields go on: Cayman's
+ * `success` flag says the call worked, not that the card was approved.
+ */
+export const settleDirectCharge = async (
+  sessionId: string,
+  response: Record<string, unknown>,
+  source: string,
+  evidence: DirectChargeEvidence = {}
+): Promise<{ result: CaymanNotificationResult; transactionId?: string }> => {
+  const transactionId = pickString(response, "transaction-id", "transactionid", "transactionId");
+  const result = await processCaymanNotification({
+    source,
+    body: {
+      sessionId,
+      ...(transactionId ? { "transaction-id": transactionId } : {}),
+      ...Object.fromEntries(
+        RESULT_FIELDS.map((key) => [key, pickString(response, key)]).filter(([, value]) => value !== undefined)
+      )
+    },
+    rawBody: evidence.rawBody,
+    signature: evidence.signature
+  });
+  return { result, transactionId };
+};
@@ -0,0 +1,536 @@
+import { isAxiosError, type AxiosInstance } from "axios";
+import { NonJsonResponseError } from "../mindbody/client.js";
+import { get, isSettled, recordEvent, transition, update, type NewSessionEvent, type Session } from "../lib/sessions.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import {
+  buryFulfilmentJob,
+  claimDueFulfilmentJobs,
+  claimFulfilmentJob,
+  completeFulfilmentJob,
+  getFulfilmentJobBySessionId,
+  requeueFulfilmentJob,
+  rescheduleFulfilmentJob,
+  upsertFulfilmentJob,
+  type FulfilmentErrorKind,
+  type FulfilmentJob
+} from "../storage/fulfilmentJobs.js";
+import { bookPaidAppointment } from "./appointments.js";
+import { checkoutShoppingCart, getOrCreateClient, listSales, type MindbodySale } from "./mbo.js";
+import { getMindbodyClient, resolveTenant, UnknownTenantError, type Tenant } from "./tenants.js";
+
+type LooseRecord = Record<string, unknown>;
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const MAX_ATTEMPTS = readPositiveInt(process.env.FULFILMENT_MAX_ATTEMPTS, 8);
+const RETRY_BASE_MS = readPositiveInt(process.env.FULFILMENT_RETRY_BASE_MS, 60_000);
+const RETRY_MAX_MS = readPositiveInt(process.env.FULFILMENT_RETRY_MAX_MS, 6 * 3_600_000);
+const POLL_INTERVAL_MS = readPositiveInt(process.env.FULFILMENT_POLL_INTERVAL_MS, 30_000);
+const CLAIM_BATCH_SIZE = 10;
+
+/** Raised for fulfilment problems that no amount of retrying will fix without operator input. */
+export class FulfilmentError extends Error {
+  constructor(
+    message: string,
+    public kind: FulfilmentErrorKind = "permanent"
+  ) {
+    super(message);
+    this.name = "FulfilmentError";
+  }
+}
+
+/** The audit trail is best effort; losing an entry must never fail a payment. */
+const noteSessionEvent = async (event: NewSessionEvent): Promise<void> => {
+  try {
+    await recordEvent(event);
+  } catch (error) {
+    console.error("[fulfilment] Failed to record session event", { sessionId: event.sessionId, type: event.type, error });
+  }
+};
+
+export interface FulfilmentReceipt {
+  clientId: string;
+  receiptId: string | number | null;
+  response: unknown;
+}
+
+export const sanitizeReference = (value: string | undefined): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const normalized = trimmed.replace(/[^A-Za-z0-9_-]/g, "");
+  if (!normalized) {
+    return undefined;
+  }
+
+  const limited = normalized.slice(0, 30);
+  return limited;
+};
+
+/** The reference `fulfilSession` puts on a sale: the transaction id, else the order id, else the session id. */
+const saleReferenceFor = (session: Session): string | undefined =>
+  sanitizeReference(session.cayman?.transactionId) ?? sanitizeReference(session.cayman?.orderId) ?? sanitizeReference(session.id);
+
+const REFERENCE_PATTERN = /\b(?:TxnId|OrderId)=([A-Za-z0-9_-]+)/g;
+
+/**
+ * References `fulfilSession` writes on a sale: `TxnId=`/`OrderId=` in the notes and the bare reference
+ * (transaction id, else order id, else session id) in `ExternalReferenceId` and the payment reference.
+ */
+export const saleReferences = (sale: MindbodySale): Set<string> => {
+  const references = new Set<string>();
+  const payments = Array.isArray(sale.Payments) ? sale.Payments : [];
+  const notes = [sale.Notes, ...payments.flatMap((payment) => [payment.Notes, payment.Note])];
+
+  for (const text of notes) {
+    if (typeof text === "string") {
+      for (const match of text.matchAll(REFERENCE_PATTERN)) {
+        references.add(match[1]);
+      }
+    }
+  }
+
+  for (const bare of [sale.ExternalReferenceId, ...payments.map((payment) => payment.Reference)]) {
+    const reference = typeof bare === "string" ? sanitizeReference(bare) : undefined;
+    if (reference) {
+      references.add(reference);
+    }
+  }
+
+  return references;
+};
+
+const resolveMindbodyItemType = (lineType: string | undefined): string => {
+  if (typeof lineType === "string") {
+    const normalized = lineType.trim().toLowerCase();
+    if (normalized === "product") return "Product";
+    if (normalized === "package" || normalized === "pricingoption") return "PricingOption";
+    if (normalized === "service") return "Service";
+  }
+  return "Service";
+};
+
+const resolveClientId = async (session: Session, source: string, mindbody: AxiosInstance): Promise<string> => {
+  if (session.clientId) {
+    return session.clientId;
+  }
+
+  const customer = session.customer;
+  if (!customer) {
+    console.warn(`[cayman:${source}] Missing customer data`, { sessionId: session.id });
+    throw new FulfilmentError("Customer data missing");
+  }
+
+  const client = await getOrCreateClient(customer.email, customer.firstName, customer.lastName, mindbody);
+  const resolvedClientId = client?.Id ?? client?.ID;
+
+  if (!resolvedClientId) {
+    console.warn(`[cayman:${source}] Mindbody client missing`, { sessionId: session.id });
+    throw new FulfilmentError("Mindbody client missing", "transient");
+  }
+
+  await update(session.id, { clientId: String(resolvedClientId) });
+  return String(resolvedClientId);
+};
+
+const resolveSessionTenant = async (session: Session): Promise<Tenant> => {
+  try {
+    return await resolveTenant(session.siteKey);
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      throw new FulfilmentError(`Site key ${session.siteKey} is not registered`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Posts the Mindbody sale for a session whose Cayman payment has been confirmed. Everything needed
+ * is read from the session so the outbox can replay it long after the original notification.
+ */
+export const fulfilSession = async (session: Session, source: string): Promise<FulfilmentReceipt> => {
+  // The sale is posted to the Mindbody site of the tenant that took the payment, never the deployment default.
+  const tenant = await resolveSessionTenant(session);
+  const mindbody = getMindbodyClient(tenant);
+  const clientId = await resolveClientId(session, source, mindbody);
+
+  const items = session.lines.map((line) => ({
+    Type: resolveMindbodyItemType(line.type),
+    Item: {
+      Id: Number.isFinite(Number(line.productId)) ? Number(line.productId) : line.productId
+    },
+    Quantity: line.qty,
+    Price: line.unitPrice,
+    ...(line.discount ? { DiscountAmount: line.discount } : {}),
+    Description: line.name
+  }));
+
+  const cayman = session.cayman ?? {};
+  const notesParts = ["Gateway=Cayman"];
+  const sanitizedTxnId = sanitizeReference(cayman.transactionId);
+  if (sanitizedTxnId) {
+    notesParts.push(`TxnId=${sanitizedTxnId}`);
+  }
+  if (cayman.auth) notesParts.push(`Auth=${cayman.auth}`);
+  if (cayman.last4) notesParts.push(`Last4=${cayman.last4}`);
+  if (cayman.resultCode) notesParts.push(`ResultCode=${cayman.resultCode}`);
+  if (cayman.resultText) notesParts.push(`Result=${cayman.resultText}`);
+
+  const orderId = sanitizeReference(cayman.orderId);
+  if (orderId) {
+    notesParts.push(`OrderId=${orderId}`);
+  }
+
+  const referenceValue = saleReferenceFor(session);
+
+  console.info(`[cayman:${source}] Mindbody checkout reference`, {
+    sessionId: session.id,
+    transactionId: sanitizedTxnId ?? null,
+    orderId: orderId ?? null,
+    referenceValue
+  });
+
+  const response = await checkoutShoppingCart({
+    ClientId: clientId,
+    Items: items,
+    Total: session.total,
+    Notes: notesParts.join(" | "),
+    inStore: session.inStore === true,
+    paymentReference: referenceValue,
+    externalReferenceId: referenceValue,
+    paymentMethodId: tenant.mindbody.paymentMethodId
+  }, mindbody);
+
+  const receiptId = (response as LooseRecord)?.ReceiptId ?? (response as LooseRecord)?.SaleId ?? null;
+
+  return {
+    clientId,
+    receiptId: typeof receiptId === "string" || typeof receiptId === "number" ? receiptId : null,
+    response
+  };
+};
+
+/** How far before the session was created a posted sale is looked for, to allow for clock skew. */
+const SALE_LOOKBACK_MS = 3_600_000;
+
+/**
+ * A sale already posted for the session under its reference. A timed-out or dropped checkout POST may
+ * still have created the sale, so retries look for it before posting again.
+ */
+export const findPostedSale = async (session: Session, createdAt: Date): Promise<FulfilmentReceipt | undefined> => {
+  const reference = saleReferenceFor(session);
+  if (!reference) {
+    return undefined;
+  }
+
+  const tenant = await resolveSessionTenant(session);
+  const sessionCreatedAt = session.createdAt ? Date.parse(session.createdAt) : Number.NaN;
+  const from = new Date((Number.isFinite(sessionCreatedAt) ? sessionCreatedAt : createdAt.getTime()) - SALE_LOOKBACK_MS);
+  const sales = await listSales(from, new Date(), getMindbodyClient(tenant));
+  const sale = sales.find((candidate) => saleReferences(candidate).has(reference));
+  if (!sale) {
+    return undefined;
+  }
+
+  const clientId = session.clientId ?? (sale.ClientId !== undefined ? String(sale.ClientId) : undefined);
+  if (!clientId) {
+    throw new FulfilmentError(`Sale ${String(sale.Id)} for this payment names no client`);
+  }
+  return {
+    clientId,
+    receiptId: typeof sale.Id === "string" || typeof sale.Id === "number" ? sale.Id : null,
+    response: sale
+  };
+};
+
+/**
+ * Marks a processing session paid once its Mindbody sale exists. An appointment checkout then books its
+ * held slot, which needs the sale's pricing option in place first.
+ */
+export const markSessionFulfilled = async (session: Session, receipt: FulfilmentReceipt): Promise<Session | undefined> => {
+  const paid = await transition(session.id, "processing", "paid", {
+    clientId: receipt.clientId,
+    cayman: {
+      transactionId: sanitizeReference(session.cayman?.transactionId) ?? sanitizeReference(session.cayman?.orderId)
+    },
+    mindbody: {
+      receiptId: receipt.receiptId !== null ? String(receipt.receiptId) : undefined,
+      fulfilledAt: new Date().toISOString()
+    }
+  });
+  if (paid?.appointmentHoldId !== undefined) {
+    await bookPaidAppointment(paid);
+  }
+  return paid;
+};
+
+/**
+ * Mindbody rejecting the request itself (validation, unknown item, bad client) is permanent;
+ * timeouts, throttling, server errors and non-JSON maintenance pages are worth retrying. Such a
+ * failure may still have posted the sale, so every retry first looks for it with `findPostedSale`.
+ */
+export const classifyFulfilmentError = (error: unknown): FulfilmentErrorKind => {
+  if (error instanceof FulfilmentError) {
+    return error.kind;
+  }
+
+  if (error instanceof NonJsonResponseError) {
+    return "transient";
+  }
+
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    if (!status || status === 401 || status === 403 || status === 408 || status === 409 || status === 429 || status >= 500) {
+      return "transient";
+    }
+    return "permanent";
+  }
+
+  return "transient";
+};
+
+export const describeFulfilmentError = (error: unknown): string => {
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+    const body = data === undefined ? "" : ` ${typeof data === "string" ? data : JSON.stringify(data)}`;
+    return `Mindbody checkout failed${status ? ` (status ${status})` : ""}:${body || ` ${error.message}`}`.slice(0, 2000);
+  }
+
+  return (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+};
+
+const retryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+export type DeferredFulfilment = "queued" | "failed";
+
+/**
+ * Records a paid-but-unfulfilled session in the outbox. Transient failures stay `processing` and are
+ * retried with exponential backoff; permanent ones are parked as dead jobs and the session fails.
+ */
+export const deferFulfilment = async (
+  session: Session,
+  error: unknown,
+  source: string
+): Promise<DeferredFulfilment> => {
+  const kind = classifyFulfilmentError(error);
+  const lastError = describeFulfilmentError(error);
+
+  try {
+    await upsertFulfilmentJob({
+      sessionId: session.id,
+      siteKey: session.siteKey,
+      status: kind === "transient" ? "pending" : "dead",
+      attempts: 1,
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: new Date(Date.now() + retryDelayMs(1)),
+      lastError,
+      lastErrorKind: kind
+    });
+  } catch (storeError) {
+    console.error(`[fulfilment:${source}] Failed to record outbox job`, { sessionId: session.id, storeError });
+    await transition(session.id, "processing", "failed");
+    return "failed";
+  }
+
+  await noteSessionEvent({
+    sessionId: session.id,
+    type: kind === "transient" ? "fulfilment_deferred" : "fulfilment_failed",
+    actor: source,
+    detail: { error: lastError, kind }
+  });
+
+  if (kind === "transient") {
+    console.warn(`[fulfilment:${source}] Queued Mindbody fulfilment for retry`, { sessionId: session.id, lastError });
+    return "queued";
+  }
+
+  await transition(session.id, "processing", "failed");
+  console.error(`[fulfilment:${source}] Mindbody fulfilment failed permanently`, { sessionId: session.id, lastError });
+  return "failed";
+};
+
+/** Runs one claimed job to completion, reschedules it, or buries it once it is out of attempts. */
+export const runFulfilmentJob = async (job: FulfilmentJob): Promise<FulfilmentJob["status"]> => {
+  const source = "outbox";
+  const session = await get(job.sessionId);
+
+  if (!session) {
+    await buryFulfilmentJob(job.id, "Session not found", "permanent");
+    return "dead";
+  }
+
+  if (isSettled(session)) {
+    await completeFulfilmentJob(job.id);
+    return "succeeded";
+  }
+
+  if (session.reconciled) {
+    await buryFulfilmentJob(job.id, "Session reconciled manually", "permanent");
+    return "dead";
+  }
+
+  const locked =
+    session.status === "processing" ? session : await transition(session.id, ["failed", "expired"], "processing");
+
+  if (!locked) {
+    await rescheduleFulfilmentJob(job.id, new Date(Date.now() + retryDelayMs(job.attempts)), "Session busy", "transient");
+    return "pending";
+  }
+
+  try {
+    const posted = await findPostedSale(locked, job.createdAt);
+    const receipt = posted ?? (await fulfilSession(locked, source));
+    await markSessionFulfilled(locked, receipt);
+    await completeFulfilmentJob(job.id);
+    console.info(`[fulfilment:${source}] ${posted ? "Found the sale an earlier attempt posted" : "Session fulfilled on retry"}`, {
+      sessionId: job.sessionId,
+      attempts: job.attempts,
+      receiptId: receipt.receiptId
+    });
+    return "succeeded";
+  } catch (error) {
+    const kind = classifyFulfilmentError(error);
+    const lastError = describeFulfilmentError(error);
+
+    await noteSessionEvent({
+      sessionId: job.sessionId,
+      type: "fulfilment_attempt_failed",
+      actor: source,
+      detail: { error: lastError, kind, attempts: job.attempts }
+    });
+
+    if (kind === "permanent" || job.attempts >= job.maxAttempts) {
+      await buryFulfilmentJob(job.id, lastError, kind);
+      await transition(job.sessionId, "processing", "failed");
+      console.error(`[fulfilment:${source}] Giving up on Mindbody fulfilment`, {
+        sessionId: job.sessionId,
+        attempts: job.attempts,
+        lastError
+      });
+      return "dead";
+    }
+
+    await rescheduleFulfilmentJob(job.id, new Date(Date.now() + retryDelayMs(job.attempts)), lastError, kind);
+    console.warn(`[fulfilment:${source}] Mindbody fulfilment retry failed`, {
+      sessionId: job.sessionId,
+      attempts: job.attempts,
+      lastError
+    });
+    return "pending";
+  }
+};
+
+export const runDueFulfilmentJobs = async (): Promise<number> => {
+  const jobs = await claimDueFulfilmentJobs(CLAIM_BATCH_SIZE);
+
+  for (const job of jobs) {
+    try {
+      await runFulfilmentJob(job);
+    } catch (error) {
+      console.error("[fulfilment:outbox] Job run crashed", { jobId: job.id, sessionId: job.sessionId, error });
+    }
+  }
+
+  return jobs.length;
+};
+
+/** Operator re-drive: resets the attempt budget and runs the job straight away. */
+export const redriveFulfilmentJob = async (
+  jobId: number,
+  actor = "admin"
+): Promise<FulfilmentJob["status"] | undefined> => {
+  if (!(await requeueFulfilmentJob(jobId))) {
+    return undefined;
+  }
+
+  const claimed = await claimFulfilmentJob(jobId);
+  if (!claimed) {
+    return "pending";
+  }
+
+  await noteSessionEvent({ sessionId: claimed.sessionId, type: "fulfilment_retry", actor });
+  return runFulfilmentJob(claimed);
+};
+
+/**
+ * Re-drives fulfilment for a session, creating its outbox job first when the session failed before
+ * one existed (for example a session that failed before the outbox was introduced).
+ */
+export const retrySessionFulfilment = async (
+  session: Session,
+  actor = "admin"
+): Promise<FulfilmentJob["status"] | undefined> => {
+  const existing = await getFulfilmentJobBySessionId(session.id);
+
+  if (!existing) {
+    await upsertFulfilmentJob({
+      sessionId: session.id,
+      siteKey: session.siteKey,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: new Date()
+    });
+  }
+
+  const job = existing ?? (await getFulfilmentJobBySessionId(session.id));
+  return job ? redriveFulfilmentJob(job.id, actor) : undefined;
+};
+
+/**
+ * Records that staff settled the session by hand (e.g. rang the sale up in Mindbody directly) and
+ * stops any outstanding retry so the sale is not posted twice.
+ */
+export const reconcileSession = async (session: Session, by: string, note?: string): Promise<Session | undefined> => {
+  const reconciled = await update(session.id, {
+    reconciled: { at: new Date().toISOString(), by, note }
+  });
+
+  await noteSessionEvent({ sessionId: session.id, type: "reconciled", actor: by, detail: note ? { note } : undefined });
+
+  if (isDatabaseConfigured()) {
+    const job = await getFulfilmentJobBySessionId(session.id);
+    if (job && (job.status === "pending" || job.status === "dead")) {
+      await buryFulfilmentJob(job.id, "Session reconciled manually", "permanent");
+    }
+  }
+
+  return reconciled;
+};
+
+export const startFulfilmentWorker = (): void => {
+  if (!isDatabaseConfigured()) {
+    console.warn("[fulfilment] No database configured; failed Mindbody checkouts will not be retried.");
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    runDueFulfilmentJobs()
+      .catch((error) => {
+        console.error("[fulfilment] Failed to run due outbox jobs", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, POLL_INTERVAL_MS);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+};
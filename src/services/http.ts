@@ -4,64 +4,59 @@ import axios, {
   type AxiosRequestHeaders,
   type InternalAxiosRequestConfig
 } from "axios";
-import { reloadEnv } from "../config/env.js";
 import { issueStaffUserToken } from "./mindbody.js";
+import { defaultSiteKey, resolveTenant, type Tenant } from "./tenants.js";
+
+// The legacy clients below serve the deployment's default site. Their credentials come from the tenant
+// registry on every request, so a published or rolled-back config applies once the registry cache expires.
+const defaultTenant = (): Promise<Tenant> => resolveTenant(defaultSiteKey());
 
 let mboClient: AxiosInstance | undefined;
 let refreshingMindbodyToken: Promise<string> | null = null;
+// Kept in memory rather than written back to process.env so a refresh never changes shared configuration,
+// and dropped once the default site's credentials change.
+let issuedUserToken: { fingerprint: string; token: string } | undefined;
+
+const credentialsFingerprint = (tenant: Tenant): string =>
+  JSON.stringify([tenant.siteKey, tenant.mindbody.siteId, tenant.mindbody.apiKey, tenant.mindbody.username, tenant.mindbody.password]);
+
+const currentUserToken = (tenant: Tenant): string | undefined =>
+  issuedUserToken?.fingerprint === credentialsFingerprint(tenant) ? issuedUserToken.token : tenant.mindbody.userToken;
+
+const refreshMindbodyUserToken = async (tenant: Tenant): Promise<string> => {
+  const { siteId, apiKey, username, password } = tenant.mindbody;
+  if (!username || !password) {
+    throw new Error(`Mindbody staff credentials missing for site ${siteId}`);
+  }
 
-const refreshMindbodyUserToken = async (): Promise<string> => {
   if (!refreshingMindbodyToken) {
-    refreshingMindbodyToken = (async () => {
-      const token = await issueStaffUserToken();
-      process.env.MINDBODY_USER_TOKEN = token;
-      reloadEnv();
-      if (mboClient) {
-        applyMboEnv(mboClient);
-      }
-      return token;
-    })().finally(() => {
-      refreshingMindbodyToken = null;
-    });
+    const fingerprint = credentialsFingerprint(tenant);
+    refreshingMindbodyToken = issueStaffUserToken({ siteId, apiKey, username, password })
+      .then((token) => {
+        issuedUserToken = { fingerprint, token };
+        return token;
+      })
+      .finally(() => {
+        refreshingMindbodyToken = null;
+      });
   }
 
   return refreshingMindbodyToken;
 };
 
-const applyMboEnv = (client: AxiosInstance): void => {
-  const baseURL = process.env.MINDBODY_BASE_URL;
-  const siteId = process.env.MINDBODY_SITE_ID ?? "";
-  const apiKey = process.env.MINDBODY_API_KEY ?? "";
-  const userToken = process.env.MINDBODY_USER_TOKEN;
-
-  client.defaults.baseURL = baseURL;
-  client.defaults.timeout = 20_000;
-  client.defaults.headers.common["Content-Type"] = "application/json";
-  client.defaults.headers.common["Api-Key"] = apiKey;
-  client.defaults.headers.common.SiteId = String(siteId);
-
-  if (userToken) {
-    client.defaults.headers.common.Authorization = `Bearer ${userToken}`;
-  } else {
-    delete client.defaults.headers.common.Authorization;
-  }
-};
-
 const buildMboClient = (): AxiosInstance => {
-  const client = axios.create();
-  applyMboEnv(client);
+  const client = axios.create({ timeout: 20_000 });
 
-  client.interceptors.request.use((config) => {
-    applyMboEnv(client);
-
-    const siteId = (process.env.MINDBODY_SITE_ID ?? "").toString().trim();
-    const apiKey = (process.env.MINDBODY_API_KEY ?? "").trim();
-    const userToken = (process.env.MINDBODY_USER_TOKEN ?? "").trim();
+  client.interceptors.request.use(async (config) => {
+    const tenant = await defaultTenant();
+    const siteId = tenant.mindbody.siteId.trim();
+    const apiKey = tenant.mindbody.apiKey.trim();
+    const userToken = (currentUserToken(tenant) ?? "").trim();
     const baseURL = process.env.MINDBODY_BASE_URL;
 
     if (!baseURL || !apiKey || !siteId) {
       throw new Error(
-        "Mindbody configuration incomplete: ensure MINDBODY_BASE_URL, MINDBODY_API_KEY, and MINDBODY_SITE_ID are set."
+        `Mindbody configuration incomplete for site key ${tenant.siteKey}: ensure MINDBODY_BASE_URL is set and the site has an API key and site id.`
       );
     }
 
@@ -110,11 +105,8 @@ export const mbo = (() => {
       originalConfig._retry = true;
 
       try {
-        const token = await refreshMindbodyUserToken();
-        const headers = originalConfig.headers ?? {};
-        headers.Authorization = `Bearer ${token}`;
-        originalConfig.headers = headers;
-
+        await refreshMindbodyUserToken(await defaultTenant());
+        // The request interceptor runs again on the retry and sends the token just issued.
         return mboClient!.request(originalConfig);
       } catch (refreshError) {
         return Promise.reject(refreshError);
@@ -124,32 +116,27 @@ export const mbo = (() => {
   return mboClient;
 })();
 
-export const refreshMboClientFromEnv = (): void => {
-  if (!mboClient) {
-    mboClient = buildMboClient();
-    return;
-  }
-  applyMboEnv(mboClient);
-};
-
 const buildCaymanClient = (): AxiosInstance => {
-  const baseURL = process.env.CAYMAN_API_BASE_URL;
-  const apiKey = process.env.CAYMAN_API_KEY ?? "";
-  const username = process.env.CAYMAN_API_USERNAME ?? "";
-  const password = process.env.CAYMAN_API_PASSWORD ?? "";
-
-  return axios.create({
-    baseURL,
+  const client = axios.create({
     timeout: 20_000,
     headers: {
-      "Content-Type": "application/json",
-      "X-API-KEY": apiKey
-    },
-    auth: {
-      username,
-      password
+      "Content-Type": "application/json"
+    }
+  });
+
+  client.interceptors.request.use(async (config) => {
+    const { siteKey, cayman: credentials } = await defaultTenant();
+    if (!credentials) {
+      throw new Error(`Cayman credentials are not configured for site key ${siteKey}`);
     }
+
+    config.baseURL = credentials.baseUrl;
+    config.headers["X-API-KEY"] = credentials.apiKey;
+    config.auth = { username: credentials.username, password: credentials.password };
+    return config;
   });
+
+  return client;
 };
 
 export const cayman = buildCaymanClient();
@@ -1,3 +1,4 @@
+import { type AxiosInstance } from "axios";
 import { mbo } from "./http.js";
 
 export interface MindbodyServiceItem {
@@ -58,6 +59,8 @@ export interface CheckoutShoppingCartItem {
   };
   Quantity?: number;
   Price?: number;
+  /** Whole-line discount, so Mindbody's receipt total matches what Cayman charged. */
+  DiscountAmount?: number;
   Description?: string;
 }
 
@@ -69,47 +72,120 @@ export interface CheckoutShoppingCartPayload {
   inStore?: boolean;
   paymentReference?: string;
   externalReferenceId?: string;
+  /** The tenant's custom payment method; defaults to `MINDBODY_CAYMAN_PAYMENT_METHOD_ID`. */
+  paymentMethodId?: number;
+}
+
+export interface MindbodySalePayment {
+  Id?: number | string;
+  Amount?: number | string;
+  Method?: number | string;
+  Type?: string;
+  Notes?: string;
+  Note?: string;
+  Reference?: string;
+}
+
+export interface MindbodySale {
+  Id?: number | string;
+  SaleDate?: string;
+  SaleDateTime?: string;
+  ClientId?: number | string;
+  Notes?: string;
+  ExternalReferenceId?: string;
+  Payments?: MindbodySalePayment[];
+  [key: string]: unknown;
+}
+
+/** One booking of a client, as returned by `/client/clientvisits`. */
+export interface MindbodyVisit {
+  Id?: number | string;
+  ClassId?: number | string | null;
+  AppointmentId?: number | string | null;
+  /** Appointments only: `Booked`, `Confirmed`, `Arrived`, `Completed`, `NoShow`, `Cancelled` or `LateCancelled`. */
+  AppointmentStatus?: string | null;
+  StartDateTime?: string;
+  SignedIn?: boolean;
+  LateCancelled?: boolean;
+  Missed?: boolean;
+  [key: string]: unknown;
+}
+
+/** A window in which a staff member can take appointments of a session type, from `/appointment/bookableitems`. */
+export interface MindbodyAvailability {
+  Id?: number | string;
+  Staff?: { Id?: number | string; FirstName?: string; LastName?: string; DisplayName?: string } | null;
+  SessionType?: { Id?: number | string; Name?: string; DefaultTimeLength?: number } | null;
+  Location?: { Id?: number | string; Name?: string } | null;
+  StartDateTime?: string;
+  EndDateTime?: string;
+  /** Latest start that still fits the session type before the window closes. */
+  BookableEndDateTime?: string;
+  [key: string]: unknown;
+}
+
+export interface AppointmentSlotQuery {
+  sessionTypeId: string;
+  staffId?: string;
+  locationId?: string;
+  from: Date;
+  to: Date;
+}
+
+export interface NewMindbodyAppointment {
+  clientId: string;
+  sessionTypeId: string;
+  staffId: string;
+  locationId: string;
+  startDateTime: Date;
+  notes?: string;
 }
 
 const booleanFromEnv = (value: string | undefined): boolean =>
   (value ?? "false").toLowerCase() === "true";
 
-export const listServices = async (): Promise<MindbodyServiceItem[]> => {
-  const response = await mbo.get("/sale/services");
+export const listServices = async (client: AxiosInstance = mbo): Promise<MindbodyServiceItem[]> => {
+  const response = await client.get("/sale/services");
   const services = (response.data?.Services ?? response.data?.services) as MindbodyServiceItem[] | undefined;
   return Array.isArray(services) ? services : [];
 };
 
-export const listProducts = async (): Promise<MindbodyProductItem[]> => {
-  const response = await mbo.get("/sale/products");
+export const listProducts = async (client: AxiosInstance = mbo): Promise<MindbodyProductItem[]> => {
+  const response = await client.get("/sale/products");
   const products = (response.data?.Products ?? response.data?.products) as MindbodyProductItem[] | undefined;
   return Array.isArray(products) ? products : [];
 };
 
-export const listPackages = async (): Promise<MindbodyPackageItem[]> => {
-  const response = await mbo.get("/sale/packages");
+export const listPackages = async (client: AxiosInstance = mbo): Promise<MindbodyPackageItem[]> => {
+  const response = await client.get("/sale/packages");
   const packages = (response.data?.Packages ?? response.data?.packages) as MindbodyPackageItem[] | undefined;
   return Array.isArray(packages) ? packages : [];
 };
 
-export const getServiceById = async (id: string | undefined): Promise<MindbodyServiceItem | undefined> => {
+export const getServiceById = async (
+  id: string | undefined,
+  client: AxiosInstance = mbo
+): Promise<MindbodyServiceItem | undefined> => {
   const trimmedId = typeof id === "string" ? id.trim() : undefined;
 
   if (!trimmedId) {
     return undefined;
   }
 
-  const services = await listServices();
+  const services = await listServices(client);
 
   return services.find((service) => String(service.Id ?? service.id) === trimmedId);
 };
 
-export const findClientByEmail = async (email: string): Promise<MindbodyClientSummary | undefined> => {
+export const findClientByEmail = async (
+  email: string,
+  client: AxiosInstance = mbo
+): Promise<MindbodyClientSummary | undefined> => {
   if (!email) {
     return undefined;
   }
 
-  const response = await mbo.get("/client/clients", {
+  const response = await client.get("/client/clients", {
     params: {
       SearchText: email
     }
@@ -124,9 +200,10 @@ export const findClientByEmail = async (email: string): Promise<MindbodyClientSu
 };
 
 export const addClient = async (
-  input: Pick<MindbodyClientSummary, "Email" | "FirstName" | "LastName">
+  input: Pick<MindbodyClientSummary, "Email" | "FirstName" | "LastName">,
+  client: AxiosInstance = mbo
 ): Promise<MindbodyClientSummary | undefined> => {
-  const response = await mbo.post("/client/addclient", {
+  const response = await client.post("/client/addclient", {
     Client: {
       Email: input.Email,
       FirstName: input.FirstName,
@@ -140,20 +217,22 @@ export const addClient = async (
 export const getOrCreateClient = async (
   email: string,
   firstName: string,
-  lastName: string
+  lastName: string,
+  client: AxiosInstance = mbo
 ): Promise<MindbodyClientSummary | undefined> => {
-  const existing = await findClientByEmail(email);
+  const existing = await findClientByEmail(email, client);
   if (existing?.Id) {
     return existing;
   }
 
-  return addClient({ Email: email, FirstName: firstName, LastName: lastName });
+  return addClient({ Email: email, FirstName: firstName, LastName: lastName }, client);
 };
 
 export const checkoutShoppingCart = async (
-  payload: CheckoutShoppingCartPayload
+  payload: CheckoutShoppingCartPayload,
+  client: AxiosInstance = mbo
 ): Promise<unknown> => {
-  const paymentMethodId = Number.parseInt(process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID ?? "", 10);
+  const paymentMethodId = payload.paymentMethodId ?? Number.parseInt(process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID ?? "", 10);
   if (!Number.isFinite(paymentMethodId)) {
     throw new Error("MINDBODY_CAYMAN_PAYMENT_METHOD_ID is required");
   }
@@ -186,6 +265,8 @@ export const checkoutShoppingCart = async (
 
     const quantity = Number.isFinite(Number(item.Quantity)) && Number(item.Quantity) > 0 ? Number(item.Quantity) : 1;
     const price = Number.isFinite(Number(item.Price)) ? Number(item.Price) : undefined;
+    const discountAmount =
+      Number.isFinite(Number(item.DiscountAmount)) && Number(item.DiscountAmount) > 0 ? Number(item.DiscountAmount) : undefined;
 
     const itemType = typeof item.Type === "string" && item.Type.trim().length > 0 ? item.Type.trim() : "Service";
 
@@ -201,6 +282,7 @@ export const checkoutShoppingCart = async (
       },
       Quantity: quantity,
       ...(price !== undefined ? { Amount: price, Price: price } : {}),
+      ...(discountAmount !== undefined ? { DiscountAmount: discountAmount } : {}),
       ...(description ? { Description: description } : {})
     };
   });
@@ -222,7 +304,7 @@ export const checkoutShoppingCart = async (
 
   const effectiveReference = paymentReference ?? paymentNote;
 
-  const response = await mbo.post("/sale/checkoutshoppingcart", {
+  const response = await client.post("/sale/checkoutshoppingcart", {
     ClientId: payload.ClientId,
     Items: mindbodyItems,
     Payments: [
@@ -245,3 +327,103 @@ export const checkoutShoppingCart = async (
 
   return response.data;
 };
+
+const SALES_PAGE_SIZE = 200;
+
+/** Every sale whose sale date falls in the window, following Mindbody's pagination. */
+export const listSales = async (from: Date, to: Date, client: AxiosInstance = mbo): Promise<MindbodySale[]> => {
+  const sales: MindbodySale[] = [];
+
+  for (let offset = 0; ; offset += SALES_PAGE_SIZE) {
+    const response = await client.get("/sale/sales", {
+      params: {
+        StartSaleDateTime: from.toISOString(),
+        EndSaleDateTime: to.toISOString(),
+        Limit: SALES_PAGE_SIZE,
+        Offset: offset
+      }
+    });
+    const page = (response.data?.Sales ?? response.data?.sales) as MindbodySale[] | undefined;
+    if (!Array.isArray(page)) {
+      break;
+    }
+
+    sales.push(...page);
+    const total = Number(response.data?.PaginationResponse?.TotalResults);
+    if (page.length < SALES_PAGE_SIZE || (Number.isFinite(total) && sales.length >= total)) {
+      break;
+    }
+  }
+
+  return sales;
+};
+
+/** Returns a whole Mindbody sale, or only `amount` of it for a partial refund. */
+export const returnSale = async (
+  saleId: string | number,
+  reason?: string,
+  client: AxiosInstance = mbo,
+  amount?: number
+): Promise<unknown> => {
+  const response = await client.post("/sale/returnsale", {
+    SaleId: Number.isFinite(Number(saleId)) ? Number(saleId) : saleId,
+    ...(amount !== undefined ? { ReturnAmount: Number.parseFloat(amount.toFixed(2)) } : {}),
+    ...(reason ? { ReturnReason: reason.slice(0, 255) } : {})
+  });
+
+  return response.data;
+};
+
+/** A client's visits (class bookings and appointments) starting in the window, cancelled ones included. */
+export const listClientVisits = async (
+  clientId: string,
+  from: Date,
+  to: Date,
+  client: AxiosInstance = mbo
+): Promise<MindbodyVisit[]> => {
+  const response = await client.get("/client/clientvisits", {
+    params: {
+      ClientId: clientId,
+      StartDate: from.toISOString(),
+      EndDate: to.toISOString()
+    }
+  });
+  const visits = (response.data?.Visits ?? response.data?.visits) as MindbodyVisit[] | undefined;
+  return Array.isArray(visits) ? visits : [];
+};
+
+export const listBookableItems = async (
+  query: AppointmentSlotQuery,
+  client: AxiosInstance = mbo
+): Promise<MindbodyAvailability[]> => {
+  const response = await client.get("/appointment/bookableitems", {
+    params: {
+      SessionTypeIds: query.sessionTypeId,
+      ...(query.staffId ? { StaffIds: query.staffId } : {}),
+      ...(query.locationId ? { LocationIds: query.locationId } : {}),
+      StartDate: query.from.toISOString(),
+      EndDate: query.to.toISOString()
+    }
+  });
+  const availabilities = (response.data?.Availabilities ?? response.data?.availabilities) as MindbodyAvailability[] | undefined;
+  return Array.isArray(availabilities) ? availabilities : [];
+};
+
+/** Books an appointment paid from the client's account, i.e. with the pricing option the sale just sold. */
+export const addAppointment = async (
+  appointment: NewMindbodyAppointment,
+  client: AxiosInstance = mbo
+): Promise<Record<string, unknown>> => {
+  const response = await client.post("/appointment/addappointment", {
+    ClientId: appointment.clientId,
+    SessionTypeId: Number(appointment.sessionTypeId),
+    StaffId: Number(appointment.staffId),
+    LocationId: Number(appointment.locationId),
+    StartDateTime: appointment.startDateTime.toISOString(),
+    ApplyPayment: true,
+    SendEmail: true,
+    ...(appointment.notes ? { Notes: appointment.notes.slice(0, 255) } : {})
+  });
+  const booked = (response.data?.Appointment ?? response.data?.appointment) as Record<string, unknown> | undefined;
+  return booked ?? {};
+};
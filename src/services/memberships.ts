@@ -0,0 +1,568 @@
+import crypto, { randomUUID } from "node:crypto";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { get as getSession, save, type Session } from "../lib/sessions.js";
+import { type CaymanNotificationResult } from "../routes/webhooks.js";
+import {
+  activateMembership,
+  attachMembershipChargeTransaction,
+  cancelMembershipRecord,
+  claimDueMembershipRetries,
+  createMembershipCharge,
+  createPendingMembership,
+  failMembership,
+  findMembershipByNotifyToken,
+  findMembershipChargeBySessionId,
+  findMembershipChargeByTransactionId,
+  getMembership,
+  getMembershipPlan,
+  postponeMembershipRetry,
+  recordMembershipDeclined,
+  recordMembershipPaid,
+  updateMembershipChargeStatus,
+  type Membership,
+  type MembershipCancelReason,
+  type MembershipCharge,
+  type MembershipChargeKind,
+  type MembershipChargeStatus,
+  type MembershipPlan,
+  type MembershipStatus
+} from "../storage/memberships.js";
+import { type CaymanConsumerResponse } from "../types/cayman.js";
+import { type HostedPaymentBilling, type HostedPaymentCustomer } from "./cayman.js";
+import { pickString, settleDirectCharge, type DirectChargeEvidence } from "./directCharge.js";
+import { tenantCurrency } from "./savedCards.js";
+import { getCaymanService, resolveTenant, type Tenant } from "./tenants.js";
+import { NotificationVerificationError, verifyCaymanSignature } from "./webhookVerification.js";
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Days after each declined renewal to charge again; once they run out the membership is cancelled. */
+const readRetryDays = (value: string | undefined): number[] => {
+  const days = (value ?? "")
+    .split(",")
+    .map((entry) => Number.parseInt(entry.trim(), 10))
+    .filter((entry) => Number.isFinite(entry) && entry > 0);
+  return days.length ? days : [1, 3, 5];
+};
+
+const RETRY_DAYS = readRetryDays(process.env.MEMBERSHIP_RETRY_DAYS);
+const POLL_INTERVAL_MS = readPositiveInt(process.env.MEMBERSHIP_POLL_INTERVAL_MS, 5 * 60_000);
+/** A retry Cayman did not answer is tried again this much later, without counting as declined. */
+const UNANSWERED_RETRY_MS = 3_600_000;
+const CLAIM_LEASE_MS = 10 * 60_000;
+const CLAIM_BATCH_SIZE = 10;
+const DAY_MS = 86_400_000;
+
+const SUCCESS_CODES = new Set(["00", "0", "000", "100"]);
+
+/** Charge statuses a settlement may still move on from; anything else has already been counted. */
+const UNSETTLED_CHARGE_STATUSES: ReadonlyArray<MembershipChargeStatus> = ["pending", "error"];
+
+/** Carries the HTTP status callers should answer with. */
+export class MembershipError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "MembershipError";
+  }
+}
+
+/** What storefront callers may see of a membership; Cayman's identifiers stay on the server. */
+export interface MembershipSummary {
+  id: number;
+  planId: number;
+  planName: string;
+  amount: number;
+  frequencyDays: number;
+  clientId: string;
+  status: MembershipStatus;
+  currentPeriodEnd: Date | null;
+  nextRetryAt: Date | null;
+  cancelledAt: Date | null;
+  cancelReason: MembershipCancelReason | null;
+  createdAt: Date;
+}
+
+export const toMembershipSummary = (membership: Membership): MembershipSummary => ({
+  id: membership.id,
+  planId: membership.planId,
+  planName: membership.planName,
+  amount: membership.amount,
+  frequencyDays: membership.frequencyDays,
+  clientId: membership.clientId,
+  status: membership.status,
+  currentPeriodEnd: membership.currentPeriodEnd ?? null,
+  nextRetryAt: membership.nextRetryAt ?? null,
+  cancelledAt: membership.cancelledAt ?? null,
+  cancelReason: membership.cancelReason ?? null,
+  createdAt: membership.createdAt
+});
+
+const hashNotifyToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+/** The plan, if it is active and sold by this tenant. Throws `MembershipError`. */
+export const loadSellablePlan = async (siteKey: string, planId: number): Promise<MembershipPlan> => {
+  const plan = await getMembershipPlan(planId);
+  if (!plan || plan.siteKey !== siteKey) {
+    throw new MembershipError("Membership plan not found", 404, { planId });
+  }
+  if (!plan.active) {
+    throw new MembershipError("Membership plan is no longer sold", 409, { planId });
+  }
+  return plan;
+};
+
+export interface MembershipSignupInput {
+  tenant: Tenant;
+  plan: MembershipPlan;
+  clientId: string;
+  customer: HostedPaymentCustomer;
+  billing: HostedPaymentBilling;
+  /** Absolute URL of `/webhook/cayman/subscription`; the membership's notify token is appended. */
+  notificationUrl: string;
+  returnUrl: string;
+  createdBy: string;
+}
+
+/**
+ * Stores a pending membership and opens Cayman's hosted subscribe page for the plan's amount and
+ * frequency. Cayman bills on that schedule from then on and notifies the same URL for every charge,
+ * so the token in it identifies the membership for its whole life (see `handleMembershipNotification`).
+ */
+export const startMembership = async (input: MembershipSignupInput): Promise<{ membershipId: number; redirectUrl: string }> => {
+  const { plan } = input;
+  const notifyToken = crypto.randomBytes(32).toString("base64url");
+  const membershipId = await createPendingMembership({
+    plan,
+    clientId: input.clientId,
+    email: input.customer.email,
+    firstName: input.customer.firstName,
+    lastName: input.customer.lastName,
+    notifyTokenHash: hashNotifyToken(notifyToken),
+    createdBy: input.createdBy
+  });
+
+  const notificationUrl = new URL(input.notificationUrl);
+  notificationUrl.searchParams.set("notifyToken", notifyToken);
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(input.tenant).createSubscriptionSession({
+      firstName: input.customer.firstName,
+      lastName: input.customer.lastName,
+      email: input.customer.email,
+      street1: input.billing.street1,
+      city: input.billing.city,
+      country: input.billing.country,
+      zip: input.billing.zip,
+      ...(input.billing.state ? { state: input.billing.state } : {}),
+      ...(input.billing.street2 ? { street2: input.billing.street2 } : {}),
+      ...(input.billing.phone ? { phone: input.billing.phone } : {}),
+      amount: Number.parseFloat(plan.amount.toFixed(2)),
+      currency: tenantCurrency(input.tenant),
+      frequencyindays: plan.frequencyDays,
+      ...(plan.trialDays > 0 ? { trialdays: plan.trialDays } : {}),
+      notificationUrl: notificationUrl.toString(),
+      returnUrl: input.returnUrl
+    });
+  } catch (error) {
+    await failMembership(membershipId, error instanceof Error ? error.message : String(error));
+    throw new MembershipError("Failed to start Cayman subscription", 502);
+  }
+
+  const redirectUrl = pickString(response, "consumer-url", "consumerUrl", "redirectUrl");
+  if (response.success === false || !redirectUrl) {
+    await failMembership(membershipId, pickString(response, "result-text") ?? "Cayman returned no subscribe page");
+    throw new MembershipError("Failed to start Cayman subscription", 502, { response });
+  }
+
+  return { membershipId, redirectUrl };
+};
+
+/** A fresh `created` session for one period of the membership; its Mindbody sale is the plan's item. */
+const openChargeSession = (membership: Membership): Promise<Session> =>
+  save({
+    id: randomUUID(),
+    siteKey: membership.siteKey,
+    customer: { email: membership.email, firstName: membership.firstName, lastName: membership.lastName },
+    lines: [
+      {
+        productId: membership.itemId,
+        name: membership.planName,
+        unitPrice: membership.amount,
+        qty: 1,
+        type: membership.itemType
+      }
+    ],
+    total: membership.amount,
+    status: "created",
+    clientId: membership.clientId
+  });
+
+const cancelAtCayman = async (membership: Membership, subscriptionId: number, customerGuid: string): Promise<void> => {
+  const tenant = await resolveTenant(membership.siteKey);
+  const response = await getCaymanService(tenant).cancelSubscription({ subscriptionId, customerGUID: customerGuid });
+  if (response.success === false) {
+    throw new Error(pickString(response, "result-text") ?? "Cayman refused to cancel the subscription");
+  }
+};
+
+/** Cancels once dunning has no retries left. Billing stops at Cayman first; the record follows even if that fails. */
+const giveUpOnMembership = async (membership: Membership, detail: string): Promise<void> => {
+  if (membership.caymanSubscriptionId && membership.caymanCustomerGuid) {
+    try {
+      await cancelAtCayman(membership, membership.caymanSubscriptionId, membership.caymanCustomerGuid);
+    } catch (error) {
+      console.error("[memberships] Failed to cancel Cayman subscription after final declined charge", {
+        membershipId: membership.id,
+        error
+      });
+    }
+  }
+  await cancelMembershipRecord(membership.id, "dunning", "payment_failed");
+  console.warn("[memberships] Membership cancelled after declined renewals", {
+    membershipId: membership.id,
+    siteKey: membership.siteKey,
+    attempts: membership.failedAttempts + 1,
+    detail
+  });
+};
+
+const scheduleDunning = async (membership: Membership, detail: string): Promise<void> => {
+  if (membership.status !== "active" && membership.status !== "past_due") {
+    return;
+  }
+  const attempt = membership.failedAttempts + 1;
+  if (attempt > RETRY_DAYS.length) {
+    await giveUpOnMembership(membership, detail);
+    return;
+  }
+  const nextRetryAt = new Date(Date.now() + RETRY_DAYS[attempt - 1] * DAY_MS);
+  await recordMembershipDeclined(membership.id, nextRetryAt, detail);
+  console.warn("[memberships] Renewal declined; retry scheduled", { membershipId: membership.id, attempt, nextRetryAt });
+};
+
+export type MembershipChargeOutcome = "paid" | "processing" | "declined" | "rejected" | "duplicate" | "error";
+
+/**
+ * Books the settled session against the charge and the membership. The charge only moves out of an
+ * unsettled status once, so a repeated or concurrent settlement neither extends the period twice nor
+ * counts a decline twice.
+ */
+const applyChargeOutcome = async (
+  membership: Membership,
+  charge: Pick<MembershipCharge, "id" | "sessionId">,
+  result: CaymanNotificationResult
+): Promise<MembershipChargeOutcome> => {
+  if (result.status === "rejected") {
+    await updateMembershipChargeStatus(charge.id, "rejected", result.detail, UNSETTLED_CHARGE_STATUSES);
+    return "rejected";
+  }
+
+  const session = await getSession(charge.sessionId);
+  switch (session?.status) {
+    case "paid":
+    case "partially_refunded":
+    case "refunded":
+    case "processing": {
+      const status = session.status === "processing" ? "processing" : "paid";
+      if (await updateMembershipChargeStatus(charge.id, status, result.detail, UNSETTLED_CHARGE_STATUSES)) {
+        await recordMembershipPaid(membership.id, membership.frequencyDays);
+      } else {
+        await updateMembershipChargeStatus(charge.id, status, result.detail, ["processing"]);
+      }
+      return status;
+    }
+    case "failed": {
+      const detail = result.detail ?? "Card declined";
+      if (await updateMembershipChargeStatus(charge.id, "declined", detail, UNSETTLED_CHARGE_STATUSES)) {
+        await scheduleDunning(membership, detail);
+      }
+      return "declined";
+    }
+    default:
+      await updateMembershipChargeStatus(charge.id, "error", result.detail ?? `Session is ${session?.status ?? "missing"}`, [
+        "pending"
+      ]);
+      return "error";
+  }
+};
+
+export interface MembershipNotification {
+  notifyToken?: string;
+  payload: Record<string, unknown>;
+  rawBody?: Buffer;
+  signature?: string;
+  source: string;
+}
+
+export interface MembershipNotificationResult {
+  status: "unknown" | "rejected" | "failed" | "activated" | "ignored" | MembershipChargeOutcome;
+  membershipId?: number;
+  siteKey?: string;
+  sessionId?: string;
+  detail?: string;
+}
+
+/** Moves a pending membership to active with Cayman's subscription id, or fails it. */
+const activatePendingMembership = async (
+  membership: Membership,
+  payload: Record<string, unknown>,
+  hasCharge: boolean
+): Promise<MembershipNotificationResult | undefined> => {
+  const resultCode = pickString(payload, "result-code", "resultCode");
+  const subscriptionId = Number(pickString(payload, "subscription-id", "subscriptionId", "subscription_id"));
+  const customerGuid = pickString(payload, "customer-guid", "customerGUID", "customerGuid", "customer_guid");
+
+  if ((resultCode !== undefined && !SUCCESS_CODES.has(resultCode)) || !Number.isInteger(subscriptionId) || !customerGuid) {
+    const detail = pickString(payload, "result-text", "resultText") ?? `Cayman did not start the subscription (${resultCode ?? "no subscription id"})`;
+    await failMembership(membership.id, detail);
+    return { status: "failed", membershipId: membership.id, siteKey: membership.siteKey, detail };
+  }
+
+  // Without a charge at sign-up the plan has a trial, and the first paid period starts when it ends.
+  const plan = hasCharge ? undefined : await getMembershipPlan(membership.planId);
+  await activateMembership(membership.id, {
+    subscriptionId,
+    customerGuid,
+    currentPeriodEnd: plan && plan.trialDays > 0 ? new Date(Date.now() + plan.trialDays * DAY_MS) : undefined
+  });
+  console.info("[memberships] Membership activated", { membershipId: membership.id, siteKey: membership.siteKey, subscriptionId });
+  return undefined;
+};
+
+/**
+ * A membership cancelled or failed before Cayman reported its subscription can still have one at
+ * Cayman; it is cancelled there as soon as a notification names it. Any charge it made is still booked.
+ */
+const stopLateSubscription = async (membership: Membership, payload: Record<string, unknown>): Promise<void> => {
+  const subscriptionId = Number(pickString(payload, "subscription-id", "subscriptionId", "subscription_id"));
+  const customerGuid = pickString(payload, "customer-guid", "customerGUID", "customerGuid", "customer_guid");
+  if (!Number.isInteger(subscriptionId) || !customerGuid) {
+    return;
+  }
+  try {
+    await cancelAtCayman(membership, subscriptionId, customerGuid);
+    console.warn("[memberships] Cancelled a Cayman subscription started after its membership closed", {
+      membershipId: membership.id,
+      status: membership.status,
+      subscriptionId
+    });
+  } catch (error) {
+    console.error("[memberships] Failed to cancel late Cayman subscription", { membershipId: membership.id, subscriptionId, error });
+  }
+};
+
+/**
+ * Finds or creates the charge for a notified transaction. A dunning retry names its session as
+ * `clientRefId`, so its notification lands on the charge the worker opened instead of a second one.
+ */
+const resolveNotifiedCharge = async (
+  membership: Membership,
+  transactionId: string,
+  payload: Record<string, unknown>,
+  kind: MembershipChargeKind
+): Promise<Pick<MembershipCharge, "id" | "sessionId" | "membershipId" | "status"> | undefined> => {
+  const existing = await findMembershipChargeByTransactionId(transactionId);
+  if (existing) {
+    return existing;
+  }
+
+  const clientRefId = pickString(payload, "client-ref-id", "clientRefId", "clientrefid");
+  const retried = clientRefId ? await findMembershipChargeBySessionId(clientRefId) : undefined;
+  if (retried && retried.membershipId === membership.id && !retried.transactionId) {
+    if (await attachMembershipChargeTransaction(retried.id, transactionId)) {
+      return retried;
+    }
+    return findMembershipChargeByTransactionId(transactionId);
+  }
+
+  const session = await openChargeSession(membership);
+  const chargeId = await createMembershipCharge({ membershipId: membership.id, sessionId: session.id, transactionId, kind });
+  if (!chargeId) {
+    // Another delivery of the same notification got there first; the session just opened expires unused.
+    return findMembershipChargeByTransactionId(transactionId);
+  }
+  return { id: chargeId, sessionId: session.id, membershipId: membership.id, status: "pending" };
+};
+
+/**
+ * Handles every notification Cayman sends for a membership: the sign-up, then each scheduled charge.
+ * The token in the notification URL ties it to one membership; a `cayman-signature` header, when sent,
+ * must also match the tenant's secret. Each transaction becomes one checkout session, confirmed with
+ * Cayman and posted to Mindbody as a sale of the plan's item; repeats report the charge and change nothing.
+ */
+export const handleMembershipNotification = async (notification: MembershipNotification): Promise<MembershipNotificationResult> => {
+  const membership = notification.notifyToken
+    ? await findMembershipByNotifyToken(hashNotifyToken(notification.notifyToken))
+    : undefined;
+  if (!membership) {
+    return { status: "unknown", detail: "No membership matches this notification" };
+  }
+  const base = { membershipId: membership.id, siteKey: membership.siteKey };
+
+  if (notification.signature) {
+    try {
+      verifyCaymanSignature(await resolveTenant(membership.siteKey), notification.rawBody, notification.signature);
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        return { status: "rejected", ...base, detail: error.message };
+      }
+      throw error;
+    }
+  }
+
+  const { payload } = notification;
+  const transactionId = pickString(payload, "transaction-id", "transactionid", "transactionId");
+  const kind: MembershipChargeKind = membership.status === "pending" ? "signup" : "renewal";
+
+  if (membership.status === "pending") {
+    const refused = await activatePendingMembership(membership, payload, Boolean(transactionId));
+    if (refused) {
+      return refused;
+    }
+  } else if (!membership.caymanSubscriptionId) {
+    await stopLateSubscription(membership, payload);
+  }
+  if (!transactionId) {
+    return { status: kind === "signup" ? "activated" : "ignored", ...base };
+  }
+
+  const current = (await getMembership(membership.id)) ?? membership;
+  const charge = await resolveNotifiedCharge(current, transactionId, payload, kind);
+  if (!charge || charge.membershipId !== current.id) {
+    return { status: "rejected", ...base, detail: "Transaction is recorded against another membership" };
+  }
+  if (!UNSETTLED_CHARGE_STATUSES.includes(charge.status) && charge.status !== "processing") {
+    return { status: "duplicate", ...base, sessionId: charge.sessionId };
+  }
+
+  const evidence: DirectChargeEvidence = { rawBody: notification.rawBody, signature: notification.signature };
+  const { result } = await settleDirectCharge(charge.sessionId, payload, notification.source, evidence);
+  const outcome = await applyChargeOutcome(current, charge, result);
+  console.info("[memberships] Charge recorded", { ...base, kind, transactionId, sessionId: charge.sessionId, outcome });
+  return { status: outcome, ...base, sessionId: charge.sessionId, detail: result.detail };
+};
+
+/**
+ * Charges a past-due membership again through Cayman's recurring charge call and books the answer like
+ * a notification. A retry Cayman does not answer is put off an hour without counting as declined.
+ */
+export const retryMembershipCharge = async (membership: Membership): Promise<MembershipChargeOutcome> => {
+  if (!membership.caymanSubscriptionId || !membership.caymanCustomerGuid) {
+    await giveUpOnMembership(membership, "No Cayman subscription to charge");
+    return "error";
+  }
+
+  const tenant = await resolveTenant(membership.siteKey);
+  const session = await openChargeSession(membership);
+  const chargeId = (await createMembershipCharge({ membershipId: membership.id, sessionId: session.id, kind: "retry" })) as number;
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(tenant).triggerRecurringCharge({
+      subscriptionId: membership.caymanSubscriptionId,
+      customerGUID: membership.caymanCustomerGuid,
+      clientRefId: session.id
+    });
+  } catch (error) {
+    // Cayman may or may not have charged; a notification naming this session still settles it.
+    const detail = error instanceof Error ? error.message : String(error);
+    await updateMembershipChargeStatus(chargeId, "error", detail);
+    await postponeMembershipRetry(membership.id, new Date(Date.now() + UNANSWERED_RETRY_MS), detail);
+    console.error("[memberships] Retry charge did not complete", { membershipId: membership.id, sessionId: session.id, error });
+    return "error";
+  }
+
+  const transactionId = pickString(response, "transaction-id", "transactionid", "transactionId");
+  if (transactionId && !(await attachMembershipChargeTransaction(chargeId, transactionId))) {
+    const holder = await findMembershipChargeByTransactionId(transactionId);
+    if (holder?.id !== chargeId) {
+      await updateMembershipChargeStatus(chargeId, "duplicate", `Transaction ${transactionId} is recorded on charge ${holder?.id}`);
+      return "duplicate";
+    }
+  }
+
+  const { result } = await settleDirectCharge(session.id, response, "membership:retry");
+  const outcome = await applyChargeOutcome(membership, { id: chargeId, sessionId: session.id }, result);
+  if (outcome === "rejected" || outcome === "error") {
+    // Counted like a decline so an answer that cannot be confirmed is not retried without end.
+    await scheduleDunning(membership, result.detail ?? `Retry charge ${outcome}`);
+  }
+  console.info("[memberships] Retry charge recorded", { membershipId: membership.id, sessionId: session.id, transactionId, outcome });
+  return outcome;
+};
+
+export const runDueMembershipRetries = async (): Promise<number> => {
+  const claimed = await claimDueMembershipRetries(CLAIM_BATCH_SIZE, CLAIM_LEASE_MS);
+  for (const membership of claimed) {
+    try {
+      await retryMembershipCharge(membership);
+    } catch (error) {
+      console.error("[memberships] Retry charge failed", { membershipId: membership.id, error });
+    }
+  }
+  return claimed.length;
+};
+
+/**
+ * Stops billing at Cayman, then marks the membership cancelled; access runs to the end of the paid
+ * period. If Cayman cannot be reached the membership is left as it was, so it is never shown as
+ * cancelled while Cayman still bills it.
+ */
+export const cancelMembership = async (
+  membership: Membership,
+  by: string,
+  reason: MembershipCancelReason
+): Promise<Membership> => {
+  if (membership.status !== "pending" && membership.status !== "active" && membership.status !== "past_due") {
+    throw new MembershipError(`Membership is ${membership.status}`, 409, { membershipId: membership.id, status: membership.status });
+  }
+
+  if (membership.caymanSubscriptionId && membership.caymanCustomerGuid) {
+    try {
+      await cancelAtCayman(membership, membership.caymanSubscriptionId, membership.caymanCustomerGuid);
+    } catch (error) {
+      console.error("[memberships] Failed to cancel Cayman subscription", { membershipId: membership.id, error });
+      throw new MembershipError("Cayman did not cancel the subscription; the membership is unchanged", 502, {
+        membershipId: membership.id
+      });
+    }
+  }
+
+  await cancelMembershipRecord(membership.id, by, reason);
+  console.info("[memberships] Membership cancelled", { membershipId: membership.id, siteKey: membership.siteKey, by, reason });
+  return (await getMembership(membership.id)) ?? membership;
+};
+
+export const startMembershipWorker = (): void => {
+  if (!isDatabaseConfigured()) {
+    console.warn("[memberships] No database configured; declined membership renewals will not be retried.");
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    runDueMembershipRetries()
+      .catch((error) => {
+        console.error("[memberships] Failed to run due membership retries", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, POLL_INTERVAL_MS);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+};
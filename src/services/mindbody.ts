@@ -4,7 +4,6 @@ import { env } from "../config/env.js";
 const mindbodyClient = axios.create({
   baseURL: env.mindbodyBaseUrl,
   headers: {
-    "Api-Key": env.mindbodyApiKey,
     Accept: "application/json",
     "Content-Type": "application/json"
   },
@@ -12,8 +11,10 @@ const mindbodyClient = axios.create({
   validateStatus: (status) => status >= 200 && status < 300
 });
 
-const withAuthHeader = (accessToken: string) => ({
-  Authorization: `Bearer ${accessToken}`
+const siteHeaders = (site: MindbodySite, accessToken?: string) => ({
+  "Api-Key": site.apiKey,
+  SiteId: String(site.siteId),
+  ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
 });
 
 const extractAccessToken = (data: unknown): string | undefined => {
@@ -49,12 +50,30 @@ const extractAccessToken = (data: unknown): string | undefined => {
   return undefined;
 };
 
-export const issueStaffUserToken = async (): Promise<string> => {
-  const response = await mindbodyClient.post("/usertoken/issue", {
-    Username: env.mindbodySourceName,
-    Password: env.mindbodySourcePassword,
-    SiteId: env.mindbodySiteId
-  });
+/** The Mindbody site a call is made for; callers take it from the tenant registry. */
+export interface MindbodySite {
+  siteId: string | number;
+  apiKey: string;
+  /** Custom payment method sales are recorded against; `MINDBODY_CAYMAN_PAYMENT_METHOD_ID` when unset. */
+  paymentMethodId?: number;
+}
+
+export interface StaffTokenCredentials extends MindbodySite {
+  username: string;
+  password: string;
+}
+
+/** Issues a staff user token for one site's staff credentials. */
+export const issueStaffUserToken = async (credentials: StaffTokenCredentials): Promise<string> => {
+  const response = await mindbodyClient.post(
+    "/usertoken/issue",
+    {
+      Username: credentials.username,
+      Password: credentials.password,
+      SiteId: credentials.siteId
+    },
+    { headers: siteHeaders(credentials) }
+  );
 
   const token = extractAccessToken(response.data);
 
@@ -72,6 +91,7 @@ export interface MindbodyClientSummary {
 }
 
 export const upsertClient = async (
+  site: MindbodySite,
   accessToken: string,
   email: string,
   firstName = "Guest",
@@ -84,7 +104,7 @@ export const upsertClient = async (
   const response = await mindbodyClient.post(
     "/client/clients",
     {
-      SiteId: env.mindbodySiteId,
+      SiteId: site.siteId,
       Clients: [
         {
           FirstName: firstName,
@@ -94,7 +114,7 @@ export const upsertClient = async (
       ]
     },
     {
-      headers: withAuthHeader(accessToken)
+      headers: siteHeaders(site, accessToken)
     }
   );
 
@@ -116,6 +136,7 @@ export interface CheckoutShoppingCartInput {
 }
 
 export const checkoutShoppingCart = async (
+  site: MindbodySite,
   accessToken: string,
   input: CheckoutShoppingCartInput
 ): Promise<unknown> => {
@@ -124,7 +145,7 @@ export const checkoutShoppingCart = async (
   const response = await mindbodyClient.post(
     "/sale/checkoutshoppingcart",
     {
-      SiteId: env.mindbodySiteId,
+      SiteId: site.siteId,
       ClientId: input.clientId,
       Items: [
         {
@@ -138,7 +159,7 @@ export const checkoutShoppingCart = async (
       Payments: [
         {
           Type: "Custom",
-          CustomPaymentMethodId: env.customPaymentMethodId,
+          CustomPaymentMethodId: site.paymentMethodId ?? env.customPaymentMethodId,
           Amount: amount
         }
       ],
@@ -148,7 +169,7 @@ export const checkoutShoppingCart = async (
       Notes: input.notes ? input.notes.slice(0, 255) : undefined
     },
     {
-      headers: withAuthHeader(accessToken)
+      headers: siteHeaders(site, accessToken)
     }
   );
 
@@ -161,12 +182,12 @@ export interface MindbodyServiceSummary {
   Price?: number | string;
 }
 
-export const listServices = async (accessToken: string): Promise<MindbodyServiceSummary[]> => {
+export const listServices = async (site: MindbodySite, accessToken: string): Promise<MindbodyServiceSummary[]> => {
   const response = await mindbodyClient.get("/site/services", {
     params: {
-      SiteId: env.mindbodySiteId
+      SiteId: site.siteId
     },
-    headers: withAuthHeader(accessToken)
+    headers: siteHeaders(site, accessToken)
   });
 
   const services = (response.data as { Services?: MindbodyServiceSummary[] } | undefined)?.Services;
@@ -0,0 +1,54 @@
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { recordEvent } from "../lib/sessions.js";
+import { createPaymentAlert, type PaymentAlertKind } from "../storage/paymentAlerts.js";
+import { type NotificationRejectReason, type NotificationVerificationError } from "./webhookVerification.js";
+
+// A notification that claims a payment Cayman's record contradicts is a fraud or reconciliation signal;
+// bad signatures and unreachable lookups are not (they are spam or transient) and are only logged.
+const ALERT_REASONS: ReadonlySet<NotificationRejectReason> = new Set<PaymentAlertKind>([
+  "amount_mismatch",
+  "currency_mismatch",
+  "order_mismatch",
+  "transaction_not_found",
+  "transaction_not_approved",
+  "transaction_reused"
+]);
+
+export interface PaymentAlertContext {
+  siteKey: string;
+  sessionId?: string;
+  transactionId?: string;
+  source: string;
+}
+
+/**
+ * Records a rejected notification for review: a `payment_alerts` row (when a database is configured) and
+ * a `payment_alert` event on the session's history. Never throws; returns whether an alert was raised.
+ */
+export const raisePaymentAlert = async (error: NotificationVerificationError, context: PaymentAlertContext): Promise<boolean> => {
+  if (!ALERT_REASONS.has(error.reason)) {
+    return false;
+  }
+
+  const kind = error.reason as PaymentAlertKind;
+  const expected = error.expected ?? {};
+  const actual = error.actual ?? {};
+  console.error("[payments] Payment alert", { ...context, kind, message: error.message, expected, actual });
+
+  try {
+    if (isDatabaseConfigured()) {
+      await createPaymentAlert({ ...context, kind, message: error.message, expected, actual });
+    }
+    if (context.sessionId) {
+      await recordEvent({
+        sessionId: context.sessionId,
+        type: "payment_alert",
+        actor: context.source,
+        detail: { kind, transactionId: context.transactionId ?? null, message: error.message, expected, actual }
+      });
+    }
+  } catch (storeError) {
+    console.error("[payments] Failed to store payment alert", storeError);
+  }
+  return true;
+};
@@ -0,0 +1,214 @@
+import { getSettings } from "../config/settings.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { search, type Session, type SessionStatus } from "../lib/sessions.js";
+import { listCompletedRunsOverlapping, type ReconciliationIssueKind, type ReconciliationRun } from "../storage/reconciliationRuns.js";
+import { resolveTenant } from "./tenants.js";
+
+const MAX_WINDOW_DAYS = 92;
+const MAX_ROWS = 10_000;
+const PAGE_SIZE = 200;
+const DAY_MS = 86_400_000;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Sessions that reached Cayman; created and expired ones never carry a transaction.
+const EXPORTED_STATUSES: SessionStatus[] = ["processing", "paid", "partially_refunded", "refunded", "failed"];
+
+/** Raised for a date range the export refuses (bad dates, too long, or more rows than one export holds). */
+export class PaymentExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentExportError";
+  }
+}
+
+export type PaymentRefundStatus = "none" | "partial" | "full";
+
+/**
+ * `settled_manually`: staff reconciled the session by hand. `matched`: a completed reconciliation run
+ * covered the day and reported nothing for it. `unreconciled`: no run has covered the day yet. Otherwise
+ * the issue the latest covering run reported.
+ */
+export type PaymentReconciliationStatus = "settled_manually" | "matched" | "unreconciled" | ReconciliationIssueKind;
+
+/** One Cayman payment, flattened for accounting. */
+export interface PaymentExportRow {
+  sessionId: string;
+  siteKey: string;
+  createdAt: string;
+  sessionStatus: SessionStatus;
+  transactionId: string;
+  orderId: string;
+  authCode: string;
+  last4: string;
+  receiptId: string;
+  fulfilledAt: string;
+  items: string;
+  promoCode: string;
+  discount: number;
+  total: number;
+  currency: string;
+  refundStatus: PaymentRefundStatus;
+  refundedAmount: number;
+  reconciliationStatus: PaymentReconciliationStatus;
+  reconciliationRunId?: number;
+}
+
+export interface PaymentExportRange {
+  /** First and last day covered, `YYYY-MM-DD` (UTC), inclusive. */
+  from: string;
+  to: string;
+}
+
+export interface PaymentExport extends PaymentExportRange {
+  siteKey: string;
+  payments: PaymentExportRow[];
+}
+
+export const validatePaymentExportRange = (range: PaymentExportRange): void => {
+  if (!DAY_PATTERN.test(range.from) || !DAY_PATTERN.test(range.to)) {
+    throw new PaymentExportError("from and to must be YYYY-MM-DD dates");
+  }
+  const start = Date.parse(`${range.from}T00:00:00Z`);
+  const end = Date.parse(`${range.to}T00:00:00Z`);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+    throw new PaymentExportError("to must be on or after from");
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_WINDOW_DAYS) {
+    throw new PaymentExportError(`An export may cover at most ${MAX_WINDOW_DAYS} days`);
+  }
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const describeLines = (session: Session): string =>
+  session.lines.map((line) => `${line.name} x${line.qty} @ ${roundMoney(line.unitPrice).toFixed(2)}`).join("; ");
+
+const refundStatusOf = (session: Session): PaymentRefundStatus => {
+  if (session.status === "refunded") {
+    return "full";
+  }
+  return session.status === "partially_refunded" || (session.refundedAmount ?? 0) > 0 ? "partial" : "none";
+};
+
+const dayOf = (session: Session): string | undefined => session.createdAt?.slice(0, 10);
+
+/** Runs are newest first, so the first that covers the session's day decides; later runs supersede earlier ones. */
+const reconciliationStatusOf = (
+  session: Session,
+  runs: ReconciliationRun[]
+): { status: PaymentReconciliationStatus; runId?: number } => {
+  if (session.reconciled) {
+    return { status: "settled_manually" };
+  }
+
+  const day = dayOf(session);
+  const run = day ? runs.find((candidate) => candidate.windowStart <= day && candidate.windowEnd >= day) : undefined;
+  if (!run) {
+    return { status: "unreconciled" };
+  }
+
+  const transactionId = session.cayman?.transactionId;
+  const entry = (run.entries ?? []).find(
+    (candidate) => candidate.sessionId === session.id || (transactionId !== undefined && candidate.transactionId === transactionId)
+  );
+  return { status: entry?.kind ?? "matched", runId: run.id };
+};
+
+const toRow = (session: Session, currency: string, runs: ReconciliationRun[]): PaymentExportRow => {
+  const reconciliation = reconciliationStatusOf(session, runs);
+  return {
+    sessionId: session.id,
+    siteKey: session.siteKey,
+    createdAt: session.createdAt ?? "",
+    sessionStatus: session.status,
+    transactionId: session.cayman?.transactionId ?? "",
+    orderId: session.cayman?.orderId ?? "",
+    authCode: session.cayman?.auth ?? "",
+    last4: session.cayman?.last4 ?? "",
+    receiptId: session.mindbody?.receiptId ?? "",
+    fulfilledAt: session.mindbody?.fulfilledAt ?? "",
+    items: describeLines(session),
+    promoCode: session.promo?.code ?? "",
+    discount: roundMoney(session.promo?.discount ?? 0),
+    total: roundMoney(session.total),
+    currency,
+    refundStatus: refundStatusOf(session),
+    refundedAmount: roundMoney(session.refundedAmount ?? 0),
+    reconciliationStatus: reconciliation.status,
+    reconciliationRunId: reconciliation.runId
+  };
+};
+
+const collectSessions = async (siteKey: string, range: PaymentExportRange): Promise<Session[]> => {
+  const createdFrom = new Date(`${range.from}T00:00:00Z`);
+  const createdTo = new Date(Date.parse(`${range.to}T00:00:00Z`) + DAY_MS);
+  const sessions: Session[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await search({ siteKey, status: EXPORTED_STATUSES, createdFrom, createdTo, limit: PAGE_SIZE, offset });
+    sessions.push(...page.filter((session) => session.cayman?.transactionId));
+    if (sessions.length > MAX_ROWS) {
+      throw new PaymentExportError(`More than ${MAX_ROWS} payments in range; export a shorter range`);
+    }
+    if (page.length < PAGE_SIZE) {
+      return sessions;
+    }
+  }
+};
+
+/**
+ * Every session in the range that carries a Cayman transaction, oldest first, with the reference data
+ * `processCaymanNotification` recorded and the outcome of the latest reconciliation run covering its day.
+ * Without a database there are no runs and every payment not settled by hand is `unreconciled`.
+ */
+export const buildPaymentExport = async (siteKey: string, range: PaymentExportRange): Promise<PaymentExport> => {
+  validatePaymentExportRange(range);
+  const tenant = await resolveTenant(siteKey);
+  const currency = tenant.currency ?? getSettings().defaults.cayman.currency;
+
+  const [sessions, runs] = await Promise.all([
+    collectSessions(tenant.siteKey, range),
+    isDatabaseConfigured() ? listCompletedRunsOverlapping(tenant.siteKey, range.from, range.to) : Promise.resolve([])
+  ]);
+
+  const payments = sessions
+    .map((session) => toRow(session, currency, runs))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.sessionId.localeCompare(b.sessionId));
+
+  return { siteKey: tenant.siteKey, from: range.from, to: range.to, payments };
+};
+
+const CSV_COLUMNS: ReadonlyArray<keyof PaymentExportRow> = [
+  "sessionId",
+  "siteKey",
+  "createdAt",
+  "sessionStatus",
+  "transactionId",
+  "orderId",
+  "authCode",
+  "last4",
+  "receiptId",
+  "fulfilledAt",
+  "items",
+  "promoCode",
+  "discount",
+  "total",
+  "currency",
+  "refundStatus",
+  "refundedAmount",
+  "reconciliationStatus",
+  "reconciliationRunId"
+];
+
+// A leading =, +, - or @ makes spreadsheets evaluate the cell; item names come from the catalogue.
+const csvCell = (value: unknown): string => {
+  let text = value === undefined || value === null ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const paymentExportToCsv = (rows: PaymentExportRow[]): string =>
+  [CSV_COLUMNS.join(","), ...rows.map((row) => CSV_COLUMNS.map((column) => csvCell(row[column])).join(","))].join("\r\n") + "\r\n";
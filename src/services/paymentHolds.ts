@@ -0,0 +1,549 @@
+import crypto, { randomUUID } from "node:crypto";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { get as getSession, save, transition, update, type SessionLine } from "../lib/sessions.js";
+import {
+  authorizePaymentHold,
+  claimDuePaymentHolds,
+  claimPaymentHold,
+  createPendingPaymentHold,
+  failPaymentHold,
+  findPaymentHoldByToken,
+  getPaymentHold,
+  markPaymentHoldCaptured,
+  markPaymentHoldVoided,
+  releasePaymentHold,
+  type PaymentHold,
+  type PaymentHoldStatus,
+  type PaymentHoldVisitType,
+  type PaymentHoldVoidReason
+} from "../storage/paymentHolds.js";
+import { type CaymanConsumerResponse } from "../types/cayman.js";
+import { type HostedPaymentBilling, type HostedPaymentCustomer } from "./cayman.js";
+import { pickString } from "./directCharge.js";
+import { deferFulfilment, fulfilSession, markSessionFulfilled, sanitizeReference } from "./fulfilment.js";
+import { listClientVisits, type MindbodyVisit } from "./mbo.js";
+import { raisePaymentAlert } from "./paymentAlerts.js";
+import { tenantCurrency } from "./savedCards.js";
+import { getCaymanService, getMindbodyClient, resolveTenant, type Tenant } from "./tenants.js";
+import {
+  NotificationVerificationError,
+  verifyCaymanNotification,
+  verifyCaymanSignature,
+  type ConfirmedTransaction
+} from "./webhookVerification.js";
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Longest an authorization is held; card issuers release most uncaptured authorizations after about a week. */
+const HOLD_MAX_MS = readPositiveInt(process.env.PAYMENT_HOLD_MAX_HOURS, 168) * 3_600_000;
+/** How long after the visit starts a check-in can still capture the hold before it is voided. */
+const CHECK_IN_GRACE_MS = readPositiveInt(process.env.PAYMENT_HOLD_GRACE_HOURS, 24) * 3_600_000;
+const POLL_INTERVAL_MS = readPositiveInt(process.env.PAYMENT_HOLD_POLL_INTERVAL_MS, 5 * 60_000);
+/** How often Mindbody is asked about a booking while its hold is open. */
+const CHECK_INTERVAL_MS = readPositiveInt(process.env.PAYMENT_HOLD_CHECK_INTERVAL_MS, 15 * 60_000);
+/** An authorization page not completed within this window leaves the hold pending; it is never authorized. */
+const AUTHORIZE_TTL_MS = 2 * 3_600_000;
+const CLAIM_LEASE_MS = 10 * 60_000;
+const CLAIM_BATCH_SIZE = 10;
+const DAY_MS = 86_400_000;
+
+const SUCCESS_CODES = new Set(["00", "0", "000", "100"]);
+
+/** Actor recorded when the worker settles a hold. */
+const WORKER_ACTOR = "payment-holds";
+
+/** Carries the HTTP status callers should answer with. */
+export class PaymentHoldError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "PaymentHoldError";
+  }
+}
+
+/** What storefront callers may see of a hold; Cayman's identifiers stay on the server. */
+export interface PaymentHoldSummary {
+  id: number;
+  sessionId: string;
+  clientId: string;
+  visitType: PaymentHoldVisitType;
+  visitId: string;
+  visitStartsAt: Date;
+  amount: number;
+  status: PaymentHoldStatus;
+  holdExpiresAt: Date;
+  voidReason: PaymentHoldVoidReason | null;
+  createdAt: Date;
+}
+
+export const toPaymentHoldSummary = (hold: PaymentHold): PaymentHoldSummary => ({
+  id: hold.id,
+  sessionId: hold.sessionId,
+  clientId: hold.clientId,
+  visitType: hold.visitType,
+  visitId: hold.visitId,
+  visitStartsAt: hold.visitStartsAt,
+  amount: hold.amount,
+  status: hold.status,
+  holdExpiresAt: hold.holdExpiresAt,
+  voidReason: hold.voidReason ?? null,
+  createdAt: hold.createdAt
+});
+
+const hashHoldToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+export interface PaymentHoldBooking {
+  type: PaymentHoldVisitType;
+  /** Mindbody class id or appointment id the client has booked. */
+  id: string;
+  startsAt: Date;
+}
+
+export interface PaymentHoldInput {
+  tenant: Tenant;
+  clientId: string;
+  customer: HostedPaymentCustomer;
+  billing: HostedPaymentBilling;
+  lines: SessionLine[];
+  total: number;
+  booking: PaymentHoldBooking;
+  /** Absolute URL of `/webhook/cayman/authorization`; the hold's token is appended. */
+  notificationUrl: string;
+  returnUrl: string;
+  createdBy: string;
+}
+
+/**
+ * Saves a `created` session for the booking and opens Cayman's hosted page for an authorization of its
+ * total. Nothing is charged: the hold is captured when Mindbody records the visit as attended, and voided
+ * if the booking is cancelled or nobody checks in within `PAYMENT_HOLD_GRACE_HOURS` of the start.
+ * Throws `PaymentHoldError`.
+ */
+export const startPaymentHold = async (
+  input: PaymentHoldInput
+): Promise<{ holdId: number; sessionId: string; redirectUrl: string; holdExpiresAt: Date }> => {
+  const now = Date.now();
+  const startsAt = input.booking.startsAt.getTime();
+  if (!Number.isFinite(startsAt) || startsAt <= now) {
+    throw new PaymentHoldError("The booking has already started", 422, { startsAt: input.booking.startsAt });
+  }
+  const holdExpiresAt = new Date(startsAt + CHECK_IN_GRACE_MS);
+  if (holdExpiresAt.getTime() - now > HOLD_MAX_MS) {
+    throw new PaymentHoldError("The booking is too far ahead to hold a payment for it", 422, {
+      startsAt: input.booking.startsAt,
+      latestStart: new Date(now + HOLD_MAX_MS - CHECK_IN_GRACE_MS)
+    });
+  }
+
+  const sessionId = randomUUID();
+  const orderId = `hold_${Date.now()}_${sessionId}`;
+  const session = await save({
+    id: sessionId,
+    siteKey: input.tenant.siteKey,
+    customer: input.customer,
+    lines: input.lines,
+    total: input.total,
+    status: "created",
+    captureMode: "hold",
+    clientId: input.clientId,
+    cayman: { orderId },
+    // The sweeper must not expire the session while the authorization can still be captured.
+    expiresAt: new Date(holdExpiresAt.getTime() + DAY_MS).toISOString()
+  });
+
+  const holdToken = crypto.randomBytes(32).toString("base64url");
+  const holdId = await createPendingPaymentHold({
+    siteKey: session.siteKey,
+    sessionId,
+    clientId: input.clientId,
+    visitType: input.booking.type,
+    visitId: input.booking.id,
+    visitStartsAt: input.booking.startsAt,
+    amount: session.total,
+    holdExpiresAt,
+    holdTokenHash: hashHoldToken(holdToken),
+    createdBy: input.createdBy
+  });
+
+  const notificationUrl = new URL(input.notificationUrl);
+  notificationUrl.searchParams.set("holdToken", holdToken);
+
+  const fail = async (detail: string): Promise<void> => {
+    await failPaymentHold(holdId, detail);
+    await transition(sessionId, "created", "failed");
+  };
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(input.tenant).authorizePayment({
+      firstName: input.customer.firstName,
+      lastName: input.customer.lastName,
+      email: input.customer.email,
+      street1: input.billing.street1,
+      city: input.billing.city,
+      country: input.billing.country,
+      zip: input.billing.zip,
+      ...(input.billing.state ? { state: input.billing.state } : {}),
+      ...(input.billing.street2 ? { street2: input.billing.street2 } : {}),
+      ...(input.billing.phone ? { phone: input.billing.phone } : {}),
+      amount: Number.parseFloat(session.total.toFixed(2)),
+      currency: tenantCurrency(input.tenant),
+      invoiceno: orderId,
+      "customfield-data": JSON.stringify({ sessionId }),
+      notificationUrl: notificationUrl.toString(),
+      returnUrl: input.returnUrl
+    });
+  } catch (error) {
+    await fail(error instanceof Error ? error.message : String(error));
+    throw new PaymentHoldError("Failed to start Cayman authorization", 502);
+  }
+
+  const redirectUrl = pickString(response, "consumer-url", "consumerUrl", "redirectUrl");
+  if (response.success === false || !redirectUrl) {
+    await fail(pickString(response, "result-text") ?? "Cayman returned no authorization page");
+    throw new PaymentHoldError("Failed to start Cayman authorization", 502, { response });
+  }
+
+  return { holdId, sessionId, redirectUrl, holdExpiresAt };
+};
+
+export interface HoldNotification {
+  holdToken?: string;
+  payload: Record<string, unknown>;
+  rawBody?: Buffer;
+  signature?: string;
+  source: string;
+}
+
+export interface HoldNotificationResult {
+  status: PaymentHoldStatus | "unknown" | "rejected";
+  holdId?: number;
+  siteKey?: string;
+  sessionId?: string;
+  detail?: string;
+  alerted?: boolean;
+}
+
+/**
+ * Handles Cayman's notification for a hold's authorization. The token in the notification URL ties it to
+ * one pending hold; a `cayman-signature` header, when sent, must match the tenant's secret, and the
+ * authorization is confirmed with Cayman's transaction-info lookup against the session's amount,
+ * currency and order before the hold counts. Repeats report the hold's current state and change nothing.
+ */
+export const handleHoldNotification = async (notification: HoldNotification): Promise<HoldNotificationResult> => {
+  const hold = notification.holdToken ? await findPaymentHoldByToken(hashHoldToken(notification.holdToken)) : undefined;
+  if (!hold) {
+    return { status: "unknown", detail: "No payment hold matches this notification" };
+  }
+  const base = { holdId: hold.id, siteKey: hold.siteKey, sessionId: hold.sessionId };
+  if (hold.status !== "pending") {
+    return { status: hold.status, ...base };
+  }
+
+  const tenant = await resolveTenant(hold.siteKey);
+  if (notification.signature) {
+    try {
+      verifyCaymanSignature(tenant, notification.rawBody, notification.signature);
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        return { status: "rejected", ...base, detail: error.message };
+      }
+      throw error;
+    }
+  }
+
+  const fail = async (detail: string): Promise<HoldNotificationResult> => {
+    await failPaymentHold(hold.id, detail);
+    await transition(hold.sessionId, "created", "failed");
+    console.warn("[payment-holds] Authorization failed", { ...base, detail });
+    return { status: "failed", ...base, detail };
+  };
+
+  if (Date.now() - hold.createdAt.getTime() > AUTHORIZE_TTL_MS) {
+    return fail("Authorization expired before Cayman confirmed it");
+  }
+
+  const { payload } = notification;
+  const resultCode = pickString(payload, "result-code", "resultCode");
+  const transactionId = pickString(payload, "transaction-id", "transactionid", "transactionId");
+  if ((resultCode !== undefined && !SUCCESS_CODES.has(resultCode)) || !transactionId) {
+    return fail(pickString(payload, "result-text", "resultText") ?? `Cayman did not authorize the card (${resultCode ?? "no transaction id"})`);
+  }
+
+  const session = await getSession(hold.sessionId);
+  if (!session) {
+    return fail("Checkout session is missing");
+  }
+
+  let transaction: ConfirmedTransaction;
+  try {
+    ({ transaction } = await verifyCaymanNotification(
+      tenant,
+      { rawBody: notification.rawBody, transactionId },
+      { amount: session.total, currency: tenantCurrency(tenant), orderId: session.cayman?.orderId }
+    ));
+  } catch (error) {
+    if (error instanceof NotificationVerificationError) {
+      console.warn("[payment-holds] Rejected unverified authorization", { ...base, transactionId, reason: error.reason });
+      const alerted = await raisePaymentAlert(error, {
+        siteKey: hold.siteKey,
+        sessionId: hold.sessionId,
+        transactionId,
+        source: notification.source
+      });
+      return { status: "rejected", ...base, detail: error.message, ...(alerted ? { alerted } : {}) };
+    }
+    throw error;
+  }
+
+  if (!(await authorizePaymentHold(hold.id, transaction.transactionId, new Date()))) {
+    const current = await getPaymentHold(hold.id);
+    return { status: current?.status ?? "unknown", ...base };
+  }
+
+  const maskedPan = pickString(payload, "cc-number", "maskedPAN", "masked-pan");
+  await update(hold.sessionId, {
+    cayman: Object.fromEntries(
+      Object.entries({
+        ...session.cayman,
+        transactionId: sanitizeReference(transaction.transactionId),
+        auth: transaction.authCode,
+        last4: transaction.last4 ?? (maskedPan && maskedPan.length >= 4 ? maskedPan.slice(-4) : undefined),
+        resultCode: transaction.resultCode,
+        resultText: transaction.resultText
+      }).filter(([, value]) => value !== undefined)
+    )
+  });
+
+  console.info("[payment-holds] Authorization held", { ...base, transactionId: transaction.transactionId });
+  return { status: "authorized", ...base };
+};
+
+/** The client's Mindbody visit for the held booking, looked up a day either side of its start. */
+const findHeldVisit = async (hold: PaymentHold): Promise<MindbodyVisit | undefined> => {
+  const tenant = await resolveTenant(hold.siteKey);
+  const start = hold.visitStartsAt.getTime();
+  const visits = await listClientVisits(
+    hold.clientId,
+    new Date(start - DAY_MS),
+    new Date(start + DAY_MS),
+    getMindbodyClient(tenant)
+  );
+  const key = hold.visitType === "class" ? "ClassId" : "AppointmentId";
+  return visits.find((visit) => visit[key] !== undefined && visit[key] !== null && String(visit[key]) === hold.visitId);
+};
+
+const isAttended = (visit: MindbodyVisit): boolean =>
+  visit.SignedIn === true || visit.AppointmentStatus === "Arrived" || visit.AppointmentStatus === "Completed";
+
+const isLateCancelled = (visit: MindbodyVisit): boolean =>
+  visit.LateCancelled === true || visit.AppointmentStatus === "LateCancelled";
+
+const describe = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/** Next look at a hold still waiting for its visit; never later than the moment it expires. */
+const nextCheck = (hold: PaymentHold): Date =>
+  new Date(Math.min(Date.now() + CHECK_INTERVAL_MS, Math.max(hold.holdExpiresAt.getTime(), Date.now())));
+
+/**
+ * Captures a claimed hold and fulfils its session in Mindbody exactly as a paid checkout would be. If
+ * Cayman refuses or cannot be reached the hold stays authorized: the worker tries again until the hold
+ * expires, after which it is left for staff. Throws `PaymentHoldError`.
+ */
+const captureClaimedHold = async (hold: PaymentHold, by: string): Promise<PaymentHold> => {
+  const authorizationId = hold.transactionId as string;
+  const tenant = await resolveTenant(hold.siteKey);
+  const retryAt = hold.holdExpiresAt.getTime() > Date.now() ? nextCheck(hold) : null;
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(tenant).captureAuthorization({
+      "transaction-id": authorizationId,
+      amount: hold.amount.toFixed(2)
+    });
+  } catch (error) {
+    await releasePaymentHold(hold.id, retryAt, `Capture failed: ${describe(error)}`);
+    console.error("[payment-holds] Capture did not complete", { holdId: hold.id, sessionId: hold.sessionId, error });
+    throw new PaymentHoldError("Cayman did not answer the capture. Check the transaction before capturing again.", 502, {
+      holdId: hold.id
+    });
+  }
+
+  const resultCode = pickString(response, "result-code", "resultCode");
+  if (response.success === false || (resultCode !== undefined && !SUCCESS_CODES.has(resultCode))) {
+    const detail = pickString(response, "result-text", "resultText") ?? `Cayman refused the capture (${resultCode ?? "no result"})`;
+    await releasePaymentHold(hold.id, retryAt, detail);
+    console.warn("[payment-holds] Capture refused", { holdId: hold.id, sessionId: hold.sessionId, detail });
+    throw new PaymentHoldError(detail, 502, { holdId: hold.id });
+  }
+
+  const captureId = pickString(response, "transaction-id", "transactionid", "transactionId");
+  const captured = captureId && captureId !== authorizationId ? captureId : undefined;
+  if (!(await markPaymentHoldCaptured(hold.id, by, captured))) {
+    return (await getPaymentHold(hold.id)) ?? hold;
+  }
+  console.info("[payment-holds] Hold captured", { holdId: hold.id, sessionId: hold.sessionId, by });
+
+  const source = `hold:${by === WORKER_ACTOR ? "check-in" : "staff"}`;
+  const session = await getSession(hold.sessionId);
+  const processing = session
+    ? await transition(hold.sessionId, ["created", "expired"], "processing", {
+        cayman: { ...session.cayman, transactionId: sanitizeReference(captured ?? authorizationId) }
+      })
+    : undefined;
+  if (!processing) {
+    console.warn("[payment-holds] Captured hold's session could not be moved to processing", {
+      holdId: hold.id,
+      sessionId: hold.sessionId,
+      status: session?.status ?? "missing"
+    });
+    return (await getPaymentHold(hold.id)) ?? hold;
+  }
+
+  try {
+    const receipt = await fulfilSession(processing, source);
+    await markSessionFulfilled(processing, receipt);
+    console.info(`[cayman:${source}] Session marked paid`, { sessionId: hold.sessionId, receiptId: receipt.receiptId });
+  } catch (error) {
+    const deferred = await deferFulfilment(processing, error, source);
+    if (deferred !== "queued") {
+      console.error(`[cayman:${source}] Mindbody fulfillment failed`, { sessionId: hold.sessionId, error });
+    }
+  }
+  return (await getPaymentHold(hold.id)) ?? hold;
+};
+
+/** Voids a claimed hold at Cayman, then closes it and fails its session. Throws `PaymentHoldError`. */
+const voidClaimedHold = async (hold: PaymentHold, by: string, reason: PaymentHoldVoidReason): Promise<PaymentHold> => {
+  const tenant = await resolveTenant(hold.siteKey);
+  const retryAt = nextCheck(hold);
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(tenant).voidAuthorization({ "transaction-id": hold.transactionId as string });
+  } catch (error) {
+    await releasePaymentHold(hold.id, retryAt, `Void failed: ${describe(error)}`);
+    console.error("[payment-holds] Void did not complete", { holdId: hold.id, sessionId: hold.sessionId, error });
+    throw new PaymentHoldError("Cayman did not answer the void. Check the transaction before voiding again.", 502, {
+      holdId: hold.id
+    });
+  }
+
+  if (response.success === false) {
+    const detail = pickString(response, "result-text", "resultText") ?? "Cayman refused the void";
+    await releasePaymentHold(hold.id, retryAt, detail);
+    console.warn("[payment-holds] Void refused", { holdId: hold.id, sessionId: hold.sessionId, detail });
+    throw new PaymentHoldError(detail, 502, { holdId: hold.id });
+  }
+
+  if (await markPaymentHoldVoided(hold.id, by, reason)) {
+    await transition(hold.sessionId, "created", "failed");
+    console.info("[payment-holds] Hold voided", { holdId: hold.id, sessionId: hold.sessionId, by, reason });
+  }
+  return (await getPaymentHold(hold.id)) ?? hold;
+};
+
+export type PaymentHoldReview = "captured" | "voided" | "waiting";
+
+/**
+ * Decides a claimed hold from the Mindbody booking: an attended visit is captured; a late cancel, a
+ * cancelled appointment or a booking gone after the start is voided; and a hold nobody checked in for
+ * by its expiry is voided. Anything else, no-shows included, is looked at again later.
+ */
+export const reviewPaymentHold = async (hold: PaymentHold): Promise<PaymentHoldReview> => {
+  let visit: MindbodyVisit | undefined;
+  try {
+    visit = await findHeldVisit(hold);
+  } catch (error) {
+    await releasePaymentHold(hold.id, nextCheck(hold), `Mindbody visit lookup failed: ${describe(error)}`);
+    console.error("[payment-holds] Mindbody visit lookup failed", { holdId: hold.id, error });
+    return "waiting";
+  }
+
+  const now = Date.now();
+  if (visit && isAttended(visit)) {
+    await captureClaimedHold(hold, WORKER_ACTOR);
+    return "captured";
+  }
+  if (visit && isLateCancelled(visit)) {
+    await voidClaimedHold(hold, WORKER_ACTOR, "late_cancel");
+    return "voided";
+  }
+  if (visit?.AppointmentStatus === "Cancelled" || (!visit && now >= hold.visitStartsAt.getTime())) {
+    await voidClaimedHold(hold, WORKER_ACTOR, "cancelled");
+    return "voided";
+  }
+  if (now >= hold.holdExpiresAt.getTime()) {
+    await voidClaimedHold(hold, WORKER_ACTOR, "hold_expired");
+    return "voided";
+  }
+
+  await releasePaymentHold(hold.id, nextCheck(hold));
+  return "waiting";
+};
+
+export const runDuePaymentHolds = async (): Promise<number> => {
+  const claimed = await claimDuePaymentHolds(CLAIM_BATCH_SIZE, CLAIM_LEASE_MS);
+  for (const hold of claimed) {
+    try {
+      await reviewPaymentHold(hold);
+    } catch (error) {
+      console.error("[payment-holds] Hold review failed", { holdId: hold.id, error });
+    }
+  }
+  return claimed.length;
+};
+
+/** Claims an authorized hold for staff; `409` while it is not authorized or the worker has it. */
+const claimForStaff = async (hold: PaymentHold): Promise<void> => {
+  if (hold.status !== "authorized") {
+    throw new PaymentHoldError(`Payment hold is ${hold.status}`, 409, { holdId: hold.id, status: hold.status });
+  }
+  if (!(await claimPaymentHold(hold.id, CLAIM_LEASE_MS))) {
+    throw new PaymentHoldError("Payment hold is being processed; try again shortly", 409, { holdId: hold.id });
+  }
+};
+
+/** Captures an authorized hold by hand, whatever Mindbody says about the visit. Throws `PaymentHoldError`. */
+export const capturePaymentHold = async (hold: PaymentHold, by: string): Promise<PaymentHold> => {
+  await claimForStaff(hold);
+  return captureClaimedHold(hold, by);
+};
+
+/** Voids an authorized hold by hand. Throws `PaymentHoldError`. */
+export const voidPaymentHold = async (hold: PaymentHold, by: string): Promise<PaymentHold> => {
+  await claimForStaff(hold);
+  return voidClaimedHold(hold, by, "staff");
+};
+
+export const startPaymentHoldWorker = (): void => {
+  if (!isDatabaseConfigured()) {
+    console.warn("[payment-holds] No database configured; held authorizations will not be captured or voided.");
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    runDuePaymentHolds()
+      .catch((error) => {
+        console.error("[payment-holds] Failed to review due payment holds", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, POLL_INTERVAL_MS);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+};
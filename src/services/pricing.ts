@@ -0,0 +1,248 @@
+import { type AxiosInstance } from "axios";
+import {
+  getPricingRule,
+  recordPriceOverride,
+  type PriceOverrideContext,
+  type PricingRule
+} from "../storage/pricingRules.js";
+import { listPackages, listProducts, listServices } from "./mbo.js";
+import { getMindbodyClient, type Tenant } from "./tenants.js";
+
+export type CatalogItemType = "Service" | "Product" | "Package";
+
+interface CatalogItemSummary {
+  Id?: number | string;
+  id?: number | string;
+  Name?: string;
+  name?: string;
+  Price?: number | string;
+  price?: number | string;
+  OnlinePrice?: number | string | { Amount?: number | string };
+  Sku?: string;
+  SKU?: string;
+}
+
+/** Where catalog prices come from; one per tenant so prices are never read from another site's catalog. */
+export interface CatalogSource {
+  listServices(): Promise<CatalogItemSummary[]>;
+  listProducts(): Promise<CatalogItemSummary[]>;
+  listPackages(): Promise<CatalogItemSummary[]>;
+}
+
+export interface CatalogEntry {
+  id: string;
+  type: CatalogItemType;
+  name: string;
+  unitPrice: number;
+}
+
+export interface PriceQuote {
+  entry: CatalogEntry;
+  catalogPrice: number;
+  price: number;
+  rule?: PricingRule;
+}
+
+/** `code` is returned to API callers as the error string. */
+export class PricingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+export const createMindbodyCatalogSource = (client: AxiosInstance): CatalogSource => ({
+  listServices: () => listServices(client),
+  listProducts: () => listProducts(client),
+  listPackages: () => listPackages(client)
+});
+
+export const catalogSourceForTenant = (tenant: Tenant): CatalogSource =>
+  createMindbodyCatalogSource(getMindbodyClient(tenant));
+
+export const normalizeItemType = (value: string | undefined): CatalogItemType => {
+  const normalized = (value ?? "").trim().toLowerCase();
+  if (normalized === "product") return "Product";
+  if (normalized === "package" || normalized === "pricingoption") return "Package";
+  return "Service";
+};
+
+export const priceFromCatalogItem = (item: CatalogItemSummary): number => {
+  const onlinePrice = item.OnlinePrice;
+  const candidates = [
+    typeof onlinePrice === "object" ? onlinePrice?.Amount : onlinePrice,
+    item.Price,
+    item.price
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === "number" && Number.isFinite(candidate)) {
+      return candidate;
+    }
+    if (typeof candidate === "string" && candidate.trim().length > 0) {
+      const parsed = Number.parseFloat(candidate);
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+  }
+  return NaN;
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/** Loads only the catalogs that are needed, keyed by `${type}:${id}`. */
+export const loadCatalog = async (
+  source: CatalogSource,
+  types: Set<CatalogItemType>
+): Promise<Map<string, CatalogEntry>> => {
+  const [services, products, packages] = await Promise.all([
+    types.has("Service") ? source.listServices() : Promise.resolve([]),
+    types.has("Product") ? source.listProducts() : Promise.resolve([]),
+    types.has("Package") ? source.listPackages() : Promise.resolve([])
+  ]);
+
+  const catalog = new Map<string, CatalogEntry>();
+  const add = (type: CatalogItemType, item: CatalogItemSummary, rawId: unknown): void => {
+    if (rawId === undefined || rawId === null || String(rawId).trim() === "") {
+      return;
+    }
+    const id = String(rawId).trim();
+    catalog.set(`${type}:${id}`, {
+      id,
+      type,
+      name: String(item.Name ?? item.name ?? type),
+      unitPrice: priceFromCatalogItem(item)
+    });
+  };
+
+  for (const service of services) add("Service", service, service.Id ?? service.id);
+  for (const product of products) add("Product", product, product.Id ?? product.id ?? product.Sku ?? product.SKU);
+  for (const pack of packages) add("Package", pack, pack.Id ?? pack.id);
+
+  return catalog;
+};
+
+export const lookupCatalogEntry = async (
+  source: CatalogSource,
+  itemId: string,
+  itemType: CatalogItemType
+): Promise<CatalogEntry> => {
+  const catalog = await loadCatalog(source, new Set([itemType]));
+  const entry = catalog.get(`${itemType}:${String(itemId).trim()}`);
+
+  if (!entry) {
+    throw new PricingError("item not found", "item_not_found", { itemId, itemType });
+  }
+
+  if (!Number.isFinite(entry.unitPrice) || entry.unitPrice <= 0) {
+    throw new PricingError("item price missing or invalid", "invalid_item_price", { itemId, itemType });
+  }
+
+  return entry;
+};
+
+const ruleMatches = (
+  rule: PricingRule,
+  target: { siteKey: string; itemType: CatalogItemType; itemId: string },
+  now: Date
+): boolean =>
+  rule.active &&
+  rule.siteKey === target.siteKey &&
+  (!rule.itemType || normalizeItemType(rule.itemType) === target.itemType) &&
+  (!rule.itemId || rule.itemId === target.itemId) &&
+  (!rule.startsAt || rule.startsAt.getTime() <= now.getTime()) &&
+  (!rule.endsAt || rule.endsAt.getTime() > now.getTime());
+
+export const applyPricingRule = (rule: PricingRule, catalogPrice: number): number => {
+  const raw =
+    rule.kind === "fixed_price"
+      ? rule.value
+      : rule.kind === "percent_off"
+        ? catalogPrice * (1 - rule.value / 100)
+        : catalogPrice - rule.value;
+
+  return roundCurrency(Math.max(raw, rule.minPrice ?? 0, 0));
+};
+
+export interface QuotePriceInput {
+  source: CatalogSource;
+  siteKey: string;
+  itemId: string;
+  itemType: string;
+  /** Only allow-listed rules can move the price away from the catalog. */
+  ruleId?: number;
+}
+
+/**
+ * The one place a chargeable price is decided. Caller-supplied prices are never trusted; the catalog
+ * price stands unless an active allow-listed rule covering this site and item says otherwise.
+ */
+export const quotePrice = async (input: QuotePriceInput): Promise<PriceQuote> => {
+  const itemType = normalizeItemType(input.itemType);
+  const entry = await lookupCatalogEntry(input.source, input.itemId, itemType);
+  const catalogPrice = roundCurrency(entry.unitPrice);
+
+  if (input.ruleId === undefined) {
+    return { entry, catalogPrice, price: catalogPrice };
+  }
+
+  const rule = await getPricingRule(input.ruleId);
+  if (!rule || !ruleMatches(rule, { siteKey: input.siteKey, itemType, itemId: entry.id }, new Date())) {
+    throw new PricingError("pricing rule is not active for this item", "pricing_rule_not_applicable", {
+      ruleId: input.ruleId
+    });
+  }
+
+  const price = applyPricingRule(rule, catalogPrice);
+  if (price <= 0) {
+    throw new PricingError("pricing rule produces a non-chargeable price", "invalid_item_price", { ruleId: rule.id });
+  }
+
+  return { entry, catalogPrice, price, rule };
+};
+
+/**
+ * Overrides are only honoured once they are on record; a failed write fails the caller. `signedBy` is the
+ * authenticated approver; a name the caller typed is kept as the `note`.
+ */
+export const recordOverride = async (
+  quote: PriceQuote,
+  siteKey: string,
+  signedBy: string,
+  context: PriceOverrideContext,
+  note?: string
+): Promise<void> => {
+  if (!quote.rule) {
+    return;
+  }
+
+  await recordPriceOverride({
+    ruleId: quote.rule.id,
+    siteKey,
+    itemType: quote.entry.type,
+    itemId: quote.entry.id,
+    catalogPrice: quote.catalogPrice,
+    finalPrice: quote.price,
+    signedBy,
+    context,
+    note
+  });
+
+  console.info("[pricing] Price override applied", {
+    ruleId: quote.rule.id,
+    siteKey,
+    itemId: quote.entry.id,
+    catalogPrice: quote.catalogPrice,
+    price: quote.price,
+    signedBy,
+    context
+  });
+};
+
+/** Tolerates float noise when comparing a caller's price hint to the catalog. */
+export const pricesMatch = (left: number, right: number): boolean => Math.abs(left - right) < 0.005;
@@ -0,0 +1,205 @@
+import { isDatabaseConfigured } from "../db/mysql.js";
+import {
+  search as searchSessions,
+  SESSION_TTL_MS,
+  SETTLED_STATUSES,
+  type SessionLine,
+  type SessionPromo
+} from "../lib/sessions.js";
+import {
+  findPromoCode,
+  getPromoUsage,
+  hasRedeemedAnyPromo,
+  reservePromoRedemption,
+  setPromoRedemptionStatus,
+  type PromoCode
+} from "../storage/promoCodes.js";
+import { normalizeItemType } from "./pricing.js";
+
+/** `code` is returned to API callers as the error string. */
+export class PromoError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "PromoError";
+  }
+}
+
+export interface ApplyPromoInput {
+  code: string;
+  siteKey: string;
+  email?: string;
+  lines: SessionLine[];
+  /**
+   * When set, a use of the code is reserved under this reference (the checkout session id, or the
+   * payment reference for tenant paylinks). Omit to only preview the discount.
+   */
+  reference?: string;
+}
+
+export interface PromoApplication {
+  promo: PromoCode;
+  /** The input lines with `discount` filled in on the ones the code covers. */
+  lines: SessionLine[];
+  discount: number;
+  total: number;
+}
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+const lineCents = (line: SessionLine): number => toCents(line.unitPrice) * line.qty;
+
+const lineMatches = (promo: PromoCode, line: SessionLine): boolean =>
+  (!promo.itemType || normalizeItemType(promo.itemType) === normalizeItemType(line.type)) &&
+  (!promo.itemId || promo.itemId === line.productId);
+
+/** Discount per line in cents; fixed amounts are spread pro rata and the last covered line takes the rounding. */
+const allocateDiscount = (promo: PromoCode, lines: SessionLine[]): number[] => {
+  const eligible = lines.map((line) => (lineMatches(promo, line) ? lineCents(line) : 0));
+
+  if (promo.kind === "percent_off") {
+    const percent = Math.min(promo.value, 100);
+    return eligible.map((cents) => Math.round((cents * percent) / 100));
+  }
+
+  const eligibleCents = eligible.reduce((acc, cents) => acc + cents, 0);
+  const discountCents = Math.min(toCents(promo.value), eligibleCents);
+  const lastIndex = eligible.reduce((last, cents, index) => (cents > 0 ? index : last), -1);
+
+  let allocated = 0;
+  return eligible.map((cents, index) => {
+    if (cents === 0) {
+      return 0;
+    }
+    const share = index === lastIndex ? discountCents - allocated : Math.floor((cents * discountCents) / eligibleCents);
+    allocated += share;
+    return share;
+  });
+};
+
+const normalizeEmail = (email: string | undefined): string | undefined => {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed && trimmed.length > 0 ? trimmed : undefined;
+};
+
+const hasPriorPurchase = async (siteKey: string, email: string): Promise<boolean> => {
+  const settled = await searchSessions({ siteKey, email, status: SETTLED_STATUSES.slice(), limit: 1 });
+  return settled.length > 0 || (await hasRedeemedAnyPromo(siteKey, email));
+};
+
+const assertUsable = async (promo: PromoCode, email: string | undefined, now: Date): Promise<void> => {
+  if (promo.startsAt && promo.startsAt.getTime() > now.getTime()) {
+    throw new PromoError("promo code is not active yet", "promo_not_started", { code: promo.code });
+  }
+  if (promo.endsAt && promo.endsAt.getTime() <= now.getTime()) {
+    throw new PromoError("promo code has expired", "promo_expired", { code: promo.code });
+  }
+
+  if (!email && (promo.firstPurchaseOnly || promo.maxPerEmail !== undefined)) {
+    throw new PromoError("promo code requires a customer email", "promo_requires_email", { code: promo.code });
+  }
+
+  if (promo.firstPurchaseOnly && email && (await hasPriorPurchase(promo.siteKey, email))) {
+    throw new PromoError("promo code is only valid on a first purchase", "promo_first_purchase_only", {
+      code: promo.code
+    });
+  }
+};
+
+/**
+ * Validates a code against the cart and works out the discount. With a `reference` the use is also
+ * reserved, re-checking the caps under a lock; the caller confirms or releases it once the payment settles.
+ */
+export const applyPromoCode = async (input: ApplyPromoInput): Promise<PromoApplication> => {
+  if (!isDatabaseConfigured()) {
+    throw new PromoError("promo codes require a configured database", "promo_unavailable");
+  }
+
+  const now = new Date();
+  const email = normalizeEmail(input.email);
+  const promo = await findPromoCode(input.siteKey, input.code);
+
+  if (!promo || !promo.active) {
+    throw new PromoError("promo code not found", "promo_not_found", { code: input.code });
+  }
+
+  await assertUsable(promo, email, now);
+
+  const discounts = allocateDiscount(promo, input.lines);
+  const discountCents = discounts.reduce((acc, cents) => acc + cents, 0);
+
+  if (discountCents <= 0) {
+    throw new PromoError("promo code does not apply to this cart", "promo_not_applicable", { code: promo.code });
+  }
+
+  const subtotalCents = input.lines.reduce((acc, line) => acc + lineCents(line), 0);
+  const totalCents = subtotalCents - discountCents;
+
+  // Cayman cannot take a zero-value payment, so a code may reduce a cart but never make it free.
+  if (totalCents <= 0) {
+    throw new PromoError("promo code would make the cart free", "promo_total_not_chargeable", { code: promo.code });
+  }
+
+  const discount = discountCents / 100;
+  const reservedSince = new Date(now.getTime() - SESSION_TTL_MS);
+
+  if (input.reference) {
+    const reservation = await reservePromoRedemption({
+      promoCodeId: promo.id,
+      reference: input.reference,
+      email,
+      discount,
+      maxRedemptions: promo.maxRedemptions,
+      maxPerEmail: promo.maxPerEmail,
+      reservedSince
+    });
+
+    if (reservation.kind === "exhausted") {
+      throw new PromoError("promo code has reached its usage limit", "promo_exhausted", { code: promo.code });
+    }
+    if (reservation.kind === "email_limit") {
+      throw new PromoError("promo code was already used by this customer", "promo_email_limit", { code: promo.code });
+    }
+  } else {
+    const usage = await getPromoUsage(promo.id, email, reservedSince);
+    if (promo.maxRedemptions !== undefined && usage.total >= promo.maxRedemptions) {
+      throw new PromoError("promo code has reached its usage limit", "promo_exhausted", { code: promo.code });
+    }
+    if (promo.maxPerEmail !== undefined && usage.perEmail >= promo.maxPerEmail) {
+      throw new PromoError("promo code was already used by this customer", "promo_email_limit", { code: promo.code });
+    }
+  }
+
+  return {
+    promo,
+    lines: input.lines.map((line, index) =>
+      discounts[index] > 0 ? { ...line, discount: discounts[index] / 100 } : { ...line }
+    ),
+    discount,
+    total: totalCents / 100
+  };
+};
+
+export const toSessionPromo = (application: PromoApplication): SessionPromo => ({
+  code: application.promo.code,
+  promoCodeId: application.promo.id,
+  discount: application.discount
+});
+
+const settleRedemption = async (reference: string, status: "redeemed" | "released"): Promise<void> => {
+  try {
+    await setPromoRedemptionStatus(reference, status);
+  } catch (error) {
+    // The reservation window still bounds an unsettled reservation, so this is not worth failing a payment over.
+    console.error("[promotions] Failed to update promo redemption", { reference, status, error });
+  }
+};
+
+/** Called once Cayman confirms the payment. */
+export const confirmPromoRedemption = (reference: string): Promise<void> => settleRedemption(reference, "redeemed");
+
+/** Called when the payment fails or could not be started, so the use goes back to the pool. */
+export const releasePromoRedemption = (reference: string): Promise<void> => settleRedemption(reference, "released");
@@ -0,0 +1,323 @@
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { findByOrderId, findByTransactionId, type Session } from "../lib/sessions.js";
+import {
+  completeReconciliationRun,
+  failReconciliationRun,
+  getReconciliationRun,
+  startReconciliationRun,
+  type ReconciliationEntry,
+  type ReconciliationIssueKind,
+  type ReconciliationRun,
+  type ReconciliationSummary
+} from "../storage/reconciliationRuns.js";
+import { listTenantRecords } from "../storage/tenants.js";
+import { saleReferences, sanitizeReference } from "./fulfilment.js";
+import { listSales, type MindbodySale } from "./mbo.js";
+import { defaultSiteKey, getCaymanService, getMindbodyClient, resolveTenant, type Tenant } from "./tenants.js";
+import { isApprovedTransaction, readCaymanTransaction, type ConfirmedTransaction } from "./webhookVerification.js";
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const readHour = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 23 ? parsed : fallback;
+};
+
+/** Sales posted by outbox retries can land after the day the payment was taken. */
+const SALE_GRACE_MS = readPositiveInt(process.env.RECONCILIATION_SALE_GRACE_HOURS, 48) * 3_600_000;
+const RUN_HOUR_UTC = readHour(process.env.RECONCILIATION_HOUR_UTC, 3);
+const POLL_INTERVAL_MS = readPositiveInt(process.env.RECONCILIATION_POLL_INTERVAL_MS, 15 * 60_000);
+const MAX_WINDOW_DAYS = 31;
+const MAX_CAYMAN_PAGES = 100;
+const AMOUNT_TOLERANCE = 0.005;
+const DAY_MS = 86_400_000;
+
+// Money taken: sales and captured authorizations. Refunds, voids and bare authorizations are left out.
+const SALE_TYPES = new Set(["sale", "capture"]);
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Raised for a window the runner refuses (bad dates, too long, in the future). */
+export class ReconciliationWindowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconciliationWindowError";
+  }
+}
+
+export interface ReconciliationWindow {
+  /** First and last day covered, `YYYY-MM-DD` (UTC), inclusive. */
+  from: string;
+  to: string;
+}
+
+export const validateReconciliationWindow = (window: ReconciliationWindow): void => {
+  if (!DAY_PATTERN.test(window.from) || !DAY_PATTERN.test(window.to)) {
+    throw new ReconciliationWindowError("from and to must be YYYY-MM-DD dates");
+  }
+  const start = Date.parse(`${window.from}T00:00:00Z`);
+  const end = Date.parse(`${window.to}T00:00:00Z`);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+    throw new ReconciliationWindowError("to must be on or after from");
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_WINDOW_DAYS) {
+    throw new ReconciliationWindowError(`A window may cover at most ${MAX_WINDOW_DAYS} days`);
+  }
+  if (start > Date.now()) {
+    throw new ReconciliationWindowError("The window starts in the future");
+  }
+};
+
+const fetchApprovedCharges = async (tenant: Tenant, window: ReconciliationWindow): Promise<ConfirmedTransaction[]> => {
+  const cayman = getCaymanService(tenant);
+  const charges: ConfirmedTransaction[] = [];
+
+  for (let page = 1; page <= MAX_CAYMAN_PAGES; page += 1) {
+    const response = await cayman.queryTransactions({ "start-date": window.from, "end-date": window.to, page });
+    if (response.success === false) {
+      throw new Error(`Cayman transaction query failed: ${String(response["result-text"] ?? "no detail")}`);
+    }
+
+    for (const record of response.transactions ?? []) {
+      const type = typeof record.type === "string" ? record.type.toLowerCase() : "sale";
+      const charge = readCaymanTransaction(record);
+      if (SALE_TYPES.has(type) && isApprovedTransaction(record) && charge.transactionId) {
+        charges.push(charge);
+      }
+    }
+
+    if (!response["has-more"]) {
+      return charges;
+    }
+  }
+
+  throw new Error(`Cayman returned more than ${MAX_CAYMAN_PAGES} pages of transactions; narrow the window`);
+};
+
+const saleAmount = (sale: MindbodySale): number =>
+  (Array.isArray(sale.Payments) ? sale.Payments : []).reduce((sum, payment) => {
+    const amount = Number(payment.Amount);
+    return Number.isFinite(amount) ? sum + amount : sum;
+  }, 0);
+
+const saleDate = (sale: MindbodySale): number => Date.parse(String(sale.SaleDateTime ?? sale.SaleDate ?? ""));
+
+/** Sales `fulfilSession` posted; other integrations may set `ExternalReferenceId` too. */
+const isCaymanSale = (sale: MindbodySale): boolean =>
+  [sale.Notes, ...(Array.isArray(sale.Payments) ? sale.Payments : []).flatMap((payment) => [payment.Notes, payment.Note])].some(
+    (text) => typeof text === "string" && (text.includes("Gateway=Cayman") || text.includes("TxnId="))
+  );
+
+const findSession = async (charge: ConfirmedTransaction): Promise<Session | undefined> =>
+  (await findByTransactionId(charge.transactionId)) ?? (charge.orderId ? await findByOrderId(charge.orderId) : undefined);
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export interface ReconciliationReport {
+  summary: ReconciliationSummary;
+  entries: ReconciliationEntry[];
+}
+
+/**
+ * Matches every approved Cayman charge in the window to the Mindbody sales carrying its references.
+ * Each charge should have exactly one sale for the same amount; Cayman-tagged sales in the window that
+ * no charge claims are reported too. Reads only; nothing is changed in Cayman, Mindbody or the sessions.
+ */
+export const buildReconciliationReport = async (tenant: Tenant, window: ReconciliationWindow): Promise<ReconciliationReport> => {
+  validateReconciliationWindow(window);
+  const windowStart = Date.parse(`${window.from}T00:00:00Z`);
+  const windowEnd = Date.parse(`${window.to}T00:00:00Z`) + DAY_MS;
+
+  const charges = await fetchApprovedCharges(tenant, window);
+  const sales = await listSales(new Date(windowStart), new Date(Math.min(windowEnd + SALE_GRACE_MS, Date.now())), getMindbodyClient(tenant));
+
+  const salesByReference = new Map<string, MindbodySale[]>();
+  const referencesBySale = new Map<MindbodySale, Set<string>>();
+  for (const sale of sales) {
+    const references = saleReferences(sale);
+    referencesBySale.set(sale, references);
+    for (const reference of references) {
+      salesByReference.set(reference, [...(salesByReference.get(reference) ?? []), sale]);
+    }
+  }
+
+  const entries: ReconciliationEntry[] = [];
+  const claimed = new Set<MindbodySale>();
+  let matched = 0;
+  let settledManually = 0;
+
+  for (const charge of charges) {
+    const session = await findSession(charge);
+    const orderId = charge.orderId ?? session?.cayman?.orderId;
+    const references = [charge.transactionId, orderId, session?.id]
+      .map((reference) => sanitizeReference(reference))
+      .filter((reference): reference is string => Boolean(reference));
+    const matches = [...new Set(references.flatMap((reference) => salesByReference.get(reference) ?? []))];
+    matches.forEach((sale) => claimed.add(sale));
+
+    const base = {
+      transactionId: charge.transactionId,
+      orderId,
+      sessionId: session?.id,
+      sessionStatus: session?.status,
+      caymanAmount: Number.isFinite(charge.amount) ? charge.amount : undefined,
+      saleIds: matches.map((sale) => String(sale.Id ?? ""))
+    };
+
+    if (matches.length === 0) {
+      if (session?.reconciled) {
+        settledManually += 1;
+        continue;
+      }
+      entries.push({ ...base, kind: "missing_sale", detail: "Cayman approved the payment but no Mindbody sale references it" });
+      continue;
+    }
+
+    if (matches.length > 1) {
+      entries.push({ ...base, kind: "duplicate_sale", detail: `${matches.length} Mindbody sales reference this payment` });
+      continue;
+    }
+
+    const mindbodyAmount = roundMoney(saleAmount(matches[0]));
+    if (!Number.isFinite(charge.amount) || Math.abs(mindbodyAmount - charge.amount) > AMOUNT_TOLERANCE) {
+      entries.push({
+        ...base,
+        kind: "amount_mismatch",
+        mindbodyAmount,
+        detail: `Mindbody recorded ${mindbodyAmount.toFixed(2)} against a Cayman charge of ${
+          Number.isFinite(charge.amount) ? charge.amount.toFixed(2) : "an unknown amount"
+        }`
+      });
+      continue;
+    }
+
+    matched += 1;
+  }
+
+  for (const sale of sales) {
+    const references = referencesBySale.get(sale) ?? new Set<string>();
+    const date = saleDate(sale);
+    if (claimed.has(sale) || !isCaymanSale(sale) || !(date >= windowStart && date < windowEnd)) {
+      continue;
+    }
+    entries.push({
+      kind: "unmatched_sale",
+      saleIds: [String(sale.Id ?? "")],
+      mindbodyAmount: roundMoney(saleAmount(sale)),
+      detail: `Mindbody sale references ${[...references].join(", ")} but no approved Cayman charge in the window does`
+    });
+  }
+
+  const issues: Record<ReconciliationIssueKind, number> = { missing_sale: 0, duplicate_sale: 0, amount_mismatch: 0, unmatched_sale: 0 };
+  entries.forEach((entry) => {
+    issues[entry.kind] += 1;
+  });
+
+  return {
+    summary: { caymanTransactions: charges.length, mindbodySales: sales.length, matched, settledManually, issues },
+    entries
+  };
+};
+
+/**
+ * Runs and stores a reconciliation for one site. With `scheduleKey`, returns `undefined` when another
+ * instance already took that scheduled run. A failed run is stored as `failed` and the error rethrown.
+ */
+export const runReconciliation = async (
+  siteKey: string,
+  window: ReconciliationWindow,
+  triggeredBy: string,
+  scheduleKey?: string
+): Promise<ReconciliationRun | undefined> => {
+  validateReconciliationWindow(window);
+  const tenant = await resolveTenant(siteKey);
+
+  const runId = await startReconciliationRun({
+    siteKey: tenant.siteKey,
+    windowStart: window.from,
+    windowEnd: window.to,
+    triggeredBy,
+    scheduleKey
+  });
+  if (runId === undefined) {
+    return undefined;
+  }
+
+  try {
+    const report = await buildReconciliationReport(tenant, window);
+    await completeReconciliationRun(runId, report.summary, report.entries);
+
+    const log = report.entries.length ? console.warn : console.info;
+    log("[reconciliation] Run completed", { siteKey: tenant.siteKey, runId, ...window, ...report.summary });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await failReconciliationRun(runId, message);
+    console.error("[reconciliation] Run failed", { siteKey: tenant.siteKey, runId, ...window, error: message });
+    throw error;
+  }
+
+  return getReconciliationRun(runId);
+};
+
+const reconcilableSiteKeys = async (): Promise<string[]> => {
+  const records = await listTenantRecords();
+  return [...new Set([defaultSiteKey(), ...records.map((record) => record.siteKey)])];
+};
+
+/** Reconciles the previous UTC day for every tenant with Cayman credentials, once per day across instances. */
+export const runScheduledReconciliations = async (now = new Date()): Promise<number> => {
+  if (now.getUTCHours() < RUN_HOUR_UTC) {
+    return 0;
+  }
+
+  const day = new Date(now.getTime() - DAY_MS).toISOString().slice(0, 10);
+  let runs = 0;
+
+  for (const siteKey of await reconcilableSiteKeys()) {
+    try {
+      const tenant = await resolveTenant(siteKey);
+      if (!tenant.cayman) {
+        continue;
+      }
+      if (await runReconciliation(tenant.siteKey, { from: day, to: day }, "schedule", `${tenant.siteKey}:${day}`)) {
+        runs += 1;
+      }
+    } catch (error) {
+      console.error("[reconciliation] Scheduled run failed", { siteKey, day, error });
+    }
+  }
+
+  return runs;
+};
+
+export const startReconciliationWorker = (): void => {
+  if (!isDatabaseConfigured()) {
+    console.warn("[reconciliation] No database configured; nightly reconciliation is disabled.");
+    return;
+  }
+  if ((process.env.RECONCILIATION_ENABLED ?? "true").toLowerCase() === "false") {
+    return;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    runScheduledReconciliations()
+      .catch((error) => {
+        console.error("[reconciliation] Failed to run scheduled reconciliations", error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, POLL_INTERVAL_MS);
+
+  if (typeof timer.unref === "function") {
+    timer.unref();
+  }
+};
@@ -0,0 +1,342 @@
+import {
+  findByTransactionId,
+  get,
+  recordEvent,
+  transition,
+  update,
+  type Session
+} from "../lib/sessions.js";
+import {
+  completeRefund,
+  failRefund,
+  getRefund,
+  getRefundByIdempotencyKey,
+  noteRefundError,
+  reserveRefund,
+  setRefundMindbodyStatus,
+  sumSucceededRefunds,
+  type Refund,
+  type RefundMindbodyStatus
+} from "../storage/refunds.js";
+import { isOk } from "./caymanService.js";
+import { describeFulfilmentError } from "./fulfilment.js";
+import { returnSale } from "./mbo.js";
+import { getCaymanService, getMindbodyClient, resolveTenant, UnknownTenantError, type Tenant } from "./tenants.js";
+import { isApprovedTransaction, readCaymanTransaction } from "./webhookVerification.js";
+
+export interface RefundSessionRequest {
+  sessionId?: string;
+  transactionId?: string;
+  /** Omit for a full refund of whatever has not been refunded yet. */
+  amount?: number;
+  reason?: string;
+  idempotencyKey: string;
+  actor: string;
+}
+
+export interface RefundOutcome {
+  refund: Refund;
+  session: Session;
+  replayed: boolean;
+}
+
+/** Carries the HTTP status the admin API should answer with. */
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+const REFUNDABLE_STATUSES: ReadonlyArray<Session["status"]> = ["paid", "partially_refunded"];
+
+const resolveSession = async (request: RefundSessionRequest): Promise<Session> => {
+  const session = request.sessionId
+    ? await get(request.sessionId)
+    : request.transactionId
+      ? await findByTransactionId(request.transactionId)
+      : undefined;
+
+  if (!session) {
+    throw new RefundError("Checkout session not found", 404);
+  }
+
+  return session;
+};
+
+/** Refunds go through the Cayman account and Mindbody site of the tenant that took the payment. */
+const resolveSessionTenant = async (session: Session): Promise<Tenant> => {
+  try {
+    const tenant = await resolveTenant(session.siteKey);
+    if (!tenant.cayman) {
+      throw new RefundError("No Cayman account is configured for this site", 409, { siteKey: session.siteKey });
+    }
+    return tenant;
+  } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      throw new RefundError("Site key is not registered", 409, { siteKey: session.siteKey });
+    }
+    throw error;
+  }
+};
+
+/** Tags the Cayman refund so one whose answer was lost can be found again in Cayman's transactions. */
+const refundOrderId = (refund: Refund): string => `refund_${refund.id}`;
+
+const MAX_LOOKUP_PAGES = 10;
+const DAY_MS = 86_400_000;
+
+const formatDay = (value: Date): string => value.toISOString().slice(0, 10);
+
+/**
+ * Cayman's record of a refund, looked up by its order id from the day before it was reserved (the
+ * gateway's days may not be UTC). `undefined` while Cayman has none.
+ */
+const findCaymanRefund = async (tenant: Tenant, refund: Refund): Promise<Record<string, unknown> | undefined> => {
+  const cayman = getCaymanService(tenant);
+  const orderId = refundOrderId(refund);
+
+  for (let page = 1; page <= MAX_LOOKUP_PAGES; page += 1) {
+    const response = await cayman.queryTransactions({
+      "start-date": formatDay(new Date(refund.createdAt.getTime() - DAY_MS)),
+      "end-date": formatDay(new Date()),
+      page
+    });
+    if (response.success === false) {
+      throw new Error(`Cayman transaction query failed: ${String(response["result-text"] ?? "no detail")}`);
+    }
+
+    const match = (response.transactions ?? []).find((record) => readCaymanTransaction(record).orderId === orderId);
+    if (match || !response["has-more"]) {
+      return match;
+    }
+  }
+
+  return undefined;
+};
+
+export const createRefundService = () => {
+  const ensureSameSession = (refund: Refund, session: Session): void => {
+    if (refund.sessionId !== session.id) {
+      throw new RefundError("Idempotency key was already used for a different session", 422, {
+        sessionId: refund.sessionId
+      });
+    }
+  };
+
+  /**
+   * A refund covering the whole sale in one go returns the sale. Any other refund returns its own amount
+   * against the sale, so the one that completes a series of partials returns the remaining balance.
+   */
+  const mirrorInMindbody = async (
+    tenant: Tenant,
+    session: Session,
+    refund: Refund,
+    request: RefundSessionRequest
+  ): Promise<{ status: RefundMindbodyStatus; detail?: string }> => {
+    const saleId = session.mindbody?.receiptId;
+    if (!saleId) {
+      return { status: "manual_required", detail: "Mindbody sale id unknown: return the sale manually" };
+    }
+
+    const coversWholeSale = session.status === "paid" && refund.amount >= session.total;
+    try {
+      if (coversWholeSale) {
+        await returnSale(saleId, request.reason, getMindbodyClient(tenant));
+        return { status: "returned" };
+      }
+      await returnSale(saleId, request.reason, getMindbodyClient(tenant), refund.amount);
+      return { status: "adjusted", detail: `Returned ${refund.amount.toFixed(2)} of sale ${saleId}` };
+    } catch (error) {
+      console.error("[refunds] Mindbody return failed", { sessionId: session.id, refundId: refund.id, error });
+      return { status: "failed", detail: describeFulfilmentError(error) };
+    }
+  };
+
+  /** Mirrors a refund Cayman has made in Mindbody and moves the session on; only the request that settled it gets here. */
+  const finishRefund = async (
+    tenant: Tenant,
+    session: Session,
+    refund: Refund,
+    request: RefundSessionRequest,
+    caymanRefundId: string | undefined
+  ): Promise<RefundOutcome> => {
+    const mindbody = await mirrorInMindbody(tenant, session, refund, request);
+    await setRefundMindbodyStatus(refund.id, mindbody.status, mindbody.detail);
+
+    const refundedAmount = await sumSucceededRefunds(session.id);
+    const fullyRefunded = refundedAmount >= session.total;
+    const current = (await get(session.id)) ?? session;
+
+    const updated = fullyRefunded
+      ? await transition(session.id, REFUNDABLE_STATUSES.slice(), "refunded", { refundedAmount })
+      : current.status === "paid"
+        ? await transition(session.id, "paid", "partially_refunded", { refundedAmount })
+        : await update(session.id, { refundedAmount });
+
+    try {
+      await recordEvent({
+        sessionId: session.id,
+        type: "refund",
+        actor: request.actor,
+        detail: {
+          refundId: refund.id,
+          amount: refund.amount,
+          caymanRefundId: caymanRefundId ?? null,
+          mindbodyStatus: mindbody.status
+        }
+      });
+    } catch (error) {
+      console.error("[refunds] Failed to record session event", { sessionId: session.id, error });
+    }
+
+    console.info("[refunds] Session refunded", {
+      sessionId: session.id,
+      refundId: refund.id,
+      amount: refund.amount,
+      refundedAmount,
+      mindbodyStatus: mindbody.status
+    });
+
+    return {
+      refund: (await getRefund(refund.id)) ?? refund,
+      session: updated ?? current,
+      replayed: false
+    };
+  };
+
+  /**
+   * Settles a pending refund from Cayman's own record of it. Resolves `undefined` while Cayman has none:
+   * the refund stays pending and keeps its share of the refundable balance, so no retry can refund twice.
+   */
+  const confirmPendingRefund = async (
+    tenant: Tenant,
+    session: Session,
+    refund: Refund,
+    request: RefundSessionRequest
+  ): Promise<RefundOutcome | undefined> => {
+    let record: Record<string, unknown> | undefined;
+    try {
+      record = await findCaymanRefund(tenant, refund);
+    } catch (error) {
+      console.error("[refunds] Cayman refund lookup failed", { sessionId: session.id, refundId: refund.id, error });
+      return undefined;
+    }
+    if (!record) {
+      return undefined;
+    }
+
+    const caymanRefundId = readCaymanTransaction(record).transactionId || undefined;
+    if (!isApprovedTransaction(record)) {
+      if (await failRefund(refund.id, String(record["result-text"] ?? "Cayman declined the refund"), record)) {
+        throw new RefundError("Cayman declined the refund", 502, { refundId: refund.id, gateway: record });
+      }
+      return undefined;
+    }
+    if (!(await completeRefund(refund.id, caymanRefundId, record))) {
+      return undefined;
+    }
+    return finishRefund(tenant, session, refund, request, caymanRefundId);
+  };
+
+  /** A repeated key answers with the original refund, first confirming it with Cayman if it is still pending. */
+  const replayRefund = async (refund: Refund, session: Session, request: RefundSessionRequest): Promise<RefundOutcome> => {
+    ensureSameSession(refund, session);
+    if (refund.status === "pending") {
+      const confirmed = await confirmPendingRefund(await resolveSessionTenant(session), session, refund, request);
+      if (confirmed) {
+        return { ...confirmed, replayed: true };
+      }
+    }
+    return { refund: (await getRefund(refund.id)) ?? refund, session: (await get(session.id)) ?? session, replayed: true };
+  };
+
+  const refundSession = async (request: RefundSessionRequest): Promise<RefundOutcome> => {
+    const session = await resolveSession(request);
+
+    const previous = await getRefundByIdempotencyKey(request.idempotencyKey);
+    if (previous) {
+      return replayRefund(previous, session, request);
+    }
+
+    if (!REFUNDABLE_STATUSES.includes(session.status)) {
+      throw new RefundError(`Checkout session is ${session.status} and cannot be refunded`, 409, {
+        status: session.status
+      });
+    }
+
+    const caymanTransactionId = session.cayman?.transactionId;
+    if (!caymanTransactionId) {
+      throw new RefundError("No Cayman transaction is recorded for this session", 409);
+    }
+
+    const tenant = await resolveSessionTenant(session);
+
+    const reservation = await reserveRefund({
+      idempotencyKey: request.idempotencyKey,
+      sessionId: session.id,
+      siteKey: session.siteKey,
+      sessionTotal: session.total,
+      amount: request.amount,
+      caymanTransactionId,
+      reason: request.reason,
+      actor: request.actor
+    });
+
+    if (reservation.kind === "exceeds") {
+      throw new RefundError("Refund amount exceeds the refundable balance", 422, {
+        available: reservation.available
+      });
+    }
+
+    if (reservation.kind === "replayed") {
+      return replayRefund(reservation.refund, session, request);
+    }
+
+    const refund = reservation.refund;
+
+    let response;
+    try {
+      response = await getCaymanService(tenant).refundTransaction({
+        "transaction-id": caymanTransactionId,
+        amount: refund.amount.toFixed(2),
+        "order-id": refundOrderId(refund)
+      });
+    } catch (error) {
+      // A timeout or dropped connection says nothing about whether Cayman made the refund.
+      const message = describeFulfilmentError(error);
+      await noteRefundError(refund.id, message);
+      console.error("[refunds] Cayman refund request failed", { sessionId: session.id, refundId: refund.id, error });
+
+      const confirmed = await confirmPendingRefund(tenant, session, refund, request);
+      if (confirmed) {
+        return confirmed;
+      }
+      throw new RefundError(
+        "Cayman did not confirm the refund; it stays pending. Repeat the request with the same idempotency key to check again",
+        502,
+        { refundId: refund.id, status: "pending", error: message }
+      );
+    }
+
+    if (!isOk(response["result-code"] ?? response.result, response.success)) {
+      const message = response["result-text"] ?? "Cayman declined the refund";
+      await failRefund(refund.id, message, response);
+      throw new RefundError("Cayman declined the refund", 502, { refundId: refund.id, gateway: response });
+    }
+
+    if (!(await completeRefund(refund.id, response["transaction-id"], response))) {
+      // A replay confirmed it with Cayman while this request waited, and has mirrored it already.
+      return { refund: (await getRefund(refund.id)) ?? refund, session: (await get(session.id)) ?? session, replayed: false };
+    }
+    return finishRefund(tenant, session, refund, request, response["transaction-id"]);
+  };
+
+  return { refundSession };
+};
+
+export type RefundService = ReturnType<typeof createRefundService>;
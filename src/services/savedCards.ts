@@ -0,0 +1,250 @@
+import crypto from "node:crypto";
+import { getSettings } from "../config/settings.js";
+import { get as getSession, type Session } from "../lib/sessions.js";
+import { type CaymanNotificationResult } from "../routes/webhooks.js";
+import {
+  activateSavedCard,
+  createPendingSavedCard,
+  failSavedCard,
+  findSavedCardBySetupToken,
+  getSavedCard,
+  type SavedCard,
+  type SavedCardStatus
+} from "../storage/savedCards.js";
+import { type CaymanConsumerResponse, type CaymanCurrency } from "../types/cayman.js";
+import { type HostedPaymentBilling, type HostedPaymentCustomer } from "./cayman.js";
+import { pickString, settleDirectCharge } from "./directCharge.js";
+import { getCaymanService, resolveTenant, type Tenant } from "./tenants.js";
+import { NotificationVerificationError, verifyCaymanSignature } from "./webhookVerification.js";
+
+/** A hosted add-card page that is not completed within this window cannot be used to save a card. */
+const SETUP_TTL_MS = 2 * 3_600_000;
+
+const SUCCESS_CODES = new Set(["00", "0", "000", "100"]);
+
+/** Carries the HTTP status callers should answer with. */
+export class SavedCardError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "SavedCardError";
+  }
+}
+
+/** What callers may see of a saved card; the vault id stays on the server. */
+export interface SavedCardSummary {
+  id: number;
+  clientId: string;
+  status: SavedCardStatus;
+  last4: string | null;
+  cardType: string | null;
+  createdAt: Date;
+}
+
+export const toSavedCardSummary = (card: SavedCard): SavedCardSummary => ({
+  id: card.id,
+  clientId: card.clientId,
+  status: card.status,
+  last4: card.last4 ?? null,
+  cardType: card.cardType ?? null,
+  createdAt: card.createdAt
+});
+
+const hashSetupToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+export const tenantCurrency = (tenant: Tenant): CaymanCurrency => {
+  const raw = tenant.currency?.toUpperCase();
+  return raw === "KYD" || raw === "USD" ? raw : getSettings().defaults.cayman.currency;
+};
+
+export interface CardSetupInput {
+  tenant: Tenant;
+  clientId: string;
+  customer: HostedPaymentCustomer;
+  billing: HostedPaymentBilling;
+  /** Absolute URL of `/webhook/cayman/vault`; the one-time setup token is appended. */
+  notificationUrl: string;
+  returnUrl: string;
+  createdBy: string;
+}
+
+/**
+ * Stores a pending card and opens Cayman's hosted add-customer page for it. The card becomes usable
+ * only once Cayman's notification for this setup names the vault id (see `completeCardSetup`).
+ */
+export const startCardSetup = async (input: CardSetupInput): Promise<{ cardId: number; redirectUrl: string }> => {
+  const setupToken = crypto.randomBytes(32).toString("base64url");
+  const cardId = await createPendingSavedCard({
+    siteKey: input.tenant.siteKey,
+    clientId: input.clientId,
+    email: input.customer.email,
+    setupTokenHash: hashSetupToken(setupToken),
+    createdBy: input.createdBy
+  });
+
+  const notificationUrl = new URL(input.notificationUrl);
+  notificationUrl.searchParams.set("setupToken", setupToken);
+
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(input.tenant).createAddCustomerSession({
+      firstName: input.customer.firstName,
+      lastName: input.customer.lastName,
+      email: input.customer.email,
+      street1: input.billing.street1,
+      city: input.billing.city,
+      country: input.billing.country,
+      zip: input.billing.zip,
+      ...(input.billing.state ? { state: input.billing.state } : {}),
+      ...(input.billing.street2 ? { street2: input.billing.street2 } : {}),
+      ...(input.billing.phone ? { phone: input.billing.phone } : {}),
+      notificationUrl: notificationUrl.toString(),
+      returnUrl: input.returnUrl
+    });
+  } catch (error) {
+    await failSavedCard(cardId, error instanceof Error ? error.message : String(error));
+    throw new SavedCardError("Failed to start Cayman add-card session", 502);
+  }
+
+  const redirectUrl = pickString(response, "consumer-url", "consumerUrl", "redirectUrl");
+  if (response.success === false || !redirectUrl) {
+    await failSavedCard(cardId, pickString(response, "result-text") ?? "Cayman returned no add-card page");
+    throw new SavedCardError("Failed to start Cayman add-card session", 502, { response });
+  }
+
+  return { cardId, redirectUrl };
+};
+
+export interface CardSetupNotification {
+  setupToken?: string;
+  payload: Record<string, unknown>;
+  rawBody?: Buffer;
+  signature?: string;
+}
+
+export interface CardSetupResult {
+  status: SavedCardStatus | "unknown" | "rejected";
+  cardId?: number;
+  siteKey?: string;
+  detail?: string;
+}
+
+/**
+ * Handles Cayman's add-customer notification. The unguessable setup token in the notification URL ties
+ * it to one pending card; a `cayman-signature` header, when sent, must also match the tenant's secret.
+ * Repeats for a card that was already settled report its current state and change nothing.
+ */
+export const completeCardSetup = async (notification: CardSetupNotification): Promise<CardSetupResult> => {
+  const card = notification.setupToken ? await findSavedCardBySetupToken(hashSetupToken(notification.setupToken)) : undefined;
+  if (!card) {
+    return { status: "unknown", detail: "No card setup matches this notification" };
+  }
+  if (card.status !== "pending") {
+    return { status: card.status, cardId: card.id, siteKey: card.siteKey };
+  }
+
+  if (notification.signature) {
+    try {
+      verifyCaymanSignature(await resolveTenant(card.siteKey), notification.rawBody, notification.signature);
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        return { status: "rejected", cardId: card.id, siteKey: card.siteKey, detail: error.message };
+      }
+      throw error;
+    }
+  }
+
+  const fail = async (detail: string): Promise<CardSetupResult> => {
+    await failSavedCard(card.id, detail);
+    return { status: "failed", cardId: card.id, siteKey: card.siteKey, detail };
+  };
+
+  if (Date.now() - card.createdAt.getTime() > SETUP_TTL_MS) {
+    return fail("Card setup expired before Cayman confirmed it");
+  }
+
+  const { payload } = notification;
+  const resultCode = pickString(payload, "result-code", "resultCode");
+  const vaultId = pickString(payload, "customer-vault-id", "customerVaultId", "customer_vault_id");
+  if ((resultCode !== undefined && !SUCCESS_CODES.has(resultCode)) || !vaultId) {
+    return fail(pickString(payload, "result-text", "resultText") ?? `Cayman did not save the card (${resultCode ?? "no vault id"})`);
+  }
+
+  const maskedPan = pickString(payload, "cc-number", "maskedPAN", "masked-pan");
+  const activated = await activateSavedCard(card.id, {
+    vaultId,
+    last4: maskedPan && maskedPan.length >= 4 ? maskedPan.slice(-4) : undefined,
+    cardType: pickString(payload, "cc-type", "card-type", "cardType")
+  });
+  if (!activated) {
+    const current = await getSavedCard(card.id);
+    return { status: current?.status ?? "unknown", cardId: card.id, siteKey: card.siteKey };
+  }
+
+  console.info("[saved-cards] Card saved", { cardId: card.id, siteKey: card.siteKey, clientId: card.clientId });
+  return { status: "active", cardId: card.id, siteKey: card.siteKey };
+};
+
+/** The card, if it is active and belongs to this client of this tenant. Throws `SavedCardError`. */
+export const loadChargeableCard = async (siteKey: string, clientId: string, cardId: number): Promise<SavedCard> => {
+  const card = await getSavedCard(cardId);
+  if (!card || card.siteKey !== siteKey || card.clientId !== clientId) {
+    throw new SavedCardError("Saved card not found for this client", 404, { savedCardId: cardId });
+  }
+  if (card.status !== "active" || !card.vaultId) {
+    throw new SavedCardError(`Saved card is ${card.status}`, 409, { savedCardId: cardId, status: card.status });
+  }
+  return card;
+};
+
+export interface SavedCardCharge {
+  result: CaymanNotificationResult;
+  /** The session after processing: `failed` if the card was declined, `paid` or `processing` once money was taken. */
+  session: Session;
+  transactionId?: string;
+}
+
+/**
+ * Charges a saved card for a freshly saved `created` session, without a redirect, and settles the session
+ * from Cayman's answer with `settleDirectCharge`. A decline marks the session failed.
+ */
+export const chargeSessionWithSavedCard = async (
+  session: Session,
+  card: SavedCard,
+  tenant: Tenant,
+  source: string
+): Promise<SavedCardCharge> => {
+  let response: CaymanConsumerResponse;
+  try {
+    response = await getCaymanService(tenant).chargeSavedCard({
+      "customer-vault-id": card.vaultId as string,
+      amount: Number.parseFloat(session.total.toFixed(2)),
+      currency: tenantCurrency(tenant),
+      ...(session.cayman?.orderId ? { invoiceno: session.cayman.orderId } : {}),
+      "customfield-data": JSON.stringify({ sessionId: session.id })
+    });
+  } catch (error) {
+    // Cayman may or may not have charged; the session stays `created` so reconciliation can tell.
+    console.error(`[cayman:${source}] Saved card charge did not complete`, { sessionId: session.id, cardId: card.id, error });
+    throw new SavedCardError("Cayman did not answer the saved card charge. Check the session before charging again.", 502, {
+      sessionId: session.id
+    });
+  }
+
+  const { result, transactionId } = await settleDirectCharge(session.id, response, source);
+  return { result, session: (await getSession(session.id)) ?? session, transactionId };
+};
+
+/** HTTP status for a saved-card charge: declined is `402`, money taken but not yet in Mindbody is `202`. */
+export const chargeResponseStatus = (charge: SavedCardCharge): number => {
+  if (charge.session.status === "paid") {
+    return 200;
+  }
+  if (charge.session.status === "failed") {
+    return 402;
+  }
+  return charge.session.status === "processing" ? 202 : 502;
+};
@@ -0,0 +1,403 @@
+import axios, { type AxiosError, type AxiosInstance, type AxiosRequestHeaders, type InternalAxiosRequestConfig } from "axios";
+import { createCaymanService, type CaymanConfig, type CaymanService } from "../cayman/service.js";
+import { databaseSiteKey } from "../config/loadDbEnv.js";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { loadTenants, type TenantConfig } from "../lib/env.js";
+import { getApiConfig, type ApiConfig } from "../storage/apiConfig.js";
+import {
+  findTenantRecordBySiteId,
+  getTenantRecord,
+  type TenantBillingDefaults,
+  type TenantRecord
+} from "../storage/tenants.js";
+import { issueStaffUserToken } from "./mindbody.js";
+
+/**
+ * Everything a request needs to talk to one studio's Mindbody site and Cayman account. Tenants come
+ * from the `tenants` and `api_configs` tables (keyed by site key), `tenants.json` when no database is
+ * configured, or — for the deployment's own default site key only — the environment.
+ */
+export interface Tenant {
+  siteKey: string;
+  label?: string;
+  currency?: string;
+  defaultServiceId?: string;
+  billing?: TenantBillingDefaults;
+  /** Verifies `cayman-signature` on this tenant's notifications; the default site falls back to `CAYMAN_WEBHOOK_SECRET`. */
+  webhookSecret?: string;
+  source: "database" | "file" | "env";
+  mindbody: {
+    siteId: string;
+    apiKey: string;
+    username?: string;
+    password?: string;
+    userToken?: string;
+    /** Custom payment method the Cayman payment is recorded against in Mindbody. */
+    paymentMethodId?: number;
+  };
+  /** Absent when the tenant has no Cayman account on file; hosted payments then fail rather than borrow another tenant's. */
+  cayman?: CaymanConfig;
+}
+
+export class UnknownTenantError extends Error {
+  constructor(public siteKey: string) {
+    super(`Unknown site key: ${siteKey}`);
+    this.name = "UnknownTenantError";
+  }
+}
+
+const trimmed = (value: string | undefined | null): string | undefined => {
+  const result = typeof value === "string" ? value.trim() : "";
+  return result.length > 0 ? result : undefined;
+};
+
+const parsePaymentMethodId = (value: unknown): number | undefined => {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const refreshEnv = Number.parseInt(process.env.API_CONFIG_REFRESH_INTERVAL_MS ?? "", 10);
+const TENANT_CACHE_TTL_MS = Number.isFinite(refreshEnv) && refreshEnv > 0 ? refreshEnv : 30_000;
+
+/**
+ * The site key used when a request does not name one (single-site deployments and legacy embeds): the
+ * key the deployment's config was found under at startup, else the configured one.
+ */
+export const defaultSiteKey = (): string =>
+  databaseSiteKey ?? trimmed(process.env.API_CONFIG_SITE_KEY) ?? trimmed(process.env.MINDBODY_SITE_ID) ?? "default";
+
+export const caymanBaseUrl = (): string | undefined =>
+  trimmed(process.env.CAYMAN_API_BASE_URL) ?? trimmed(process.env.CAYMAN_BASE_URL);
+
+const readTenantFile = (): TenantConfig[] => {
+  try {
+    return loadTenants().list;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      console.error("[tenants] Failed to read tenants file", error);
+    }
+    return [];
+  }
+};
+
+/** The Mindbody half of a tenant, from a `tenants` row or a `tenants.json` entry. */
+type TenantProfile = Pick<
+  TenantRecord,
+  "label" | "mindbodySiteId" | "mindbodyApiKey" | "staffUsername" | "staffPassword" | "customTenderId" | "currency" | "defaultServiceId" | "billing" | "webhookSecret"
+>;
+
+const fromTenantFileEntry = (file: TenantConfig): TenantProfile => ({
+  label: file.label,
+  mindbodySiteId: file.siteId,
+  mindbodyApiKey: file.mbApiKey,
+  staffUsername: file.staffUser,
+  staffPassword: file.staffPass,
+  customTenderId: file.customTenderId,
+  currency: file.currency,
+  webhookSecret: file.webhookSecret
+});
+
+const fromProfile = (siteKey: string, profile: TenantProfile, source: Tenant["source"]): Tenant => ({
+  siteKey,
+  label: profile.label,
+  currency: profile.currency,
+  defaultServiceId: profile.defaultServiceId,
+  billing: profile.billing,
+  webhookSecret: trimmed(profile.webhookSecret) ?? (siteKey === defaultSiteKey() ? trimmed(process.env.CAYMAN_WEBHOOK_SECRET) : undefined),
+  source,
+  mindbody: {
+    siteId: profile.mindbodySiteId,
+    apiKey: profile.mindbodyApiKey,
+    username: profile.staffUsername,
+    password: profile.staffPassword,
+    paymentMethodId: profile.customTenderId
+  }
+});
+
+const fromApiConfig = (config: ApiConfig, profile: TenantProfile | undefined): Tenant => {
+  const baseUrl = caymanBaseUrl();
+  const siteId = trimmed(config.mindbodySiteId) ?? profile?.mindbodySiteId ?? config.siteKey;
+
+  return {
+    ...fromProfile(config.siteKey, profile ?? { mindbodySiteId: siteId, mindbodyApiKey: "" }, "database"),
+    mindbody: {
+      siteId,
+      apiKey: trimmed(config.mindbodyApiKey) ?? profile?.mindbodyApiKey ?? "",
+      username: trimmed(config.mindbodySourceName) ?? profile?.staffUsername,
+      password: trimmed(config.mindbodySourcePassword) ?? profile?.staffPassword,
+      paymentMethodId: profile?.customTenderId ?? parsePaymentMethodId(process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID)
+    },
+    cayman: baseUrl
+      ? {
+          baseUrl,
+          apiKey: config.caymanApiKey,
+          username: config.caymanApiUsername,
+          password: config.caymanApiPassword
+        }
+      : undefined
+  };
+};
+
+const fromEnv = (siteKey: string): Tenant | undefined => {
+  const siteId = trimmed(process.env.MINDBODY_SITE_ID);
+  const apiKey = trimmed(process.env.MINDBODY_API_KEY);
+  if (!siteId || !apiKey) {
+    return undefined;
+  }
+
+  const baseUrl = caymanBaseUrl();
+  const caymanApiKey = trimmed(process.env.CAYMAN_API_KEY);
+  const caymanUsername = trimmed(process.env.CAYMAN_API_USERNAME);
+
+  return {
+    siteKey,
+    source: "env",
+    currency: trimmed(process.env.CAYMAN_DEFAULT_CURRENCY),
+    webhookSecret: trimmed(process.env.CAYMAN_WEBHOOK_SECRET),
+    mindbody: {
+      siteId,
+      apiKey,
+      username: trimmed(process.env.MINDBODY_SOURCE_NAME),
+      password: process.env.MINDBODY_SOURCE_PASSWORD,
+      userToken: trimmed(process.env.MINDBODY_USER_TOKEN),
+      paymentMethodId: parsePaymentMethodId(process.env.MINDBODY_CAYMAN_PAYMENT_METHOD_ID)
+    },
+    cayman:
+      baseUrl && caymanApiKey && caymanUsername
+        ? { baseUrl, apiKey: caymanApiKey, username: caymanUsername, password: process.env.CAYMAN_API_PASSWORD ?? "" }
+        : undefined
+  };
+};
+
+const activeRecord = (record: TenantRecord | undefined): TenantRecord | undefined => (record?.active ? record : undefined);
+
+const loadFromDatabase = async (siteKey: string): Promise<Tenant | undefined> => {
+  const [config, record] = await Promise.all([getApiConfig(siteKey), getTenantRecord(siteKey).then(activeRecord)]);
+
+  if (config) {
+    // Older `api_configs` rows predate the tenants table and are linked to a profile by Mindbody site id only.
+    const siteId = trimmed(config.mindbodySiteId);
+    const profile = record ?? (siteId ? await findTenantRecordBySiteId(siteId) : undefined);
+    return fromApiConfig(config, profile);
+  }
+
+  if (record) {
+    return fromProfile(siteKey, record, "database");
+  }
+
+  // Paylinks and storefront URLs carry the Mindbody site id; let them find a tenant registered under another key.
+  const bySiteId = await findTenantRecordBySiteId(siteKey);
+  if (bySiteId) {
+    const bySiteIdConfig = await getApiConfig(bySiteId.siteKey);
+    return bySiteIdConfig ? fromApiConfig(bySiteIdConfig, bySiteId) : fromProfile(bySiteId.siteKey, bySiteId, "database");
+  }
+
+  return undefined;
+};
+
+const loadTenant = async (siteKey: string): Promise<Tenant | undefined> => {
+  if (isDatabaseConfigured()) {
+    const tenant = await loadFromDatabase(siteKey);
+    if (tenant) {
+      return tenant;
+    }
+  } else {
+    // Without a database the static file is still honoured; `npm run tenants:import` moves it into MySQL.
+    const file = readTenantFile().find((entry) => entry.siteId === siteKey);
+    if (file) {
+      return fromProfile(siteKey, fromTenantFileEntry(file), "file");
+    }
+  }
+
+  // Environment credentials belong to the default site only; any other key must be registered explicitly.
+  return siteKey === defaultSiteKey() ? fromEnv(siteKey) : undefined;
+};
+
+const cache = new Map<string, { tenant: Tenant; loadedAt: number }>();
+
+/** Resolves a tenant by site key, caching for `API_CONFIG_REFRESH_INTERVAL_MS`. Throws `UnknownTenantError`. */
+export const resolveTenant = async (siteKey?: string): Promise<Tenant> => {
+  const key = trimmed(siteKey) ?? defaultSiteKey();
+  const cached = cache.get(key);
+
+  if (cached && Date.now() - cached.loadedAt < TENANT_CACHE_TTL_MS) {
+    return cached.tenant;
+  }
+
+  const tenant = await loadTenant(key);
+  if (!tenant) {
+    cache.delete(key);
+    throw new UnknownTenantError(key);
+  }
+
+  cache.set(key, { tenant, loadedAt: Date.now() });
+  return tenant;
+};
+
+/** Drops cached tenants (all of them when no key is given) so the next request re-reads credentials. */
+export const invalidateTenant = (siteKey?: string): void => {
+  if (siteKey) {
+    cache.delete(siteKey);
+    return;
+  }
+  cache.clear();
+};
+
+/** The `tenants.json` shape the `/api/paylinks` and `/checkout` integrations expect. */
+export const toTenantConfig = (tenant: Tenant): TenantConfig => ({
+  siteId: tenant.mindbody.siteId,
+  label: tenant.label,
+  mbApiKey: tenant.mindbody.apiKey,
+  staffUser: tenant.mindbody.username ?? "",
+  staffPass: tenant.mindbody.password ?? "",
+  customTenderId: tenant.mindbody.paymentMethodId,
+  currency: tenant.currency
+});
+
+interface MindbodyClientCredentials {
+  siteId: string;
+  apiKey: string;
+  username?: string;
+  password?: string;
+  userToken?: string;
+}
+
+/** A Mindbody client bound to one tenant's credentials; a staff token is issued on the first 401 and kept for this client only. */
+const createMindbodyClient = (credentials: MindbodyClientCredentials): AxiosInstance => {
+  const client = axios.create({ baseURL: process.env.MINDBODY_BASE_URL, timeout: 20_000 });
+  let userToken = credentials.userToken;
+  let refreshing: Promise<string> | null = null;
+
+  const refreshToken = (): Promise<string> => {
+    if (!credentials.username || !credentials.password) {
+      return Promise.reject(new Error(`Mindbody staff credentials missing for site ${credentials.siteId}`));
+    }
+
+    refreshing ??= issueStaffUserToken({
+      siteId: credentials.siteId,
+      apiKey: credentials.apiKey,
+      username: credentials.username,
+      password: credentials.password
+    })
+      .then((token) => {
+        userToken = token;
+        return token;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+
+    return refreshing;
+  };
+
+  client.interceptors.request.use((config) => {
+    if (!config.baseURL && !client.defaults.baseURL) {
+      throw new Error("Mindbody configuration incomplete: ensure MINDBODY_BASE_URL is set.");
+    }
+
+    const headers = (config.headers as AxiosRequestHeaders | undefined) ?? ({} as AxiosRequestHeaders);
+    headers.Accept = "application/json";
+    headers["Content-Type"] = "application/json";
+    headers["Api-Key"] = credentials.apiKey;
+    (headers as Record<string, string>).SiteId = credentials.siteId;
+
+    if (userToken && !headers.Authorization) {
+      headers.Authorization = `Bearer ${userToken}`;
+    }
+
+    return {
+      ...config,
+      headers,
+      params: {
+        ...((config.params ?? {}) as Record<string, unknown>),
+        SiteId: credentials.siteId
+      },
+      url: config.url && !config.url.startsWith("/") ? `/${config.url}` : config.url
+    };
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    async (error: unknown) => {
+      const axiosError = error as AxiosError;
+      const originalConfig = axiosError.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+
+      if (axiosError.response?.status !== 401 || !originalConfig || originalConfig._retry) {
+        return Promise.reject(error);
+      }
+
+      originalConfig._retry = true;
+      const token = await refreshToken();
+      originalConfig.headers.Authorization = `Bearer ${token}`;
+      return client.request(originalConfig);
+    }
+  );
+
+  return client;
+};
+
+// Clients are kept per site key and rebuilt only when the credentials change, so a Mindbody user
+// token issued for one tenant is reused across that tenant's requests and never sent to another.
+const mindbodyClients = new Map<string, { fingerprint: string; client: AxiosInstance }>();
+const caymanServices = new Map<string, { fingerprint: string; service: CaymanService }>();
+
+export const getMindbodyClient = (tenant: Tenant): AxiosInstance => {
+  const credentials: MindbodyClientCredentials = {
+    siteId: tenant.mindbody.siteId,
+    apiKey: tenant.mindbody.apiKey,
+    username: tenant.mindbody.username,
+    password: tenant.mindbody.password,
+    userToken: tenant.mindbody.userToken
+  };
+  const fingerprint = JSON.stringify(credentials);
+  const existing = mindbodyClients.get(tenant.siteKey);
+
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing.client;
+  }
+
+  const client = createMindbodyClient(credentials);
+  mindbodyClients.set(tenant.siteKey, { fingerprint, client });
+  return client;
+};
+
+export const getCaymanService = (tenant: Tenant): CaymanService => {
+  if (!tenant.cayman) {
+    throw new Error(`Cayman credentials are not configured for site key ${tenant.siteKey}`);
+  }
+
+  const fingerprint = JSON.stringify(tenant.cayman);
+  const existing = caymanServices.get(tenant.siteKey);
+
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing.service;
+  }
+
+  const service = createCaymanService(tenant.cayman);
+  caymanServices.set(tenant.siteKey, { fingerprint, service });
+  return service;
+};
+
+/**
+ * The legacy `/webhook/cayman` and `/cayman/three-step` routes are wired once at startup; this service looks
+ * up the default site on every call so they follow a published or rolled-back config like every other route.
+ */
+export const createDefaultSiteCaymanService = (): CaymanService => {
+  const current = async (): Promise<CaymanService> => getCaymanService(await resolveTenant(defaultSiteKey()));
+
+  return {
+    createAddCustomerSession: async (request) => (await current()).createAddCustomerSession(request),
+    createSaleSession: async (request) => (await current()).createSaleSession(request),
+    createSubscriptionSession: async (request) => (await current()).createSubscriptionSession(request),
+    authorizePayment: async (request) => (await current()).authorizePayment(request),
+    chargeSavedCard: async (request) => (await current()).chargeSavedCard(request),
+    refundTransaction: async (request) => (await current()).refundTransaction(request),
+    reverseTransaction: async (request) => (await current()).reverseTransaction(request),
+    captureAuthorization: async (request) => (await current()).captureAuthorization(request),
+    voidAuthorization: async (request) => (await current()).voidAuthorization(request),
+    cancelSubscription: async (request) => (await current()).cancelSubscription(request),
+    triggerRecurringCharge: async (request) => (await current()).triggerRecurringCharge(request),
+    getTransactionDetails: async (request) => (await current()).getTransactionDetails(request),
+    queryTransactions: async (request) => (await current()).queryTransactions(request)
+  };
+};
@@ -0,0 +1,253 @@
+import crypto from "node:crypto";
+import { type Request, type RequestHandler } from "express";
+import { isDatabaseConfigured } from "../db/mysql.js";
+import { forget, once } from "../lib/idempotency.js";
+import { get as getSession } from "../lib/sessions.js";
+import {
+  claimWebhookEventKey,
+  completeWebhookEvent,
+  createWebhookEvent,
+  releaseWebhookEventKey,
+  restartWebhookEvent,
+  type NewWebhookEvent,
+  type WebhookEvent,
+  type WebhookEventCompletion,
+  type WebhookEventKind,
+  type WebhookSignatureResult
+} from "../storage/webhookEvents.js";
+import { readRawBody, SIGNATURE_HEADER } from "./webhookVerification.js";
+
+// Cayman never sends these; a request carrying them is ours or a proxy's and they must not be stored.
+const REDACTED_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "x-api-key"]);
+
+const captureHeaders = (req: Request): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(req.headers)
+      .filter(([name, value]) => value !== undefined && !REDACTED_HEADERS.has(name))
+      .map(([name, value]) => [name, Array.isArray(value) ? value.join(", ") : String(value)])
+  );
+
+const extractRawQuery = (url: string | undefined): string | undefined => {
+  const pos = url?.indexOf("?") ?? -1;
+  return url && pos >= 0 && pos < url.length - 1 ? url.slice(pos + 1) : undefined;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Buffer.isBuffer(value) ? (value as Record<string, unknown>) : {};
+
+export interface WebhookDelivery {
+  kind: WebhookEventKind;
+  source: string;
+  /** Only for notifications: repeats of a processed delivery with the same key are not processed again. */
+  dedupeKey?: string;
+  siteKey?: string;
+  transactionId?: string;
+}
+
+export interface LoggedDelivery {
+  /** The stored row; unset without a database or when storing failed. */
+  event?: WebhookEvent;
+  /** An earlier delivery of the same notification that was already processed. */
+  duplicate?: WebhookEvent;
+}
+
+/** The same method, query string and body is the same notification, whichever instance receives it. */
+export const notificationDedupeKey = (req: Request): string => {
+  const digest = crypto
+    .createHash("sha256")
+    .update(`${req.method}\n${extractRawQuery(req.originalUrl) ?? ""}\n`)
+    .update(readRawBody(req) ?? Buffer.alloc(0))
+    .digest("hex");
+  return `notification:${digest}`;
+};
+
+export const toNewWebhookEvent = (req: Request, delivery: WebhookDelivery): NewWebhookEvent => {
+  const rawBody = readRawBody(req) ?? (Buffer.isBuffer(req.body) ? req.body : undefined);
+  return {
+    ...delivery,
+    method: req.method,
+    headers: captureHeaders(req),
+    query: asRecord(req.query),
+    rawQuery: extractRawQuery(req.originalUrl),
+    rawBody: rawBody?.toString("utf8"),
+    body: asRecord(req.body),
+    signatureResult: req.get(SIGNATURE_HEADER) ? undefined : "absent"
+  };
+};
+
+/**
+ * Stores a delivery before it is processed. A repeat of a notification that was already `processed` comes
+ * back as `duplicate` and is not processed again; repeats of rejected, failed or unfinished ones are processed
+ * again on the same row, since the first attempt may have been refused only because Cayman could not confirm
+ * it yet. Without a database nothing is stored. Storage failures are logged and never block the webhook.
+ */
+export const logWebhookDelivery = async (req: Request, delivery: WebhookDelivery): Promise<LoggedDelivery> => {
+  if (!isDatabaseConfigured()) {
+    return {};
+  }
+
+  try {
+    const { event, created } = await createWebhookEvent(toNewWebhookEvent(req, delivery));
+    if (created) {
+      return { event };
+    }
+    if (event.status === "processed") {
+      return { duplicate: event };
+    }
+    await restartWebhookEvent(event.id);
+    return { event };
+  } catch (error) {
+    console.error("[webhooks] Failed to store webhook event", error);
+    return {};
+  }
+};
+
+/**
+ * For signed events, once they are verified: claims `dedupeKey` for the stored delivery so a redelivery on
+ * any instance is recognised. Falls back to the in-process window when nothing was stored.
+ */
+export const claimWebhookDelivery = async (logged: LoggedDelivery, dedupeKey: string): Promise<boolean> => {
+  if (!logged.event) {
+    return once(dedupeKey);
+  }
+
+  try {
+    return await claimWebhookEventKey(logged.event.id, dedupeKey);
+  } catch (error) {
+    console.error("[webhooks] Failed to claim webhook event", error);
+    return once(dedupeKey);
+  }
+};
+
+/**
+ * Undoes `claimWebhookDelivery` when processing failed before the payment was fully handled, so Cayman's
+ * redelivery (or an admin replay) runs it again instead of being answered as a duplicate. Never throws.
+ */
+export const releaseWebhookDelivery = async (logged: LoggedDelivery, dedupeKey: string): Promise<void> => {
+  forget(dedupeKey);
+  if (!logged.event) {
+    return;
+  }
+
+  try {
+    await releaseWebhookEventKey(logged.event.id, dedupeKey);
+  } catch (error) {
+    console.error("[webhooks] Failed to release webhook event claim", { eventId: logged.event.id, dedupeKey, error });
+  }
+};
+
+/** Records what became of a delivery, filling in the tenant from the session it named. Never throws. */
+export const finishWebhookDelivery = async (logged: LoggedDelivery, completion: WebhookEventCompletion): Promise<void> => {
+  if (!logged.event) {
+    return;
+  }
+
+  try {
+    const siteKey =
+      completion.siteKey ?? (completion.sessionId && !logged.event.siteKey ? (await getSession(completion.sessionId))?.siteKey : undefined);
+    await completeWebhookEvent(logged.event.id, { ...completion, siteKey });
+  } catch (error) {
+    console.error("[webhooks] Failed to record webhook event outcome", { eventId: logged.event.id, error });
+  }
+};
+
+/** Outcome of an event handler from the response it sent. */
+export const completionFromResponse = (
+  status: number,
+  body: Record<string, unknown>,
+  signatureResult?: WebhookSignatureResult
+): WebhookEventCompletion => ({
+  status: status < 300 ? "processed" : status === 401 || status === 422 || status === 400 ? "rejected" : "error",
+  outcome: { httpStatus: status, ...body },
+  signatureResult
+});
+
+/** What Cayman sent to a token notification URL; `token` is ours, from the query string, and not in `payload`. */
+export interface TokenNotification {
+  token?: string;
+  payload: Record<string, unknown>;
+  rawBody?: Buffer;
+  signature?: string;
+  source: string;
+}
+
+/** Shared by the vault, authorization and subscription handlers; `siteKey` and `sessionId` go on the stored event. */
+export interface TokenNotificationResult {
+  status: string;
+  siteKey?: string;
+  sessionId?: string;
+  detail?: string;
+}
+
+export interface TokenNotificationRoute {
+  kind: Extract<WebhookEventKind, "vault" | "authorization" | "subscription">;
+  /** Query parameter carrying the token that names the pending card, hold or membership. */
+  tokenParam: string;
+  /** Names the notification in logs, e.g. `add-card`. */
+  label: string;
+  /** Answered with `503` when there is no database to find the token in. */
+  unavailable: string;
+  handle: (notification: TokenNotification) => Promise<TokenNotificationResult>;
+}
+
+const statusForTokenResult = (result: TokenNotificationResult): number => {
+  switch (result.status) {
+    case "unknown":
+      return 404;
+    case "rejected":
+      return 401;
+    case "error":
+      return 502;
+    default:
+      return 200;
+  }
+};
+
+/**
+ * Handles a notification Cayman sends to a URL carrying one of our tokens: logs the delivery, hands it to
+ * the service, then records and answers the outcome. An unknown token is `404`, a bad signature `401`.
+ */
+export const createTokenNotificationHandler =
+  (route: TokenNotificationRoute): RequestHandler =>
+  async (req, res) => {
+    if (!isDatabaseConfigured()) {
+      res.status(503).json({ received: false, error: route.unavailable });
+      return;
+    }
+
+    const source = `${route.kind}:${req.method === "GET" ? "get" : "post"}`;
+    const logged = await logWebhookDelivery(req, { kind: route.kind, source });
+    const query = asRecord(req.query);
+    const token = query[route.tokenParam];
+    const signature = req.get(SIGNATURE_HEADER);
+
+    let result: TokenNotificationResult;
+    try {
+      result = await route.handle({
+        token: typeof token === "string" ? token : undefined,
+        payload: { ...query, [route.tokenParam]: undefined, ...asRecord(req.body) },
+        rawBody: readRawBody(req),
+        signature,
+        source
+      });
+    } catch (error) {
+      console.error(`[cayman:${source}] Failed to process ${route.label} notification`, error);
+      await finishWebhookDelivery(logged, { status: "error", error: error instanceof Error ? error.message : String(error) });
+      res.status(500).json({ received: false, error: "Unable to process notification" });
+      return;
+    }
+
+    const status = statusForTokenResult(result);
+    await finishWebhookDelivery(logged, {
+      status: status < 300 ? "processed" : status >= 500 ? "error" : "rejected",
+      outcome: { httpStatus: status, ...result },
+      signatureResult: signature ? (result.status === "rejected" ? "invalid" : "valid") : "absent",
+      siteKey: result.siteKey,
+      sessionId: result.sessionId
+    });
+
+    if (status >= 300) {
+      console.warn(`[cayman:${source}] Refused ${route.label} notification`, { status: result.status, detail: result.detail });
+    }
+    res.status(status).json({ received: status < 300, ...result });
+  };
@@ -0,0 +1,270 @@
+import { type IncomingMessage } from "node:http";
+import { hmacVerify } from "../lib/crypto.js";
+import { getCaymanService, type Tenant } from "./tenants.js";
+
+export type NotificationRejectReason =
+  | "bad_signature"
+  | "unverifiable"
+  | "lookup_failed"
+  | "transaction_not_found"
+  | "transaction_not_approved"
+  | "amount_mismatch"
+  | "currency_mismatch"
+  | "order_mismatch"
+  | "transaction_reused";
+
+/**
+ * A notification that may not drive fulfilment; `reason` is returned to the caller and logged. Lookup
+ * failures carry what was expected and what Cayman reported, for the payment alert.
+ */
+export class NotificationVerificationError extends Error {
+  constructor(
+    message: string,
+    public reason: NotificationRejectReason,
+    public expected?: Record<string, unknown>,
+    public actual?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "NotificationVerificationError";
+  }
+}
+
+export interface NotificationEvidence {
+  /** Exact bytes received, needed for the signature check. */
+  rawBody?: Buffer;
+  signature?: string;
+  transactionId?: string;
+}
+
+export interface NotificationExpectation {
+  amount?: number;
+  currency?: string;
+  orderId?: string;
+}
+
+/** Cayman's own record of a payment, as returned by transaction-info. */
+export interface ConfirmedTransaction {
+  transactionId: string;
+  amount: number;
+  currency?: string;
+  orderId?: string;
+  resultCode?: string;
+  resultText?: string;
+  authCode?: string;
+  last4?: string;
+}
+
+export interface VerifiedNotification {
+  /** Whether a valid `cayman-signature` accompanied the notification; the lookup runs either way. */
+  signed: boolean;
+  transaction: ConfirmedTransaction;
+}
+
+export const SIGNATURE_HEADER = "cayman-signature";
+
+type RawBodyCarrier = IncomingMessage & { rawBody?: Buffer };
+
+/** `verify` hook for `express.json`, keeping the bytes the signature was computed over. */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer): void => {
+  (req as RawBodyCarrier).rawBody = buf;
+};
+
+export const readRawBody = (req: IncomingMessage): Buffer | undefined => (req as RawBodyCarrier).rawBody;
+
+const SUCCESS_CODES = new Set(["00", "0", "000", "100"]);
+
+const pickString = (source: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if ((typeof value === "string" && value.trim().length > 0) || typeof value === "number") {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+};
+
+/** Reads one transaction record as returned by transaction-info or transaction-query. */
+export const readCaymanTransaction = (transaction: Record<string, unknown>, transactionId?: string): ConfirmedTransaction => {
+  const maskedPan = pickString(transaction, "cc-number", "maskedPAN", "masked-pan");
+  return {
+    transactionId: transactionId ?? pickString(transaction, "transaction-id", "transactionId", "transactionid") ?? "",
+    amount: Number.parseFloat(pickString(transaction, "amount", "total") ?? ""),
+    currency: pickString(transaction, "currency")?.toUpperCase(),
+    orderId: pickString(transaction, "order-id", "orderId", "orderid", "invoiceno"),
+    resultCode: pickString(transaction, "result-code", "resultCode"),
+    resultText: pickString(transaction, "result-text", "resultText", "condition", "status"),
+    authCode: pickString(transaction, "authorization-code", "authorizationCode", "authcode"),
+    last4: maskedPan && maskedPan.length >= 4 ? maskedPan.slice(-4) : undefined
+  };
+};
+
+export const isApprovedTransaction = (transaction: Record<string, unknown>): boolean => {
+  const resultCode = pickString(transaction, "result-code", "resultCode");
+  const result = pickString(transaction, "result", "status")?.toLowerCase();
+  return (
+    (resultCode !== undefined && SUCCESS_CODES.has(resultCode)) ||
+    (result !== undefined && ["1", "approved", "success", "succeeded", "complete", "pendingsettlement"].includes(result))
+  );
+};
+
+/** For event payloads that are always signed. Throws `NotificationVerificationError` with `bad_signature`. */
+export const verifyCaymanSignature = (tenant: Tenant, rawBody: Buffer | undefined, signature: string | undefined): void => {
+  if (!signature) {
+    throw new NotificationVerificationError("cayman-signature header is missing", "bad_signature");
+  }
+  if (!tenant.webhookSecret) {
+    throw new NotificationVerificationError(`No webhook secret is configured for site ${tenant.siteKey}`, "bad_signature");
+  }
+  if (!rawBody || !hmacVerify(rawBody, signature, tenant.webhookSecret)) {
+    throw new NotificationVerificationError("cayman-signature does not match the request body", "bad_signature");
+  }
+};
+
+/** Cayman's transaction-info record; throws `lookup_failed` when Cayman cannot be reached. */
+const lookUpTransaction = async (
+  tenant: Tenant,
+  transactionId: string
+): Promise<{ response: Record<string, unknown>; transaction: Record<string, unknown> }> => {
+  let response: Record<string, unknown>;
+  try {
+    response = (await getCaymanService(tenant).getTransactionDetails({ "transaction-id": transactionId })) as Record<string, unknown>;
+  } catch (error) {
+    throw new NotificationVerificationError(
+      `Could not look up transaction ${transactionId} with Cayman: ${error instanceof Error ? error.message : String(error)}`,
+      "lookup_failed"
+    );
+  }
+
+  const transaction =
+    response.transaction && typeof response.transaction === "object" ? (response.transaction as Record<string, unknown>) : response;
+  return { response, transaction };
+};
+
+const isKnownTransaction = (response: Record<string, unknown>, transaction: Record<string, unknown>, transactionId: string): boolean => {
+  const foundId = pickString(transaction, "transaction-id", "transactionId", "transactionid");
+  return response.success !== false && (foundId === undefined || foundId === transactionId);
+};
+
+/**
+ * Asks Cayman for the transaction and checks it against what the session expects: an approved result,
+ * the same amount, currency and order id. An amount or currency Cayman does not report is not compared,
+ * but an expected order id must be reported, so a payment for one order cannot settle another. Throws
+ * `NotificationVerificationError`.
+ */
+export const confirmCaymanTransaction = async (
+  tenant: Tenant,
+  transactionId: string,
+  expected: NotificationExpectation
+): Promise<ConfirmedTransaction> => {
+  const { response, transaction } = await lookUpTransaction(tenant, transactionId);
+  const confirmed = readCaymanTransaction(transaction, transactionId);
+  const amount = confirmed.amount;
+  const actual = {
+    amount: Number.isFinite(amount) ? amount : null,
+    currency: confirmed.currency ?? null,
+    orderId: confirmed.orderId ?? null,
+    resultCode: confirmed.resultCode ?? null,
+    resultText: confirmed.resultText ?? null
+  };
+  const expectedRecord = { amount: expected.amount ?? null, currency: expected.currency ?? null, orderId: expected.orderId ?? null };
+  const reject = (message: string, reason: NotificationRejectReason): never => {
+    throw new NotificationVerificationError(message, reason, expectedRecord, actual);
+  };
+
+  if (!isKnownTransaction(response, transaction, transactionId)) {
+    reject(`Cayman has no transaction ${transactionId}`, "transaction_not_found");
+  }
+
+  if (!isApprovedTransaction(transaction)) {
+    const result = pickString(transaction, "result", "status");
+    reject(
+      `Cayman reports transaction ${transactionId} as not approved (${confirmed.resultCode ?? result ?? "no result"})`,
+      "transaction_not_approved"
+    );
+  }
+
+  if (expected.amount !== undefined && (!Number.isFinite(amount) || Math.abs(amount - expected.amount) > 0.005)) {
+    reject(
+      `Cayman charged ${Number.isFinite(amount) ? amount.toFixed(2) : "an unknown amount"} but ${expected.amount.toFixed(2)} was due`,
+      "amount_mismatch"
+    );
+  }
+
+  if (expected.currency && confirmed.currency && confirmed.currency !== expected.currency.toUpperCase()) {
+    reject(`Cayman charged in ${confirmed.currency} but the session is in ${expected.currency.toUpperCase()}`, "currency_mismatch");
+  }
+
+  if (expected.orderId && confirmed.orderId !== expected.orderId) {
+    reject(
+      confirmed.orderId
+        ? `Transaction ${transactionId} belongs to order ${confirmed.orderId}, not ${expected.orderId}`
+        : `Cayman reports no order for transaction ${transactionId}; expected ${expected.orderId}`,
+      "order_mismatch"
+    );
+  }
+
+  return confirmed;
+};
+
+/**
+ * Every notification path calls this before fulfilment. A `cayman-signature` header is checked against
+ * the tenant's webhook secret and a bad one is rejected outright. Signed or not, nothing is fulfilled
+ * from the notification's own fields: the transaction is always confirmed with Cayman's transaction-info
+ * lookup (see `confirmCaymanTransaction`). Throws `NotificationVerificationError`.
+ */
+export const verifyCaymanNotification = async (
+  tenant: Tenant,
+  evidence: NotificationEvidence,
+  expected: NotificationExpectation = {}
+): Promise<VerifiedNotification> => {
+  if (evidence.signature) {
+    verifyCaymanSignature(tenant, evidence.rawBody, evidence.signature);
+  }
+
+  if (!evidence.transactionId) {
+    throw new NotificationVerificationError("Notification has no transaction id to confirm with Cayman", "unverifiable");
+  }
+
+  return {
+    signed: Boolean(evidence.signature),
+    transaction: await confirmCaymanTransaction(tenant, evidence.transactionId, expected)
+  };
+};
+
+/**
+ * For notifications reporting a failed payment, which fail the session and release what it holds. One is
+ * believed when it carries a valid `cayman-signature`, or when Cayman's own record of its transaction
+ * shows a payment for the expected order that was not approved. Throws `NotificationVerificationError`;
+ * callers leave the session to expire instead.
+ */
+export const verifyCaymanFailure = async (
+  tenant: Tenant,
+  evidence: NotificationEvidence,
+  expected: Pick<NotificationExpectation, "orderId"> = {}
+): Promise<{ signed: boolean }> => {
+  if (evidence.signature) {
+    verifyCaymanSignature(tenant, evidence.rawBody, evidence.signature);
+    return { signed: true };
+  }
+
+  const transactionId = evidence.transactionId;
+  if (!transactionId) {
+    throw new NotificationVerificationError("Unsigned failure notification has no transaction id to check with Cayman", "unverifiable");
+  }
+
+  const { response, transaction } = await lookUpTransaction(tenant, transactionId);
+  if (!isKnownTransaction(response, transaction, transactionId)) {
+    throw new NotificationVerificationError(`Cayman has no transaction ${transactionId}`, "transaction_not_found");
+  }
+  const orderId = readCaymanTransaction(transaction, transactionId).orderId;
+  if (expected.orderId && orderId !== expected.orderId) {
+    throw new NotificationVerificationError(
+      `Transaction ${transactionId} belongs to order ${orderId ?? "(none reported)"}, not ${expected.orderId}`,
+      "order_mismatch"
+    );
+  }
+  if (isApprovedTransaction(transaction)) {
+    throw new NotificationVerificationError(`Cayman reports transaction ${transactionId} as approved, not failed`, "unverifiable");
+  }
+  return { signed: false };
+};
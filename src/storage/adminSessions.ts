@@ -0,0 +1,83 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export interface AdminSession {
+  /** SHA-256 of the bearer token; the token itself is never stored. */
+  id: string;
+  userId: number;
+  sourceIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  lastSeenAt: Date;
+  revokedAt?: Date;
+}
+
+const TABLE_NAME = "admin_sessions";
+
+interface AdminSessionRow extends RowDataPacket {
+  id: string;
+  user_id: number;
+  source_ip: string | null;
+  user_agent: string | null;
+  created_at: Date;
+  expires_at: Date;
+  last_seen_at: Date;
+  revoked_at: Date | null;
+}
+
+const COLUMNS = "id, user_id, source_ip, user_agent, created_at, expires_at, last_seen_at, revoked_at";
+
+const projectRow = (row: AdminSessionRow): AdminSession => ({
+  id: row.id,
+  userId: Number(row.user_id),
+  sourceIp: row.source_ip ?? undefined,
+  userAgent: row.user_agent ?? undefined,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  lastSeenAt: row.last_seen_at,
+  revokedAt: row.revoked_at ?? undefined
+});
+
+export const createAdminSession = async (input: {
+  id: string;
+  userId: number;
+  expiresAt: Date;
+  sourceIp?: string;
+  userAgent?: string;
+}): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `INSERT INTO ${TABLE_NAME} (id, user_id, source_ip, user_agent, expires_at) VALUES (?, ?, ?, ?, ?)`,
+    [input.id, input.userId, input.sourceIp?.slice(0, 64) ?? null, input.userAgent?.slice(0, 255) ?? null, input.expiresAt]
+  );
+};
+
+/** Only sessions that are neither expired nor revoked. */
+export const getActiveAdminSession = async (id: string): Promise<AdminSession | undefined> => {
+  const rows = await query<AdminSessionRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP LIMIT 1`,
+    [id]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const touchAdminSession = async (id: string): Promise<void> => {
+  await execute<ResultSetHeader>(`UPDATE ${TABLE_NAME} SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ?`, [id]);
+};
+
+export const revokeAdminSession = async (id: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL`,
+    [id]
+  );
+  return result.affectedRows > 0;
+};
+
+/** Signs an account out everywhere, e.g. when it is deactivated or its password changes. */
+export const revokeAdminSessionsForUser = async (userId: number): Promise<number> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [userId]
+  );
+  return result.affectedRows;
+};
@@ -0,0 +1,164 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export type AdminRole = "owner" | "admin" | "front_desk" | "auditor";
+
+export interface AdminUser {
+  id: number;
+  email: string;
+  displayName?: string;
+  role: AdminRole;
+  /** Tenants the account may act on; undefined means every tenant. Ignored for owners. */
+  siteKeys?: string[];
+  active: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "admin_users";
+
+interface AdminUserRow extends RowDataPacket {
+  id: number;
+  email: string;
+  display_name: string | null;
+  password_hash: string;
+  role: string;
+  site_keys: string | string[] | null;
+  active: number;
+  last_login_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const COLUMNS = "id, email, display_name, password_hash, role, site_keys, active, last_login_at, created_at, updated_at";
+
+const parseSiteKeys = (value: AdminUserRow["site_keys"]): string[] | undefined => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return Array.isArray(parsed) ? parsed.map(String) : undefined;
+    } catch (_err) {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+const projectRow = (row: AdminUserRow): AdminUser => ({
+  id: Number(row.id),
+  email: row.email,
+  displayName: row.display_name ?? undefined,
+  role: row.role as AdminRole,
+  siteKeys: parseSiteKeys(row.site_keys),
+  active: Boolean(row.active),
+  lastLoginAt: row.last_login_at ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const getAdminUser = async (id: number): Promise<AdminUser | undefined> => {
+  const rows = await query<AdminUserRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** For login only: the only read that returns the password hash. */
+export const findAdminUserCredentials = async (
+  email: string
+): Promise<{ user: AdminUser; passwordHash: string } | undefined> => {
+  const rows = await query<AdminUserRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE email = ? LIMIT 1`, [
+    normalizeEmail(email)
+  ]);
+  return rows.length ? { user: projectRow(rows[0]), passwordHash: rows[0].password_hash } : undefined;
+};
+
+export const listAdminUsers = async (includeInactive = false): Promise<AdminUser[]> => {
+  const rows = await query<AdminUserRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${includeInactive ? "" : "WHERE active = 1"} ORDER BY email`
+  );
+  return rows.map(projectRow);
+};
+
+export interface CreateAdminUserInput {
+  email: string;
+  displayName?: string;
+  passwordHash: string;
+  role: AdminRole;
+  siteKeys?: string[];
+}
+
+/** Returns `undefined` when the email is already registered. */
+export const createAdminUser = async (input: CreateAdminUserInput): Promise<AdminUser | undefined> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT IGNORE INTO ${TABLE_NAME} (email, display_name, password_hash, role, site_keys) VALUES (?, ?, ?, ?, ?)`,
+    [
+      normalizeEmail(input.email),
+      input.displayName ?? null,
+      input.passwordHash,
+      input.role,
+      input.siteKeys ? JSON.stringify(input.siteKeys) : null
+    ]
+  );
+  return result.affectedRows > 0 ? getAdminUser(result.insertId) : undefined;
+};
+
+export interface UpdateAdminUserInput {
+  displayName?: string;
+  role?: AdminRole;
+  /** `null` widens the account to every tenant. */
+  siteKeys?: string[] | null;
+  passwordHash?: string;
+  active?: boolean;
+}
+
+export const updateAdminUser = async (id: number, input: UpdateAdminUserInput): Promise<AdminUser | undefined> => {
+  const assignments: string[] = [];
+  const params: Array<string | number | null> = [];
+
+  if (input.displayName !== undefined) {
+    assignments.push("display_name = ?");
+    params.push(input.displayName || null);
+  }
+  if (input.role !== undefined) {
+    assignments.push("role = ?");
+    params.push(input.role);
+  }
+  if (input.siteKeys !== undefined) {
+    assignments.push("site_keys = ?");
+    params.push(input.siteKeys === null ? null : JSON.stringify(input.siteKeys));
+  }
+  if (input.passwordHash !== undefined) {
+    assignments.push("password_hash = ?");
+    params.push(input.passwordHash);
+  }
+  if (input.active !== undefined) {
+    assignments.push("active = ?");
+    params.push(input.active ? 1 : 0);
+  }
+
+  if (assignments.length) {
+    await execute<ResultSetHeader>(
+      `UPDATE ${TABLE_NAME} SET ${assignments.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...params, id]
+    );
+  }
+  return getAdminUser(id);
+};
+
+export const recordAdminLogin = async (id: number): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET last_login_at = CURRENT_TIMESTAMP, updated_at = updated_at WHERE id = ?`,
+    [id]
+  );
+};
+
+/** Used to refuse removing the last active owner. */
+export const countActiveOwners = async (): Promise<number> => {
+  const rows = await query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM ${TABLE_NAME} WHERE role = 'owner' AND active = 1`);
+  return Number(rows[0]?.total ?? 0);
+};
@@ -1,5 +1,7 @@
 import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
-import { query, withTransaction } from "../db/mysql.js";
+import { execute, query, withTransaction } from "../db/mysql.js";
+import { openSecrets, sealSecrets, type SealedSecrets } from "../utils/envelope.js";
+import { recordApiConfigVersion, type ApiConfigAudit } from "./apiConfigVersions.js";
 
 export interface ApiConfig {
   siteKey: string;
@@ -10,6 +12,8 @@ export interface ApiConfig {
   mindbodySourceName?: string;
   mindbodySourcePassword?: string;
   mindbodySiteId?: string;
+  /** Master key the row's secrets are encrypted under; undefined for rows stored before encryption. */
+  keyId?: string;
   updatedAt: Date;
 }
 
@@ -19,17 +23,43 @@ export const ensureApiConfigTable = async (): Promise<void> => {
   // Schema management handled externally; nothing to do here.
 };
 
-const projectRow = (row: ApiConfigRow): ApiConfig => ({
-  siteKey: row.site_key,
-  caymanApiKey: row.cayman_api_key,
-  caymanApiUsername: row.cayman_api_username,
-  caymanApiPassword: row.cayman_api_password,
-  mindbodyApiKey: row.mindbody_api_key ?? undefined,
-  mindbodySourceName: row.mindbody_source_name ?? undefined,
-  mindbodySourcePassword: row.mindbody_source_password ?? undefined,
-  mindbodySiteId: row.mindbody_site_id ?? undefined,
-  updatedAt: row.updated_at
-});
+type SecretField = "caymanApiKey" | "caymanApiPassword" | "mindbodyApiKey" | "mindbodySourcePassword";
+
+const secretContext = (siteKey: string): string => `${TABLE_NAME}:${siteKey}`;
+
+const sealRow = (input: Partial<Record<SecretField, string>> & { siteKey: string }): SealedSecrets<SecretField> =>
+  sealSecrets(secretContext(input.siteKey), {
+    caymanApiKey: input.caymanApiKey,
+    caymanApiPassword: input.caymanApiPassword,
+    mindbodyApiKey: input.mindbodyApiKey,
+    mindbodySourcePassword: input.mindbodySourcePassword
+  });
+
+const projectRow = (row: ApiConfigRow): ApiConfig => {
+  const secrets = openSecrets(secretContext(row.site_key), {
+    keyId: row.key_id ?? null,
+    wrappedKey: row.wrapped_key ?? null,
+    values: {
+      caymanApiKey: row.cayman_api_key,
+      caymanApiPassword: row.cayman_api_password,
+      mindbodyApiKey: row.mindbody_api_key ?? null,
+      mindbodySourcePassword: row.mindbody_source_password ?? null
+    }
+  });
+
+  return {
+    siteKey: row.site_key,
+    caymanApiKey: secrets.caymanApiKey ?? "",
+    caymanApiUsername: row.cayman_api_username,
+    caymanApiPassword: secrets.caymanApiPassword ?? "",
+    mindbodyApiKey: secrets.mindbodyApiKey ?? undefined,
+    mindbodySourceName: row.mindbody_source_name ?? undefined,
+    mindbodySourcePassword: secrets.mindbodySourcePassword ?? undefined,
+    mindbodySiteId: row.mindbody_site_id ?? undefined,
+    keyId: row.key_id ?? undefined,
+    updatedAt: row.updated_at
+  };
+};
 
 interface ApiConfigRow extends RowDataPacket {
   site_key: string;
@@ -40,13 +70,18 @@ interface ApiConfigRow extends RowDataPacket {
   mindbody_source_name?: string | null;
   mindbody_source_password?: string | null;
   mindbody_site_id?: string | null;
+  key_id?: string | null;
+  wrapped_key?: string | null;
   updated_at: Date;
 }
 
+const COLUMNS =
+  "site_key, cayman_api_key, cayman_api_username, cayman_api_password, mindbody_api_key, mindbody_source_name, mindbody_source_password, mindbody_site_id, key_id, wrapped_key, updated_at";
+
 export const getApiConfig = async (siteKey: string): Promise<ApiConfig | undefined> => {
   await ensureApiConfigTable();
   const rows = await query<ApiConfigRow[]>(
-    `SELECT site_key, cayman_api_key, cayman_api_username, cayman_api_password, mindbody_api_key, mindbody_source_name, mindbody_source_password, mindbody_site_id, updated_at FROM ${TABLE_NAME} WHERE site_key = ? LIMIT 1`,
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE site_key = ? LIMIT 1`,
     [siteKey]
   );
 
@@ -60,7 +95,7 @@ export const getApiConfig = async (siteKey: string): Promise<ApiConfig | undefin
 
 export const getLatestApiConfig = async (): Promise<ApiConfig | undefined> => {
   const rows = await query<ApiConfigRow[]>(
-    `SELECT site_key, cayman_api_key, cayman_api_username, cayman_api_password, mindbody_api_key, mindbody_source_name, mindbody_source_password, mindbody_site_id, updated_at FROM ${TABLE_NAME} ORDER BY updated_at DESC LIMIT 1`
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ORDER BY updated_at DESC LIMIT 1`
   );
 
   if (!rows.length) {
@@ -91,6 +126,8 @@ const updateSql = `
     mindbody_source_name = ?,
     mindbody_source_password = ?,
     mindbody_site_id = ?,
+    key_id = ?,
+    wrapped_key = ?,
     updated_at = CURRENT_TIMESTAMP
   WHERE site_key = ?
   LIMIT 1
@@ -105,22 +142,39 @@ const insertSql = `
     mindbody_api_key,
     mindbody_source_name,
     mindbody_source_password,
-    mindbody_site_id
-  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    mindbody_site_id,
+    key_id,
+    wrapped_key
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `;
 
-export const upsertApiConfig = async (input: UpsertApiConfigInput): Promise<ApiConfig> => {
+/**
+ * With `audit`, the change is also recorded in `api_config_versions` in the same transaction, so the
+ * history never disagrees with the live row.
+ */
+export const upsertApiConfig = async (input: UpsertApiConfigInput, audit?: ApiConfigAudit): Promise<ApiConfig> => {
   await ensureApiConfigTable();
+  const sealed = sealRow(input);
 
   await withTransaction(async (conn: PoolConnection) => {
+    if (audit) {
+      const [previousRows] = await conn.query<ApiConfigRow[]>(
+        `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE site_key = ? LIMIT 1 FOR UPDATE`,
+        [input.siteKey]
+      );
+      await recordApiConfigVersion(conn, previousRows.length ? projectRow(previousRows[0]) : undefined, input, audit);
+    }
+
     const [updateResult] = await conn.execute<ResultSetHeader>(updateSql, [
-      input.caymanApiKey,
+      sealed.values.caymanApiKey,
       input.caymanApiUsername,
-      input.caymanApiPassword,
-      input.mindbodyApiKey,
+      sealed.values.caymanApiPassword,
+      sealed.values.mindbodyApiKey,
       input.mindbodySourceName,
-      input.mindbodySourcePassword,
+      sealed.values.mindbodySourcePassword,
       input.mindbodySiteId,
+      sealed.keyId,
+      sealed.wrappedKey,
       input.siteKey
     ]);
 
@@ -128,13 +182,15 @@ export const upsertApiConfig = async (input: UpsertApiConfigInput): Promise<ApiC
       // No existing row; insert a new one instead of creating duplicates for updates.
       await conn.execute(insertSql, [
         input.siteKey,
-        input.caymanApiKey,
+        sealed.values.caymanApiKey,
         input.caymanApiUsername,
-        input.caymanApiPassword,
-        input.mindbodyApiKey,
+        sealed.values.caymanApiPassword,
+        sealed.values.mindbodyApiKey,
         input.mindbodySourceName,
-        input.mindbodySourcePassword,
-        input.mindbodySiteId
+        sealed.values.mindbodySourcePassword,
+        input.mindbodySiteId,
+        sealed.keyId,
+        sealed.wrappedKey
       ]);
     }
   });
@@ -146,3 +202,34 @@ export const upsertApiConfig = async (input: UpsertApiConfigInput): Promise<ApiC
 
   return config;
 };
+
+export const listApiConfigKeyIds = async (): Promise<Array<{ siteKey: string; keyId?: string }>> => {
+  const rows = await query<RowDataPacket[]>(`SELECT site_key, key_id FROM ${TABLE_NAME} ORDER BY site_key`);
+  return rows.map((row) => ({ siteKey: String(row.site_key), keyId: row.key_id ?? undefined }));
+};
+
+/** Re-encrypts a row under the active master key with a fresh data key, leaving `updated_at` alone. */
+export const reencryptApiConfig = async (siteKey: string): Promise<boolean> => {
+  const config = await getApiConfig(siteKey);
+  if (!config) {
+    return false;
+  }
+
+  const sealed = sealRow(config);
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET cayman_api_key = ?, cayman_api_password = ?, mindbody_api_key = ?, mindbody_source_password = ?, key_id = ?, wrapped_key = ?,
+         updated_at = updated_at
+     WHERE site_key = ?`,
+    [
+      sealed.values.caymanApiKey,
+      sealed.values.caymanApiPassword,
+      sealed.values.mindbodyApiKey,
+      sealed.values.mindbodySourcePassword,
+      sealed.keyId,
+      sealed.wrappedKey,
+      siteKey
+    ]
+  );
+  return result.affectedRows > 0;
+};
@@ -0,0 +1,271 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+import { openSecrets, sealSecrets, type SealedSecrets } from "../utils/envelope.js";
+import { type ApiConfig, type UpsertApiConfigInput } from "./apiConfig.js";
+
+/** `baseline` captures a row that existed before versioning, the first time it is changed. */
+export type ApiConfigVersionAction = "baseline" | "save" | "rollback";
+
+export interface ApiConfigAudit {
+  actor: string;
+  sourceIp?: string;
+  action: Exclude<ApiConfigVersionAction, "baseline">;
+  /** The version a rollback restored. */
+  rolledBackFrom?: number;
+}
+
+/** What the history endpoint returns; secrets stay in the table, encrypted like `api_configs`. */
+export interface ApiConfigVersion {
+  id: number;
+  siteKey: string;
+  version: number;
+  action: ApiConfigVersionAction;
+  /** Names of the fields that differ from the previous version; never their values. */
+  changedFields: string[];
+  actor: string;
+  sourceIp?: string;
+  rolledBackFrom?: number;
+  createdAt: Date;
+}
+
+const TABLE_NAME = "api_config_versions";
+
+const CONFIG_FIELDS = [
+  "caymanApiKey",
+  "caymanApiUsername",
+  "caymanApiPassword",
+  "mindbodyApiKey",
+  "mindbodySourceName",
+  "mindbodySourcePassword",
+  "mindbodySiteId"
+] as const;
+
+type SecretField = "caymanApiKey" | "caymanApiPassword" | "mindbodyApiKey" | "mindbodySourcePassword";
+
+interface ApiConfigVersionRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  version: number;
+  action: string;
+  changed_fields: string | string[] | null;
+  actor: string;
+  source_ip: string | null;
+  rolled_back_from: number | null;
+  cayman_api_key: string;
+  cayman_api_username: string;
+  cayman_api_password: string;
+  mindbody_api_key: string | null;
+  mindbody_source_name: string | null;
+  mindbody_source_password: string | null;
+  mindbody_site_id: string | null;
+  key_id: string | null;
+  wrapped_key: string | null;
+  created_at: Date;
+}
+
+const SUMMARY_COLUMNS = "id, site_key, version, action, changed_fields, actor, source_ip, rolled_back_from, created_at";
+
+const COLUMNS = `${SUMMARY_COLUMNS}, cayman_api_key, cayman_api_username, cayman_api_password, mindbody_api_key, mindbody_source_name, mindbody_source_password, mindbody_site_id, key_id, wrapped_key`;
+
+// Each version gets its own data key and context, so a snapshot cannot be swapped into another version.
+const secretContext = (siteKey: string, version: number): string => `${TABLE_NAME}:${siteKey}:${version}`;
+
+const sealSnapshot = (
+  siteKey: string,
+  version: number,
+  config: Partial<Record<SecretField, string>>
+): SealedSecrets<SecretField> =>
+  sealSecrets(secretContext(siteKey, version), {
+    caymanApiKey: config.caymanApiKey,
+    caymanApiPassword: config.caymanApiPassword,
+    mindbodyApiKey: config.mindbodyApiKey,
+    mindbodySourcePassword: config.mindbodySourcePassword
+  });
+
+const parseChangedFields = (value: ApiConfigVersionRow["changed_fields"]): string[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch (_err) {
+      return [];
+    }
+  }
+  return [];
+};
+
+const projectRow = (row: ApiConfigVersionRow): ApiConfigVersion => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  version: Number(row.version),
+  action: row.action as ApiConfigVersionAction,
+  changedFields: parseChangedFields(row.changed_fields),
+  actor: row.actor,
+  sourceIp: row.source_ip ?? undefined,
+  rolledBackFrom: row.rolled_back_from === null ? undefined : Number(row.rolled_back_from),
+  createdAt: row.created_at
+});
+
+export const diffApiConfigFields = (
+  previous: Partial<Record<(typeof CONFIG_FIELDS)[number], string>> | undefined,
+  next: Partial<Record<(typeof CONFIG_FIELDS)[number], string>>
+): string[] => CONFIG_FIELDS.filter((field) => (previous?.[field] ?? "") !== (next[field] ?? ""));
+
+const insertVersion = async (
+  conn: PoolConnection,
+  siteKey: string,
+  version: number,
+  config: UpsertApiConfigInput,
+  changedFields: string[],
+  audit: Omit<ApiConfigAudit, "action"> & { action: ApiConfigVersionAction }
+): Promise<void> => {
+  const sealed = sealSnapshot(siteKey, version, config);
+  await conn.execute(
+    `INSERT INTO ${TABLE_NAME} (site_key, version, action, changed_fields, actor, source_ip, rolled_back_from, cayman_api_key, cayman_api_username, cayman_api_password, mindbody_api_key, mindbody_source_name, mindbody_source_password, mindbody_site_id, key_id, wrapped_key)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      siteKey,
+      version,
+      audit.action,
+      JSON.stringify(changedFields),
+      audit.actor.slice(0, 100),
+      audit.sourceIp?.slice(0, 64) ?? null,
+      audit.rolledBackFrom ?? null,
+      sealed.values.caymanApiKey,
+      config.caymanApiUsername,
+      sealed.values.caymanApiPassword,
+      sealed.values.mindbodyApiKey,
+      config.mindbodySourceName || null,
+      sealed.values.mindbodySourcePassword,
+      config.mindbodySiteId || null,
+      sealed.keyId,
+      sealed.wrappedKey
+    ]
+  );
+};
+
+/**
+ * Appends a version inside the caller's transaction (the one writing `api_configs`), after locking the
+ * site's history so concurrent saves cannot claim the same version number.
+ */
+export const recordApiConfigVersion = async (
+  conn: PoolConnection,
+  previous: ApiConfig | undefined,
+  next: UpsertApiConfigInput,
+  audit: ApiConfigAudit
+): Promise<number> => {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT MAX(version) AS version FROM ${TABLE_NAME} WHERE site_key = ? FOR UPDATE`,
+    [next.siteKey]
+  );
+  let latest = Number(rows[0]?.version ?? 0);
+
+  if (latest === 0 && previous) {
+    latest = 1;
+    await insertVersion(
+      conn,
+      next.siteKey,
+      latest,
+      {
+        siteKey: previous.siteKey,
+        caymanApiKey: previous.caymanApiKey,
+        caymanApiUsername: previous.caymanApiUsername,
+        caymanApiPassword: previous.caymanApiPassword,
+        mindbodyApiKey: previous.mindbodyApiKey ?? "",
+        mindbodySourceName: previous.mindbodySourceName ?? "",
+        mindbodySourcePassword: previous.mindbodySourcePassword ?? "",
+        mindbodySiteId: previous.mindbodySiteId ?? ""
+      },
+      [],
+      { action: "baseline", actor: "system" }
+    );
+  }
+
+  const version = latest + 1;
+  await insertVersion(conn, next.siteKey, version, next, diffApiConfigFields(previous, next), audit);
+  return version;
+};
+
+export const listApiConfigVersions = async (siteKey: string, limit = 50): Promise<ApiConfigVersion[]> => {
+  const rows = await query<ApiConfigVersionRow[]>(
+    `SELECT ${SUMMARY_COLUMNS} FROM ${TABLE_NAME} WHERE site_key = ? ORDER BY version DESC LIMIT ?`,
+    [siteKey, Math.min(Math.max(limit, 1), 500)]
+  );
+  return rows.map(projectRow);
+};
+
+/** The full snapshot, decrypted, for a rollback. */
+export const getApiConfigVersionSnapshot = async (
+  siteKey: string,
+  version: number
+): Promise<{ version: ApiConfigVersion; config: UpsertApiConfigInput } | undefined> => {
+  const rows = await query<ApiConfigVersionRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE site_key = ? AND version = ? LIMIT 1`,
+    [siteKey, version]
+  );
+  if (!rows.length) {
+    return undefined;
+  }
+
+  const row = rows[0];
+  const secrets = openSecrets(secretContext(row.site_key, Number(row.version)), {
+    keyId: row.key_id,
+    wrappedKey: row.wrapped_key,
+    values: {
+      caymanApiKey: row.cayman_api_key,
+      caymanApiPassword: row.cayman_api_password,
+      mindbodyApiKey: row.mindbody_api_key,
+      mindbodySourcePassword: row.mindbody_source_password
+    }
+  });
+
+  return {
+    version: projectRow(row),
+    config: {
+      siteKey: row.site_key,
+      caymanApiKey: secrets.caymanApiKey ?? "",
+      caymanApiUsername: row.cayman_api_username,
+      caymanApiPassword: secrets.caymanApiPassword ?? "",
+      mindbodyApiKey: secrets.mindbodyApiKey ?? "",
+      mindbodySourceName: row.mindbody_source_name ?? "",
+      mindbodySourcePassword: secrets.mindbodySourcePassword ?? "",
+      mindbodySiteId: row.mindbody_site_id ?? ""
+    }
+  };
+};
+
+export const listApiConfigVersionKeyIds = async (): Promise<Array<{ siteKey: string; version: number; keyId?: string }>> => {
+  const rows = await query<RowDataPacket[]>(`SELECT site_key, version, key_id FROM ${TABLE_NAME} ORDER BY site_key, version`);
+  return rows.map((row) => ({ siteKey: String(row.site_key), version: Number(row.version), keyId: row.key_id ?? undefined }));
+};
+
+/**
+ * Versions are immutable except for this: re-encrypting a snapshot under the active master key so a
+ * retired key can be removed. The decrypted values are unchanged.
+ */
+export const reencryptApiConfigVersion = async (siteKey: string, version: number): Promise<boolean> => {
+  const snapshot = await getApiConfigVersionSnapshot(siteKey, version);
+  if (!snapshot) {
+    return false;
+  }
+
+  const sealed = sealSnapshot(siteKey, version, snapshot.config);
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET cayman_api_key = ?, cayman_api_password = ?, mindbody_api_key = ?, mindbody_source_password = ?, key_id = ?, wrapped_key = ?
+     WHERE site_key = ? AND version = ?`,
+    [
+      sealed.values.caymanApiKey,
+      sealed.values.caymanApiPassword,
+      sealed.values.mindbodyApiKey,
+      sealed.values.mindbodySourcePassword,
+      sealed.keyId,
+      sealed.wrappedKey,
+      siteKey,
+      version
+    ]
+  );
+  return result.affectedRows > 0;
+};
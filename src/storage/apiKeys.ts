@@ -0,0 +1,227 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query, withTransaction } from "../db/mysql.js";
+
+export type ApiKeyScope =
+  | "paylinks:create"
+  | "clients:write"
+  | "checkout:create"
+  | "cards:write"
+  | "cards:charge"
+  | "memberships:write";
+
+export interface ApiKey {
+  id: number;
+  siteKey: string;
+  name: string;
+  /** Public part of the key (`cgk_<prefix>_…`), safe to show and log. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** Requests per minute; `undefined` uses `API_KEY_RATE_LIMIT_PER_MINUTE`. */
+  rateLimitPerMinute?: number;
+  active: boolean;
+  /** Set on a key that has been rotated away from; it keeps working until then. */
+  expiresAt?: Date;
+  rotatedFromId?: number;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "api_keys";
+
+interface ApiKeyRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  name: string;
+  prefix: string;
+  secret_hash: string;
+  scopes: string | string[];
+  rate_limit_per_minute: number | null;
+  active: number;
+  expires_at: Date | null;
+  rotated_from_id: number | null;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const COLUMNS =
+  "id, site_key, name, prefix, secret_hash, scopes, rate_limit_per_minute, active, expires_at, rotated_from_id, last_used_at, last_used_ip, created_by, created_at, updated_at";
+
+const parseScopes = (value: ApiKeyRow["scopes"]): ApiKeyScope[] => {
+  if (Array.isArray(value)) {
+    return value as ApiKeyScope[];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed.map(String) as ApiKeyScope[]) : [];
+  } catch (_err) {
+    return [];
+  }
+};
+
+const projectRow = (row: ApiKeyRow): ApiKey => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  name: row.name,
+  prefix: row.prefix,
+  scopes: parseScopes(row.scopes),
+  rateLimitPerMinute: row.rate_limit_per_minute === null ? undefined : Number(row.rate_limit_per_minute),
+  active: Boolean(row.active),
+  expiresAt: row.expires_at ?? undefined,
+  rotatedFromId: row.rotated_from_id === null ? undefined : Number(row.rotated_from_id),
+  lastUsedAt: row.last_used_at ?? undefined,
+  lastUsedIp: row.last_used_ip ?? undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export const getApiKey = async (id: number): Promise<ApiKey | undefined> => {
+  const rows = await query<ApiKeyRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** For authentication only: the only read that returns the secret hash. Inactive and expired keys are excluded. */
+export const findUsableApiKey = async (prefix: string): Promise<{ key: ApiKey; secretHash: string } | undefined> => {
+  const rows = await query<ApiKeyRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME}
+      WHERE prefix = ? AND active = 1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+      LIMIT 1`,
+    [prefix]
+  );
+  return rows.length ? { key: projectRow(rows[0]), secretHash: rows[0].secret_hash } : undefined;
+};
+
+export const listApiKeys = async (filters: { siteKey?: string; includeInactive?: boolean } = {}): Promise<ApiKey[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filters.siteKey);
+  }
+  if (!filters.includeInactive) {
+    clauses.push("active = 1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)");
+  }
+
+  const rows = await query<ApiKeyRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""} ORDER BY site_key, created_at DESC`,
+    params
+  );
+  return rows.map(projectRow);
+};
+
+export interface CreateApiKeyInput {
+  siteKey: string;
+  name: string;
+  prefix: string;
+  secretHash: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  rotatedFromId?: number;
+  createdBy: string;
+}
+
+const insertApiKey = async (conn: PoolConnection | undefined, input: CreateApiKeyInput): Promise<number> => {
+  const sql = `INSERT INTO ${TABLE_NAME}
+      (site_key, name, prefix, secret_hash, scopes, rate_limit_per_minute, rotated_from_id, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+  const params = [
+    input.siteKey,
+    input.name,
+    input.prefix,
+    input.secretHash,
+    JSON.stringify(input.scopes),
+    input.rateLimitPerMinute ?? null,
+    input.rotatedFromId ?? null,
+    input.createdBy
+  ];
+
+  if (conn) {
+    const [result] = await conn.execute<ResultSetHeader>(sql, params);
+    return result.insertId;
+  }
+  return (await execute<ResultSetHeader>(sql, params)).insertId;
+};
+
+export const createApiKey = async (input: CreateApiKeyInput): Promise<ApiKey | undefined> =>
+  getApiKey(await insertApiKey(undefined, input));
+
+/**
+ * Issues the replacement and gives the old key `expiresAt`, in one transaction, so callers can switch
+ * over without an outage. Returns `undefined` when the old key is no longer usable.
+ */
+export const rotateApiKey = async (
+  currentId: number,
+  replacement: CreateApiKeyInput,
+  expiresAt: Date
+): Promise<ApiKey | undefined> => {
+  const newId = await withTransaction(async (conn) => {
+    const [rows] = await conn.query<ApiKeyRow[]>(
+      `SELECT id FROM ${TABLE_NAME}
+        WHERE id = ? AND active = 1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+        FOR UPDATE`,
+      [currentId]
+    );
+    if (!rows.length) {
+      return undefined;
+    }
+
+    await conn.execute<ResultSetHeader>(
+      `UPDATE ${TABLE_NAME} SET expires_at = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [expiresAt, currentId]
+    );
+    return insertApiKey(conn, { ...replacement, rotatedFromId: currentId });
+  });
+
+  return newId === undefined ? undefined : getApiKey(newId);
+};
+
+export const updateApiKey = async (
+  id: number,
+  input: { name?: string; scopes?: ApiKeyScope[]; rateLimitPerMinute?: number | null }
+): Promise<ApiKey | undefined> => {
+  const assignments: string[] = [];
+  const params: Array<string | number | null> = [];
+
+  if (input.name !== undefined) {
+    assignments.push("name = ?");
+    params.push(input.name);
+  }
+  if (input.scopes !== undefined) {
+    assignments.push("scopes = ?");
+    params.push(JSON.stringify(input.scopes));
+  }
+  if (input.rateLimitPerMinute !== undefined) {
+    assignments.push("rate_limit_per_minute = ?");
+    params.push(input.rateLimitPerMinute);
+  }
+
+  if (assignments.length) {
+    await execute<ResultSetHeader>(
+      `UPDATE ${TABLE_NAME} SET ${assignments.join(", ")}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [...params, id]
+    );
+  }
+  return getApiKey(id);
+};
+
+export const revokeApiKey = async (id: number): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET active = 0, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND active = 1`,
+    [id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const recordApiKeyUse = async (id: number, sourceIp?: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET last_used_at = CURRENT_TIMESTAMP, last_used_ip = ?, updated_at = updated_at WHERE id = ?`,
+    [sourceIp?.slice(0, 64) ?? null, id]
+  );
+};
@@ -0,0 +1,180 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+/**
+ * `held` while the checkout is open; `booked` once Mindbody has the appointment. `released` when the
+ * payment failed or the hold lapsed, and `failed` when the client paid but the appointment was not booked:
+ * Mindbody would not take it, or the payment arrived after the hold lapsed.
+ */
+export type AppointmentHoldStatus = "held" | "booked" | "released" | "failed";
+
+/** A slot kept for one appointment checkout so two clients cannot pay for the same staff member and time. */
+export interface AppointmentHold {
+  id: number;
+  siteKey: string;
+  sessionId: string;
+  clientId?: string;
+  sessionTypeId: string;
+  staffId: string;
+  locationId: string;
+  startDateTime: Date;
+  status: AppointmentHoldStatus;
+  /** Other checkouts may take the slot once this has passed while the hold is still `held`. */
+  holdExpiresAt: Date;
+  appointmentId?: string;
+  error?: string;
+  createdAt: Date;
+  bookedAt?: Date;
+  releasedAt?: Date;
+}
+
+const TABLE_NAME = "appointment_holds";
+
+interface AppointmentHoldRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  session_id: string;
+  client_id: string | null;
+  session_type_id: string;
+  staff_id: string;
+  location_id: string;
+  start_date_time: Date;
+  status: string;
+  hold_expires_at: Date;
+  appointment_id: string | null;
+  error: string | null;
+  created_at: Date;
+  booked_at: Date | null;
+  released_at: Date | null;
+}
+
+const COLUMNS =
+  "id, site_key, session_id, client_id, session_type_id, staff_id, location_id, start_date_time, status, hold_expires_at, appointment_id, error, created_at, booked_at, released_at";
+
+const projectRow = (row: AppointmentHoldRow): AppointmentHold => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  sessionId: row.session_id,
+  clientId: row.client_id ?? undefined,
+  sessionTypeId: row.session_type_id,
+  staffId: row.staff_id,
+  locationId: row.location_id,
+  startDateTime: row.start_date_time,
+  status: row.status as AppointmentHoldStatus,
+  holdExpiresAt: row.hold_expires_at,
+  appointmentId: row.appointment_id ?? undefined,
+  error: row.error ?? undefined,
+  createdAt: row.created_at,
+  bookedAt: row.booked_at ?? undefined,
+  releasedAt: row.released_at ?? undefined
+});
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  Boolean(error && typeof error === "object" && (error as { code?: string }).code === "ER_DUP_ENTRY");
+
+export const getAppointmentHold = async (id: number): Promise<AppointmentHold | undefined> => {
+  const rows = await query<AppointmentHoldRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const findAppointmentHoldBySessionId = async (sessionId: string): Promise<AppointmentHold | undefined> => {
+  const rows = await query<AppointmentHoldRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE session_id = ? LIMIT 1`, [
+    sessionId
+  ]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export interface NewAppointmentHold {
+  siteKey: string;
+  sessionId: string;
+  clientId?: string;
+  sessionTypeId: string;
+  staffId: string;
+  locationId: string;
+  startDateTime: Date;
+  holdExpiresAt: Date;
+}
+
+/** A staff member has one appointment per start time; the slot key is cleared when the hold ends without a booking. */
+const slotKey = (input: Pick<NewAppointmentHold, "siteKey" | "staffId" | "startDateTime">): string =>
+  `${input.siteKey}:${input.staffId}:${input.startDateTime.toISOString()}`.slice(0, 191);
+
+/**
+ * Holds the slot for a checkout session. Resolves `undefined` when another hold has it; a hold that has
+ * lapsed without a booking is released first, so only live holds and bookings block the slot.
+ */
+export const createAppointmentHold = async (input: NewAppointmentHold): Promise<number | undefined> => {
+  const key = slotKey(input);
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'released', slot_key = NULL, released_at = CURRENT_TIMESTAMP
+     WHERE slot_key = ? AND status = 'held' AND hold_expires_at <= ?`,
+    [key, new Date()]
+  );
+
+  try {
+    const result = await execute<ResultSetHeader>(
+      `INSERT INTO ${TABLE_NAME}
+         (site_key, session_id, client_id, session_type_id, staff_id, location_id, start_date_time, slot_key, hold_expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        input.siteKey,
+        input.sessionId,
+        input.clientId ?? null,
+        input.sessionTypeId,
+        input.staffId,
+        input.locationId,
+        input.startDateTime,
+        key,
+        input.holdExpiresAt
+      ]
+    );
+    return result.insertId;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/** Frees the slot of a checkout that will not be paid; a hold already booked or failed is left alone. */
+export const releaseAppointmentHold = async (sessionId: string, error?: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'released', slot_key = NULL, released_at = CURRENT_TIMESTAMP, error = COALESCE(?, error)
+     WHERE session_id = ? AND status = 'held'`,
+    [error?.slice(0, 500) ?? null, sessionId]
+  );
+  return result.affectedRows > 0;
+};
+
+/** Releases every hold that lapsed before its checkout was paid. */
+export const releaseLapsedAppointmentHolds = async (now = new Date()): Promise<number> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'released', slot_key = NULL, released_at = CURRENT_TIMESTAMP
+     WHERE status = 'held' AND hold_expires_at <= ?`,
+    [now]
+  );
+  return result.affectedRows;
+};
+
+/**
+ * Callers only book a live hold, but the hold may lapse while Mindbody is booking it; the appointment
+ * exists either way, so a released hold is marked too. Only one caller moves a hold to `booked`.
+ */
+export const markAppointmentHoldBooked = async (id: number, appointmentId: string | undefined, clientId: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = 'booked', appointment_id = ?, client_id = ?, booked_at = CURRENT_TIMESTAMP, error = NULL
+     WHERE id = ? AND status IN ('held', 'released')`,
+    [appointmentId?.slice(0, 64) ?? null, clientId.slice(0, 64), id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const markAppointmentHoldFailed = async (id: number, error: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'failed', slot_key = NULL, error = ? WHERE id = ? AND status IN ('held', 'released')`,
+    [error.slice(0, 500), id]
+  );
+  return result.affectedRows > 0;
+};
@@ -0,0 +1,336 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query, withTransaction } from "../db/mysql.js";
+import {
+  applySessionPatch,
+  assertTransitions,
+  clampSearchLimit,
+  EXPIRABLE_STATUSES,
+  type NewSessionEvent,
+  type Session,
+  type SessionDriver,
+  type SessionEvent,
+  type SessionPatch,
+  type SessionSearchFilter,
+  type SessionStatus,
+  TransactionInUseError
+} from "../lib/sessions.js";
+
+const TABLE_NAME = "checkout_sessions";
+const EVENTS_TABLE_NAME = "checkout_session_events";
+
+interface CheckoutSessionRow extends RowDataPacket {
+  id: string;
+  site_key: string;
+  status: string;
+  order_id: string | null;
+  cayman_transaction_id: string | null;
+  customer_email: string | null;
+  client_id: string | null;
+  total: string | number;
+  payload: string | Record<string, unknown>;
+  expires_at: Date;
+  created_at: Date;
+}
+
+interface SessionEventRow extends RowDataPacket {
+  id: number;
+  session_id: string;
+  type: string;
+  from_status: string | null;
+  to_status: string | null;
+  actor: string | null;
+  detail: string | Record<string, unknown> | null;
+  created_at: Date;
+}
+
+const SELECT_COLUMNS =
+  "id, site_key, status, order_id, cayman_transaction_id, customer_email, client_id, total, payload, expires_at, created_at";
+
+const parsePayload = (value: CheckoutSessionRow["payload"]): Partial<Session> => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as Partial<Session>;
+    } catch (error) {
+      console.error("[sessions] Failed to parse stored session payload", error);
+      return {};
+    }
+  }
+
+  return (value ?? {}) as Partial<Session>;
+};
+
+const projectRow = (row: CheckoutSessionRow): Session => {
+  const payload = parsePayload(row.payload);
+
+  return {
+    ...payload,
+    id: row.id,
+    siteKey: row.site_key,
+    status: row.status as SessionStatus,
+    lines: Array.isArray(payload.lines) ? payload.lines : [],
+    total: Number(row.total),
+    clientId: row.client_id ?? undefined,
+    createdAt: row.created_at.toISOString(),
+    expiresAt: row.expires_at.toISOString()
+  };
+};
+
+const parseEventDetail = (value: SessionEventRow["detail"]): Record<string, unknown> | undefined => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as Record<string, unknown>;
+    } catch (error) {
+      console.error("[sessions] Failed to parse stored session event detail", error);
+      return undefined;
+    }
+  }
+
+  return value ?? undefined;
+};
+
+const projectEventRow = (row: SessionEventRow): SessionEvent => ({
+  id: Number(row.id),
+  sessionId: row.session_id,
+  type: row.type,
+  fromStatus: (row.from_status as SessionStatus | null) ?? undefined,
+  toStatus: (row.to_status as SessionStatus | null) ?? undefined,
+  actor: row.actor ?? undefined,
+  detail: parseEventDetail(row.detail),
+  createdAt: row.created_at.toISOString()
+});
+
+const insertEventSql = `
+  INSERT INTO ${EVENTS_TABLE_NAME} (session_id, type, from_status, to_status, actor, detail)
+  VALUES (?, ?, ?, ?, ?, ?)
+`;
+
+const toEventParams = (event: NewSessionEvent): unknown[] => [
+  event.sessionId,
+  event.type,
+  event.fromStatus ?? null,
+  event.toStatus ?? null,
+  event.actor ?? null,
+  event.detail ? JSON.stringify(event.detail) : null
+];
+
+const insertEvent = async (conn: PoolConnection, event: NewSessionEvent): Promise<void> => {
+  await conn.execute<ResultSetHeader>(insertEventSql, toEventParams(event));
+};
+
+/** Columns mirror the fields we search on; everything else lives in the JSON payload. */
+const toColumns = (session: Session): unknown[] => [
+  session.siteKey,
+  session.status,
+  session.cayman?.orderId ?? null,
+  session.cayman?.transactionId ?? null,
+  session.customer?.email?.toLowerCase() ?? null,
+  session.clientId ?? null,
+  session.total.toFixed(2),
+  JSON.stringify(session),
+  new Date(session.expiresAt ?? Date.now())
+];
+
+const insertSql = `
+  INSERT INTO ${TABLE_NAME} (
+    id,
+    created_at,
+    site_key,
+    status,
+    order_id,
+    cayman_transaction_id,
+    customer_email,
+    client_id,
+    total,
+    payload,
+    expires_at
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+const updateSql = `
+  UPDATE ${TABLE_NAME}
+  SET
+    site_key = ?,
+    status = ?,
+    order_id = ?,
+    cayman_transaction_id = ?,
+    customer_email = ?,
+    client_id = ?,
+    total = ?,
+    payload = ?,
+    expires_at = ?,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id = ?
+  LIMIT 1
+`;
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  Boolean(error && typeof error === "object" && (error as { code?: string }).code === "ER_DUP_ENTRY");
+
+const findOne = async (where: string, params: unknown[]): Promise<Session | undefined> => {
+  const rows = await query<CheckoutSessionRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE ${where} ORDER BY created_at DESC LIMIT 1`,
+    params
+  );
+
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/**
+ * Locks the row for the rest of the transaction so concurrent writers on any instance queue behind us.
+ * `mutate` returns the next session state, or `undefined` to leave the row untouched.
+ */
+const lockAndWrite = (
+  id: string,
+  mutate: (existing: Session) => Session | undefined
+): Promise<Session | undefined> =>
+  withTransaction(async (conn: PoolConnection) => {
+    const [rows] = await conn.query<CheckoutSessionRow[]>(
+      `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id]
+    );
+
+    if (!rows.length) {
+      return undefined;
+    }
+
+    const existing = projectRow(rows[0]);
+    const next = mutate(existing);
+    if (!next) {
+      return undefined;
+    }
+
+    try {
+      await conn.execute<ResultSetHeader>(updateSql, [...toColumns(next), id]);
+    } catch (error) {
+      // `cayman_transaction_id` is unique: the transaction already paid for another session.
+      if (isDuplicateKeyError(error) && next.cayman?.transactionId) {
+        throw new TransactionInUseError(next.cayman.transactionId);
+      }
+      throw error;
+    }
+    if (next.status !== existing.status) {
+      await insertEvent(conn, { sessionId: id, type: "status", fromStatus: existing.status, toStatus: next.status });
+    }
+    return next;
+  });
+
+export const createMysqlSessionDriver = (): SessionDriver => ({
+  async save(session) {
+    await withTransaction(async (conn: PoolConnection) => {
+      await conn.execute<ResultSetHeader>(insertSql, [
+        session.id,
+        new Date(session.createdAt ?? Date.now()),
+        ...toColumns(session)
+      ]);
+      await insertEvent(conn, { sessionId: session.id, type: "created", toStatus: session.status });
+    });
+    return session;
+  },
+
+  async get(id) {
+    return findOne("id = ?", [id]);
+  },
+
+  async update(id, patch: SessionPatch) {
+    return lockAndWrite(id, (existing) => applySessionPatch(existing, patch));
+  },
+
+  async transition(id, from: SessionStatus[], to, patch: SessionPatch = {}) {
+    assertTransitions(from, to);
+
+    return lockAndWrite(id, (existing) =>
+      from.includes(existing.status) ? { ...applySessionPatch(existing, patch), status: to } : undefined
+    );
+  },
+
+  async findByOrderId(orderId) {
+    return findOne("order_id = ?", [orderId]);
+  },
+
+  async findByTransactionId(transactionId) {
+    return findOne("cayman_transaction_id = ?", [transactionId]);
+  },
+
+  async expireStale(now = new Date()) {
+    return withTransaction(async (conn: PoolConnection) => {
+      const [rows] = await conn.query<CheckoutSessionRow[]>(
+        `SELECT id, status FROM ${TABLE_NAME} WHERE expires_at <= ? AND status IN (?) FOR UPDATE SKIP LOCKED`,
+        [now, EXPIRABLE_STATUSES]
+      );
+
+      if (!rows.length) {
+        return 0;
+      }
+
+      await conn.query<ResultSetHeader>(
+        `UPDATE ${TABLE_NAME} SET status = 'expired', payload = JSON_SET(payload, '$.status', 'expired') WHERE id IN (?)`,
+        [rows.map((row) => row.id)]
+      );
+
+      for (const row of rows) {
+        await insertEvent(conn, {
+          sessionId: row.id,
+          type: "status",
+          fromStatus: row.status as SessionStatus,
+          toStatus: "expired",
+          actor: "sweeper"
+        });
+      }
+
+      return rows.length;
+    });
+  },
+
+  async search(filter: SessionSearchFilter) {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status?.length) {
+      clauses.push("status IN (?)");
+      params.push(filter.status);
+    }
+    if (filter.siteKey) {
+      clauses.push("site_key = ?");
+      params.push(filter.siteKey);
+    }
+    if (filter.email) {
+      clauses.push("customer_email = ?");
+      params.push(filter.email.toLowerCase());
+    }
+    if (filter.orderId) {
+      clauses.push("order_id = ?");
+      params.push(filter.orderId);
+    }
+    if (filter.transactionId) {
+      clauses.push("cayman_transaction_id = ?");
+      params.push(filter.transactionId);
+    }
+    if (filter.createdFrom) {
+      clauses.push("created_at >= ?");
+      params.push(filter.createdFrom);
+    }
+    if (filter.createdTo) {
+      clauses.push("created_at < ?");
+      params.push(filter.createdTo);
+    }
+
+    const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = await query<CheckoutSessionRow[]>(
+      `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, clampSearchLimit(filter.limit), Math.max(filter.offset ?? 0, 0)]
+    );
+    return rows.map(projectRow);
+  },
+
+  async history(id) {
+    const rows = await query<SessionEventRow[]>(
+      `SELECT id, session_id, type, from_status, to_status, actor, detail, created_at FROM ${EVENTS_TABLE_NAME} WHERE session_id = ? ORDER BY id ASC`,
+      [id]
+    );
+    return rows.map(projectEventRow);
+  },
+
+  async recordEvent(event) {
+    await execute(insertEventSql, toEventParams(event));
+  }
+});
@@ -0,0 +1,235 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query, withTransaction } from "../db/mysql.js";
+
+export type FulfilmentJobStatus = "pending" | "running" | "succeeded" | "dead";
+
+export type FulfilmentErrorKind = "transient" | "permanent";
+
+export interface FulfilmentJob {
+  id: number;
+  sessionId: string;
+  siteKey: string;
+  status: FulfilmentJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date;
+  lastError?: string;
+  lastErrorKind?: FulfilmentErrorKind;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "fulfilment_jobs";
+
+/** How long a claimed job stays invisible to other workers before it is considered abandoned. */
+const LEASE_MS = 5 * 60_000;
+
+interface FulfilmentJobRow extends RowDataPacket {
+  id: number;
+  session_id: string;
+  site_key: string;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  locked_until: Date | null;
+  last_error: string | null;
+  last_error_kind: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SELECT_COLUMNS =
+  "id, session_id, site_key, status, attempts, max_attempts, next_attempt_at, locked_until, last_error, last_error_kind, created_at, updated_at";
+
+const projectRow = (row: FulfilmentJobRow): FulfilmentJob => ({
+  id: Number(row.id),
+  sessionId: row.session_id,
+  siteKey: row.site_key,
+  status: row.status as FulfilmentJobStatus,
+  attempts: Number(row.attempts),
+  maxAttempts: Number(row.max_attempts),
+  nextAttemptAt: row.next_attempt_at,
+  lockedUntil: row.locked_until ?? undefined,
+  lastError: row.last_error ?? undefined,
+  lastErrorKind: (row.last_error_kind as FulfilmentErrorKind | null) ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export interface UpsertFulfilmentJobInput {
+  sessionId: string;
+  siteKey: string;
+  status: Extract<FulfilmentJobStatus, "pending" | "dead">;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  lastErrorKind?: FulfilmentErrorKind;
+}
+
+const upsertSql = `
+  INSERT INTO ${TABLE_NAME} (
+    session_id,
+    site_key,
+    status,
+    attempts,
+    max_attempts,
+    next_attempt_at,
+    last_error,
+    last_error_kind
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  ON DUPLICATE KEY UPDATE
+    site_key = VALUES(site_key),
+    status = VALUES(status),
+    attempts = VALUES(attempts),
+    max_attempts = VALUES(max_attempts),
+    next_attempt_at = VALUES(next_attempt_at),
+    locked_until = NULL,
+    last_error = VALUES(last_error),
+    last_error_kind = VALUES(last_error_kind),
+    updated_at = CURRENT_TIMESTAMP
+`;
+
+/** One job per session: a session that fails fulfilment again reuses (and resets) its existing job. */
+export const upsertFulfilmentJob = async (input: UpsertFulfilmentJobInput): Promise<void> => {
+  await execute(upsertSql, [
+    input.sessionId,
+    input.siteKey,
+    input.status,
+    input.attempts,
+    input.maxAttempts,
+    input.nextAttemptAt,
+    input.lastError ?? null,
+    input.lastErrorKind ?? null
+  ]);
+};
+
+const markRunning = async (conn: PoolConnection, rows: FulfilmentJobRow[]): Promise<FulfilmentJob[]> => {
+  if (!rows.length) {
+    return [];
+  }
+
+  const lockedUntil = new Date(Date.now() + LEASE_MS);
+  const ids = rows.map((row) => row.id);
+
+  await conn.query<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'running', attempts = attempts + 1, locked_until = ?, updated_at = CURRENT_TIMESTAMP WHERE id IN (?)`,
+    [lockedUntil, ids]
+  );
+
+  return rows.map((row) => ({
+    ...projectRow(row),
+    status: "running",
+    attempts: Number(row.attempts) + 1,
+    lockedUntil
+  }));
+};
+
+/**
+ * Claims jobs that are due, plus running jobs whose lease expired (the worker died mid-attempt).
+ * SKIP LOCKED lets several instances poll the same table without handing out a job twice.
+ */
+export const claimDueFulfilmentJobs = (limit: number): Promise<FulfilmentJob[]> =>
+  withTransaction(async (conn: PoolConnection) => {
+    const now = new Date();
+    const [rows] = await conn.query<FulfilmentJobRow[]>(
+      `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME}
+       WHERE (status = 'pending' AND next_attempt_at <= ?) OR (status = 'running' AND locked_until <= ?)
+       ORDER BY next_attempt_at ASC
+       LIMIT ?
+       FOR UPDATE SKIP LOCKED`,
+      [now, now, limit]
+    );
+
+    return markRunning(conn, rows);
+  });
+
+export const claimFulfilmentJob = (id: number): Promise<FulfilmentJob | undefined> =>
+  withTransaction(async (conn: PoolConnection) => {
+    const [rows] = await conn.query<FulfilmentJobRow[]>(
+      `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE id = ? AND status = 'pending' LIMIT 1 FOR UPDATE SKIP LOCKED`,
+      [id]
+    );
+
+    const [claimed] = await markRunning(conn, rows);
+    return claimed;
+  });
+
+export const completeFulfilmentJob = async (id: number): Promise<void> => {
+  await execute(
+    `UPDATE ${TABLE_NAME} SET status = 'succeeded', locked_until = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [id]
+  );
+};
+
+export const rescheduleFulfilmentJob = async (
+  id: number,
+  nextAttemptAt: Date,
+  lastError: string,
+  lastErrorKind: FulfilmentErrorKind
+): Promise<void> => {
+  await execute(
+    `UPDATE ${TABLE_NAME} SET status = 'pending', next_attempt_at = ?, locked_until = NULL, last_error = ?, last_error_kind = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [nextAttemptAt, lastError, lastErrorKind, id]
+  );
+};
+
+export const buryFulfilmentJob = async (id: number, lastError: string, lastErrorKind: FulfilmentErrorKind): Promise<void> => {
+  await execute(
+    `UPDATE ${TABLE_NAME} SET status = 'dead', locked_until = NULL, last_error = ?, last_error_kind = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [lastError, lastErrorKind, id]
+  );
+};
+
+/** Puts a dead (or stuck pending) job back in the queue with a fresh attempt budget. */
+export const requeueFulfilmentJob = async (id: number): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'pending', attempts = 0, next_attempt_at = ?, locked_until = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status IN ('pending', 'dead')`,
+    [new Date(), id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const getFulfilmentJob = async (id: number): Promise<FulfilmentJob | undefined> => {
+  const rows = await query<FulfilmentJobRow[]>(`SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const getFulfilmentJobBySessionId = async (sessionId: string): Promise<FulfilmentJob | undefined> => {
+  const rows = await query<FulfilmentJobRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE session_id = ? LIMIT 1`,
+    [sessionId]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export interface ListFulfilmentJobsFilter {
+  status?: FulfilmentJobStatus;
+  siteKey?: string;
+  limit?: number;
+}
+
+export const listFulfilmentJobs = async (filter: ListFulfilmentJobsFilter = {}): Promise<FulfilmentJob[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.status) {
+    clauses.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filter.siteKey);
+  }
+
+  const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(filter.limit ?? 50, 1), 500);
+
+  const rows = await query<FulfilmentJobRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} ${where} ORDER BY updated_at DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectRow);
+};
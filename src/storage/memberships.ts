@@ -0,0 +1,487 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+/** Mindbody item a plan sells each period: a service pricing option or a package. */
+export type MembershipItemType = "Service" | "Package";
+
+/** A recurring product: every `frequencyDays` Cayman charges `amount` and one Mindbody sale of the item is posted. */
+export interface MembershipPlan {
+  id: number;
+  siteKey: string;
+  name: string;
+  itemType: MembershipItemType;
+  itemId: string;
+  amount: number;
+  frequencyDays: number;
+  /** Days before the first charge; `0` charges at sign-up. */
+  trialDays: number;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * `pending` until Cayman's subscribe notification names the subscription; `failed` if it never will.
+ * `past_due` after a declined renewal, while dunning retries run. `cancelled` stops billing; access runs
+ * to `currentPeriodEnd`.
+ */
+export type MembershipStatus = "pending" | "active" | "past_due" | "cancelled" | "failed";
+
+/** `customer` and `staff` cancelled on request; `payment_failed` when dunning ran out of retries. */
+export type MembershipCancelReason = "customer" | "staff" | "payment_failed";
+
+/** One client's subscription to a plan. Plan fields are copied so later plan changes do not alter it. */
+export interface Membership {
+  id: number;
+  siteKey: string;
+  planId: number;
+  planName: string;
+  itemType: MembershipItemType;
+  itemId: string;
+  amount: number;
+  frequencyDays: number;
+  clientId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  status: MembershipStatus;
+  /** Cayman's subscription id and customer GUID; unset while pending. Needed to cancel and to retry charges. */
+  caymanSubscriptionId?: number;
+  caymanCustomerGuid?: string;
+  /** End of the period the last successful charge (or the trial) paid for. */
+  currentPeriodEnd?: Date;
+  /** Declined renewals since the last successful charge. */
+  failedAttempts: number;
+  nextRetryAt?: Date;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  cancelReason?: MembershipCancelReason;
+  error?: string;
+  createdBy: string;
+  createdAt: Date;
+  activatedAt?: Date;
+}
+
+export type MembershipChargeKind = "signup" | "renewal" | "retry";
+
+/** `declined` by the card issuer; `rejected` when Cayman's record contradicted the charge (see payment alerts). */
+export type MembershipChargeStatus = "pending" | "paid" | "processing" | "declined" | "rejected" | "duplicate" | "error";
+
+/** One Cayman charge of a membership and the checkout session that carried it to Mindbody. */
+export interface MembershipCharge {
+  id: number;
+  membershipId: number;
+  sessionId: string;
+  transactionId?: string;
+  kind: MembershipChargeKind;
+  status: MembershipChargeStatus;
+  detail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PLANS_TABLE_NAME = "membership_plans";
+const MEMBERSHIPS_TABLE_NAME = "memberships";
+const CHARGES_TABLE_NAME = "membership_charges";
+
+interface MembershipPlanRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  name: string;
+  item_type: string;
+  item_id: string;
+  amount: string | number;
+  frequency_days: number;
+  trial_days: number;
+  active: number;
+  created_by: string;
+  created_at: Date;
+}
+
+interface MembershipRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  plan_id: number;
+  plan_name: string;
+  item_type: string;
+  item_id: string;
+  amount: string | number;
+  frequency_days: number;
+  client_id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  status: string;
+  cayman_subscription_id: number | string | null;
+  cayman_customer_guid: string | null;
+  current_period_end: Date | null;
+  failed_attempts: number;
+  next_retry_at: Date | null;
+  cancelled_at: Date | null;
+  cancelled_by: string | null;
+  cancel_reason: string | null;
+  error: string | null;
+  created_by: string;
+  created_at: Date;
+  activated_at: Date | null;
+}
+
+interface MembershipChargeRow extends RowDataPacket {
+  id: number;
+  membership_id: number;
+  session_id: string;
+  transaction_id: string | null;
+  kind: string;
+  status: string;
+  detail: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PLAN_COLUMNS = "id, site_key, name, item_type, item_id, amount, frequency_days, trial_days, active, created_by, created_at";
+
+const MEMBERSHIP_COLUMNS =
+  "id, site_key, plan_id, plan_name, item_type, item_id, amount, frequency_days, client_id, email, first_name, last_name, status, cayman_subscription_id, cayman_customer_guid, current_period_end, failed_attempts, next_retry_at, cancelled_at, cancelled_by, cancel_reason, error, created_by, created_at, activated_at";
+
+const CHARGE_COLUMNS = "id, membership_id, session_id, transaction_id, kind, status, detail, created_at, updated_at";
+
+const projectPlanRow = (row: MembershipPlanRow): MembershipPlan => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  name: row.name,
+  itemType: row.item_type as MembershipItemType,
+  itemId: row.item_id,
+  amount: Number(row.amount),
+  frequencyDays: Number(row.frequency_days),
+  trialDays: Number(row.trial_days),
+  active: Boolean(row.active),
+  createdBy: row.created_by,
+  createdAt: row.created_at
+});
+
+const projectMembershipRow = (row: MembershipRow): Membership => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  planId: Number(row.plan_id),
+  planName: row.plan_name,
+  itemType: row.item_type as MembershipItemType,
+  itemId: row.item_id,
+  amount: Number(row.amount),
+  frequencyDays: Number(row.frequency_days),
+  clientId: row.client_id,
+  email: row.email,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  status: row.status as MembershipStatus,
+  caymanSubscriptionId: row.cayman_subscription_id === null ? undefined : Number(row.cayman_subscription_id),
+  caymanCustomerGuid: row.cayman_customer_guid ?? undefined,
+  currentPeriodEnd: row.current_period_end ?? undefined,
+  failedAttempts: Number(row.failed_attempts),
+  nextRetryAt: row.next_retry_at ?? undefined,
+  cancelledAt: row.cancelled_at ?? undefined,
+  cancelledBy: row.cancelled_by ?? undefined,
+  cancelReason: (row.cancel_reason as MembershipCancelReason | null) ?? undefined,
+  error: row.error ?? undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  activatedAt: row.activated_at ?? undefined
+});
+
+const projectChargeRow = (row: MembershipChargeRow): MembershipCharge => ({
+  id: Number(row.id),
+  membershipId: Number(row.membership_id),
+  sessionId: row.session_id,
+  transactionId: row.transaction_id ?? undefined,
+  kind: row.kind as MembershipChargeKind,
+  status: row.status as MembershipChargeStatus,
+  detail: row.detail ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  Boolean(error && typeof error === "object" && (error as { code?: string }).code === "ER_DUP_ENTRY");
+
+export const getMembershipPlan = async (id: number): Promise<MembershipPlan | undefined> => {
+  const rows = await query<MembershipPlanRow[]>(`SELECT ${PLAN_COLUMNS} FROM ${PLANS_TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectPlanRow(rows[0]) : undefined;
+};
+
+export const listMembershipPlans = async (siteKey: string, options: { includeInactive?: boolean } = {}): Promise<MembershipPlan[]> => {
+  const rows = await query<MembershipPlanRow[]>(
+    `SELECT ${PLAN_COLUMNS} FROM ${PLANS_TABLE_NAME}
+     WHERE site_key = ? ${options.includeInactive ? "" : "AND active = 1"} ORDER BY id DESC`,
+    [siteKey]
+  );
+  return rows.map(projectPlanRow);
+};
+
+export type NewMembershipPlan = Omit<MembershipPlan, "id" | "active" | "createdAt">;
+
+export const createMembershipPlan = async (input: NewMembershipPlan): Promise<MembershipPlan> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${PLANS_TABLE_NAME} (site_key, name, item_type, item_id, amount, frequency_days, trial_days, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.siteKey,
+      input.name.slice(0, 191),
+      input.itemType,
+      input.itemId,
+      input.amount,
+      input.frequencyDays,
+      input.trialDays,
+      input.createdBy.slice(0, 191)
+    ]
+  );
+  return (await getMembershipPlan(result.insertId)) as MembershipPlan;
+};
+
+/** Stops new sign-ups; existing memberships keep renewing on the terms they were sold with. */
+export const deactivateMembershipPlan = async (id: number): Promise<void> => {
+  await execute<ResultSetHeader>(`UPDATE ${PLANS_TABLE_NAME} SET active = 0 WHERE id = ?`, [id]);
+};
+
+export const getMembership = async (id: number): Promise<Membership | undefined> => {
+  const rows = await query<MembershipRow[]>(`SELECT ${MEMBERSHIP_COLUMNS} FROM ${MEMBERSHIPS_TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectMembershipRow(rows[0]) : undefined;
+};
+
+/** Looks up a membership by the hash of the token in its notification URL, whatever its status now. */
+export const findMembershipByNotifyToken = async (notifyTokenHash: string): Promise<Membership | undefined> => {
+  const rows = await query<MembershipRow[]>(
+    `SELECT ${MEMBERSHIP_COLUMNS} FROM ${MEMBERSHIPS_TABLE_NAME} WHERE notify_token_hash = ? LIMIT 1`,
+    [notifyTokenHash]
+  );
+  return rows.length ? projectMembershipRow(rows[0]) : undefined;
+};
+
+export const listMemberships = async (
+  filters: { siteKey?: string; clientId?: string; status?: MembershipStatus; limit?: number } = {}
+): Promise<Membership[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filters.siteKey);
+  }
+  if (filters.clientId) {
+    clauses.push("client_id = ?");
+    params.push(filters.clientId);
+  }
+  if (filters.status) {
+    clauses.push("status = ?");
+    params.push(filters.status);
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const rows = await query<MembershipRow[]>(
+    `SELECT ${MEMBERSHIP_COLUMNS} FROM ${MEMBERSHIPS_TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY created_at DESC, id DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectMembershipRow);
+};
+
+export interface NewMembership {
+  plan: MembershipPlan;
+  clientId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  notifyTokenHash: string;
+  createdBy: string;
+}
+
+export const createPendingMembership = async (input: NewMembership): Promise<number> => {
+  const { plan } = input;
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${MEMBERSHIPS_TABLE_NAME}
+       (site_key, plan_id, plan_name, item_type, item_id, amount, frequency_days, client_id, email, first_name, last_name, notify_token_hash, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      plan.siteKey,
+      plan.id,
+      plan.name,
+      plan.itemType,
+      plan.itemId,
+      plan.amount,
+      plan.frequencyDays,
+      input.clientId,
+      input.email,
+      input.firstName.slice(0, 100),
+      input.lastName.slice(0, 100),
+      input.notifyTokenHash,
+      input.createdBy.slice(0, 191)
+    ]
+  );
+  return result.insertId;
+};
+
+/** Only a pending membership can be activated, so a notify token ties to at most one Cayman subscription. */
+export const activateMembership = async (
+  id: number,
+  details: { subscriptionId: number; customerGuid: string; currentPeriodEnd?: Date }
+): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME}
+     SET status = 'active', cayman_subscription_id = ?, cayman_customer_guid = ?, current_period_end = ?, activated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'pending'`,
+    [details.subscriptionId, details.customerGuid.slice(0, 64), details.currentPeriodEnd ?? null, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const failMembership = async (id: number, error: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME} SET status = 'failed', error = ? WHERE id = ? AND status = 'pending'`,
+    [error.slice(0, 500), id]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * Records a successful charge: the paid period runs on from the later of now and the current period end,
+ * and a past-due membership is active again. Cancelled memberships keep their status.
+ */
+export const recordMembershipPaid = async (id: number, frequencyDays: number): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME}
+     SET current_period_end = DATE_ADD(GREATEST(COALESCE(current_period_end, CURRENT_TIMESTAMP), CURRENT_TIMESTAMP), INTERVAL ? DAY),
+         status = IF(status = 'past_due', 'active', status), failed_attempts = 0, next_retry_at = NULL, error = NULL
+     WHERE id = ?`,
+    [frequencyDays, id]
+  );
+};
+
+/** Records a declined renewal; `nextRetryAt` is when dunning charges again. */
+export const recordMembershipDeclined = async (id: number, nextRetryAt: Date, error: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME}
+     SET status = 'past_due', failed_attempts = failed_attempts + 1, next_retry_at = ?, error = ?
+     WHERE id = ? AND status IN ('active', 'past_due')`,
+    [nextRetryAt, error.slice(0, 500), id]
+  );
+};
+
+/** Puts a retry off without counting it as declined, e.g. when Cayman could not be reached. */
+export const postponeMembershipRetry = async (id: number, nextRetryAt: Date, error: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME} SET next_retry_at = ?, error = ? WHERE id = ? AND status = 'past_due'`,
+    [nextRetryAt, error.slice(0, 500), id]
+  );
+};
+
+/**
+ * Claims past-due memberships whose retry is due by pushing their retry time `leaseMs` ahead; only the
+ * instance whose update lands runs each retry, and a retry whose worker died runs again after the lease.
+ */
+export const claimDueMembershipRetries = async (limit: number, leaseMs: number): Promise<Membership[]> => {
+  const now = new Date();
+  const rows = await query<MembershipRow[]>(
+    `SELECT ${MEMBERSHIP_COLUMNS} FROM ${MEMBERSHIPS_TABLE_NAME}
+     WHERE status = 'past_due' AND next_retry_at <= ? ORDER BY next_retry_at ASC LIMIT ?`,
+    [now, limit]
+  );
+
+  const claimed: Membership[] = [];
+  for (const row of rows) {
+    const result = await execute<ResultSetHeader>(
+      `UPDATE ${MEMBERSHIPS_TABLE_NAME} SET next_retry_at = ? WHERE id = ? AND status = 'past_due' AND next_retry_at = ?`,
+      [new Date(now.getTime() + leaseMs), row.id, row.next_retry_at]
+    );
+    if (result.affectedRows > 0) {
+      claimed.push(projectMembershipRow(row));
+    }
+  }
+  return claimed;
+};
+
+export const cancelMembershipRecord = async (id: number, by: string, reason: MembershipCancelReason): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${MEMBERSHIPS_TABLE_NAME}
+     SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, cancelled_by = ?, cancel_reason = ?, next_retry_at = NULL
+     WHERE id = ? AND status IN ('pending', 'active', 'past_due')`,
+    [by.slice(0, 191), reason, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const listMembershipCharges = async (membershipId: number): Promise<MembershipCharge[]> => {
+  const rows = await query<MembershipChargeRow[]>(
+    `SELECT ${CHARGE_COLUMNS} FROM ${CHARGES_TABLE_NAME} WHERE membership_id = ? ORDER BY id DESC LIMIT 200`,
+    [membershipId]
+  );
+  return rows.map(projectChargeRow);
+};
+
+export const findMembershipChargeByTransactionId = async (transactionId: string): Promise<MembershipCharge | undefined> => {
+  const rows = await query<MembershipChargeRow[]>(
+    `SELECT ${CHARGE_COLUMNS} FROM ${CHARGES_TABLE_NAME} WHERE transaction_id = ? LIMIT 1`,
+    [transactionId]
+  );
+  return rows.length ? projectChargeRow(rows[0]) : undefined;
+};
+
+export const findMembershipChargeBySessionId = async (sessionId: string): Promise<MembershipCharge | undefined> => {
+  const rows = await query<MembershipChargeRow[]>(
+    `SELECT ${CHARGE_COLUMNS} FROM ${CHARGES_TABLE_NAME} WHERE session_id = ? LIMIT 1`,
+    [sessionId]
+  );
+  return rows.length ? projectChargeRow(rows[0]) : undefined;
+};
+
+/**
+ * Returns `undefined` when another charge already holds `transactionId`: each Cayman transaction
+ * becomes at most one checkout session, and so at most one Mindbody sale.
+ */
+export const createMembershipCharge = async (input: {
+  membershipId: number;
+  sessionId: string;
+  transactionId?: string;
+  kind: MembershipChargeKind;
+}): Promise<number | undefined> => {
+  try {
+    const result = await execute<ResultSetHeader>(
+      `INSERT INTO ${CHARGES_TABLE_NAME} (membership_id, session_id, transaction_id, kind) VALUES (?, ?, ?, ?)`,
+      [input.membershipId, input.sessionId, input.transactionId ?? null, input.kind]
+    );
+    return result.insertId;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/** Returns `false` when another charge already holds `transactionId`. */
+export const attachMembershipChargeTransaction = async (id: number, transactionId: string): Promise<boolean> => {
+  try {
+    const result = await execute<ResultSetHeader>(
+      `UPDATE ${CHARGES_TABLE_NAME} SET transaction_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND transaction_id IS NULL`,
+      [transactionId, id]
+    );
+    return result.affectedRows > 0;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/** With `from`, only a charge currently in one of those statuses moves, so concurrent settlements count once. */
+export const updateMembershipChargeStatus = async (
+  id: number,
+  status: MembershipChargeStatus,
+  detail?: string,
+  from?: ReadonlyArray<MembershipChargeStatus>
+): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${CHARGES_TABLE_NAME} SET status = ?, detail = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? ${from?.length ? `AND status IN (${from.map(() => "?").join(", ")})` : ""}`,
+    [status, detail?.slice(0, 500) ?? null, id, ...(from ?? [])]
+  );
+  return result.affectedRows > 0;
+};
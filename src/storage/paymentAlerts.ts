@@ -0,0 +1,153 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export type PaymentAlertKind =
+  | "amount_mismatch"
+  | "currency_mismatch"
+  | "order_mismatch"
+  | "transaction_not_found"
+  | "transaction_not_approved"
+  | "transaction_reused";
+
+export type PaymentAlertStatus = "open" | "resolved";
+
+/** A notification claimed a payment that Cayman's own record contradicts; held for review instead of fulfilled. */
+export interface PaymentAlert {
+  id: number;
+  siteKey: string;
+  sessionId?: string;
+  transactionId?: string;
+  kind: PaymentAlertKind;
+  /** Where the notification came from (`webhook:post`, `return`, ...). */
+  source: string;
+  message: string;
+  /** What the session expected and what Cayman reported, field by field. */
+  expected: Record<string, unknown>;
+  actual: Record<string, unknown>;
+  status: PaymentAlertStatus;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+}
+
+const TABLE_NAME = "payment_alerts";
+
+interface PaymentAlertRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  session_id: string | null;
+  transaction_id: string | null;
+  kind: string;
+  source: string;
+  message: string;
+  expected: string | Record<string, unknown> | null;
+  actual: string | Record<string, unknown> | null;
+  status: string;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  resolution_note: string | null;
+  created_at: Date;
+}
+
+const COLUMNS =
+  "id, site_key, session_id, transaction_id, kind, source, message, expected, actual, status, resolved_by, resolved_at, resolution_note, created_at";
+
+const parseJson = (value: string | Record<string, unknown> | null): Record<string, unknown> => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as Record<string, unknown>;
+    } catch (_err) {
+      return {};
+    }
+  }
+  return value ?? {};
+};
+
+const projectRow = (row: PaymentAlertRow): PaymentAlert => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  sessionId: row.session_id ?? undefined,
+  transactionId: row.transaction_id ?? undefined,
+  kind: row.kind as PaymentAlertKind,
+  source: row.source,
+  message: row.message,
+  expected: parseJson(row.expected),
+  actual: parseJson(row.actual),
+  status: row.status as PaymentAlertStatus,
+  resolvedBy: row.resolved_by ?? undefined,
+  resolvedAt: row.resolved_at ?? undefined,
+  resolutionNote: row.resolution_note ?? undefined,
+  createdAt: row.created_at
+});
+
+export const getPaymentAlert = async (id: number): Promise<PaymentAlert | undefined> => {
+  const rows = await query<PaymentAlertRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export interface NewPaymentAlert {
+  siteKey: string;
+  sessionId?: string;
+  transactionId?: string;
+  kind: PaymentAlertKind;
+  source: string;
+  message: string;
+  expected: Record<string, unknown>;
+  actual: Record<string, unknown>;
+}
+
+export const createPaymentAlert = async (alert: NewPaymentAlert): Promise<number> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${TABLE_NAME} (site_key, session_id, transaction_id, kind, source, message, expected, actual)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      alert.siteKey,
+      alert.sessionId ?? null,
+      alert.transactionId?.slice(0, 191) ?? null,
+      alert.kind,
+      alert.source.slice(0, 32),
+      alert.message.slice(0, 500),
+      JSON.stringify(alert.expected),
+      JSON.stringify(alert.actual)
+    ]
+  );
+  return result.insertId;
+};
+
+export const listPaymentAlerts = async (
+  filters: { siteKey?: string; status?: PaymentAlertStatus; sessionId?: string; limit?: number } = {}
+): Promise<PaymentAlert[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filters.siteKey);
+  }
+  if (filters.status) {
+    clauses.push("status = ?");
+    params.push(filters.status);
+  }
+  if (filters.sessionId) {
+    clauses.push("session_id = ?");
+    params.push(filters.sessionId);
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const rows = await query<PaymentAlertRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY created_at DESC, id DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectRow);
+};
+
+export const resolvePaymentAlert = async (id: number, resolvedBy: string, note?: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'resolved', resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_note = ?
+     WHERE id = ? AND status = 'open'`,
+    [resolvedBy, note ?? null, id]
+  );
+  return result.affectedRows > 0;
+};
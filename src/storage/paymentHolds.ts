@@ -0,0 +1,258 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export type PaymentHoldVisitType = "class" | "appointment";
+
+/**
+ * `pending` until Cayman's authorization notification arrives; `failed` if the card was not authorized.
+ * An `authorized` hold ends `captured` once the client checks in, or `voided`.
+ */
+export type PaymentHoldStatus = "pending" | "authorized" | "captured" | "voided" | "failed";
+
+/**
+ * `late_cancel`: Mindbody reports a late cancellation. `cancelled`: the booking was cancelled or is gone
+ * once the visit started. `hold_expired`: nobody checked in within the hold period. `staff`: voided by hand.
+ */
+export type PaymentHoldVoidReason = "late_cancel" | "cancelled" | "hold_expired" | "staff";
+
+/** An authorization on the client's card for one Mindbody booking, captured when the visit is attended. */
+export interface PaymentHold {
+  id: number;
+  siteKey: string;
+  /** Checkout session carrying the lines and total; it is fulfilled in Mindbody only on capture. */
+  sessionId: string;
+  clientId: string;
+  visitType: PaymentHoldVisitType;
+  /** Mindbody class id or appointment id of the booking. */
+  visitId: string;
+  visitStartsAt: Date;
+  amount: number;
+  status: PaymentHoldStatus;
+  /** Cayman's authorization; then the capture's transaction id, when Cayman issues a new one. */
+  transactionId?: string;
+  captureTransactionId?: string;
+  /** The authorization is voided if it is still uncaptured by then. */
+  holdExpiresAt: Date;
+  /** When the worker next looks at the booking; pushed ahead while a capture or void runs, unset once staff must decide. */
+  nextCheckAt?: Date;
+  voidReason?: PaymentHoldVoidReason;
+  error?: string;
+  createdBy: string;
+  createdAt: Date;
+  authorizedAt?: Date;
+  settledBy?: string;
+  capturedAt?: Date;
+  voidedAt?: Date;
+}
+
+const TABLE_NAME = "payment_holds";
+
+interface PaymentHoldRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  session_id: string;
+  client_id: string;
+  visit_type: string;
+  visit_id: string;
+  visit_starts_at: Date;
+  amount: string | number;
+  status: string;
+  transaction_id: string | null;
+  capture_transaction_id: string | null;
+  hold_expires_at: Date;
+  next_check_at: Date | null;
+  void_reason: string | null;
+  error: string | null;
+  created_by: string;
+  created_at: Date;
+  authorized_at: Date | null;
+  settled_by: string | null;
+  captured_at: Date | null;
+  voided_at: Date | null;
+}
+
+const COLUMNS =
+  "id, site_key, session_id, client_id, visit_type, visit_id, visit_starts_at, amount, status, transaction_id, capture_transaction_id, hold_expires_at, next_check_at, void_reason, error, created_by, created_at, authorized_at, settled_by, captured_at, voided_at";
+
+const projectRow = (row: PaymentHoldRow): PaymentHold => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  sessionId: row.session_id,
+  clientId: row.client_id,
+  visitType: row.visit_type as PaymentHoldVisitType,
+  visitId: row.visit_id,
+  visitStartsAt: row.visit_starts_at,
+  amount: Number(row.amount),
+  status: row.status as PaymentHoldStatus,
+  transactionId: row.transaction_id ?? undefined,
+  captureTransactionId: row.capture_transaction_id ?? undefined,
+  holdExpiresAt: row.hold_expires_at,
+  nextCheckAt: row.next_check_at ?? undefined,
+  voidReason: (row.void_reason as PaymentHoldVoidReason | null) ?? undefined,
+  error: row.error ?? undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  authorizedAt: row.authorized_at ?? undefined,
+  settledBy: row.settled_by ?? undefined,
+  capturedAt: row.captured_at ?? undefined,
+  voidedAt: row.voided_at ?? undefined
+});
+
+export const getPaymentHold = async (id: number): Promise<PaymentHold | undefined> => {
+  const rows = await query<PaymentHoldRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** Looks up a hold by the hash of the token in its notification URL, whatever its status now. */
+export const findPaymentHoldByToken = async (holdTokenHash: string): Promise<PaymentHold | undefined> => {
+  const rows = await query<PaymentHoldRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE hold_token_hash = ? LIMIT 1`, [
+    holdTokenHash
+  ]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const findPaymentHoldBySessionId = async (sessionId: string): Promise<PaymentHold | undefined> => {
+  const rows = await query<PaymentHoldRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE session_id = ? LIMIT 1`, [sessionId]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const listPaymentHolds = async (
+  filters: { siteKey?: string; clientId?: string; status?: PaymentHoldStatus; limit?: number } = {}
+): Promise<PaymentHold[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filters.siteKey);
+  }
+  if (filters.clientId) {
+    clauses.push("client_id = ?");
+    params.push(filters.clientId);
+  }
+  if (filters.status) {
+    clauses.push("status = ?");
+    params.push(filters.status);
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const rows = await query<PaymentHoldRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY visit_starts_at DESC, id DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectRow);
+};
+
+export interface NewPaymentHold {
+  siteKey: string;
+  sessionId: string;
+  clientId: string;
+  visitType: PaymentHoldVisitType;
+  visitId: string;
+  visitStartsAt: Date;
+  amount: number;
+  holdExpiresAt: Date;
+  holdTokenHash: string;
+  createdBy: string;
+}
+
+export const createPendingPaymentHold = async (input: NewPaymentHold): Promise<number> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${TABLE_NAME}
+       (site_key, session_id, client_id, visit_type, visit_id, visit_starts_at, amount, hold_expires_at, hold_token_hash, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.siteKey,
+      input.sessionId,
+      input.clientId,
+      input.visitType,
+      input.visitId,
+      input.visitStartsAt,
+      input.amount,
+      input.holdExpiresAt,
+      input.holdTokenHash,
+      input.createdBy.slice(0, 191)
+    ]
+  );
+  return result.insertId;
+};
+
+/** Only a pending hold can be authorized; the worker first looks at its booking at `nextCheckAt`. */
+export const authorizePaymentHold = async (id: number, transactionId: string, nextCheckAt: Date): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = 'authorized', transaction_id = ?, authorized_at = CURRENT_TIMESTAMP, next_check_at = ?
+     WHERE id = ? AND status = 'pending'`,
+    [transactionId.slice(0, 64), nextCheckAt, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const failPaymentHold = async (id: number, error: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'failed', error = ? WHERE id = ? AND status = 'pending'`,
+    [error.slice(0, 500), id]
+  );
+  return result.affectedRows > 0;
+};
+
+const claimSql = `UPDATE ${TABLE_NAME} SET next_check_at = ?
+  WHERE id = ? AND status = 'authorized' AND (next_check_at IS NULL OR next_check_at <= ?)`;
+
+/**
+ * Claims authorized holds that are due for a look by pushing their next check `leaseMs` ahead; only the
+ * instance whose update lands handles each one, and a hold whose worker died comes round again after the lease.
+ */
+export const claimDuePaymentHolds = async (limit: number, leaseMs: number): Promise<PaymentHold[]> => {
+  const now = new Date();
+  const rows = await query<PaymentHoldRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME}
+     WHERE status = 'authorized' AND next_check_at IS NOT NULL AND next_check_at <= ? ORDER BY next_check_at ASC LIMIT ?`,
+    [now, limit]
+  );
+
+  const claimed: PaymentHold[] = [];
+  for (const row of rows) {
+    const result = await execute<ResultSetHeader>(claimSql, [new Date(now.getTime() + leaseMs), row.id, now]);
+    if (result.affectedRows > 0) {
+      claimed.push(projectRow(row));
+    }
+  }
+  return claimed;
+};
+
+/** For a capture or void asked for by hand; `false` while the worker (or someone else) has the hold. */
+export const claimPaymentHold = async (id: number, leaseMs: number): Promise<boolean> => {
+  const now = new Date();
+  const result = await execute<ResultSetHeader>(claimSql, [new Date(now.getTime() + leaseMs), id, now]);
+  return result.affectedRows > 0;
+};
+
+/** Hands a claimed hold back, to be looked at again at `nextCheckAt`; `null` leaves it for staff. */
+export const releasePaymentHold = async (id: number, nextCheckAt: Date | null, error?: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET next_check_at = ?, error = COALESCE(?, error) WHERE id = ? AND status = 'authorized'`,
+    [nextCheckAt, error?.slice(0, 500) ?? null, id]
+  );
+};
+
+export const markPaymentHoldCaptured = async (id: number, by: string, captureTransactionId?: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = 'captured', capture_transaction_id = ?, settled_by = ?, captured_at = CURRENT_TIMESTAMP, next_check_at = NULL, error = NULL
+     WHERE id = ? AND status = 'authorized'`,
+    [captureTransactionId?.slice(0, 64) ?? null, by.slice(0, 191), id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const markPaymentHoldVoided = async (id: number, by: string, reason: PaymentHoldVoidReason): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = 'voided', void_reason = ?, settled_by = ?, voided_at = CURRENT_TIMESTAMP, next_check_at = NULL, error = NULL
+     WHERE id = ? AND status = 'authorized'`,
+    [reason, by.slice(0, 191), id]
+  );
+  return result.affectedRows > 0;
+};
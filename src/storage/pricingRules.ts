@@ -0,0 +1,213 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export type PricingRuleKind = "fixed_price" | "percent_off" | "amount_off";
+
+export interface PricingRule {
+  id: number;
+  siteKey: string;
+  /** `undefined` matches any item type / any item. */
+  itemType?: string;
+  itemId?: string;
+  kind: PricingRuleKind;
+  value: number;
+  minPrice?: number;
+  active: boolean;
+  startsAt?: Date;
+  endsAt?: Date;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type PriceOverrideContext = "paylink" | "checkout";
+
+export interface PriceOverride {
+  id: number;
+  ruleId: number;
+  siteKey: string;
+  itemType: string;
+  itemId: string;
+  catalogPrice: number;
+  finalPrice: number;
+  /** The authenticated approver: an account's email, `api-key:<prefix>` or `shared-secret`. */
+  signedBy: string;
+  context: PriceOverrideContext;
+  /** The name the caller gave as `signedBy`, unverified. */
+  note?: string;
+  createdAt: Date;
+}
+
+const RULES_TABLE_NAME = "pricing_rules";
+const OVERRIDES_TABLE_NAME = "price_overrides";
+
+interface PricingRuleRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  item_type: string | null;
+  item_id: string | null;
+  kind: string;
+  value: string | number;
+  min_price: string | number | null;
+  active: number;
+  starts_at: Date | null;
+  ends_at: Date | null;
+  note: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+interface PriceOverrideRow extends RowDataPacket {
+  id: number;
+  rule_id: number;
+  site_key: string;
+  item_type: string;
+  item_id: string;
+  catalog_price: string | number;
+  final_price: string | number;
+  signed_by: string;
+  context: string;
+  note: string | null;
+  created_at: Date;
+}
+
+const RULE_COLUMNS =
+  "id, site_key, item_type, item_id, kind, value, min_price, active, starts_at, ends_at, note, created_by, created_at";
+
+const OVERRIDE_COLUMNS =
+  "id, rule_id, site_key, item_type, item_id, catalog_price, final_price, signed_by, context, note, created_at";
+
+const projectRuleRow = (row: PricingRuleRow): PricingRule => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  itemType: row.item_type ?? undefined,
+  itemId: row.item_id ?? undefined,
+  kind: row.kind as PricingRuleKind,
+  value: Number(row.value),
+  minPrice: row.min_price === null ? undefined : Number(row.min_price),
+  active: Boolean(row.active),
+  startsAt: row.starts_at ?? undefined,
+  endsAt: row.ends_at ?? undefined,
+  note: row.note ?? undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at
+});
+
+const projectOverrideRow = (row: PriceOverrideRow): PriceOverride => ({
+  id: Number(row.id),
+  ruleId: Number(row.rule_id),
+  siteKey: row.site_key,
+  itemType: row.item_type,
+  itemId: row.item_id,
+  catalogPrice: Number(row.catalog_price),
+  finalPrice: Number(row.final_price),
+  signedBy: row.signed_by,
+  note: row.note ?? undefined,
+  context: row.context as PriceOverrideContext,
+  createdAt: row.created_at
+});
+
+export const getPricingRule = async (id: number): Promise<PricingRule | undefined> => {
+  const rows = await query<PricingRuleRow[]>(`SELECT ${RULE_COLUMNS} FROM ${RULES_TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRuleRow(rows[0]) : undefined;
+};
+
+export const listPricingRules = async (siteKey?: string): Promise<PricingRule[]> => {
+  const rows = await query<PricingRuleRow[]>(
+    `SELECT ${RULE_COLUMNS} FROM ${RULES_TABLE_NAME} ${siteKey ? "WHERE site_key = ?" : ""} ORDER BY id DESC`,
+    siteKey ? [siteKey] : []
+  );
+  return rows.map(projectRuleRow);
+};
+
+export interface CreatePricingRuleInput {
+  siteKey: string;
+  itemType?: string;
+  itemId?: string;
+  kind: PricingRuleKind;
+  value: number;
+  minPrice?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  note?: string;
+  createdBy: string;
+}
+
+export const createPricingRule = async (input: CreatePricingRuleInput): Promise<PricingRule> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${RULES_TABLE_NAME} (site_key, item_type, item_id, kind, value, min_price, active, starts_at, ends_at, note, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?)`,
+    [
+      input.siteKey,
+      input.itemType ?? null,
+      input.itemId ?? null,
+      input.kind,
+      input.value.toFixed(2),
+      input.minPrice === undefined ? null : input.minPrice.toFixed(2),
+      input.startsAt ?? null,
+      input.endsAt ?? null,
+      input.note ?? null,
+      input.createdBy
+    ]
+  );
+
+  const created = await getPricingRule(result.insertId);
+  if (!created) {
+    throw new Error("Failed to load pricing rule after insert");
+  }
+  return created;
+};
+
+export const deactivatePricingRule = async (id: number): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(`UPDATE ${RULES_TABLE_NAME} SET active = 0 WHERE id = ? AND active = 1`, [id]);
+  return result.affectedRows > 0;
+};
+
+export type RecordPriceOverrideInput = Omit<PriceOverride, "id" | "createdAt">;
+
+export const recordPriceOverride = async (input: RecordPriceOverrideInput): Promise<void> => {
+  await execute(
+    `INSERT INTO ${OVERRIDES_TABLE_NAME} (rule_id, site_key, item_type, item_id, catalog_price, final_price, signed_by, context, note)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.ruleId,
+      input.siteKey,
+      input.itemType,
+      input.itemId,
+      input.catalogPrice.toFixed(2),
+      input.finalPrice.toFixed(2),
+      input.signedBy,
+      input.context,
+      input.note ?? null
+    ]
+  );
+};
+
+export interface ListPriceOverridesFilter {
+  siteKey?: string;
+  ruleId?: number;
+  limit?: number;
+}
+
+export const listPriceOverrides = async (filter: ListPriceOverridesFilter = {}): Promise<PriceOverride[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filter.siteKey);
+  }
+  if (filter.ruleId) {
+    clauses.push("rule_id = ?");
+    params.push(filter.ruleId);
+  }
+
+  const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500);
+
+  const rows = await query<PriceOverrideRow[]>(
+    `SELECT ${OVERRIDE_COLUMNS} FROM ${OVERRIDES_TABLE_NAME} ${where} ORDER BY id DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectOverrideRow);
+};
@@ -0,0 +1,302 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query, withTransaction } from "../db/mysql.js";
+
+export type PromoKind = "percent_off" | "amount_off";
+
+export interface PromoCode {
+  id: number;
+  /** Stored upper-case; lookups are case-insensitive. */
+  code: string;
+  siteKey: string;
+  kind: PromoKind;
+  value: number;
+  /** `undefined` discounts every line; otherwise only lines of this type / item. */
+  itemType?: string;
+  itemId?: string;
+  firstPurchaseOnly: boolean;
+  maxRedemptions?: number;
+  maxPerEmail?: number;
+  active: boolean;
+  startsAt?: Date;
+  endsAt?: Date;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * `reserved` holds a use of the code while the customer pays; it counts against the caps until it is
+ * `redeemed` (payment confirmed), `released` (payment abandoned) or older than the reservation window.
+ */
+export type PromoRedemptionStatus = "reserved" | "redeemed" | "released";
+
+export interface PromoRedemption {
+  id: number;
+  promoCodeId: number;
+  /** Checkout session id, or the payment reference for tenant paylinks. */
+  reference: string;
+  email?: string;
+  discount: number;
+  status: PromoRedemptionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CODES_TABLE_NAME = "promo_codes";
+const REDEMPTIONS_TABLE_NAME = "promo_redemptions";
+
+interface PromoCodeRow extends RowDataPacket {
+  id: number;
+  code: string;
+  site_key: string;
+  kind: string;
+  value: string | number;
+  item_type: string | null;
+  item_id: string | null;
+  first_purchase_only: number;
+  max_redemptions: number | null;
+  max_per_email: number | null;
+  active: number;
+  starts_at: Date | null;
+  ends_at: Date | null;
+  note: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+interface PromoRedemptionRow extends RowDataPacket {
+  id: number;
+  promo_code_id: number;
+  reference: string;
+  email: string | null;
+  discount: string | number;
+  status: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CountRow extends RowDataPacket {
+  total: number | string;
+  per_email: number | string | null;
+}
+
+const CODE_COLUMNS =
+  "id, code, site_key, kind, value, item_type, item_id, first_purchase_only, max_redemptions, max_per_email, active, starts_at, ends_at, note, created_by, created_at";
+
+const REDEMPTION_COLUMNS = "id, promo_code_id, reference, email, discount, status, created_at, updated_at";
+
+const projectCodeRow = (row: PromoCodeRow): PromoCode => ({
+  id: Number(row.id),
+  code: row.code,
+  siteKey: row.site_key,
+  kind: row.kind as PromoKind,
+  value: Number(row.value),
+  itemType: row.item_type ?? undefined,
+  itemId: row.item_id ?? undefined,
+  firstPurchaseOnly: Boolean(row.first_purchase_only),
+  maxRedemptions: row.max_redemptions === null ? undefined : Number(row.max_redemptions),
+  maxPerEmail: row.max_per_email === null ? undefined : Number(row.max_per_email),
+  active: Boolean(row.active),
+  startsAt: row.starts_at ?? undefined,
+  endsAt: row.ends_at ?? undefined,
+  note: row.note ?? undefined,
+  createdBy: row.created_by,
+  createdAt: row.created_at
+});
+
+const projectRedemptionRow = (row: PromoRedemptionRow): PromoRedemption => ({
+  id: Number(row.id),
+  promoCodeId: Number(row.promo_code_id),
+  reference: row.reference,
+  email: row.email ?? undefined,
+  discount: Number(row.discount),
+  status: row.status as PromoRedemptionStatus,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+export const getPromoCode = async (id: number): Promise<PromoCode | undefined> => {
+  const rows = await query<PromoCodeRow[]>(`SELECT ${CODE_COLUMNS} FROM ${CODES_TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectCodeRow(rows[0]) : undefined;
+};
+
+export const findPromoCode = async (siteKey: string, code: string): Promise<PromoCode | undefined> => {
+  const rows = await query<PromoCodeRow[]>(
+    `SELECT ${CODE_COLUMNS} FROM ${CODES_TABLE_NAME} WHERE site_key = ? AND code = ? LIMIT 1`,
+    [siteKey, normalizePromoCode(code)]
+  );
+  return rows.length ? projectCodeRow(rows[0]) : undefined;
+};
+
+export const listPromoCodes = async (siteKey?: string): Promise<PromoCode[]> => {
+  const rows = await query<PromoCodeRow[]>(
+    `SELECT ${CODE_COLUMNS} FROM ${CODES_TABLE_NAME} ${siteKey ? "WHERE site_key = ?" : ""} ORDER BY id DESC`,
+    siteKey ? [siteKey] : []
+  );
+  return rows.map(projectCodeRow);
+};
+
+export interface CreatePromoCodeInput {
+  code: string;
+  siteKey: string;
+  kind: PromoKind;
+  value: number;
+  itemType?: string;
+  itemId?: string;
+  firstPurchaseOnly?: boolean;
+  maxRedemptions?: number;
+  maxPerEmail?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  note?: string;
+  createdBy: string;
+}
+
+export const createPromoCode = async (input: CreatePromoCodeInput): Promise<PromoCode> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${CODES_TABLE_NAME} (code, site_key, kind, value, item_type, item_id, first_purchase_only, max_redemptions, max_per_email, active, starts_at, ends_at, note, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?)`,
+    [
+      normalizePromoCode(input.code),
+      input.siteKey,
+      input.kind,
+      input.value.toFixed(2),
+      input.itemType ?? null,
+      input.itemId ?? null,
+      input.firstPurchaseOnly ? 1 : 0,
+      input.maxRedemptions ?? null,
+      input.maxPerEmail ?? null,
+      input.startsAt ?? null,
+      input.endsAt ?? null,
+      input.note ?? null,
+      input.createdBy
+    ]
+  );
+
+  const created = await getPromoCode(result.insertId);
+  if (!created) {
+    throw new Error("Failed to load promo code after insert");
+  }
+  return created;
+};
+
+export const deactivatePromoCode = async (id: number): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(`UPDATE ${CODES_TABLE_NAME} SET active = 0 WHERE id = ? AND active = 1`, [id]);
+  return result.affectedRows > 0;
+};
+
+// Reservations older than `reservedSince` are treated as abandoned checkouts and stop counting.
+const USAGE_SQL = `SELECT COUNT(*) AS total, SUM(email = ?) AS per_email FROM ${REDEMPTIONS_TABLE_NAME}
+  WHERE promo_code_id = ? AND (status = 'redeemed' OR (status = 'reserved' AND created_at > ?))`;
+
+const projectUsage = (rows: CountRow[]): { total: number; perEmail: number } => ({
+  total: Number(rows[0]?.total ?? 0),
+  perEmail: Number(rows[0]?.per_email ?? 0)
+});
+
+/** Read-only cap check for previews (paylink signing); `reservePromoRedemption` re-checks under a lock. */
+export const getPromoUsage = async (
+  promoCodeId: number,
+  email: string | undefined,
+  reservedSince: Date
+): Promise<{ total: number; perEmail: number }> =>
+  projectUsage(await query<CountRow[]>(USAGE_SQL, [email ?? null, promoCodeId, reservedSince]));
+
+export interface ReservePromoRedemptionInput {
+  promoCodeId: number;
+  reference: string;
+  email?: string;
+  discount: number;
+  maxRedemptions?: number;
+  maxPerEmail?: number;
+  /** Reservations older than this no longer count against the caps. */
+  reservedSince: Date;
+}
+
+export type ReservePromoRedemptionResult =
+  | { kind: "reserved"; redemption: PromoRedemption }
+  | { kind: "exhausted" }
+  | { kind: "email_limit" };
+
+/**
+ * Checks the caps and records the reservation under the promo row lock so concurrent checkouts cannot overshoot.
+ * A reference that already holds a live reservation gets it back without counting again; a released or lapsed
+ * one is reserved afresh, and a redeemed one counts as this customer's use.
+ */
+export const reservePromoRedemption = async (input: ReservePromoRedemptionInput): Promise<ReservePromoRedemptionResult> =>
+  withTransaction(async (conn: PoolConnection): Promise<ReservePromoRedemptionResult> => {
+    await conn.query(`SELECT id FROM ${CODES_TABLE_NAME} WHERE id = ? FOR UPDATE`, [input.promoCodeId]);
+
+    const [existingRows] = await conn.query<PromoRedemptionRow[]>(
+      `SELECT ${REDEMPTION_COLUMNS} FROM ${REDEMPTIONS_TABLE_NAME} WHERE reference = ? FOR UPDATE`,
+      [input.reference]
+    );
+    const existing = existingRows[0] ? projectRedemptionRow(existingRows[0]) : undefined;
+    if (existing?.status === "redeemed") {
+      return { kind: "email_limit" };
+    }
+    if (existing?.status === "reserved" && existing.promoCodeId === input.promoCodeId && existing.createdAt > input.reservedSince) {
+      return { kind: "reserved", redemption: existing };
+    }
+
+    const [usageRows] = await conn.query<CountRow[]>(USAGE_SQL, [input.email ?? null, input.promoCodeId, input.reservedSince]);
+    const usage = projectUsage(usageRows);
+    if (input.maxRedemptions !== undefined && usage.total >= input.maxRedemptions) {
+      return { kind: "exhausted" };
+    }
+    if (input.maxPerEmail !== undefined && usage.perEmail >= input.maxPerEmail) {
+      return { kind: "email_limit" };
+    }
+
+    if (existing) {
+      await conn.execute<ResultSetHeader>(
+        `UPDATE ${REDEMPTIONS_TABLE_NAME}
+         SET promo_code_id = ?, email = ?, discount = ?, status = 'reserved', created_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [input.promoCodeId, input.email ?? null, input.discount.toFixed(2), existing.id]
+      );
+    } else {
+      await conn.execute<ResultSetHeader>(
+        `INSERT INTO ${REDEMPTIONS_TABLE_NAME} (promo_code_id, reference, email, discount, status) VALUES (?, ?, ?, ?, 'reserved')`,
+        [input.promoCodeId, input.reference, input.email ?? null, input.discount.toFixed(2)]
+      );
+    }
+
+    const [rows] = await conn.query<PromoRedemptionRow[]>(
+      `SELECT ${REDEMPTION_COLUMNS} FROM ${REDEMPTIONS_TABLE_NAME} WHERE reference = ?`,
+      [input.reference]
+    );
+    return { kind: "reserved", redemption: projectRedemptionRow(rows[0]) };
+  });
+
+/** A released reservation can still be redeemed: Cayman may approve a retry after reporting a failure. */
+export const setPromoRedemptionStatus = async (
+  reference: string,
+  status: Exclude<PromoRedemptionStatus, "reserved">
+): Promise<boolean> => {
+  const from = status === "redeemed" ? "status IN ('reserved', 'released')" : "status = 'reserved'";
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${REDEMPTIONS_TABLE_NAME} SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE reference = ? AND ${from}`,
+    [status, reference]
+  );
+  return result.affectedRows > 0;
+};
+
+export const hasRedeemedAnyPromo = async (siteKey: string, email: string): Promise<boolean> => {
+  const rows = await query<RowDataPacket[]>(
+    `SELECT r.id FROM ${REDEMPTIONS_TABLE_NAME} r JOIN ${CODES_TABLE_NAME} c ON c.id = r.promo_code_id
+     WHERE c.site_key = ? AND r.email = ? AND r.status = 'redeemed' LIMIT 1`,
+    [siteKey, email]
+  );
+  return rows.length > 0;
+};
+
+export const listPromoRedemptions = async (promoCodeId: number, limit = 100): Promise<PromoRedemption[]> => {
+  const rows = await query<PromoRedemptionRow[]>(
+    `SELECT ${REDEMPTION_COLUMNS} FROM ${REDEMPTIONS_TABLE_NAME} WHERE promo_code_id = ? ORDER BY id DESC LIMIT ?`,
+    [promoCodeId, Math.min(Math.max(limit, 1), 500)]
+  );
+  return rows.map(projectRedemptionRow);
+};
@@ -0,0 +1,169 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+export type ReconciliationRunStatus = "running" | "completed" | "failed";
+
+/**
+ * `missing_sale`: Cayman approved a payment but no Mindbody sale carries its reference.
+ * `duplicate_sale`: more than one sale carries it. `amount_mismatch`: the sale's payments differ from
+ * the amount charged. `unmatched_sale`: a Cayman-tagged sale whose reference no approved payment has.
+ */
+export type ReconciliationIssueKind = "missing_sale" | "duplicate_sale" | "amount_mismatch" | "unmatched_sale";
+
+export interface ReconciliationEntry {
+  kind: ReconciliationIssueKind;
+  transactionId?: string;
+  orderId?: string;
+  sessionId?: string;
+  sessionStatus?: string;
+  caymanAmount?: number;
+  mindbodyAmount?: number;
+  saleIds: string[];
+  detail: string;
+}
+
+export interface ReconciliationSummary {
+  caymanTransactions: number;
+  mindbodySales: number;
+  matched: number;
+  /** Approved payments without a sale whose session staff settled by hand; not reported as missing. */
+  settledManually: number;
+  issues: Record<ReconciliationIssueKind, number>;
+}
+
+export interface ReconciliationRun {
+  id: number;
+  siteKey: string;
+  /** First and last day covered, as `YYYY-MM-DD` (UTC). */
+  windowStart: string;
+  windowEnd: string;
+  status: ReconciliationRunStatus;
+  triggeredBy: string;
+  summary?: ReconciliationSummary;
+  /** Not loaded by `listReconciliationRuns`. */
+  entries?: ReconciliationEntry[];
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+const TABLE_NAME = "reconciliation_runs";
+
+interface ReconciliationRunRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  window_start: string | Date;
+  window_end: string | Date;
+  status: string;
+  triggered_by: string;
+  summary: string | ReconciliationSummary | null;
+  entries?: string | ReconciliationEntry[] | null;
+  error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+const COLUMNS = "id, site_key, window_start, window_end, status, triggered_by, summary, error, created_at, completed_at";
+
+const parseJson = <T>(value: string | T | null | undefined): T | undefined => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch (_err) {
+      return undefined;
+    }
+  }
+  return value ?? undefined;
+};
+
+const toDay = (value: string | Date): string => (value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10));
+
+const projectRow = (row: ReconciliationRunRow): ReconciliationRun => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  windowStart: toDay(row.window_start),
+  windowEnd: toDay(row.window_end),
+  status: row.status as ReconciliationRunStatus,
+  triggeredBy: row.triggered_by,
+  summary: parseJson<ReconciliationSummary>(row.summary),
+  ...(row.entries !== undefined ? { entries: parseJson<ReconciliationEntry[]>(row.entries) ?? [] } : {}),
+  error: row.error ?? undefined,
+  createdAt: row.created_at,
+  completedAt: row.completed_at ?? undefined
+});
+
+export const getReconciliationRun = async (id: number): Promise<ReconciliationRun | undefined> => {
+  const rows = await query<ReconciliationRunRow[]>(`SELECT ${COLUMNS}, entries FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const listReconciliationRuns = async (
+  filters: { siteKey?: string; status?: ReconciliationRunStatus; limit?: number } = {}
+): Promise<ReconciliationRun[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filters.siteKey);
+  }
+  if (filters.status) {
+    clauses.push("status = ?");
+    params.push(filters.status);
+  }
+
+  const limit = Math.min(Math.max(filters.limit ?? 30, 1), 200);
+  const rows = await query<ReconciliationRunRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY created_at DESC, id DESC LIMIT ?`,
+    [...params, limit]
+  );
+  return rows.map(projectRow);
+};
+
+/** Completed runs, entries included, whose window overlaps `from`–`to`; newest first. */
+export const listCompletedRunsOverlapping = async (siteKey: string, from: string, to: string): Promise<ReconciliationRun[]> => {
+  const rows = await query<ReconciliationRunRow[]>(
+    `SELECT ${COLUMNS}, entries FROM ${TABLE_NAME}
+     WHERE site_key = ? AND status = 'completed' AND window_start <= ? AND window_end >= ?
+     ORDER BY id DESC LIMIT 400`,
+    [siteKey, to, from]
+  );
+  return rows.map(projectRow);
+};
+
+export interface NewReconciliationRun {
+  siteKey: string;
+  windowStart: string;
+  windowEnd: string;
+  triggeredBy: string;
+  /** Set for scheduled runs so only one instance takes each night; on-demand runs leave it unset. */
+  scheduleKey?: string;
+}
+
+/** Returns `undefined` when `scheduleKey` was already taken. */
+export const startReconciliationRun = async (input: NewReconciliationRun): Promise<number | undefined> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT IGNORE INTO ${TABLE_NAME} (site_key, window_start, window_end, triggered_by, schedule_key) VALUES (?, ?, ?, ?, ?)`,
+    [input.siteKey, input.windowStart, input.windowEnd, input.triggeredBy.slice(0, 191), input.scheduleKey ?? null]
+  );
+  return result.affectedRows > 0 ? result.insertId : undefined;
+};
+
+export const completeReconciliationRun = async (
+  id: number,
+  summary: ReconciliationSummary,
+  entries: ReconciliationEntry[]
+): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'completed', summary = ?, entries = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [JSON.stringify(summary), JSON.stringify(entries), id]
+  );
+};
+
+export const failReconciliationRun = async (id: number, error: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'failed', error = ?, completed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [error.slice(0, 2000), id]
+  );
+};
@@ -0,0 +1,243 @@
+import { PoolConnection, ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query, withTransaction } from "../db/mysql.js";
+
+export type RefundStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * `returned` means Mindbody's sale was returned in full, `adjusted` that the refunded amount was returned
+ * against it. `manual_required` is left for staff when the Mindbody sale is unknown.
+ */
+export type RefundMindbodyStatus = "pending" | "returned" | "adjusted" | "manual_required" | "failed";
+
+export interface Refund {
+  id: number;
+  idempotencyKey: string;
+  sessionId: string;
+  siteKey: string;
+  amount: number;
+  status: RefundStatus;
+  caymanTransactionId?: string;
+  caymanRefundId?: string;
+  caymanResponse?: unknown;
+  mindbodyStatus: RefundMindbodyStatus;
+  mindbodyDetail?: string;
+  reason?: string;
+  actor?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "refunds";
+const SESSIONS_TABLE_NAME = "checkout_sessions";
+
+interface RefundRow extends RowDataPacket {
+  id: number;
+  idempotency_key: string;
+  session_id: string;
+  site_key: string;
+  amount: string | number;
+  status: string;
+  cayman_transaction_id: string | null;
+  cayman_refund_id: string | null;
+  cayman_response: string | Record<string, unknown> | null;
+  mindbody_status: string;
+  mindbody_detail: string | null;
+  reason: string | null;
+  actor: string | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface RefundTotalRow extends RowDataPacket {
+  total: string | number | null;
+}
+
+const SELECT_COLUMNS =
+  "id, idempotency_key, session_id, site_key, amount, status, cayman_transaction_id, cayman_refund_id, cayman_response, mindbody_status, mindbody_detail, reason, actor, error, created_at, updated_at";
+
+const parseResponse = (value: RefundRow["cayman_response"]): unknown => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value);
+    } catch (_err) {
+      return value;
+    }
+  }
+  return value ?? undefined;
+};
+
+const projectRow = (row: RefundRow): Refund => ({
+  id: Number(row.id),
+  idempotencyKey: row.idempotency_key,
+  sessionId: row.session_id,
+  siteKey: row.site_key,
+  amount: Number(row.amount),
+  status: row.status as RefundStatus,
+  caymanTransactionId: row.cayman_transaction_id ?? undefined,
+  caymanRefundId: row.cayman_refund_id ?? undefined,
+  caymanResponse: parseResponse(row.cayman_response),
+  mindbodyStatus: row.mindbody_status as RefundMindbodyStatus,
+  mindbodyDetail: row.mindbody_detail ?? undefined,
+  reason: row.reason ?? undefined,
+  actor: row.actor ?? undefined,
+  error: row.error ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export interface ReserveRefundInput {
+  idempotencyKey: string;
+  sessionId: string;
+  siteKey: string;
+  sessionTotal: number;
+  /** Omit to refund whatever is still refundable. */
+  amount?: number;
+  caymanTransactionId: string;
+  reason?: string;
+  actor?: string;
+}
+
+export type ReserveRefundResult =
+  | { kind: "created"; refund: Refund }
+  | { kind: "replayed"; refund: Refund }
+  | { kind: "exceeds"; available: number };
+
+const selectByKey = async (conn: PoolConnection, idempotencyKey: string): Promise<Refund | undefined> => {
+  const [rows] = await conn.query<RefundRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE idempotency_key = ? LIMIT 1`,
+    [idempotencyKey]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  Boolean(error && typeof error === "object" && (error as { code?: string }).code === "ER_DUP_ENTRY");
+
+/**
+ * Claims `amount` of the session's refundable balance under the session row lock, so two refunds
+ * with different idempotency keys cannot together exceed what was charged. Pending refunds count
+ * against the balance until they fail.
+ */
+export const reserveRefund = async (input: ReserveRefundInput): Promise<ReserveRefundResult> => {
+  try {
+    return await withTransaction(async (conn: PoolConnection): Promise<ReserveRefundResult> => {
+      const existing = await selectByKey(conn, input.idempotencyKey);
+      if (existing) {
+        return { kind: "replayed", refund: existing };
+      }
+
+      await conn.query(`SELECT id FROM ${SESSIONS_TABLE_NAME} WHERE id = ? FOR UPDATE`, [input.sessionId]);
+
+      const [totals] = await conn.query<RefundTotalRow[]>(
+        `SELECT COALESCE(SUM(amount), 0) AS total FROM ${TABLE_NAME} WHERE session_id = ? AND status IN ('pending', 'succeeded')`,
+        [input.sessionId]
+      );
+      const available = roundCurrency(input.sessionTotal - Number(totals[0]?.total ?? 0));
+      const amount = roundCurrency(input.amount ?? available);
+
+      if (amount <= 0 || amount > available) {
+        return { kind: "exceeds", available: Math.max(available, 0) };
+      }
+
+      const [result] = await conn.execute<ResultSetHeader>(
+        `INSERT INTO ${TABLE_NAME} (idempotency_key, session_id, site_key, amount, status, cayman_transaction_id, mindbody_status, reason, actor)
+         VALUES (?, ?, ?, ?, 'pending', ?, 'pending', ?, ?)`,
+        [
+          input.idempotencyKey,
+          input.sessionId,
+          input.siteKey,
+          amount.toFixed(2),
+          input.caymanTransactionId,
+          input.reason ?? null,
+          input.actor ?? null
+        ]
+      );
+
+      const [rows] = await conn.query<RefundRow[]>(`SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE id = ?`, [
+        result.insertId
+      ]);
+      return { kind: "created", refund: projectRow(rows[0]) };
+    });
+  } catch (error) {
+    // A concurrent request with the same key won the insert; hand back its row.
+    if (isDuplicateKeyError(error)) {
+      const existing = await getRefundByIdempotencyKey(input.idempotencyKey);
+      if (existing) {
+        return { kind: "replayed", refund: existing };
+      }
+    }
+    throw error;
+  }
+};
+
+/** Settles a pending refund; `false` when another request settled it first. */
+export const completeRefund = async (id: number, caymanRefundId: string | undefined, caymanResponse: unknown): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'succeeded', cayman_refund_id = ?, cayman_response = ?, error = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'pending'`,
+    [caymanRefundId ?? null, JSON.stringify(caymanResponse ?? null), id]
+  );
+  return result.affectedRows > 0;
+};
+
+/** Only for a refund Cayman declined; one whose outcome is unknown stays pending. */
+export const failRefund = async (id: number, error: string, caymanResponse?: unknown): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'failed', error = ?, cayman_response = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'pending'`,
+    [error, caymanResponse === undefined ? null : JSON.stringify(caymanResponse), id]
+  );
+  return result.affectedRows > 0;
+};
+
+/** Records why a pending refund's outcome is not known yet, leaving it pending. */
+export const noteRefundError = async (id: number, error: string): Promise<void> => {
+  await execute(`UPDATE ${TABLE_NAME} SET error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'pending'`, [
+    error,
+    id
+  ]);
+};
+
+export const setRefundMindbodyStatus = async (
+  id: number,
+  mindbodyStatus: RefundMindbodyStatus,
+  mindbodyDetail?: string
+): Promise<void> => {
+  await execute(
+    `UPDATE ${TABLE_NAME} SET mindbody_status = ?, mindbody_detail = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [mindbodyStatus, mindbodyDetail ?? null, id]
+  );
+};
+
+export const getRefund = async (id: number): Promise<Refund | undefined> => {
+  const rows = await query<RefundRow[]>(`SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const getRefundByIdempotencyKey = async (idempotencyKey: string): Promise<Refund | undefined> => {
+  const rows = await query<RefundRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE idempotency_key = ? LIMIT 1`,
+    [idempotencyKey]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const listRefundsForSession = async (sessionId: string): Promise<Refund[]> => {
+  const rows = await query<RefundRow[]>(
+    `SELECT ${SELECT_COLUMNS} FROM ${TABLE_NAME} WHERE session_id = ? ORDER BY id ASC`,
+    [sessionId]
+  );
+  return rows.map(projectRow);
+};
+
+export const sumSucceededRefunds = async (sessionId: string): Promise<number> => {
+  const rows = await query<RefundTotalRow[]>(
+    `SELECT COALESCE(SUM(amount), 0) AS total FROM ${TABLE_NAME} WHERE session_id = ? AND status = 'succeeded'`,
+    [sessionId]
+  );
+  return roundCurrency(Number(rows[0]?.total ?? 0));
+};
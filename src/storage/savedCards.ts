@@ -0,0 +1,138 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+/** `pending` until Cayman's add-customer notification names the vault id; `failed` if it never will. */
+export type SavedCardStatus = "pending" | "active" | "failed" | "removed";
+
+/** A card kept in Cayman's customer vault for one Mindbody client of one tenant. */
+export interface SavedCard {
+  id: number;
+  siteKey: string;
+  /** Mindbody client id the card belongs to. */
+  clientId: string;
+  /** Cayman `customer-vault-id`; unset while pending. Only ever sent back to Cayman, never to callers. */
+  vaultId?: string;
+  status: SavedCardStatus;
+  email?: string;
+  last4?: string;
+  cardType?: string;
+  /** Who started the add-card flow: a staff account, `staff` for the shared secret, or `api-key:<prefix>`. */
+  createdBy: string;
+  error?: string;
+  createdAt: Date;
+  activatedAt?: Date;
+  removedAt?: Date;
+}
+
+const TABLE_NAME = "saved_cards";
+
+interface SavedCardRow extends RowDataPacket {
+  id: number;
+  site_key: string;
+  client_id: string;
+  vault_id: string | null;
+  status: string;
+  email: string | null;
+  last4: string | null;
+  card_type: string | null;
+  created_by: string;
+  error: string | null;
+  created_at: Date;
+  activated_at: Date | null;
+  removed_at: Date | null;
+}
+
+const COLUMNS =
+  "id, site_key, client_id, vault_id, status, email, last4, card_type, created_by, error, created_at, activated_at, removed_at";
+
+const projectRow = (row: SavedCardRow): SavedCard => ({
+  id: Number(row.id),
+  siteKey: row.site_key,
+  clientId: row.client_id,
+  vaultId: row.vault_id ?? undefined,
+  status: row.status as SavedCardStatus,
+  email: row.email ?? undefined,
+  last4: row.last4 ?? undefined,
+  cardType: row.card_type ?? undefined,
+  createdBy: row.created_by,
+  error: row.error ?? undefined,
+  createdAt: row.created_at,
+  activatedAt: row.activated_at ?? undefined,
+  removedAt: row.removed_at ?? undefined
+});
+
+export const getSavedCard = async (id: number): Promise<SavedCard | undefined> => {
+  const rows = await query<SavedCardRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** Looks up a card by the hash of the setup token in its notification URL, whatever its status now. */
+export const findSavedCardBySetupToken = async (setupTokenHash: string): Promise<SavedCard | undefined> => {
+  const rows = await query<SavedCardRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE setup_token_hash = ? LIMIT 1`,
+    [setupTokenHash]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** Active cards first, newest first; removed and failed ones only with `includeInactive`. */
+export const listSavedCardsForClient = async (
+  siteKey: string,
+  clientId: string,
+  options: { includeInactive?: boolean } = {}
+): Promise<SavedCard[]> => {
+  const rows = await query<SavedCardRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME}
+     WHERE site_key = ? AND client_id = ? ${options.includeInactive ? "" : "AND status = 'active'"}
+     ORDER BY status = 'active' DESC, created_at DESC, id DESC LIMIT 50`,
+    [siteKey, clientId]
+  );
+  return rows.map(projectRow);
+};
+
+export interface NewSavedCard {
+  siteKey: string;
+  clientId: string;
+  email?: string;
+  setupTokenHash: string;
+  createdBy: string;
+}
+
+export const createPendingSavedCard = async (input: NewSavedCard): Promise<number> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT INTO ${TABLE_NAME} (site_key, client_id, email, setup_token_hash, created_by) VALUES (?, ?, ?, ?, ?)`,
+    [input.siteKey, input.clientId, input.email ?? null, input.setupTokenHash, input.createdBy.slice(0, 191)]
+  );
+  return result.insertId;
+};
+
+/** Only a pending card can be activated, so a setup token saves at most one vault id. */
+export const activateSavedCard = async (
+  id: number,
+  details: { vaultId: string; last4?: string; cardType?: string }
+): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = 'active', vault_id = ?, last4 = ?, card_type = ?, activated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'pending'`,
+    [details.vaultId.slice(0, 191), details.last4 ?? null, details.cardType?.slice(0, 32) ?? null, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const failSavedCard = async (id: number, error: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'failed', error = ? WHERE id = ? AND status = 'pending'`,
+    [error.slice(0, 500), id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const removeSavedCard = async (id: number): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'removed', removed_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status IN ('pending', 'active')`,
+    [id]
+  );
+  return result.affectedRows > 0;
+};
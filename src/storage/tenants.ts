@@ -0,0 +1,230 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+import { openSecrets, sealSecrets, type SealedSecrets } from "../utils/envelope.js";
+
+/** Defaults used for Cayman's required billing fields when the customer does not supply them. */
+export interface TenantBillingDefaults {
+  street1?: string;
+  street2?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country?: string;
+  phone?: string;
+}
+
+/** A studio's Mindbody profile. Cayman credentials stay in `api_configs`, keyed by the same site key. */
+export interface TenantRecord {
+  siteKey: string;
+  label?: string;
+  mindbodySiteId: string;
+  mindbodyApiKey: string;
+  staffUsername?: string;
+  staffPassword?: string;
+  /** Mindbody custom payment method the Cayman payment is recorded against. */
+  customTenderId?: number;
+  currency?: string;
+  defaultServiceId?: string;
+  billing?: TenantBillingDefaults;
+  /** Shared secret Cayman signs this tenant's webhook notifications with (`cayman-signature`). */
+  webhookSecret?: string;
+  active: boolean;
+  /** Master key the API key, staff password and webhook secret are encrypted under; undefined for rows stored before encryption. */
+  keyId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "tenants";
+
+interface TenantRow extends RowDataPacket {
+  site_key: string;
+  label: string | null;
+  mindbody_site_id: string;
+  mindbody_api_key: string;
+  staff_username: string | null;
+  staff_password: string | null;
+  custom_tender_id: number | null;
+  currency: string | null;
+  default_service_id: string | null;
+  billing_defaults: string | TenantBillingDefaults | null;
+  webhook_secret: string | null;
+  active: number;
+  key_id: string | null;
+  wrapped_key: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const COLUMNS =
+  "site_key, label, mindbody_site_id, mindbody_api_key, staff_username, staff_password, custom_tender_id, currency, default_service_id, billing_defaults, webhook_secret, active, key_id, wrapped_key, created_at, updated_at";
+
+type SecretField = "mindbodyApiKey" | "staffPassword" | "webhookSecret";
+
+const secretContext = (siteKey: string): string => `${TABLE_NAME}:${siteKey}`;
+
+const sealRow = (input: Pick<TenantRecordInput, "siteKey" | SecretField>): SealedSecrets<SecretField> =>
+  sealSecrets(secretContext(input.siteKey), {
+    mindbodyApiKey: input.mindbodyApiKey,
+    staffPassword: input.staffPassword,
+    webhookSecret: input.webhookSecret
+  });
+
+const parseBilling = (value: TenantRow["billing_defaults"]): TenantBillingDefaults | undefined => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as TenantBillingDefaults;
+    } catch (_err) {
+      return undefined;
+    }
+  }
+  return value ?? undefined;
+};
+
+const projectRow = (row: TenantRow): TenantRecord => {
+  const secrets = openSecrets(secretContext(row.site_key), {
+    keyId: row.key_id,
+    wrappedKey: row.wrapped_key,
+    values: { mindbodyApiKey: row.mindbody_api_key, staffPassword: row.staff_password, webhookSecret: row.webhook_secret }
+  });
+
+  return {
+    siteKey: row.site_key,
+    label: row.label ?? undefined,
+    mindbodySiteId: row.mindbody_site_id,
+    mindbodyApiKey: secrets.mindbodyApiKey ?? "",
+    staffUsername: row.staff_username ?? undefined,
+    staffPassword: secrets.staffPassword ?? undefined,
+    customTenderId: row.custom_tender_id === null ? undefined : Number(row.custom_tender_id),
+    currency: row.currency ?? undefined,
+    defaultServiceId: row.default_service_id ?? undefined,
+    billing: parseBilling(row.billing_defaults),
+    webhookSecret: secrets.webhookSecret ?? undefined,
+    active: Boolean(row.active),
+    keyId: row.key_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+};
+
+export const getTenantRecord = async (siteKey: string): Promise<TenantRecord | undefined> => {
+  const rows = await query<TenantRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE site_key = ? LIMIT 1`, [siteKey]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+/** Legacy links and `api_configs` rows name a tenant by its Mindbody site id rather than its site key. */
+export const findTenantRecordBySiteId = async (mindbodySiteId: string): Promise<TenantRecord | undefined> => {
+  const rows = await query<TenantRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE mindbody_site_id = ? AND active = 1 ORDER BY site_key LIMIT 1`,
+    [mindbodySiteId]
+  );
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const listTenantRecords = async (includeInactive = false): Promise<TenantRecord[]> => {
+  const rows = await query<TenantRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${includeInactive ? "" : "WHERE active = 1"} ORDER BY site_key`
+  );
+  return rows.map(projectRow);
+};
+
+export interface TenantRecordInput {
+  siteKey: string;
+  label?: string;
+  mindbodySiteId: string;
+  mindbodyApiKey: string;
+  staffUsername?: string;
+  staffPassword?: string;
+  customTenderId?: number;
+  currency?: string;
+  defaultServiceId?: string;
+  billing?: TenantBillingDefaults;
+  webhookSecret?: string;
+}
+
+const toParams = (input: TenantRecordInput): Array<string | number | null> => {
+  const sealed = sealRow(input);
+  return [
+    input.label ?? null,
+    input.mindbodySiteId,
+    sealed.values.mindbodyApiKey,
+    input.staffUsername ?? null,
+    sealed.values.staffPassword,
+    input.customTenderId ?? null,
+    input.currency ?? null,
+    input.defaultServiceId ?? null,
+    input.billing ? JSON.stringify(input.billing) : null,
+    sealed.values.webhookSecret,
+    sealed.keyId,
+    sealed.wrappedKey
+  ];
+};
+
+/** Returns `undefined` when the site key is already taken. */
+export const createTenantRecord = async (input: TenantRecordInput): Promise<TenantRecord | undefined> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT IGNORE INTO ${TABLE_NAME} (site_key, label, mindbody_site_id, mindbody_api_key, staff_username, staff_password, custom_tender_id, currency, default_service_id, billing_defaults, webhook_secret, key_id, wrapped_key)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [input.siteKey, ...toParams(input)]
+  );
+
+  return result.affectedRows > 0 ? getTenantRecord(input.siteKey) : undefined;
+};
+
+/** Replaces every field; callers merge with the current record to change only some of them. Reactivates the tenant. */
+export const updateTenantRecord = async (input: TenantRecordInput): Promise<TenantRecord | undefined> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET label = ?, mindbody_site_id = ?, mindbody_api_key = ?, staff_username = ?, staff_password = ?, custom_tender_id = ?,
+         currency = ?, default_service_id = ?, billing_defaults = ?, webhook_secret = ?, key_id = ?, wrapped_key = ?, active = 1,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE site_key = ?`,
+    [...toParams(input), input.siteKey]
+  );
+
+  return result.affectedRows > 0 ? getTenantRecord(input.siteKey) : undefined;
+};
+
+export const upsertTenantRecord = async (input: TenantRecordInput): Promise<TenantRecord> => {
+  const saved = (await updateTenantRecord(input)) ?? (await createTenantRecord(input)) ?? (await updateTenantRecord(input));
+  if (!saved) {
+    throw new Error("Failed to persist tenant");
+  }
+  return saved;
+};
+
+/** Tenants are deactivated rather than deleted so the record stays available for audits and reactivation. */
+export const deactivateTenantRecord = async (siteKey: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET active = 0, updated_at = CURRENT_TIMESTAMP WHERE site_key = ? AND active = 1`,
+    [siteKey]
+  );
+  return result.affectedRows > 0;
+};
+
+export const listTenantKeyIds = async (): Promise<Array<{ siteKey: string; keyId?: string }>> => {
+  const rows = await query<RowDataPacket[]>(`SELECT site_key, key_id FROM ${TABLE_NAME} ORDER BY site_key`);
+  return rows.map((row) => ({ siteKey: String(row.site_key), keyId: row.key_id ?? undefined }));
+};
+
+/** Re-encrypts a row under the active master key with a fresh data key, leaving `updated_at` alone. */
+export const reencryptTenantRecord = async (siteKey: string): Promise<boolean> => {
+  const record = await getTenantRecord(siteKey);
+  if (!record) {
+    return false;
+  }
+
+  const sealed = sealRow(record);
+  const result = await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET mindbody_api_key = ?, staff_password = ?, webhook_secret = ?, key_id = ?, wrapped_key = ?, updated_at = updated_at WHERE site_key = ?`,
+    [
+      sealed.values.mindbodyApiKey,
+      sealed.values.staffPassword,
+      sealed.values.webhookSecret,
+      sealed.keyId,
+      sealed.wrappedKey,
+      siteKey
+    ]
+  );
+  return result.affectedRows > 0;
+};
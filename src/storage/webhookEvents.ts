@@ -0,0 +1,283 @@
+import { ResultSetHeader, RowDataPacket } from "mysql2/promise";
+import { execute, query } from "../db/mysql.js";
+
+/**
+ * `notification`: `/webhook/cayman` payloads run through `processCaymanNotification`; `event`: signed
+ * `/webhooks/cayman` events; `vault`: `/webhook/cayman/vault` add-card notifications; `subscription`:
+ * `/webhook/cayman/subscription` membership notifications; `authorization`: `/webhook/cayman/authorization`
+ * payment hold notifications.
+ */
+export type WebhookEventKind = "notification" | "event" | "vault" | "subscription" | "authorization";
+
+export type WebhookEventStatus = "received" | "processed" | "rejected" | "error";
+
+export type WebhookSignatureResult = "valid" | "invalid" | "absent" | "unchecked";
+
+/** A Cayman request exactly as it arrived, with what became of it. */
+export interface WebhookEvent {
+  id: number;
+  /** Identifies repeats of the same delivery; unset for replays and requests that cannot be deduplicated. */
+  dedupeKey?: string;
+  kind: WebhookEventKind;
+  /** Route that received it (`webhook:get`, `webhook:post`, `webhook:event`, ...) or `replay`. */
+  source: string;
+  method: string;
+  siteKey?: string;
+  sessionId?: string;
+  transactionId?: string;
+  /** Request headers with credentials removed. */
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  rawQuery?: string;
+  /** Raw request body as received, so the signature can be checked again on replay. */
+  rawBody?: string;
+  /** Parsed form or JSON body. */
+  body: Record<string, unknown>;
+  signatureResult?: WebhookSignatureResult;
+  status: WebhookEventStatus;
+  outcome?: Record<string, unknown>;
+  error?: string;
+  attempts: number;
+  /** The stored event this one replays. */
+  replayOf?: number;
+  actor?: string;
+  createdAt: Date;
+  processedAt?: Date;
+  updatedAt: Date;
+}
+
+const TABLE_NAME = "webhook_events";
+
+interface WebhookEventRow extends RowDataPacket {
+  id: number;
+  dedupe_key: string | null;
+  kind: string;
+  source: string;
+  method: string;
+  site_key: string | null;
+  session_id: string | null;
+  transaction_id: string | null;
+  headers: string | Record<string, string> | null;
+  query_params: string | Record<string, unknown> | null;
+  raw_query: string | null;
+  raw_body: string | null;
+  body_params: string | Record<string, unknown> | null;
+  signature_result: string | null;
+  status: string;
+  outcome: string | Record<string, unknown> | null;
+  error: string | null;
+  attempts: number;
+  replay_of: number | null;
+  actor: string | null;
+  created_at: Date;
+  processed_at: Date | null;
+  updated_at: Date;
+}
+
+const COLUMNS =
+  "id, dedupe_key, kind, source, method, site_key, session_id, transaction_id, headers, query_params, raw_query, raw_body, body_params, signature_result, status, outcome, error, attempts, replay_of, actor, created_at, processed_at, updated_at";
+
+const parseJson = <T>(value: string | T | null): T | undefined => {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch (_err) {
+      return undefined;
+    }
+  }
+  return value ?? undefined;
+};
+
+const projectRow = (row: WebhookEventRow): WebhookEvent => ({
+  id: Number(row.id),
+  dedupeKey: row.dedupe_key ?? undefined,
+  kind: row.kind as WebhookEventKind,
+  source: row.source,
+  method: row.method,
+  siteKey: row.site_key ?? undefined,
+  sessionId: row.session_id ?? undefined,
+  transactionId: row.transaction_id ?? undefined,
+  headers: parseJson<Record<string, string>>(row.headers) ?? {},
+  query: parseJson<Record<string, unknown>>(row.query_params) ?? {},
+  rawQuery: row.raw_query ?? undefined,
+  rawBody: row.raw_body ?? undefined,
+  body: parseJson<Record<string, unknown>>(row.body_params) ?? {},
+  signatureResult: (row.signature_result as WebhookSignatureResult | null) ?? undefined,
+  status: row.status as WebhookEventStatus,
+  outcome: parseJson<Record<string, unknown>>(row.outcome),
+  error: row.error ?? undefined,
+  attempts: Number(row.attempts),
+  replayOf: row.replay_of === null ? undefined : Number(row.replay_of),
+  actor: row.actor ?? undefined,
+  createdAt: row.created_at,
+  processedAt: row.processed_at ?? undefined,
+  updatedAt: row.updated_at
+});
+
+export const getWebhookEvent = async (id: number): Promise<WebhookEvent | undefined> => {
+  const rows = await query<WebhookEventRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE id = ? LIMIT 1`, [id]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export const findWebhookEventByDedupeKey = async (dedupeKey: string): Promise<WebhookEvent | undefined> => {
+  const rows = await query<WebhookEventRow[]>(`SELECT ${COLUMNS} FROM ${TABLE_NAME} WHERE dedupe_key = ? LIMIT 1`, [dedupeKey]);
+  return rows.length ? projectRow(rows[0]) : undefined;
+};
+
+export interface NewWebhookEvent {
+  dedupeKey?: string;
+  kind: WebhookEventKind;
+  source: string;
+  method: string;
+  siteKey?: string;
+  transactionId?: string;
+  headers: Record<string, string>;
+  query: Record<string, unknown>;
+  rawQuery?: string;
+  rawBody?: string;
+  body: Record<string, unknown>;
+  signatureResult?: WebhookSignatureResult;
+  replayOf?: number;
+  actor?: string;
+}
+
+/**
+ * Stores a delivery as `received`. When `dedupeKey` is already taken nothing is written and the earlier
+ * event is returned with `created: false`.
+ */
+export const createWebhookEvent = async (input: NewWebhookEvent): Promise<{ event: WebhookEvent; created: boolean }> => {
+  const result = await execute<ResultSetHeader>(
+    `INSERT IGNORE INTO ${TABLE_NAME} (dedupe_key, kind, source, method, site_key, transaction_id, headers, query_params, raw_query, raw_body, body_params, signature_result, replay_of, actor)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.dedupeKey ?? null,
+      input.kind,
+      input.source.slice(0, 32),
+      input.method.slice(0, 8),
+      input.siteKey ?? null,
+      input.transactionId?.slice(0, 191) ?? null,
+      JSON.stringify(input.headers),
+      JSON.stringify(input.query),
+      input.rawQuery ?? null,
+      input.rawBody ?? null,
+      JSON.stringify(input.body),
+      input.signatureResult ?? null,
+      input.replayOf ?? null,
+      input.actor ?? null
+    ]
+  );
+
+  if (result.affectedRows > 0) {
+    const created = await getWebhookEvent(result.insertId);
+    if (created) {
+      return { event: created, created: true };
+    }
+  }
+
+  const existing = input.dedupeKey ? await findWebhookEventByDedupeKey(input.dedupeKey) : undefined;
+  if (!existing) {
+    throw new Error("Failed to persist webhook event");
+  }
+  return { event: existing, created: false };
+};
+
+/** Marks a repeated delivery of an unfinished or rejected event as being processed again. */
+export const restartWebhookEvent = async (id: number): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET status = 'received', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [id]
+  );
+};
+
+/** Gives a stored event its dedupe key; `false` when another event already holds it. */
+export const claimWebhookEventKey = async (id: number, dedupeKey: string): Promise<boolean> => {
+  const result = await execute<ResultSetHeader>(
+    `UPDATE IGNORE ${TABLE_NAME} SET dedupe_key = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND dedupe_key IS NULL`,
+    [dedupeKey, id]
+  );
+  return result.affectedRows > 0;
+};
+
+/** Gives the dedupe key up again, so a redelivery of a notification whose processing failed is processed. */
+export const releaseWebhookEventKey = async (id: number, dedupeKey: string): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME} SET dedupe_key = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND dedupe_key = ?`,
+    [id, dedupeKey]
+  );
+};
+
+export interface WebhookEventCompletion {
+  status: Exclude<WebhookEventStatus, "received">;
+  outcome?: Record<string, unknown>;
+  error?: string;
+  signatureResult?: WebhookSignatureResult;
+  siteKey?: string;
+  sessionId?: string;
+  transactionId?: string;
+}
+
+/** Records the outcome; identifying fields only fill gaps, they never overwrite what was stored on arrival. */
+export const completeWebhookEvent = async (id: number, completion: WebhookEventCompletion): Promise<void> => {
+  await execute<ResultSetHeader>(
+    `UPDATE ${TABLE_NAME}
+     SET status = ?, outcome = ?, error = ?, signature_result = COALESCE(?, signature_result),
+         site_key = COALESCE(site_key, ?), session_id = COALESCE(session_id, ?), transaction_id = COALESCE(transaction_id, ?),
+         processed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [
+      completion.status,
+      completion.outcome ? JSON.stringify(completion.outcome) : null,
+      completion.error?.slice(0, 1000) ?? null,
+      completion.signatureResult ?? null,
+      completion.siteKey ?? null,
+      completion.sessionId ?? null,
+      completion.transactionId?.slice(0, 191) ?? null,
+      id
+    ]
+  );
+};
+
+export interface ListWebhookEventsFilter {
+  siteKey?: string;
+  sessionId?: string;
+  transactionId?: string;
+  status?: WebhookEventStatus;
+  kind?: WebhookEventKind;
+  limit?: number;
+  offset?: number;
+}
+
+export const listWebhookEvents = async (filter: ListWebhookEventsFilter = {}): Promise<WebhookEvent[]> => {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.siteKey) {
+    clauses.push("site_key = ?");
+    params.push(filter.siteKey);
+  }
+  if (filter.sessionId) {
+    clauses.push("session_id = ?");
+    params.push(filter.sessionId);
+  }
+  if (filter.transactionId) {
+    clauses.push("transaction_id = ?");
+    params.push(filter.transactionId);
+  }
+  if (filter.status) {
+    clauses.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.kind) {
+    clauses.push("kind = ?");
+    params.push(filter.kind);
+  }
+
+  const limit = Math.min(Math.max(filter.limit ?? 50, 1), 200);
+  const offset = Math.max(filter.offset ?? 0, 0);
+  const rows = await query<WebhookEventRow[]>(
+    `SELECT ${COLUMNS} FROM ${TABLE_NAME} ${clauses.length ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  );
+  return rows.map(projectRow);
+};
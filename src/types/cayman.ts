@@ -71,6 +71,14 @@ export type CaymanTransactionInfoRequest = {
   "transaction-id": string;
 } & Record<string, unknown>;
 
+/** Transactions in a date window, for reconciliation; dates are `YYYY-MM-DD` in the gateway's time zone. */
+export type CaymanTransactionQueryRequest = {
+  "start-date": string;
+  "end-date": string;
+  condition?: string;
+  page?: number;
+} & Record<string, unknown>;
+
 export interface CaymanConsumerResponse {
   result?: string;
   "result-text"?: string;
@@ -101,6 +109,14 @@ export interface CaymanTransactionDetailsResponse {
   [key: string]: unknown;
 }
 
+export interface CaymanTransactionQueryResponse {
+  success: boolean;
+  transactions?: Array<Record<string, unknown>>;
+  /** Set when more pages follow. */
+  "has-more"?: boolean;
+  [key: string]: unknown;
+}
+
 export interface CaymanWebhookBilling extends Record<string, string | null | undefined> {}
 
 export interface CaymanWebhookNotification {
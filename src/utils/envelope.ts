@@ -0,0 +1,188 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+
+/**
+ * Envelope encryption for credentials stored in MySQL. Each row gets its own random data key, which
+ * encrypts the row's secret columns with AES-256-GCM; the data key is itself wrapped by a master key
+ * and stored next to them with the master key's id, so rotating the master key only needs the rows
+ * re-wrapped and an old key can be retired once no row references it.
+ *
+ * Master keys are 32 bytes, base64-encoded, and come from `CREDENTIALS_KEY_FILE` (a JSON file
+ * `{ "activeKeyId": "...", "keys": { "<id>": "<base64>" } }`) and/or `CREDENTIALS_MASTER_KEY` with
+ * `CREDENTIALS_MASTER_KEY_ID` (default `env`). `CREDENTIALS_PREVIOUS_KEYS` (`id:base64,...`) keeps
+ * retired env keys readable until the rotate command has run.
+ */
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export class CredentialKeyError extends Error {
+  constructor(message: string, public keyId?: string) {
+    super(message);
+    this.name = "CredentialKeyError";
+  }
+}
+
+interface Keyring {
+  activeKeyId?: string;
+  keys: Map<string, Buffer>;
+}
+
+/** `keyId` and `wrappedKey` are null for rows written before encryption was configured. */
+export interface SealedSecrets<K extends string> {
+  keyId: string | null;
+  wrappedKey: string | null;
+  values: Record<K, string | null>;
+}
+
+const decodeKey = (id: string, encoded: string): Buffer => {
+  const key = Buffer.from(encoded.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new CredentialKeyError(`Master key ${id} must be ${KEY_BYTES} bytes encoded as base64`, id);
+  }
+  return key;
+};
+
+const loadKeyring = (): Keyring => {
+  const keys = new Map<string, Buffer>();
+  let activeKeyId: string | undefined;
+
+  const keyFile = process.env.CREDENTIALS_KEY_FILE?.trim();
+  if (keyFile) {
+    const parsed = JSON.parse(fs.readFileSync(keyFile, "utf8")) as { activeKeyId?: string; keys?: Record<string, string> };
+    for (const [id, encoded] of Object.entries(parsed.keys ?? {})) {
+      keys.set(id, decodeKey(id, encoded));
+    }
+    activeKeyId = parsed.activeKeyId;
+  }
+
+  for (const entry of (process.env.CREDENTIALS_PREVIOUS_KEYS ?? "").split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator > 0) {
+      const id = entry.slice(0, separator).trim();
+      keys.set(id, decodeKey(id, entry.slice(separator + 1)));
+    }
+  }
+
+  const envKey = process.env.CREDENTIALS_MASTER_KEY?.trim();
+  if (envKey) {
+    const id = process.env.CREDENTIALS_MASTER_KEY_ID?.trim() || "env";
+    keys.set(id, decodeKey(id, envKey));
+    activeKeyId ??= id;
+  }
+
+  if (activeKeyId && !keys.has(activeKeyId)) {
+    throw new CredentialKeyError(`Active master key ${activeKeyId} is not in the keyring`, activeKeyId);
+  }
+
+  return { activeKeyId, keys };
+};
+
+let keyring: Keyring | undefined;
+let warnedUnencrypted = false;
+
+const getKeyring = (): Keyring => {
+  keyring ??= loadKeyring();
+  return keyring;
+};
+
+/** Drops the cached keyring so key file or env changes are picked up (used by the rotate command). */
+export const reloadKeyring = (): void => {
+  keyring = undefined;
+};
+
+export const isEnvelopeEncryptionConfigured = (): boolean => Boolean(getKeyring().activeKeyId);
+
+export const activeCredentialKeyId = (): string | undefined => getKeyring().activeKeyId;
+
+const seal = (key: Buffer, plaintext: Buffer, aad: string): string => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad, "utf8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+};
+
+const open = (key: Buffer, sealed: string, aad: string): Buffer => {
+  const [iv, tag, ciphertext] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+  if (!iv || !tag || !ciphertext) {
+    throw new CredentialKeyError("Malformed encrypted value");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(Buffer.from(aad, "utf8"));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+/**
+ * Encrypts `values` under a fresh data key. `context` (table and row key) is bound into every
+ * ciphertext so a value copied to another row or column fails to decrypt.
+ */
+export const sealSecrets = <K extends string>(
+  context: string,
+  values: Record<K, string | null | undefined>
+): SealedSecrets<K> => {
+  const { activeKeyId, keys } = getKeyring();
+  const entries = Object.entries(values) as Array<[K, string | null | undefined]>;
+
+  if (!activeKeyId) {
+    if (!warnedUnencrypted) {
+      warnedUnencrypted = true;
+      console.warn("[credentials] No master key configured; credentials are stored unencrypted");
+    }
+    return {
+      keyId: null,
+      wrappedKey: null,
+      values: Object.fromEntries(entries.map(([field, value]) => [field, value ?? null])) as Record<K, string | null>
+    };
+  }
+
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrappedKey = seal(keys.get(activeKeyId) as Buffer, dataKey, `${context}:key`);
+
+  return {
+    keyId: activeKeyId,
+    wrappedKey,
+    values: Object.fromEntries(
+      entries.map(([field, value]) => [
+        field,
+        value === null || value === undefined ? null : `${ENCRYPTED_PREFIX}${seal(dataKey, Buffer.from(value, "utf8"), `${context}:${field}`)}`
+      ])
+    ) as Record<K, string | null>
+  };
+};
+
+/** Plaintext values (rows from before encryption) pass through untouched. Throws `CredentialKeyError`. */
+export const openSecrets = <K extends string>(context: string, sealed: SealedSecrets<K>): Record<K, string | null> => {
+  const entries = Object.entries(sealed.values) as Array<[K, string | null]>;
+
+  if (!sealed.keyId || !sealed.wrappedKey) {
+    return sealed.values;
+  }
+
+  const masterKey = getKeyring().keys.get(sealed.keyId);
+  if (!masterKey) {
+    throw new CredentialKeyError(`Master key ${sealed.keyId} is not available to decrypt ${context}`, sealed.keyId);
+  }
+
+  let dataKey: Buffer;
+  try {
+    dataKey = open(masterKey, sealed.wrappedKey, `${context}:key`);
+  } catch (error) {
+    throw new CredentialKeyError(`Unable to unwrap the data key for ${context}`, sealed.keyId);
+  }
+
+  return Object.fromEntries(
+    entries.map(([field, value]) => {
+      if (value === null || !value.startsWith(ENCRYPTED_PREFIX)) {
+        return [field, value];
+      }
+      try {
+        return [field, open(dataKey, value.slice(ENCRYPTED_PREFIX.length), `${context}:${field}`).toString("utf8")];
+      } catch (error) {
+        throw new CredentialKeyError(`Unable to decrypt ${field} for ${context}`, sealed.keyId as string);
+      }
+    })
+  ) as Record<K, string | null>;
+};
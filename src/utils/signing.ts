@@ -62,11 +62,18 @@ export const verify = (input: Record<string, unknown>, signature: string): boole
 export const makeIdemKey = (input: Record<string, unknown>): string => sign(input);
 
 export interface CheckoutTokenClaims {
+  /** The tenant the link was priced against. */
+  siteKey?: string;
   clientId?: string;
   email?: string;
   itemId: string;
   itemType: string;
   price?: number;
+  /** Set only when `price` came from an allow-listed pricing rule rather than the catalog. */
+  ruleId?: number;
+  signedBy?: string;
+  /** Re-validated and reserved when the link is opened; the discount is not baked into `price`. */
+  promoCode?: string;
   classId?: string;
   exp: number;
 }
@@ -80,12 +87,16 @@ export const signCheckoutToken = (payload: CheckoutTokenPayload, expiresInSecond
 
   const exp = Math.floor(Date.now() / 1000) + Math.floor(expiresInSeconds);
   const claims: CheckoutTokenClaims = {
+    siteKey: typeof payload.siteKey === "string" && payload.siteKey.trim().length > 0 ? payload.siteKey : undefined,
     clientId: typeof payload.clientId === "string" && payload.clientId.trim().length > 0 ? payload.clientId : undefined,
     email: typeof payload.email === "string" && payload.email.trim().length > 0 ? payload.email : undefined,
     itemId: String(payload.itemId),
     itemType: String(payload.itemType),
     price:
       typeof payload.price === "number" && Number.isFinite(payload.price) ? Math.round(payload.price * 100) / 100 : undefined,
+    ruleId: typeof payload.ruleId === "number" && Number.isInteger(payload.ruleId) ? payload.ruleId : undefined,
+    signedBy: typeof payload.signedBy === "string" && payload.signedBy.trim().length > 0 ? payload.signedBy : undefined,
+    promoCode: typeof payload.promoCode === "string" && payload.promoCode.trim().length > 0 ? payload.promoCode : undefined,
     classId: typeof payload.classId === "string" && payload.classId.trim().length > 0 ? payload.classId : undefined,
     exp
   };
@@ -143,6 +154,9 @@ export const verifyCheckoutToken = (token: string): CheckoutTokenClaims => {
     itemId: String(claims.itemId ?? ""),
     itemType: String(claims.itemType ?? ""),
     price: typeof claims.price === "number" && Number.isFinite(claims.price) ? claims.price : undefined,
+    ruleId: typeof claims.ruleId === "number" && Number.isInteger(claims.ruleId) ? claims.ruleId : undefined,
+    signedBy: typeof claims.signedBy === "string" && claims.signedBy.trim().length > 0 ? claims.signedBy : undefined,
+    promoCode: typeof claims.promoCode === "string" && claims.promoCode.trim().length > 0 ? claims.promoCode : undefined,
     classId: typeof claims.classId === "string" && claims.classId.trim().length > 0 ? claims.classId : undefined,
     exp
   };
@@ -1,14 +1,20 @@
 import { Router } from "express";
-import { loadTenants } from "../lib/env.js";
 import { issueUserToken, listServices as listTenantServices } from "../integrations/mindbody.js";
 import { listPackages, listProducts, listServices } from "../services/mbo.js";
+import { getMindbodyClient, resolveTenant, toTenantConfig, UnknownTenantError } from "../services/tenants.js";
 import type { MindbodyServiceSummary } from "../integrations/mindbody.js";
 
 export const catalogRouter = Router();
 
-catalogRouter.get("/api/catalog", async (_req, res) => {
+catalogRouter.get("/api/catalog", async (req, res) => {
   try {
-    const [services, products, packages] = await Promise.all([listServices(), listProducts(), listPackages()]);
+    const siteKey = typeof req.query.siteKey === "string" ? req.query.siteKey : undefined;
+    const client = getMindbodyClient(await resolveTenant(siteKey));
+    const [services, products, packages] = await Promise.all([
+      listServices(client),
+      listProducts(client),
+      listPackages(client)
+    ]);
 
     res.json({
       services,
@@ -16,6 +22,10 @@ catalogRouter.get("/api/catalog", async (_req, res) => {
       packages
     });
   } catch (error) {
+    if (error instanceof UnknownTenantError) {
+      res.status(404).json({ error: "unknown_site", siteKey: error.siteKey });
+      return;
+    }
     const message = error instanceof Error ? error.message : "catalog error";
     res.status(502).json({ error: message });
   }
@@ -23,8 +33,7 @@ catalogRouter.get("/api/catalog", async (_req, res) => {
 
 catalogRouter.get("/api/:siteId/catalog", async (req, res) => {
   try {
-    const tenants = loadTenants();
-    const tenant = tenants.get(req.params.siteId);
+    const tenant = toTenantConfig(await resolveTenant(req.params.siteId));
     const accessToken = await issueUserToken(tenant);
     const services = await listTenantServices(tenant, accessToken);
 
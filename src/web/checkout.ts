@@ -1,9 +1,12 @@
 import { Router } from "express";
+import { createHash } from "node:crypto";
 import { verifyToken } from "../lib/crypto.js";
-import { env, loadTenants, TenantConfig } from "../lib/env.js";
+import { env } from "../lib/env.js";
 import { createPayment } from "../integrations/cayman.js";
-import { issueUserToken, listServices } from "../integrations/mindbody.js";
-import type { MindbodyServiceSummary } from "../integrations/mindbody.js";
+import { catalogSourceForTenant, quotePrice, type PriceQuote } from "../services/pricing.js";
+import { applyPromoCode, releasePromoRedemption, type PromoApplication } from "../services/promotions.js";
+import { resolveTenant, type Tenant } from "../services/tenants.js";
+import { normalizePromoCode } from "../storage/promoCodes.js";
 
 interface CheckoutClaims {
   siteId: string;
@@ -11,8 +14,11 @@ interface CheckoutClaims {
   itemType: string;
   email?: string;
   clientId?: string;
-  price?: number;
   classId?: string;
+  /** Only a verified token can name a pricing rule; query-string checkouts always pay the catalog price. */
+  ruleId?: number;
+  signedBy?: string;
+  promoCode?: string;
 }
 
 export const checkoutRouter = Router();
@@ -28,11 +34,13 @@ checkoutRouter.get("/checkout", async (req, res) => {
         itemType: String(verified.itemType ?? "Service"),
         email: typeof verified.email === "string" ? verified.email : undefined,
         clientId: typeof verified.clientId === "string" ? verified.clientId : undefined,
-        price: typeof verified.price === "number" ? verified.price : undefined,
-        classId: typeof verified.classId === "string" ? verified.classId : undefined
+        classId: typeof verified.classId === "string" ? verified.classId : undefined,
+        ruleId: typeof verified.ruleId === "number" ? verified.ruleId : undefined,
+        signedBy: typeof verified.signedBy === "string" ? verified.signedBy : undefined,
+        promoCode: typeof verified.promoCode === "string" ? verified.promoCode : undefined
       };
     } else {
-      const { siteId, itemId, itemType = "Service", email, clientId, price, classId } = req.query as Record<
+      const { siteId, itemId, itemType = "Service", email, clientId, classId } = req.query as Record<
         string,
         string
       >;
@@ -47,31 +55,62 @@ checkoutRouter.get("/checkout", async (req, res) => {
         itemType: String(itemType || "Service"),
         email: email ? String(email) : undefined,
         clientId: clientId ? String(clientId) : undefined,
-        price: typeof price === "string" && price.trim().length > 0 ? Number(price) : undefined,
         classId: classId ? String(classId) : undefined
       };
     }
 
-    const tenants = loadTenants();
-    const tenant = tenants.get(claims.siteId);
-    const amount = await trustedPrice(tenant, claims.itemId, claims.itemType, claims.price);
+    // Customers may type a code on a link that did not carry one.
+    const typedPromoCode = typeof req.query.promoCode === "string" ? req.query.promoCode.trim() : "";
+    const promoCode = typedPromoCode.length > 0 ? typedPromoCode : claims.promoCode;
+
+    const tenant = await resolveTenant(claims.siteId);
+    if (!tenant.cayman) {
+      throw new Error(`Cayman credentials are not configured for site key ${tenant.siteKey}`);
+    }
+    const quote = await trustedPrice(tenant, claims);
     const baseUrl = env.APP_BASE_URL.replace(/\/$/, "");
 
-    const payment = await createPayment({
-      amount: Math.round(Number(amount) * 100),
-      currency: tenant.currency || "USD",
-      description: `Site ${tenant.siteId} · ${claims.itemType} ${claims.itemId}`,
-      metadata: {
-        siteId: String(tenant.siteId),
-        itemId: String(claims.itemId),
-        itemType: String(claims.itemType),
-        clientId: claims.clientId ? String(claims.clientId) : undefined,
-        email: claims.email ? String(claims.email) : undefined,
-        classId: claims.classId ? String(claims.classId) : undefined
-      },
-      returnUrl: `${baseUrl}/thanks`,
-      cancelUrl: `${baseUrl}/cancel`
-    });
+    // There is no checkout session on this path, so the reservation is keyed by a reference the webhook gets back.
+    const promoReference = promoCode ? checkoutPromoReference(tenant, claims, promoCode, req.query.token) : undefined;
+    let promoApplication: PromoApplication | undefined;
+    if (promoCode && promoReference) {
+      promoApplication = await applyPromoCode({
+        code: promoCode,
+        siteKey: tenant.siteKey,
+        email: claims.email,
+        lines: [{ productId: quote.entry.id, name: quote.entry.name, unitPrice: quote.price, qty: 1, type: quote.entry.type }],
+        reference: promoReference
+      });
+    }
+
+    const amount = promoApplication?.total ?? quote.price;
+
+    let payment;
+    try {
+      payment = await createPayment(tenant.cayman.apiKey, {
+        amount: Math.round(Number(amount) * 100),
+        currency: tenant.currency || "USD",
+        description: `Site ${tenant.mindbody.siteId} · ${claims.itemType} ${claims.itemId}`,
+        metadata: {
+          siteId: tenant.siteKey,
+          itemId: String(claims.itemId),
+          itemType: String(claims.itemType),
+          clientId: claims.clientId ? String(claims.clientId) : undefined,
+          email: claims.email ? String(claims.email) : undefined,
+          classId: claims.classId ? String(claims.classId) : undefined,
+          promoCode: promoApplication?.promo.code,
+          promoReference: promoApplication ? promoReference : undefined,
+          discount: promoApplication ? promoApplication.discount.toFixed(2) : undefined
+        },
+        returnUrl: `${baseUrl}/thanks`,
+        cancelUrl: `${baseUrl}/cancel`
+      });
+    } catch (error) {
+      if (promoApplication && promoReference) {
+        await releasePromoRedemption(promoReference);
+      }
+      throw error;
+    }
 
     if (payment.checkoutUrl) {
       res.redirect(payment.checkoutUrl);
@@ -85,29 +124,33 @@ checkoutRouter.get("/checkout", async (req, res) => {
   }
 });
 
-const trustedPrice = async (
-  tenant: TenantConfig,
-  itemId: string,
-  itemType: string,
-  hintedPrice?: number
-): Promise<number> => {
-  if (typeof hintedPrice === "number" && Number.isFinite(hintedPrice) && hintedPrice > 0) {
-    return hintedPrice;
-  }
-
-  const accessToken = await issueUserToken(tenant);
-  const services = await listServices(tenant, accessToken);
-  const match = services.find((service: MindbodyServiceSummary) => String(service.Id) === String(itemId));
-
-  if (!match) {
-    throw new Error("item not found");
-  }
-
-  const price = typeof match.Price === "number" ? match.Price : Number(match.Price ?? 0);
-
-  if (!Number.isFinite(price) || price <= 0) {
-    throw new Error("item price missing or invalid");
-  }
+/**
+ * Opening the same link again, as the same client with the same code, yields the same reference, so reloads
+ * and abandoned visits reuse one reservation instead of each holding a use of the code until it lapses.
+ */
+const checkoutPromoReference = (tenant: Tenant, claims: CheckoutClaims, promoCode: string, token: unknown): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        tenant.siteKey,
+        typeof token === "string" ? token : [claims.itemType, claims.itemId, claims.classId ?? ""],
+        normalizePromoCode(promoCode),
+        claims.clientId ?? "",
+        claims.email?.trim().toLowerCase() ?? ""
+      ])
+    )
+    .digest("hex");
 
-  return price;
-};
+/**
+ * Prices are re-read from the tenant's catalog on every checkout; a price carried in the link is never
+ * charged as-is. A signed rule id is re-checked so deactivating a rule also invalidates links already sent.
+ * The override itself was recorded once, when the link was signed.
+ */
+const trustedPrice = (tenant: Tenant, claims: CheckoutClaims): Promise<PriceQuote> =>
+  quotePrice({
+    source: catalogSourceForTenant(tenant),
+    siteKey: tenant.siteKey,
+    itemId: claims.itemId,
+    itemType: claims.itemType,
+    ruleId: claims.ruleId
+  });
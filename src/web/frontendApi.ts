@@ -2,7 +2,30 @@ import { Router } from "express";
 import { randomUUID } from "node:crypto";
 import { env } from "../config/env.js";
 import { type MindbodyService } from "../mindbody/service.js";
+import { getSettings } from "../config/settings.js";
+import { currentApiKey, ensureApiKeySite, requireApiKey } from "../controllers/authController.js";
+import { AppointmentError, listAppointmentAvailability, startAppointmentCheckout } from "../services/appointments.js";
 import { createHostedPayment, type HostedPaymentResponse } from "../services/cayman.js";
+import {
+  cancelMembership,
+  loadSellablePlan,
+  MembershipError,
+  startMembership,
+  toMembershipSummary
+} from "../services/memberships.js";
+import { PaymentHoldError, startPaymentHold } from "../services/paymentHolds.js";
+import { catalogSourceForTenant, loadCatalog, normalizeItemType, PricingError } from "../services/pricing.js";
+import {
+  chargeResponseStatus,
+  chargeSessionWithSavedCard,
+  loadChargeableCard,
+  SavedCardError,
+  startCardSetup,
+  toSavedCardSummary
+} from "../services/savedCards.js";
+import { defaultSiteKey, resolveTenant, type Tenant } from "../services/tenants.js";
+import { getMembership, listMembershipPlans, listMemberships } from "../storage/memberships.js";
+import { getSavedCard, listSavedCardsForClient, removeSavedCard } from "../storage/savedCards.js";
 import { transactionMetaStore } from "../storage/transactionMetaStore.js";
 import { save, type SessionLine } from "../lib/sessions.js";
 import { type CaymanConsumerResponse } from "../types/cayman.js";
@@ -111,10 +134,131 @@ const buildAbsoluteUrl = (pathname: string, query?: Record<string, string | numb
 
 const centsToDollars = (valueInCents: number): number => Number.parseFloat((valueInCents / 100).toFixed(2));
 
+interface StorefrontClient {
+  id?: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+const readStorefrontClient = (body: CreateSessionBody | undefined): StorefrontClient | { error: string } => {
+  const email = toTrimmed(body?.client?.email);
+  if (!email) {
+    return { error: "client.email is required" };
+  }
+
+  const rawClientId = body?.client?.id;
+  return {
+    id: typeof rawClientId === "number" && Number.isFinite(rawClientId) ? String(rawClientId) : toTrimmed(rawClientId),
+    email,
+    firstName: toTrimmed(body?.client?.firstName) ?? "Guest",
+    lastName: toTrimmed(body?.client?.lastName) ?? "Checkout"
+  };
+};
+
+interface NormalizedItem {
+  qty: number;
+  priceCents: number;
+  mboId: number;
+  type: string;
+  title?: string;
+}
+
+const readStorefrontCart = (
+  body: CreateSessionBody | undefined
+): { normalizedItems: NormalizedItem[]; totalCents: number } | { error: string } => {
+  const cartItems = Array.isArray(body?.cart) ? body.cart : [];
+
+  if (cartItems.length === 0) {
+    return { error: "cart must include at least one item" };
+  }
+
+  const normalizedItems = cartItems.reduce<NormalizedItem[]>((acc, item) => {
+    const qty = parsePositiveNumber(item.qty) ?? 1;
+    const priceCents = parsePositiveNumber(item.price);
+    const mboId = item.mboId;
+    const type = toTrimmed(item.type) ?? "Service";
+
+    if (!priceCents || typeof mboId !== "number") {
+      return acc;
+    }
+
+    acc.push({
+      qty,
+      priceCents,
+      mboId,
+      type,
+      title: toTrimmed(item.title)
+    });
+
+    return acc;
+  }, []);
+
+  if (normalizedItems.length === 0) {
+    return { error: "cart contains no valid items" };
+  }
+
+  const totalCents = normalizedItems.reduce((acc, item) => acc + item.priceCents * item.qty, 0);
+
+  if (!Number.isFinite(totalCents) || totalCents <= 0) {
+    return { error: "cart total is invalid" };
+  }
+
+  return { normalizedItems, totalCents };
+};
+
+const toSessionLines = (items: NormalizedItem[]): SessionLine[] =>
+  items.map((item) => ({
+    productId: String(item.mboId),
+    name: item.title ?? `${item.type} ${item.mboId}`,
+    unitPrice: Number.parseFloat((item.priceCents / 100).toFixed(2)),
+    qty: item.qty,
+    type: item.type
+  }));
+
+/**
+ * Prices a storefront cart from the tenant's Mindbody catalog for saved-card charges and authorizations.
+ * The cart only picks items and quantities; its prices are ignored, and an unlisted item rejects it.
+ */
+const priceStorefrontCart = async (
+  tenant: Tenant,
+  cartItems: NonNullable<CreateSessionBody["cart"]>
+): Promise<{ lines: SessionLine[]; total: number }> => {
+  const requested = cartItems.map((item) => {
+    const qty = parsePositiveNumber(item.qty);
+    return {
+      itemId: typeof item.mboId === "number" && Number.isFinite(item.mboId) ? String(item.mboId) : toTrimmed(item.mboId),
+      itemType: normalizeItemType(toTrimmed(item.type)),
+      qty: qty && Number.isInteger(qty) ? qty : 1
+    };
+  });
+  const catalog = await loadCatalog(catalogSourceForTenant(tenant), new Set(requested.map((item) => item.itemType)));
+
+  const lines = requested.map(({ itemId, itemType, qty }): SessionLine => {
+    const entry = itemId ? catalog.get(`${itemType}:${itemId}`) : undefined;
+    if (!entry) {
+      throw new PricingError("item not found", "item_not_found", { itemId: itemId ?? null, itemType });
+    }
+    if (!Number.isFinite(entry.unitPrice) || entry.unitPrice <= 0) {
+      throw new PricingError("item price missing or invalid", "invalid_item_price", { itemId, itemType });
+    }
+    return { productId: entry.id, name: entry.name, unitPrice: entry.unitPrice, qty, type: entry.type };
+  });
+
+  // Sum in cents so the charge matches what Mindbody will total.
+  const totalCents = lines.reduce((acc, line) => acc + Math.round(line.unitPrice * 100) * line.qty, 0);
+  return { lines, total: centsToDollars(totalCents) };
+};
+
 export const createFrontendApiRouter = ({ mindbodyService }: FrontendApiDependencies): Router => {
   const router = Router();
 
-  router.post("/api/mbo/clients/upsert", async (req, res) => {
+  // This API serves the deployment's own site only, so keys issued for other tenants are refused.
+  router.post("/api/mbo/clients/upsert", requireApiKey("clients:write"), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
     const body = req.body as UpsertClientBody | undefined;
     const email = toTrimmed(body?.email);
 
@@ -185,69 +329,25 @@ export const createFrontendApiRouter = ({ mindbodyService }: FrontendApiDependen
     }
   });
 
-  router.post("/api/cayman/create-session", async (req, res) => {
-    const body = req.body as CreateSessionBody | undefined;
-    const clientEmail = toTrimmed(body?.client?.email);
-    const clientFirstName = toTrimmed(body?.client?.firstName) ?? "Guest";
-    const clientLastName = toTrimmed(body?.client?.lastName) ?? "Checkout";
-    const rawClientId = body?.client?.id;
-    const clientId =
-      typeof rawClientId === "number" && Number.isFinite(rawClientId)
-        ? String(rawClientId)
-        : toTrimmed(rawClientId);
-
-    if (!clientEmail) {
-      res.status(400).json({ error: "client.email is required" });
+  router.post("/api/cayman/create-session", requireApiKey("checkout:create"), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
       return;
     }
 
-    const cartItems = Array.isArray(body?.cart) ? body.cart : [];
-
-    if (cartItems.length === 0) {
-      res.status(400).json({ error: "cart must include at least one item" });
-      return;
-    }
-
-    type NormalizedItem = {
-      qty: number;
-      priceCents: number;
-      mboId: number;
-      type: string;
-      title?: string;
-    };
-
-    const normalizedItems = cartItems.reduce<NormalizedItem[]>((acc, item) => {
-      const qty = parsePositiveNumber(item.qty) ?? 1;
-      const priceCents = parsePositiveNumber(item.price);
-      const mboId = item.mboId;
-      const type = toTrimmed(item.type) ?? "Service";
-
-      if (!priceCents || typeof mboId !== "number") {
-        return acc;
-      }
-
-      acc.push({
-        qty,
-        priceCents,
-        mboId,
-        type,
-        title: toTrimmed(item.title)
-      });
-
-      return acc;
-    }, []);
-
-    if (normalizedItems.length === 0) {
-      res.status(400).json({ error: "cart contains no valid items" });
+    const body = req.body as CreateSessionBody | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
       return;
     }
+    const { email: clientEmail, firstName: clientFirstName, lastName: clientLastName, id: clientId } = client;
 
-    const totalCents = normalizedItems.reduce((acc, item) => acc + item.priceCents * item.qty, 0);
-
-    if (!Number.isFinite(totalCents) || totalCents <= 0) {
-      res.status(400).json({ error: "cart total is invalid" });
+    const cart = readStorefrontCart(body);
+    if ("error" in cart) {
+      res.status(400).json({ error: cart.error });
       return;
     }
+    const { normalizedItems, totalCents } = cart;
 
     const amount = centsToDollars(totalCents);
     const sessionId = randomUUID();
@@ -260,15 +360,9 @@ export const createFrontendApiRouter = ({ mindbodyService }: FrontendApiDependen
     const requiresInStore = normalizedItems.some((item) => item.type.toLowerCase() === "product");
 
     try {
-      const sessionLines: SessionLine[] = normalizedItems.map((item) => ({
-        productId: String(item.mboId),
-        name: item.title ?? `${item.type} ${item.mboId}`,
-        unitPrice: Number.parseFloat((item.priceCents / 100).toFixed(2)),
-        qty: item.qty,
-        type: item.type
-      }));
-
-      save({
+      const sessionLines = toSessionLines(normalizedItems);
+
+      await save({
         id: sessionId,
         siteKey,
         customer: {
@@ -330,5 +424,407 @@ export const createFrontendApiRouter = ({ mindbodyService }: FrontendApiDependen
     }
   });
 
+  router.get("/api/cayman/cards", requireApiKey("cards:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const clientId = toTrimmed(req.query.clientId);
+    if (!clientId) {
+      res.status(400).json({ error: "clientId is required" });
+      return;
+    }
+
+    try {
+      const cards = await listSavedCardsForClient(defaultSiteKey(), clientId);
+      res.json({ cards: cards.map(toSavedCardSummary) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to list saved cards";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.post("/api/cayman/cards", requireApiKey("cards:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const body = req.body as (CreateSessionBody & { returnUrl?: unknown }) | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
+      return;
+    }
+    if (!client.id) {
+      res.status(400).json({ error: "client.id is required" });
+      return;
+    }
+
+    try {
+      const tenant = await resolveTenant(defaultSiteKey());
+      const setup = await startCardSetup({
+        tenant,
+        clientId: client.id,
+        customer: { email: client.email, firstName: client.firstName, lastName: client.lastName },
+        billing: { ...getSettings().defaults.cayman, ...tenant.billing },
+        notificationUrl: buildAbsoluteUrl("/webhook/cayman/vault"),
+        returnUrl: toTrimmed(body?.returnUrl) ?? buildAbsoluteUrl("/thanks"),
+        createdBy: `api-key:${currentApiKey(res)?.prefix ?? "unknown"}`
+      });
+      res.status(201).json(setup);
+    } catch (error) {
+      if (error instanceof SavedCardError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to start card setup";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.delete("/api/cayman/cards/:id", requireApiKey("cards:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const cardId = Number.parseInt(req.params.id, 10);
+    const clientId = toTrimmed(req.query.clientId);
+    if (!Number.isInteger(cardId) || cardId <= 0 || !clientId) {
+      res.status(400).json({ error: "A card id and clientId are required" });
+      return;
+    }
+
+    try {
+      const card = await getSavedCard(cardId);
+      if (!card || card.siteKey !== defaultSiteKey() || card.clientId !== clientId) {
+        res.status(404).json({ error: "Saved card not found for this client" });
+        return;
+      }
+      await removeSavedCard(cardId);
+      res.json({ status: "removed", card: toSavedCardSummary((await getSavedCard(cardId)) ?? card) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to remove saved card";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  // Charges without a redirect, so it needs its own scope on top of an always-required key.
+  router.post("/api/cayman/charge-saved-card", requireApiKey("cards:charge", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const body = req.body as (CreateSessionBody & { savedCardId?: unknown }) | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
+      return;
+    }
+    const savedCardId = parsePositiveNumber(body?.savedCardId);
+    if (!client.id || !savedCardId || !Number.isInteger(savedCardId)) {
+      res.status(400).json({ error: "client.id and savedCardId are required" });
+      return;
+    }
+
+    if (!Array.isArray(body?.cart) || body.cart.length === 0) {
+      res.status(400).json({ error: "cart must include at least one item" });
+      return;
+    }
+    const cartItems = body.cart;
+
+    const siteKey = defaultSiteKey();
+    const sessionId = randomUUID();
+    const orderId = `storefront_${Date.now()}_${sessionId}`;
+
+    try {
+      const tenant = await resolveTenant(siteKey);
+      const cart = await priceStorefrontCart(tenant, cartItems);
+      const card = await loadChargeableCard(siteKey, client.id, savedCardId);
+      const session = await save({
+        id: sessionId,
+        siteKey,
+        customer: { email: client.email, firstName: client.firstName, lastName: client.lastName },
+        lines: cart.lines,
+        total: cart.total,
+        status: "created",
+        inStore: cart.lines.some((line) => line.type === "Product"),
+        clientId: client.id,
+        cayman: {
+          orderId
+        }
+      });
+
+      const charge = await chargeSessionWithSavedCard(session, card, tenant, "storefront:vault");
+      res.status(chargeResponseStatus(charge)).json({
+        status: charge.session.status,
+        sessionId,
+        orderId,
+        amount: session.total,
+        transactionId: charge.transactionId ?? null,
+        result: charge.result
+      });
+    } catch (error) {
+      if (error instanceof SavedCardError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      if (error instanceof PricingError) {
+        res.status(422).json({ error: error.code, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to charge saved card";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  // Same cart and client as create-session, but Cayman only authorizes the total until the visit is attended.
+  router.post("/api/cayman/authorize-session", requireApiKey("checkout:create"), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const body = req.body as (CreateSessionBody & { booking?: { type?: unknown; id?: unknown; startsAt?: unknown } }) | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
+      return;
+    }
+    if (!client.id) {
+      res.status(400).json({ error: "client.id is required" });
+      return;
+    }
+
+    const bookingType = toTrimmed(body?.booking?.type);
+    const rawBookingId = body?.booking?.id;
+    const bookingId = typeof rawBookingId === "number" && Number.isFinite(rawBookingId) ? String(rawBookingId) : toTrimmed(rawBookingId);
+    const startsAt = new Date(toTrimmed(body?.booking?.startsAt) ?? Number.NaN);
+    if ((bookingType !== "class" && bookingType !== "appointment") || !bookingId || Number.isNaN(startsAt.getTime())) {
+      res.status(400).json({ error: "booking.type (class or appointment), booking.id and booking.startsAt are required" });
+      return;
+    }
+
+    if (!Array.isArray(body?.cart) || body.cart.length === 0) {
+      res.status(400).json({ error: "cart must include at least one item" });
+      return;
+    }
+    const cartItems = body.cart;
+
+    try {
+      const tenant = await resolveTenant(defaultSiteKey());
+      const cart = await priceStorefrontCart(tenant, cartItems);
+      const hold = await startPaymentHold({
+        tenant,
+        clientId: client.id,
+        customer: { email: client.email, firstName: client.firstName, lastName: client.lastName },
+        billing: { ...getSettings().defaults.cayman, ...tenant.billing },
+        lines: cart.lines,
+        total: cart.total,
+        booking: { type: bookingType, id: bookingId, startsAt },
+        notificationUrl: buildAbsoluteUrl("/webhook/cayman/authorization"),
+        returnUrl: toTrimmed(body?.successUrl) ?? buildAbsoluteUrl("/thanks"),
+        createdBy: `api-key:${currentApiKey(res)?.prefix ?? "storefront"}`
+      });
+      res.status(201).json(hold);
+    } catch (error) {
+      if (error instanceof PaymentHoldError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      if (error instanceof PricingError) {
+        res.status(422).json({ error: error.code, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to start payment hold";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.get("/api/appointments/availability", async (req, res) => {
+    const sessionTypeId = toTrimmed(req.query.sessionTypeId);
+    const from = new Date(toTrimmed(req.query.startDate) ?? Number.NaN);
+    const to = new Date(toTrimmed(req.query.endDate) ?? Number.NaN);
+    if (!sessionTypeId || Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      res.status(400).json({ error: "sessionTypeId, startDate and endDate are required" });
+      return;
+    }
+
+    try {
+      const availability = await listAppointmentAvailability({
+        tenant: await resolveTenant(defaultSiteKey()),
+        sessionTypeId,
+        staffId: toTrimmed(req.query.staffId),
+        locationId: toTrimmed(req.query.locationId),
+        from,
+        to
+      });
+      res.json({ availability });
+    } catch (error) {
+      if (error instanceof AppointmentError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to look up appointment availability";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.post("/api/appointments/checkout", requireApiKey("checkout:create"), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const body = req.body as
+      | (CreateSessionBody & {
+          appointment?: { sessionTypeId?: unknown; staffId?: unknown; locationId?: unknown; startDateTime?: unknown; serviceId?: unknown };
+        })
+      | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
+      return;
+    }
+
+    const readId = (value: unknown): string | undefined =>
+      typeof value === "number" && Number.isFinite(value) ? String(value) : toTrimmed(value);
+    const sessionTypeId = readId(body?.appointment?.sessionTypeId);
+    const staffId = readId(body?.appointment?.staffId);
+    const locationId = readId(body?.appointment?.locationId);
+    const serviceId = readId(body?.appointment?.serviceId);
+    const startDateTime = new Date(toTrimmed(body?.appointment?.startDateTime) ?? Number.NaN);
+    if (!sessionTypeId || !staffId || !locationId || !serviceId || Number.isNaN(startDateTime.getTime())) {
+      res.status(400).json({
+        error: "appointment.sessionTypeId, staffId, locationId, startDateTime and serviceId are required"
+      });
+      return;
+    }
+
+    try {
+      const tenant = await resolveTenant(defaultSiteKey());
+      const checkout = await startAppointmentCheckout({
+        tenant,
+        slot: { sessionTypeId, staffId, locationId, startDateTime },
+        serviceId,
+        customer: { email: client.email, firstName: client.firstName, lastName: client.lastName },
+        clientId: client.id,
+        billing: { ...getSettings().defaults.cayman, ...tenant.billing },
+        notificationUrl: buildAbsoluteUrl("/webhook/cayman", { source: "appointment" }),
+        returnUrl: toTrimmed(body?.successUrl) ?? buildAbsoluteUrl("/thanks"),
+        cancelUrl: toTrimmed(body?.cancelUrl) ?? buildAbsoluteUrl("/cancel")
+      });
+      res.status(201).json(checkout);
+    } catch (error) {
+      if (error instanceof AppointmentError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to start appointment checkout";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.get("/api/memberships/plans", async (_req, res) => {
+    try {
+      const plans = await listMembershipPlans(defaultSiteKey());
+      res.json({
+        plans: plans.map(({ id, name, amount, frequencyDays, trialDays }) => ({ id, name, amount, frequencyDays, trialDays }))
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to list membership plans";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.get("/api/memberships", requireApiKey("memberships:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const clientId = toTrimmed(req.query.clientId);
+    if (!clientId) {
+      res.status(400).json({ error: "clientId is required" });
+      return;
+    }
+
+    try {
+      const memberships = await listMemberships({ siteKey: defaultSiteKey(), clientId });
+      res.json({ memberships: memberships.map(toMembershipSummary) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to list memberships";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  router.post("/api/memberships", requireApiKey("memberships:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const body = req.body as (CreateSessionBody & { planId?: unknown; returnUrl?: unknown }) | undefined;
+    const client = readStorefrontClient(body);
+    if ("error" in client) {
+      res.status(400).json({ error: client.error });
+      return;
+    }
+    const planId = parsePositiveNumber(body?.planId);
+    if (!client.id || !planId || !Number.isInteger(planId)) {
+      res.status(400).json({ error: "client.id and planId are required" });
+      return;
+    }
+
+    try {
+      const tenant = await resolveTenant(defaultSiteKey());
+      const plan = await loadSellablePlan(tenant.siteKey, planId);
+      const signup = await startMembership({
+        tenant,
+        plan,
+        clientId: client.id,
+        customer: { email: client.email, firstName: client.firstName, lastName: client.lastName },
+        billing: { ...getSettings().defaults.cayman, ...tenant.billing },
+        notificationUrl: buildAbsoluteUrl("/webhook/cayman/subscription"),
+        returnUrl: toTrimmed(body?.returnUrl) ?? buildAbsoluteUrl("/thanks"),
+        createdBy: `api-key:${currentApiKey(res)?.prefix ?? "unknown"}`
+      });
+      res.status(201).json(signup);
+    } catch (error) {
+      if (error instanceof MembershipError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to start membership";
+      res.status(502).json({ error: message });
+    }
+  });
+
+  // Customer-initiated: the storefront passes the signed-in client's id, and only that client's membership is cancelled.
+  router.post("/api/memberships/:id/cancel", requireApiKey("memberships:write", { alwaysRequired: true }), async (req, res) => {
+    if (!ensureApiKeySite(res, defaultSiteKey())) {
+      return;
+    }
+
+    const membershipId = Number.parseInt(req.params.id, 10);
+    const clientId = toTrimmed((req.body as { clientId?: unknown } | undefined)?.clientId) ?? toTrimmed(req.query.clientId);
+    if (!Number.isInteger(membershipId) || membershipId <= 0 || !clientId) {
+      res.status(400).json({ error: "A membership id and clientId are required" });
+      return;
+    }
+
+    try {
+      const membership = await getMembership(membershipId);
+      if (!membership || membership.siteKey !== defaultSiteKey() || membership.clientId !== clientId) {
+        res.status(404).json({ error: "Membership not found for this client" });
+        return;
+      }
+      const cancelled = await cancelMembership(membership, `api-key:${currentApiKey(res)?.prefix ?? "unknown"}`, "customer");
+      res.json({ status: "cancelled", membership: toMembershipSummary(cancelled) });
+    } catch (error) {
+      if (error instanceof MembershipError) {
+        res.status(error.status).json({ error: error.message, details: error.details ?? null });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Failed to cancel membership";
+      res.status(502).json({ error: message });
+    }
+  });
+
   return router;
 };
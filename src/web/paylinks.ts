@@ -1,6 +1,17 @@
 import { Router } from "express";
 import { signToken } from "../lib/crypto.js";
-import { env, loadTenants } from "../lib/env.js";
+import { env } from "../lib/env.js";
+import { pricingWriteAccess } from "../controllers/adminController.js";
+import { approverName, ensureApiKeySite, requireApiKey } from "../controllers/authController.js";
+import {
+  catalogSourceForTenant,
+  pricesMatch,
+  PricingError,
+  quotePrice,
+  recordOverride
+} from "../services/pricing.js";
+import { applyPromoCode, PromoError, type PromoApplication } from "../services/promotions.js";
+import { resolveTenant } from "../services/tenants.js";
 
 export const paylinksRouter = Router();
 
@@ -9,36 +20,101 @@ paylinksRouter.use((_, res, next) => {
   next();
 });
 
-paylinksRouter.post("/api/paylinks", (req, res) => {
-  const { siteId, clientId, email, itemId, itemType = "Service", price, classId } = (req.body ?? {}) as Record<
-    string,
-    unknown
-  >;
+paylinksRouter.post("/api/paylinks", requireApiKey("paylinks:create"), async (req, res) => {
+  const { siteId, clientId, email, itemId, itemType = "Service", price, classId, ruleId, signedBy, promoCode } = (req.body ??
+    {}) as Record<string, unknown>;
 
   if (!siteId || !itemId || (!clientId && !email)) {
     res.status(400).json({ error: "siteId, itemId and clientId|email required" });
     return;
   }
 
-  loadTenants().get(siteId as string);
+  const ruleIdValue = ruleId === undefined || ruleId === null || ruleId === "" ? undefined : Number(ruleId);
+  const signer = typeof signedBy === "string" && signedBy.trim().length > 0 ? signedBy.trim().slice(0, 100) : undefined;
 
-  const priceValue = typeof price === "number" && Number.isFinite(price) ? price : undefined;
-  const token = signToken(
-    {
-      siteId: String(siteId),
-      clientId: clientId ? String(clientId) : undefined,
-      email: email ? String(email) : undefined,
+  let approver: string | undefined;
+  if (ruleIdValue !== undefined) {
+    if (!Number.isInteger(ruleIdValue) || ruleIdValue <= 0) {
+      res.status(400).json({ error: "ruleId must be a positive integer" });
+      return;
+    }
+    const principal = await pricingWriteAccess(req, String(siteId));
+    if (!principal) {
+      res.status(401).json({ error: "price overrides require pricing write access to this site" });
+      return;
+    }
+    approver = approverName(res, principal);
+  }
+
+  try {
+    const tenant = await resolveTenant(String(siteId));
+    if (!ensureApiKeySite(res, tenant.siteKey)) {
+      return;
+    }
+    const quote = await quotePrice({
+      source: catalogSourceForTenant(tenant),
+      siteKey: tenant.siteKey,
       itemId: String(itemId),
       itemType: String(itemType),
-      price: priceValue,
-      classId: classId ? String(classId) : undefined
-    },
-    3600
-  );
-
-  const baseUrl = env.APP_BASE_URL.replace(/\/$/, "");
-  res.json({
-    url: `${baseUrl}/checkout?token=${encodeURIComponent(token)}`,
-    expiresInSec: 3600
-  });
+      ruleId: ruleIdValue
+    });
+
+    // A bare `price` used to be signed as-is; now it may only confirm what the catalog (or a rule) says.
+    if (typeof price === "number" && Number.isFinite(price) && !pricesMatch(price, quote.price)) {
+      res.status(422).json({
+        error: "price_override_not_allowed",
+        details: { requested: price, price: quote.price, hint: "Use an allow-listed ruleId to change the price" }
+      });
+      return;
+    }
+
+    // Checked now so staff hear about a bad code before sending the link; /checkout applies it again.
+    const promo = typeof promoCode === "string" && promoCode.trim().length > 0 ? promoCode.trim() : undefined;
+    let promoApplication: PromoApplication | undefined;
+    if (promo) {
+      promoApplication = await applyPromoCode({
+        code: promo,
+        siteKey: tenant.siteKey,
+        email: email ? String(email) : undefined,
+        lines: [{ productId: quote.entry.id, name: quote.entry.name, unitPrice: quote.price, qty: 1, type: quote.entry.type }]
+      });
+    }
+
+    if (quote.rule && approver) {
+      await recordOverride(quote, tenant.siteKey, approver, "paylink", signer);
+    }
+
+    const token = signToken(
+      {
+        siteId: String(siteId),
+        clientId: clientId ? String(clientId) : undefined,
+        email: email ? String(email) : undefined,
+        itemId: String(itemId),
+        itemType: String(itemType),
+        price: quote.price,
+        ruleId: quote.rule?.id,
+        signedBy: quote.rule ? approver : undefined,
+        promoCode: promoApplication?.promo.code,
+        classId: classId ? String(classId) : undefined
+      },
+      3600
+    );
+
+    const baseUrl = env.APP_BASE_URL.replace(/\/$/, "");
+    res.json({
+      url: `${baseUrl}/checkout?token=${encodeURIComponent(token)}`,
+      expiresInSec: 3600,
+      price: quote.price,
+      catalogPrice: quote.catalogPrice,
+      ...(promoApplication ? { discount: promoApplication.discount, total: promoApplication.total } : {})
+    });
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof PromoError) {
+      res.status(422).json({ error: error.code, details: error.details ?? null });
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "paylink error";
+    res.status(400).json({ error: message });
+  }
 });
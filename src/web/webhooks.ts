@@ -1,8 +1,23 @@
 import express, { Router } from "express";
-import { hmacVerify } from "../lib/crypto.js";
-import { once } from "../lib/idempotency.js";
-import { env, loadTenants } from "../lib/env.js";
 import { checkoutShoppingCart, issueUserToken, upsertClient } from "../integrations/mindbody.js";
+import { bookPaidClass, describeClassBooking, type ClassBooking } from "../services/classBooking.js";
+import { confirmPromoRedemption, releasePromoRedemption } from "../services/promotions.js";
+import { resolveTenant, toTenantConfig } from "../services/tenants.js";
+import {
+  claimWebhookDelivery,
+  completionFromResponse,
+  finishWebhookDelivery,
+  logWebhookDelivery,
+  releaseWebhookDelivery
+} from "../services/webhookEvents.js";
+import { raisePaymentAlert } from "../services/paymentAlerts.js";
+import {
+  confirmCaymanTransaction,
+  NotificationVerificationError,
+  SIGNATURE_HEADER,
+  verifyCaymanSignature
+} from "../services/webhookVerification.js";
+import { type WebhookSignatureResult } from "../storage/webhookEvents.js";
 
 interface CaymanEvent {
   id?: string;
@@ -14,68 +29,107 @@ interface CaymanEvent {
 export const webhooksRouter = Router();
 
 webhooksRouter.post("/webhooks/cayman", express.raw({ type: "*/*" }), async (req, res) => {
+  const logged = await logWebhookDelivery(req, { kind: "event", source: "webhook:event" });
+  const known: { siteKey?: string; transactionId?: string; signatureResult?: WebhookSignatureResult } = {};
+  let claimedKey: string | undefined;
+  const reply = async (status: number, body: Record<string, unknown>): Promise<void> => {
+    await finishWebhookDelivery(logged, { ...completionFromResponse(status, body, known.signatureResult), ...known });
+    res.status(status).json(body);
+  };
+
   try {
     const rawBody = req.body;
 
     if (!Buffer.isBuffer(rawBody)) {
-      res.status(400).json({ error: "Missing raw request body" });
+      await reply(400, { error: "Missing raw request body" });
       return;
     }
 
-    const signature = req.get("cayman-signature") ?? req.get("Cayman-Signature");
+    let event: CaymanEvent;
 
-    if (!hmacVerify(rawBody, signature, env.CAYMAN_WEBHOOK_SECRET)) {
-      res.status(400).json({ error: "bad signature" });
+    try {
+      event = JSON.parse(rawBody.toString("utf8")) as CaymanEvent;
+    } catch (error) {
+      await reply(400, { error: "Invalid JSON webhook payload" });
       return;
     }
 
-    let event: CaymanEvent;
+    // The payload only says which tenant's secret to check it against; nothing else is read until it verifies.
+    const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+    const siteId = metadata.siteId ?? metadata.siteid;
+    const tenant = await resolveTenant(siteId ? String(siteId) : undefined);
+    known.siteKey = tenant.siteKey;
 
     try {
-      event = JSON.parse(rawBody.toString("utf8")) as CaymanEvent;
+      verifyCaymanSignature(tenant, rawBody, req.get(SIGNATURE_HEADER));
+      known.signatureResult = "valid";
     } catch (error) {
-      res.status(400).json({ error: "Invalid JSON webhook payload" });
-      return;
+      if (error instanceof NotificationVerificationError) {
+        known.signatureResult = "invalid";
+        console.warn("[cayman:webhooks] Rejected webhook", { siteKey: tenant.siteKey, reason: error.reason, detail: error.message });
+        await reply(401, { error: "bad signature", reason: error.reason, detail: error.message });
+        return;
+      }
+      throw error;
     }
 
     if (!event.id) {
-      res.status(400).json({ error: "Webhook event missing id" });
+      await reply(400, { error: "Webhook event missing id" });
       return;
     }
+    known.transactionId = event.id;
 
-    if (!once(`cg:${event.id}`)) {
-      res.json({ ok: true, deduped: true });
+    if (event.status !== "succeeded") {
+      await reply(200, { ok: true, ignored: true });
       return;
     }
 
-    if (event.status !== "succeeded") {
-      res.json({ ok: true, ignored: true });
+    const rawAmount = typeof event.amount === "number" ? event.amount : Number(event.amount ?? 0);
+    if (!Number.isFinite(rawAmount)) {
+      await reply(400, { error: "Webhook amount missing or invalid" });
       return;
     }
 
-    const metadata = (event.metadata ?? {}) as Record<string, unknown>;
-    const siteId = metadata.siteId ?? metadata.siteid;
+    // A valid signature proves who sent the event, not that the charge went through; confirm it before
+    // dedupe so an event refused while Cayman was unreachable can still be redelivered.
+    try {
+      await confirmCaymanTransaction(tenant, event.id, { amount: rawAmount / 100, currency: tenant.currency });
+    } catch (error) {
+      if (error instanceof NotificationVerificationError) {
+        console.warn("[cayman:webhooks] Rejected unconfirmed event", { siteKey: tenant.siteKey, eventId: event.id, reason: error.reason });
+        await raisePaymentAlert(error, { siteKey: tenant.siteKey, transactionId: event.id, source: "webhook:event" });
+        await reply(error.reason === "lookup_failed" ? 503 : 422, { error: "unconfirmed payment", reason: error.reason, detail: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const dedupeKey = `cg:${event.id}`;
+    if (!(await claimWebhookDelivery(logged, dedupeKey))) {
+      await reply(200, { ok: true, deduped: true });
+      return;
+    }
+    claimedKey = dedupeKey;
 
     if (!siteId) {
-      res.status(400).json({ error: "Webhook metadata missing siteId" });
+      await reply(400, { error: "Webhook metadata missing siteId" });
       return;
     }
 
     const itemId = metadata.itemId ?? metadata.itemid;
 
     if (!itemId) {
-      res.status(400).json({ error: "Webhook metadata missing itemId" });
+      await reply(400, { error: "Webhook metadata missing itemId" });
       return;
     }
 
-    const rawAmount = typeof event.amount === "number" ? event.amount : Number(event.amount ?? 0);
-    if (!Number.isFinite(rawAmount)) {
-      res.status(400).json({ error: "Webhook amount missing or invalid" });
-      return;
-    }
+    const promoReference =
+      typeof metadata.promoReference === "string" && metadata.promoReference.length > 0 ? metadata.promoReference : undefined;
 
-    const tenant = loadTenants().get(siteId as string);
-    const accessToken = await issueUserToken(tenant);
+    const discount = Number(metadata.discount);
+
+    const tenantConfig = toTenantConfig(tenant);
+    const accessToken = await issueUserToken(tenantConfig);
 
     const rawClientId = metadata.clientId ?? metadata.clientid;
     const clientId =
@@ -92,24 +146,60 @@ webhooksRouter.post("/webhooks/cayman", express.raw({ type: "*/*" }), async (req
     } else {
       const email = typeof metadata.email === "string" ? metadata.email : undefined;
       if (!email) {
-        res.status(400).json({ error: "Webhook metadata missing clientId and email" });
+        await reply(400, { error: "Webhook metadata missing clientId and email" });
         return;
       }
-      const client = await upsertClient(tenant, accessToken, { email });
+      const client = await upsertClient(tenantConfig, accessToken, { email });
       resolvedClientId = client.Id ?? client.UniqueId ?? "";
     }
 
-    const sale = await checkoutShoppingCart(tenant, accessToken, {
+    // The class is booked before the sale so the booking can go on the receipt, and so a class that
+    // cannot be booked is refunded without a Mindbody sale to return.
+    const rawClassId = metadata.classId ?? metadata.classid;
+    const classId = typeof rawClassId === "string" || typeof rawClassId === "number" ? String(rawClassId).trim() : "";
+    let booking: ClassBooking | undefined;
+    if (classId) {
+      booking = await bookPaidClass({
+        tenant,
+        tenantConfig,
+        accessToken,
+        clientId: resolvedClientId,
+        classId,
+        transactionId: event.id,
+        amount: rawAmount / 100
+      });
+      console.info("[cayman:webhooks] Class booking", { siteKey: tenant.siteKey, eventId: event.id, ...booking });
+    }
+
+    if (booking?.status === "refunded") {
+      if (promoReference) {
+        await releasePromoRedemption(promoReference);
+      }
+      await reply(200, { ok: true, refunded: true, booking });
+      return;
+    }
+
+    if (promoReference) {
+      await confirmPromoRedemption(promoReference);
+    }
+
+    const sale = await checkoutShoppingCart(tenantConfig, accessToken, {
       clientId: resolvedClientId,
       itemId: itemId as string,
       itemType: (metadata.itemType as string) ?? "Service",
       amountPaid: rawAmount / 100,
-      notes: `Cayman ${event.id}`
+      discountAmount: Number.isFinite(discount) && discount > 0 ? discount : undefined,
+      notes: booking ? `Cayman ${event.id} · ${describeClassBooking(booking)}` : `Cayman ${event.id}`
     });
 
-    res.json({ ok: true, sale });
+    await reply(200, { ok: true, sale, ...(booking ? { booking } : {}) });
   } catch (error) {
+    // The payment is confirmed but the client lookup, booking, refund or sale failed: give the claim back so
+    // Cayman's redelivery runs it again rather than being answered as a duplicate of this attempt.
+    if (claimedKey) {
+      await releaseWebhookDelivery(logged, claimedKey);
+    }
     const message = error instanceof Error ? error.message : "webhook error";
-    res.status(400).json({ error: message });
+    await reply(400, { error: message });
   }
 });
@@ -0,0 +1,47 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { before, describe, it } from "node:test";
+import express from "express";
+import request from "supertest";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { createAdminRouter } from "../src/routes/admin.js";
+import { hashPassword, login } from "../src/services/adminAuth.js";
+import { createAdminUser } from "../src/storage/adminUsers.js";
+
+// Accounts and their sessions live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST).
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+const app = express().use("/admin", createAdminRouter());
+
+describe("admin routes for a signed-in account", { skip }, () => {
+  let token = "";
+
+  before(async () => {
+    const email = `owner-${crypto.randomUUID()}@example.com`;
+    const password = crypto.randomBytes(16).toString("hex");
+    await createAdminUser({ email, passwordHash: await hashPassword(password), role: "owner" });
+    token = (await login(email, password)).token;
+  });
+
+  it("does not ask an account with config:write for the shared secret", async () => {
+    const response = await request(app)
+      .post("/admin/config")
+      .set("authorization", `Bearer ${token}`)
+      .send({
+        siteKey: "test-site",
+        caymanApiKey: "cayman-key",
+        caymanApiUsername: "merchant",
+        caymanApiPassword: "secret",
+        mindbodyApiKey: "mbo-key",
+        mindbodySourceName: "source",
+        mindbodySourcePassword: "source-password"
+      });
+
+    assert.equal(response.status, 422);
+    assert.deepEqual(
+      response.body.errors.map((error: { field: string }) => error.field),
+      ["mindbodySiteId"]
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { ApiKeyError, authenticateApiKey, issueApiKey } from "../src/services/apiKeys.js";
+import { revokeApiKey } from "../src/storage/apiKeys.js";
+
+// Keys live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST); rate windows are in process memory.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+const refusal = (code: ApiKeyError["code"], status: number) => (error: unknown) =>
+  error instanceof ApiKeyError && error.code === code && error.status === status;
+
+describe("authenticateApiKey", () => {
+  it("refuses a token that is not shaped like a key without looking it up", async () => {
+    await assert.rejects(authenticateApiKey("not-a-key", "paylinks:create"), refusal("invalid_api_key", 401));
+  });
+});
+
+describe("authenticateApiKey with stored keys", { skip }, () => {
+  it("refuses a known prefix presented with the wrong secret", async () => {
+    const { token } = await issueApiKey({ siteKey: "test-site", name: "wrong secret", scopes: ["paylinks:create"], createdBy: "test" });
+    // `cgk_`, the 12-character prefix and `_`, then a secret that was never issued.
+    const forged = `${token.slice(0, "cgk_".length + 13)}${"A".repeat(43)}`;
+
+    await assert.rejects(authenticateApiKey(forged, "paylinks:create"), refusal("invalid_api_key", 401));
+  });
+
+  it("refuses a scope the key was not given", async () => {
+    const { token } = await issueApiKey({ siteKey: "test-site", name: "paylinks only", scopes: ["paylinks:create"], createdBy: "test" });
+
+    const key = await authenticateApiKey(token, "paylinks:create");
+    assert.equal(key.siteKey, "test-site");
+    await assert.rejects(authenticateApiKey(token, "cards:charge"), refusal("insufficient_scope", 403));
+  });
+
+  it("stops a key at its per-minute limit and says when to retry", async () => {
+    const { token } = await issueApiKey({
+      siteKey: "test-site",
+      name: "limited",
+      scopes: ["checkout:create"],
+      rateLimitPerMinute: 2,
+      createdBy: "test"
+    });
+
+    await authenticateApiKey(token, "checkout:create");
+    await authenticateApiKey(token, "checkout:create");
+    await assert.rejects(authenticateApiKey(token, "checkout:create"), (error: unknown) => {
+      assert.ok(refusal("rate_limited", 429)(error));
+      const retryAfterSec = (error as ApiKeyError).retryAfterSec ?? 0;
+      assert.ok(retryAfterSec >= 1 && retryAfterSec <= 60);
+      return true;
+    });
+  });
+
+  it("refuses a revoked key", async () => {
+    const { key, token } = await issueApiKey({ siteKey: "test-site", name: "revoked", scopes: ["clients:write"], createdBy: "test" });
+    assert.ok(await revokeApiKey(key.id));
+
+    await assert.rejects(authenticateApiKey(token, "clients:write"), refusal("invalid_api_key", 401));
+  });
+});
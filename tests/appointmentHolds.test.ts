@@ -0,0 +1,79 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { createMemorySessionDriver, get, save, setSessionDriver } from "../src/lib/sessions.js";
+import { processCaymanNotification } from "../src/routes/webhooks.js";
+import { createAppointmentHold, getAppointmentHold } from "../src/storage/appointmentHolds.js";
+
+// Holds live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST); sessions use the memory driver.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+// Installed before any Cayman client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+/** An appointment checkout holding a slot no other test uses. */
+const heldCheckout = async (): Promise<{ sessionId: string; holdId: number }> => {
+  const sessionId = `test_${crypto.randomUUID()}`;
+  const holdId = await createAppointmentHold({
+    siteKey: "test-site",
+    sessionId,
+    sessionTypeId: "1",
+    staffId: crypto.randomUUID(),
+    locationId: "1",
+    startDateTime: new Date(Date.now() + 86_400_000),
+    holdExpiresAt: new Date(Date.now() + 900_000)
+  });
+  assert.ok(holdId !== undefined);
+  await save({
+    id: sessionId,
+    siteKey: "test-site",
+    customer: { email: "client@example.com", firstName: "Test", lastName: "Client" },
+    lines: [{ productId: "101", name: "Massage", unitPrice: 80, qty: 1, type: "Service" }],
+    total: 80,
+    status: "created",
+    appointmentHoldId: holdId,
+    cayman: { orderId: `order_${sessionId}` }
+  });
+  return { sessionId, holdId };
+};
+
+describe("appointment holds on a failed payment", { skip }, () => {
+  beforeEach(() => {
+    setSessionDriver(createMemorySessionDriver());
+    upstream.reset();
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  it("keeps the slot held for a failure nobody can verify", async () => {
+    const { sessionId, holdId } = await heldCheckout();
+
+    const result = await processCaymanNotification({ source: "test", query: { sessionId, "result-code": "300" } });
+
+    assert.equal(result.status, "ignored");
+    assert.equal((await getAppointmentHold(holdId))?.status, "held");
+  });
+
+  it("releases the slot once Cayman confirms the decline", async () => {
+    const { sessionId, holdId } = await heldCheckout();
+    upstream.onPost("/transaction-info").reply(200, {
+      success: true,
+      transaction: { "transaction-id": "txn-declined", "order-id": `order_${sessionId}`, "result-code": "300" }
+    });
+
+    const result = await processCaymanNotification({
+      source: "test",
+      query: { sessionId, "result-code": "300", "transaction-id": "txn-declined" }
+    });
+
+    assert.equal(result.status, "failed");
+    assert.equal((await get(sessionId))?.status, "failed");
+    assert.equal((await getAppointmentHold(holdId))?.status, "released");
+  });
+});
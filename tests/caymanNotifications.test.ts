@@ -0,0 +1,150 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { createMemorySessionDriver, get, history, save, setSessionDriver, type Session } from "../src/lib/sessions.js";
+import { processCaymanNotification } from "../src/routes/webhooks.js";
+
+// Installed before any Cayman or Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const newSession = (id: string, patch: Partial<Session> = {}): Session => ({
+  id,
+  siteKey: "test-site",
+  customer: { email: "client@example.com", firstName: "Test", lastName: "Client" },
+  lines: [{ productId: "101", name: "Drop-in class", unitPrice: 25, qty: 1, type: "Service" }],
+  total: 25,
+  status: "created",
+  ...patch
+});
+
+const approve = (transaction: Record<string, unknown>): void => {
+  upstream.onPost("/transaction-info").reply(200, {
+    success: true,
+    transaction: { amount: "25.00", currency: "USD", "result-code": "100", ...transaction }
+  });
+};
+
+describe("processCaymanNotification", () => {
+  beforeEach(() => {
+    setSessionDriver(createMemorySessionDriver());
+    upstream.reset();
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  it("refuses a transaction that already paid for another session", async () => {
+    await save(newSession("paid-first", { status: "paid", cayman: { transactionId: "txn-shared" } }));
+    await save(newSession("replayed"));
+    approve({ "transaction-id": "txn-shared" });
+
+    const result = await processCaymanNotification({
+      source: "test",
+      body: { sessionId: "replayed", "transaction-id": "txn-shared", "result-code": "100" }
+    });
+
+    assert.equal(result.status, "rejected");
+    assert.equal(result.reason, "transaction_reused");
+    assert.equal((await get("replayed"))?.status, "created");
+    assert.ok((await history("replayed")).some((event) => event.type === "payment_alert"));
+    assert.equal(upstream.history.post.filter((call) => call.url?.includes("checkoutshoppingcart")).length, 0);
+  });
+
+  it("refuses a transaction Cayman reports under another order", async () => {
+    await save(newSession("ordered", { cayman: { orderId: "order_ordered" } }));
+    approve({ "transaction-id": "txn-other-order", "order-id": "order_someone_else" });
+
+    const result = await processCaymanNotification({
+      source: "test",
+      body: { sessionId: "ordered", "transaction-id": "txn-other-order", "result-code": "100" }
+    });
+
+    assert.equal(result.reason, "order_mismatch");
+    assert.equal((await get("ordered"))?.status, "created");
+  });
+
+  describe("failure notifications", () => {
+    const failure = { sessionId: "paying", "result-code": "300", "result-text": "DECLINED" };
+
+    beforeEach(async () => {
+      await save(newSession("paying", { cayman: { orderId: "order_paying" } }));
+    });
+
+    it("leaves the session alone when an unsigned failure carries nothing to check", async () => {
+      const result = await processCaymanNotification({ source: "test", query: failure });
+
+      assert.equal(result.status, "ignored");
+      assert.equal((await get("paying"))?.status, "created");
+      assert.equal(upstream.history.post.length, 0);
+    });
+
+    it("leaves the session alone when Cayman reports the transaction approved", async () => {
+      approve({ "transaction-id": "txn-paid", "order-id": "order_paying" });
+
+      const result = await processCaymanNotification({ source: "test", query: { ...failure, "transaction-id": "txn-paid" } });
+
+      assert.equal(result.status, "ignored");
+      assert.equal((await get("paying"))?.status, "created");
+    });
+
+    it("leaves the session alone when the declined transaction belongs to another order", async () => {
+      upstream.onPost("/transaction-info").reply(200, {
+        success: true,
+        transaction: { "transaction-id": "txn-declined", "order-id": "order_other", "result-code": "300" }
+      });
+
+      const result = await processCaymanNotification({ source: "test", query: { ...failure, "transaction-id": "txn-declined" } });
+
+      assert.equal(result.status, "ignored");
+      assert.equal((await get("paying"))?.status, "created");
+    });
+
+    it("fails the session when Cayman confirms the decline", async () => {
+      upstream.onPost("/transaction-info").reply(200, {
+        success: true,
+        transaction: { "transaction-id": "txn-declined", "order-id": "order_paying", "result-code": "300" }
+      });
+
+      const result = await processCaymanNotification({ source: "test", query: { ...failure, "transaction-id": "txn-declined" } });
+
+      assert.equal(result.status, "failed");
+      assert.equal((await get("paying"))?.status, "failed");
+    });
+
+    it("releases nothing when the session is no longer awaiting payment", async () => {
+      await save(newSession("paying", { status: "failed", cayman: { orderId: "order_paying" } }));
+      upstream.onPost("/transaction-info").reply(200, {
+        success: true,
+        transaction: { "transaction-id": "txn-declined", "order-id": "order_paying", "result-code": "300" }
+      });
+
+      const result = await processCaymanNotification({ source: "test", query: { ...failure, "transaction-id": "txn-declined" } });
+
+      assert.equal(result.status, "ignored");
+      assert.equal(result.detail, "Session is failed");
+    });
+
+    it("fails the session on a signed failure and refuses a forged one", async () => {
+      const rawBody = Buffer.from(JSON.stringify(failure));
+      const sign = (secret: string) => crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+
+      const forged = await processCaymanNotification({ source: "test", body: failure, rawBody, signature: sign("guessed") });
+      assert.equal(forged.status, "rejected");
+      assert.equal(forged.reason, "bad_signature");
+      assert.equal((await get("paying"))?.status, "created");
+
+      const signed = await processCaymanNotification({
+        source: "test",
+        body: failure,
+        rawBody,
+        signature: sign(process.env.CAYMAN_WEBHOOK_SECRET!)
+      });
+      assert.equal(signed.status, "failed");
+      assert.equal((await get("paying"))?.status, "failed");
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, before, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import express from "express";
+import request from "supertest";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { signToken } from "../src/lib/crypto.js";
+import { createPromoCode, listPromoRedemptions, type PromoCode } from "../src/storage/promoCodes.js";
+import { checkoutRouter } from "../src/web/checkout.js";
+
+// Promo codes and their reservations live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST).
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+// Installed before any Cayman or Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const app = express().use(checkoutRouter);
+
+describe("GET /checkout with a promo code", { skip }, () => {
+  let promo: PromoCode;
+
+  before(async () => {
+    promo = await createPromoCode({
+      code: `ONCE${crypto.randomBytes(4).toString("hex")}`,
+      siteKey: "test-site",
+      kind: "amount_off",
+      value: 5,
+      maxRedemptions: 1,
+      createdBy: "test"
+    });
+  });
+
+  beforeEach(() => {
+    upstream.reset();
+    upstream.onPost("/usertoken/issue").reply(200, { AccessToken: "staff-token" });
+    upstream.onGet("/sale/services").reply(200, { Services: [{ Id: 101, Name: "Drop-in class", Price: 25 }] });
+    upstream.onPost("/payments").reply(200, { id: "pay-1", checkoutUrl: "https://cayman.test/pay/1" });
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  const open = (email: string) =>
+    request(app)
+      .get("/checkout")
+      .query({ token: signToken({ siteId: "test-site", itemId: "101", itemType: "Service", email, promoCode: promo.code }) });
+
+  it("holds one use of the code however often the same link is opened", async () => {
+    const token = signToken({ siteId: "test-site", itemId: "101", itemType: "Service", email: "first@example.com", promoCode: promo.code });
+
+    for (let view = 0; view < 3; view += 1) {
+      const response = await request(app).get("/checkout").query({ token });
+      assert.equal(response.status, 302);
+    }
+
+    const payments = upstream.history.post.filter((call) => call.url === "/payments").map((call) => JSON.parse(call.data));
+    assert.equal(payments.length, 3);
+    assert.equal(new Set(payments.map((payment) => payment.metadata.promoReference)).size, 1);
+    assert.equal(payments[0].amount, 2000);
+    assert.equal((await listPromoRedemptions(promo.id)).length, 1);
+  });
+
+  it("still refuses another client once the cap is held", async () => {
+    const response = await open("second@example.com");
+
+    assert.equal(response.status, 400);
+    assert.match(response.text, /usage limit/);
+  });
+});
@@ -0,0 +1,101 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { bookPaidClass, type PaidClassBookingInput } from "../src/services/classBooking.js";
+import { toTenantConfig, type Tenant } from "../src/services/tenants.js";
+
+// Installed before any Cayman or Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const tenant: Tenant = {
+  siteKey: "test-site",
+  source: "env",
+  currency: "USD",
+  mindbody: { siteId: "-99", apiKey: "mbo-test-key", username: "test.staff", password: "test-staff-password" },
+  cayman: { baseUrl: "https://cayman.test", apiKey: "cayman-test-key", username: "merchant", password: "secret" }
+};
+
+const input: PaidClassBookingInput = {
+  tenant,
+  tenantConfig: toTenantConfig(tenant),
+  accessToken: "staff-token",
+  clientId: "100000001",
+  classId: "4242",
+  transactionId: "txn-class",
+  amount: 25
+};
+
+const ADD_TO_CLASS = "/class/addclienttoclass";
+const refusal = (message: string) => [400, { Error: { Code: "ClassBookingError", Message: message } }] as const;
+const bookingCalls = () => upstream.history.post.filter((call) => call.url === ADD_TO_CLASS).map((call) => JSON.parse(call.data));
+const refunds = () => upstream.history.post.filter((call) => call.url === "/three-step").map((call) => JSON.parse(call.data).refund);
+
+describe("bookPaidClass", () => {
+  beforeEach(() => {
+    upstream.reset();
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  it("books the client into the class without taking payment in Mindbody", async () => {
+    upstream.onPost(ADD_TO_CLASS).reply(200, { Visit: { Id: 555 } });
+
+    const booking = await bookPaidClass(input);
+
+    assert.deepEqual(booking, { status: "booked", classId: "4242", visitId: "555" });
+    assert.deepEqual(bookingCalls(), [{ ClientId: "100000001", ClassId: 4242, RequirePayment: false, Waitlist: false, SendEmail: true }]);
+    assert.deepEqual(refunds(), []);
+  });
+
+  it("counts a client who is already booked as booked", async () => {
+    upstream.onPost(ADD_TO_CLASS).reply(...refusal("Client is already booked into this class"));
+
+    const booking = await bookPaidClass(input);
+    assert.equal(booking.status, "booked");
+    assert.deepEqual(refunds(), []);
+  });
+
+  it("waitlists the client when the class is full", async () => {
+    upstream.onPost(ADD_TO_CLASS).replyOnce(...refusal("The class is full"));
+    upstream.onPost(ADD_TO_CLASS).replyOnce(200, { Visit: { WaitlistEntryId: 77 } });
+
+    const booking = await bookPaidClass(input);
+
+    assert.deepEqual(booking, { status: "waitlisted", classId: "4242", waitlistEntryId: "77", detail: "ClassBookingError: The class is full" });
+    assert.deepEqual(
+      bookingCalls().map((call) => call.Waitlist),
+      [false, true]
+    );
+    assert.deepEqual(refunds(), []);
+  });
+
+  it("refunds the whole payment when neither the class nor its waitlist will take the client", async () => {
+    upstream.onPost(ADD_TO_CLASS).replyOnce(...refusal("The class is full"));
+    upstream.onPost(ADD_TO_CLASS).replyOnce(...refusal("The waitlist is full"));
+    upstream.onPost("/three-step").reply(200, { success: true, "result-code": "100", "transaction-id": "rf-1" });
+
+    const booking = await bookPaidClass(input);
+
+    assert.equal(booking.status, "refunded");
+    assert.equal(booking.refundTransactionId, "rf-1");
+    assert.deepEqual(refunds(), [{ "api-key": "cayman-test-key", "transaction-id": "txn-class", amount: "25.00" }]);
+  });
+
+  it("throws when Cayman declines the refund, leaving the payment to be retried", async () => {
+    upstream.onPost(ADD_TO_CLASS).reply(...refusal("Class has been cancelled"));
+    upstream.onPost("/three-step").reply(200, { success: false, "result-code": "300", "result-text": "Refund not allowed" });
+
+    await assert.rejects(bookPaidClass(input), /Cayman declined the refund: Refund not allowed/);
+  });
+
+  it("throws on an error Mindbody may recover from, without refunding", async () => {
+    upstream.onPost(ADD_TO_CLASS).reply(503, { Error: { Message: "Service unavailable" } });
+
+    await assert.rejects(bookPaidClass(input));
+    assert.deepEqual(refunds(), []);
+  });
+});
@@ -0,0 +1,148 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { createMemorySessionDriver, get, save, setSessionDriver, type Session } from "../src/lib/sessions.js";
+import {
+  classifyFulfilmentError,
+  deferFulfilment,
+  findPostedSale,
+  FulfilmentError,
+  redriveFulfilmentJob,
+  runFulfilmentJob
+} from "../src/services/fulfilment.js";
+import { claimFulfilmentJob, getFulfilmentJobBySessionId, type FulfilmentJob } from "../src/storage/fulfilmentJobs.js";
+
+// The outbox lives in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST); sessions use the memory driver.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+// Installed before any Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+/** A real axios error for `status`, as Mindbody's client would raise it. */
+const httpError = async (status: number): Promise<unknown> => {
+  upstream.onGet("https://mindbody.test/error").replyOnce(status, { Error: { Message: `status ${status}` } });
+  return axios.get("https://mindbody.test/error").catch((error: unknown) => error);
+};
+
+const paidSession = (patch: Partial<Session> = {}): Session => ({
+  id: `test_${crypto.randomUUID()}`,
+  siteKey: "test-site",
+  customer: { email: "client@example.com", firstName: "Test", lastName: "Client" },
+  lines: [{ productId: "101", name: "Drop-in class", unitPrice: 25, qty: 1, type: "Service" }],
+  total: 25,
+  status: "processing",
+  clientId: "100000001",
+  createdAt: new Date().toISOString(),
+  cayman: { transactionId: `txn-${crypto.randomBytes(6).toString("hex")}` },
+  ...patch
+});
+
+const checkouts = (): number => upstream.history.post.filter((call) => call.url === "/sale/checkoutshoppingcart").length;
+
+beforeEach(() => {
+  setSessionDriver(createMemorySessionDriver());
+  upstream.reset();
+  upstream.onPost("/usertoken/issue").reply(200, { AccessToken: "staff-token" });
+});
+
+after(() => {
+  upstream.restore();
+});
+
+describe("classifyFulfilmentError", () => {
+  it("retries what Mindbody may recover from and parks what it rejected", async () => {
+    assert.equal(classifyFulfilmentError(await httpError(503)), "transient");
+    assert.equal(classifyFulfilmentError(await httpError(429)), "transient");
+    assert.equal(classifyFulfilmentError(await httpError(400)), "permanent");
+    assert.equal(classifyFulfilmentError(new FulfilmentError("Customer data missing")), "permanent");
+    assert.equal(classifyFulfilmentError(new FulfilmentError("Mindbody client missing", "transient")), "transient");
+  });
+});
+
+describe("findPostedSale", () => {
+  it("finds the sale an earlier attempt posted under the transaction id", async () => {
+    const session = paidSession({ cayman: { transactionId: "txn-posted" } });
+    upstream.onGet("/sale/sales").reply(200, {
+      Sales: [
+        { Id: 7001, ClientId: "100000002", Notes: "Gateway=Cayman | TxnId=txn-other" },
+        { Id: 7002, ClientId: "100000001", Notes: "Gateway=Cayman | TxnId=txn-posted" }
+      ]
+    });
+
+    const receipt = await findPostedSale(session, new Date());
+    assert.equal(receipt?.receiptId, 7002);
+    assert.equal(receipt?.clientId, "100000001");
+  });
+
+  it("finds nothing when no sale carries the reference", async () => {
+    upstream.onGet("/sale/sales").reply(200, { Sales: [{ Id: 7001, Notes: "Gateway=Cayman | TxnId=txn-other" }] });
+    assert.equal(await findPostedSale(paidSession(), new Date()), undefined);
+  });
+});
+
+describe("fulfilment outbox", { skip }, () => {
+  const queued = async (session: Session, status: number): Promise<FulfilmentJob> => {
+    await save(session);
+    await deferFulfilment(session, await httpError(status), "test");
+    const job = await getFulfilmentJobBySessionId(session.id);
+    assert.ok(job);
+    return job;
+  };
+
+  const secondsFromNow = (date: Date): number => Math.round((date.getTime() - Date.now()) / 1000);
+
+  it("queues a transient failure and doubles the delay after each failed retry", async () => {
+    const session = paidSession();
+    const job = await queued(session, 503);
+    assert.equal(job.status, "pending");
+    assert.equal(job.attempts, 1);
+    assert.ok(Math.abs(secondsFromNow(job.nextAttemptAt) - 60) <= 2);
+
+    upstream.onGet("/sale/sales").reply(200, { Sales: [] });
+    upstream.onPost("/sale/checkoutshoppingcart").reply(503, { Error: { Message: "Service unavailable" } });
+    const claimed = await claimFulfilmentJob(job.id);
+    assert.ok(claimed);
+    assert.equal(await runFulfilmentJob(claimed), "pending");
+
+    const rescheduled = await getFulfilmentJobBySessionId(session.id);
+    assert.equal(rescheduled?.attempts, 2);
+    assert.ok(Math.abs(secondsFromNow(rescheduled!.nextAttemptAt) - 120) <= 2);
+    assert.equal((await get(session.id))?.status, "processing");
+  });
+
+  it("settles on the sale an earlier attempt posted instead of posting another", async () => {
+    const session = paidSession();
+    const job = await queued(session, 503);
+    upstream.onGet("/sale/sales").reply(200, {
+      Sales: [{ Id: 7100, ClientId: "100000001", Notes: `Gateway=Cayman | TxnId=${session.cayman!.transactionId}` }]
+    });
+
+    const claimed = await claimFulfilmentJob(job.id);
+    assert.ok(claimed);
+    assert.equal(await runFulfilmentJob(claimed), "succeeded");
+
+    assert.equal(checkouts(), 0);
+    const paid = await get(session.id);
+    assert.equal(paid?.status, "paid");
+    assert.equal(paid?.mindbody?.receiptId, "7100");
+  });
+
+  it("parks a rejected sale and posts it when staff retry the job", async () => {
+    const session = paidSession();
+    const job = await queued(session, 400);
+    assert.equal(job.status, "dead");
+    assert.equal((await get(session.id))?.status, "failed");
+
+    upstream.onGet("/sale/sales").reply(200, { Sales: [] });
+    upstream.onPost("/sale/checkoutshoppingcart").reply(200, { ShoppingCart: { Id: "cart-1" }, SaleId: 7200 });
+    assert.equal(await redriveFulfilmentJob(job.id, "staff@example.com"), "succeeded");
+
+    assert.equal(checkouts(), 1);
+    assert.equal((await get(session.id))?.status, "paid");
+    assert.equal((await getFulfilmentJobBySessionId(session.id))?.status, "succeeded");
+  });
+});
@@ -0,0 +1,19 @@
+// Imported first by every test: the config modules validate the environment as soon as they load.
+// Nothing here points at a live service; Cayman and Mindbody calls are answered by axios-mock-adapter.
+process.env.PUBLIC_BASE_URL ??= "http://localhost:4000";
+process.env.LINK_SIGNING_SECRET ??= "test-link-signing-secret";
+process.env.CAYMAN_WEBHOOK_SECRET ??= "test-webhook-secret";
+process.env.CAYMAN_API_BASE_URL ??= "https://cayman.test";
+process.env.MINDBODY_BASE_URL ??= "https://mindbody.test/public/v6";
+process.env.SESSION_STORE ??= "memory";
+process.env.SESSION_SWEEP_INTERVAL_MS ??= "0";
+// The default site, resolved from the environment when there is no database or it has no config for it.
+process.env.API_CONFIG_SITE_KEY ??= "test-site";
+process.env.MINDBODY_SITE_ID ??= "-99";
+process.env.MINDBODY_API_KEY ??= "mbo-test-key";
+process.env.MINDBODY_SOURCE_NAME ??= "test.staff";
+process.env.MINDBODY_SOURCE_PASSWORD ??= "test-staff-password";
+process.env.CAYMAN_API_KEY ??= "cayman-test-key";
+process.env.CAYMAN_API_USERNAME ??= "merchant";
+process.env.CAYMAN_API_PASSWORD ??= "merchant-password";
+process.env.CAYMAN_DEFAULT_CURRENCY ??= "USD";
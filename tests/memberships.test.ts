@@ -0,0 +1,128 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { createMemorySessionDriver, get, setSessionDriver } from "../src/lib/sessions.js";
+import { retryMembershipCharge } from "../src/services/memberships.js";
+import {
+  activateMembership,
+  createMembershipPlan,
+  createPendingMembership,
+  getMembership,
+  listMembershipCharges,
+  recordMembershipDeclined,
+  type Membership
+} from "../src/storage/memberships.js";
+
+// Memberships live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST); sessions use the memory driver.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+// Installed before any Cayman client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const DAY_MS = 86_400_000;
+
+/** An active membership whose renewals were declined `declines` times, with a retry due now. */
+const pastDueMembership = async (declines: number): Promise<Membership> => {
+  const plan = await createMembershipPlan({
+    siteKey: "test-site",
+    name: "Monthly unlimited",
+    itemType: "Service",
+    itemId: "101",
+    amount: 99,
+    frequencyDays: 30,
+    trialDays: 0,
+    createdBy: "test"
+  });
+  const id = await createPendingMembership({
+    plan,
+    clientId: "100000001",
+    email: "member@example.com",
+    firstName: "Test",
+    lastName: "Member",
+    notifyTokenHash: crypto.randomBytes(32).toString("hex"),
+    createdBy: "test"
+  });
+  assert.ok(await activateMembership(id, { subscriptionId: crypto.randomInt(1, 2 ** 31), customerGuid: crypto.randomUUID() }));
+  for (let decline = 0; decline < declines; decline += 1) {
+    await recordMembershipDeclined(id, new Date(Date.now() - 60_000), "Card declined");
+  }
+  const membership = await getMembership(id);
+  assert.ok(membership);
+  return membership;
+};
+
+/** Cayman answers the recurring charge with a decline and confirms it when asked. */
+const declineRetry = (): string => {
+  const transactionId = `txn-${crypto.randomBytes(6).toString("hex")}`;
+  upstream.onPost("/recurauth").reply(200, { success: true, "result-code": "300", "result-text": "Declined", "transaction-id": transactionId });
+  upstream.onPost("/transaction-info").reply(200, {
+    success: true,
+    transaction: { "transaction-id": transactionId, "result-code": "300" }
+  });
+  return transactionId;
+};
+
+const daysFromNow = (date: Date | undefined): number => Math.round(((date?.getTime() ?? 0) - Date.now()) / DAY_MS);
+
+describe("membership dunning", { skip }, () => {
+  beforeEach(() => {
+    setSessionDriver(createMemorySessionDriver());
+    upstream.reset();
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  it("books a declined retry and schedules the next one", async () => {
+    const membership = await pastDueMembership(1);
+    const transactionId = declineRetry();
+
+    assert.equal(await retryMembershipCharge(membership), "declined");
+
+    const stored = await getMembership(membership.id);
+    assert.equal(stored?.status, "past_due");
+    assert.equal(stored?.failedAttempts, 2);
+    assert.equal(daysFromNow(stored?.nextRetryAt), 3);
+    const [charge] = await listMembershipCharges(membership.id);
+    assert.equal(charge.kind, "retry");
+    assert.equal(charge.status, "declined");
+    assert.equal(charge.transactionId, transactionId);
+    assert.equal((await get(charge.sessionId))?.status, "failed");
+  });
+
+  it("cancels the membership and its Cayman subscription after the last retry is declined", async () => {
+    const membership = await pastDueMembership(3);
+    declineRetry();
+    upstream.onPost("/three-step").reply(200, { success: true, "result-code": "100" });
+
+    assert.equal(await retryMembershipCharge(membership), "declined");
+
+    const stored = await getMembership(membership.id);
+    assert.equal(stored?.status, "cancelled");
+    assert.equal(stored?.cancelReason, "payment_failed");
+    const cancels = upstream.history.post
+      .filter((call) => call.url === "/three-step")
+      .map((call) => JSON.parse(call.data)["cancel-subscription"])
+      .filter(Boolean);
+    assert.equal(cancels.length, 1);
+    assert.equal(cancels[0].subscriptionId, membership.caymanSubscriptionId);
+  });
+
+  it("puts off a retry Cayman did not answer without counting it as declined", async () => {
+    const membership = await pastDueMembership(1);
+    upstream.onPost("/recurauth").networkError();
+
+    assert.equal(await retryMembershipCharge(membership), "error");
+
+    const stored = await getMembership(membership.id);
+    assert.equal(stored?.status, "past_due");
+    assert.equal(stored?.failedAttempts, 1);
+    const hoursAway = ((stored?.nextRetryAt?.getTime() ?? 0) - Date.now()) / 3_600_000;
+    assert.ok(Math.abs(hoursAway - 1) < 0.05);
+  });
+});
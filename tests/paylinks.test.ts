@@ -0,0 +1,75 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import express, { type Response } from "express";
+import request from "supertest";
+import { refreshSettings } from "../src/config/settings.js";
+import { approverName } from "../src/controllers/authController.js";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { sharedSecretPrincipal, type Principal } from "../src/services/adminAuth.js";
+import { issueApiKey } from "../src/services/apiKeys.js";
+import { type ApiKey } from "../src/storage/apiKeys.js";
+import { createPricingRule, listPriceOverrides, type PricingRule } from "../src/storage/pricingRules.js";
+import { paylinksRouter } from "../src/web/paylinks.js";
+
+// Rules, overrides and API keys live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST).
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+// Installed before any Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const withApiKey = (apiKey?: Partial<ApiKey>): Response => ({ locals: { apiKey } }) as unknown as Response;
+
+describe("approverName", () => {
+  const account: Principal = { kind: "account", name: "owner@example.com", permissions: new Set() };
+
+  it("names the signed-in account, whatever key carried the request", () => {
+    assert.equal(approverName(withApiKey({ prefix: "abc123" }), account), "owner@example.com");
+  });
+
+  it("names the API key when only a shared secret vouches for the request", () => {
+    const shared = sharedSecretPrincipal("shared-secret", []);
+    assert.equal(approverName(withApiKey({ prefix: "abc123" }), shared), "api-key:abc123");
+    assert.equal(approverName(withApiKey(), shared), "shared-secret");
+  });
+});
+
+describe("POST /api/paylinks with a price override", { skip }, () => {
+  const app = express().use(express.json()).use(paylinksRouter);
+  let rule: PricingRule;
+  let token: string;
+  let prefix: string;
+
+  before(async () => {
+    process.env.ADMIN_WRITE_SECRET = "test-write-secret";
+    refreshSettings();
+    rule = await createPricingRule({ siteKey: "test-site", itemId: "101", kind: "amount_off", value: 5, createdBy: "test" });
+    const issued = await issueApiKey({ siteKey: "test-site", name: "paylinks", scopes: ["paylinks:create"], createdBy: "test" });
+    token = issued.token;
+    prefix = issued.key.prefix;
+    upstream.onPost("/usertoken/issue").reply(200, { AccessToken: "staff-token" });
+    upstream.onGet("/sale/services").reply(200, { Services: [{ Id: 101, Name: "Drop-in class", Price: 25 }] });
+  });
+
+  after(() => {
+    upstream.restore();
+    delete process.env.ADMIN_WRITE_SECRET;
+    refreshSettings();
+  });
+
+  it("records the API key as the approver and the typed name only as a note", async () => {
+    const response = await request(app)
+      .post("/api/paylinks")
+      .set("x-api-key", token)
+      .set("x-admin-write-secret", "test-write-secret")
+      .send({ siteId: "test-site", itemId: "101", email: "client@example.com", ruleId: rule.id, signedBy: "The Owner" });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.price, 20);
+    const [override] = await listPriceOverrides({ ruleId: rule.id });
+    assert.equal(override.signedBy, `api-key:${prefix}`);
+    assert.equal(override.note, "The Owner");
+  });
+});
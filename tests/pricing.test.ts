@@ -0,0 +1,89 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyPricingRule,
+  normalizeItemType,
+  PricingError,
+  quotePrice,
+  type CatalogSource
+} from "../src/services/pricing.js";
+import { type PricingRule } from "../src/storage/pricingRules.js";
+
+const catalog = (overrides: Partial<CatalogSource> = {}): CatalogSource => ({
+  listServices: async () => [
+    { Id: 101, Name: "Drop-in class", Price: 25 },
+    { Id: 102, Name: "Free intro", Price: 0 }
+  ],
+  listProducts: async () => [{ Sku: "MAT-1", Name: "Yoga mat", OnlinePrice: { Amount: "39.99" }, Price: 45 }],
+  listPackages: async () => [{ Id: 7, Name: "10-class pack", Price: "199.5" }],
+  ...overrides
+});
+
+const rule = (patch: Partial<PricingRule>): PricingRule =>
+  ({ id: 1, siteKey: "test-site", kind: "percent_off", value: 10, active: true, ...patch }) as PricingRule;
+
+describe("quotePrice", () => {
+  it("charges the catalog price, whatever the caller thinks it is", async () => {
+    const quote = await quotePrice({ source: catalog(), siteKey: "test-site", itemId: "101", itemType: "service" });
+
+    assert.equal(quote.price, 25);
+    assert.equal(quote.catalogPrice, 25);
+    assert.deepEqual(quote.entry, { id: "101", type: "Service", name: "Drop-in class", unitPrice: 25 });
+    assert.equal(quote.rule, undefined);
+  });
+
+  it("prefers a product's online price and finds it by SKU", async () => {
+    const quote = await quotePrice({ source: catalog(), siteKey: "test-site", itemId: "MAT-1", itemType: "Product" });
+    assert.equal(quote.price, 39.99);
+  });
+
+  it("reads packages from the package catalog only", async () => {
+    let servicesRead = false;
+    const source = catalog({
+      listServices: async () => {
+        servicesRead = true;
+        return [];
+      }
+    });
+
+    const quote = await quotePrice({ source, siteKey: "test-site", itemId: "7", itemType: "pricingOption" });
+    assert.equal(quote.price, 199.5);
+    assert.equal(servicesRead, false);
+  });
+
+  it("rejects an item the catalog does not list", async () => {
+    await assert.rejects(
+      quotePrice({ source: catalog(), siteKey: "test-site", itemId: "999", itemType: "Service" }),
+      (error: unknown) => error instanceof PricingError && error.code === "item_not_found"
+    );
+  });
+
+  it("rejects an item without a chargeable price", async () => {
+    await assert.rejects(
+      quotePrice({ source: catalog(), siteKey: "test-site", itemId: "102", itemType: "Service" }),
+      (error: unknown) => error instanceof PricingError && error.code === "invalid_item_price"
+    );
+  });
+});
+
+describe("applyPricingRule", () => {
+  it("applies each kind of rule to the catalog price", () => {
+    assert.equal(applyPricingRule(rule({ kind: "percent_off", value: 10 }), 25), 22.5);
+    assert.equal(applyPricingRule(rule({ kind: "amount_off", value: 5 }), 25), 20);
+    assert.equal(applyPricingRule(rule({ kind: "fixed_price", value: 12.345 }), 25), 12.35);
+  });
+
+  it("never goes below the rule's floor or zero", () => {
+    assert.equal(applyPricingRule(rule({ kind: "amount_off", value: 30 }), 25), 0);
+    assert.equal(applyPricingRule(rule({ kind: "percent_off", value: 90, minPrice: 10 }), 25), 10);
+  });
+});
+
+describe("normalizeItemType", () => {
+  it("maps caller spellings onto the catalog types", () => {
+    assert.equal(normalizeItemType("product"), "Product");
+    assert.equal(normalizeItemType("PricingOption"), "Package");
+    assert.equal(normalizeItemType(undefined), "Service");
+  });
+});
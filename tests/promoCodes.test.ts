@@ -0,0 +1,86 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { describe, it } from "node:test";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import {
+  createPromoCode,
+  reservePromoRedemption,
+  setPromoRedemptionStatus,
+  type CreatePromoCodeInput,
+  type PromoCode,
+  type ReservePromoRedemptionInput
+} from "../src/storage/promoCodes.js";
+
+// Promo codes and their reservations live in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST).
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+const HOUR_MS = 3_600_000;
+
+const freshPromo = (caps: Pick<CreatePromoCodeInput, "maxRedemptions" | "maxPerEmail">): Promise<PromoCode> =>
+  createPromoCode({
+    code: `CAP${crypto.randomBytes(4).toString("hex")}`,
+    siteKey: "test-site",
+    kind: "amount_off",
+    value: 5,
+    createdBy: "test",
+    ...caps
+  });
+
+const reserve = (promo: PromoCode, email: string, patch: Partial<ReservePromoRedemptionInput> = {}) =>
+  reservePromoRedemption({
+    promoCodeId: promo.id,
+    reference: crypto.randomUUID(),
+    email,
+    discount: 5,
+    maxRedemptions: promo.maxRedemptions,
+    maxPerEmail: promo.maxPerEmail,
+    reservedSince: new Date(Date.now() - HOUR_MS),
+    ...patch
+  });
+
+describe("reservePromoRedemption", { skip }, () => {
+  it("never reserves past the cap when checkouts race", async () => {
+    const promo = await freshPromo({ maxRedemptions: 2 });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, (_, index) => reserve(promo, `racer${index}@example.com`))
+    );
+
+    assert.equal(results.filter((result) => result.kind === "reserved").length, 2);
+    assert.equal(results.filter((result) => result.kind === "exhausted").length, 3);
+  });
+
+  it("limits each email separately from the overall cap", async () => {
+    const promo = await freshPromo({ maxRedemptions: 10, maxPerEmail: 1 });
+
+    assert.equal((await reserve(promo, "once@example.com")).kind, "reserved");
+    assert.equal((await reserve(promo, "once@example.com")).kind, "email_limit");
+    assert.equal((await reserve(promo, "other@example.com")).kind, "reserved");
+  });
+
+  it("frees the cap when a reservation is released or lapses", async () => {
+    const promo = await freshPromo({ maxRedemptions: 1 });
+    const first = await reserve(promo, "first@example.com");
+    assert.equal(first.kind, "reserved");
+    assert.equal((await reserve(promo, "second@example.com")).kind, "exhausted");
+
+    assert.ok(first.kind === "reserved" && (await setPromoRedemptionStatus(first.redemption.reference, "released")));
+    const second = await reserve(promo, "second@example.com");
+    assert.equal(second.kind, "reserved");
+
+    // Reservations made before `reservedSince` are abandoned checkouts and no longer hold a use.
+    const later = await reserve(promo, "third@example.com", { reservedSince: new Date(Date.now() + HOUR_MS) });
+    assert.equal(later.kind, "reserved");
+  });
+
+  it("counts a redeemed reservation as its customer's use", async () => {
+    const promo = await freshPromo({ maxRedemptions: 10 });
+    const reference = crypto.randomUUID();
+    const held = await reserve(promo, "paid@example.com", { reference });
+    assert.equal(held.kind, "reserved");
+    assert.ok(await setPromoRedemptionStatus(reference, "redeemed"));
+
+    assert.equal((await reserve(promo, "paid@example.com", { reference })).kind, "email_limit");
+  });
+});
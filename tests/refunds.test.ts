@@ -0,0 +1,94 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { describe, it } from "node:test";
+import { execute, isDatabaseConfigured } from "../src/db/mysql.js";
+import { completeRefund, failRefund, getRefund, reserveRefund, type ReserveRefundInput } from "../src/storage/refunds.js";
+
+// Reservations lock the session row inside a MySQL transaction, so these run against a real database
+// with schema.sql applied (DATABASE_URL or MYSQL_HOST). CI provides one; locally they are skipped without it.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+const reservation = (sessionId: string, idempotencyKey: string, amount?: number): ReserveRefundInput => ({
+  idempotencyKey,
+  sessionId,
+  siteKey: "test-site",
+  sessionTotal: 25,
+  amount,
+  caymanTransactionId: "txn-1",
+  actor: "test"
+});
+
+/** The reservation locks this row; without it concurrent reservations would not serialise. */
+const paidSession = async (): Promise<string> => {
+  const sessionId = `test_${crypto.randomUUID()}`;
+  await execute(
+    `INSERT INTO checkout_sessions (id, site_key, status, total, payload, expires_at)
+     VALUES (?, 'test-site', 'paid', 25, '{}', DATE_ADD(NOW(), INTERVAL 1 HOUR))`,
+    [sessionId]
+  );
+  return sessionId;
+};
+
+describe("refund reservations", { skip }, () => {
+  it("replays the original refund for a repeated idempotency key", async () => {
+    const sessionId = await paidSession();
+
+    const first = await reserveRefund(reservation(sessionId, `${sessionId}:a`, 10));
+    const again = await reserveRefund(reservation(sessionId, `${sessionId}:a`, 10));
+
+    assert.equal(first.kind, "created");
+    assert.equal(again.kind, "replayed");
+    assert.ok(first.kind !== "exceeds" && again.kind !== "exceeds");
+    assert.equal(again.refund.id, first.refund.id);
+    assert.equal(first.refund.amount, 10);
+  });
+
+  it("refunds the remaining balance when no amount is given", async () => {
+    const sessionId = await paidSession();
+    await reserveRefund(reservation(sessionId, `${sessionId}:a`, 10));
+
+    const rest = await reserveRefund(reservation(sessionId, `${sessionId}:b`));
+    assert.equal(rest.kind, "created");
+    assert.equal(rest.kind === "created" && rest.refund.amount, 15);
+  });
+
+  it("never reserves more than was charged across different keys, even concurrently", async () => {
+    const sessionId = await paidSession();
+
+    const results = await Promise.all([
+      reserveRefund(reservation(sessionId, `${sessionId}:a`, 15)),
+      reserveRefund(reservation(sessionId, `${sessionId}:b`, 15))
+    ]);
+
+    assert.deepEqual(results.map((result) => result.kind).sort(), ["created", "exceeds"]);
+    const refused = results.find((result) => result.kind === "exceeds");
+    assert.equal(refused?.kind === "exceeds" && refused.available, 10);
+  });
+
+  it("returns a failed refund's amount to the balance", async () => {
+    const sessionId = await paidSession();
+    const first = await reserveRefund(reservation(sessionId, `${sessionId}:a`));
+    assert.equal(first.kind, "created");
+    assert.equal((await reserveRefund(reservation(sessionId, `${sessionId}:b`, 1))).kind, "exceeds");
+
+    assert.ok(first.kind === "created" && (await failRefund(first.refund.id, "declined")));
+    assert.equal((await reserveRefund(reservation(sessionId, `${sessionId}:c`))).kind, "created");
+  });
+
+  it("settles a pending refund exactly once", async () => {
+    const sessionId = await paidSession();
+    const reserved = await reserveRefund(reservation(sessionId, `${sessionId}:a`, 5));
+    assert.ok(reserved.kind === "created");
+
+    const settled = await Promise.all([
+      completeRefund(reserved.refund.id, "rf-1", { ok: true }),
+      completeRefund(reserved.refund.id, "rf-2", { ok: true })
+    ]);
+    assert.deepEqual(settled.sort(), [false, true]);
+    assert.equal(await failRefund(reserved.refund.id, "late failure"), false);
+
+    const refund = await getRefund(reserved.refund.id);
+    assert.equal(refund?.status, "succeeded");
+  });
+});
@@ -0,0 +1,97 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  canTransition,
+  createMemorySessionDriver,
+  get,
+  history,
+  save,
+  SessionTransitionError,
+  setSessionDriver,
+  transition,
+  TransactionInUseError,
+  type Session
+} from "../src/lib/sessions.js";
+
+const newSession = (id: string, patch: Partial<Session> = {}): Session => ({
+  id,
+  siteKey: "test-site",
+  customer: { email: "client@example.com", firstName: "Test", lastName: "Client" },
+  lines: [{ productId: "101", name: "Drop-in class", unitPrice: 25, qty: 1, type: "Service" }],
+  total: 25,
+  status: "created",
+  cayman: { orderId: `order_${id}` },
+  ...patch
+});
+
+describe("checkout session transitions", () => {
+  beforeEach(() => {
+    setSessionDriver(createMemorySessionDriver());
+  });
+
+  it("moves a session only from an expected status and applies the patch in the same write", async () => {
+    await save(newSession("s1"));
+
+    const processing = await transition("s1", "created", "processing", { cayman: { transactionId: "txn-1" } });
+    assert.equal(processing?.status, "processing");
+    assert.equal(processing?.cayman?.orderId, "order_s1");
+    assert.equal(processing?.cayman?.transactionId, "txn-1");
+
+    assert.equal(await transition("s1", "created", "failed"), undefined);
+    assert.equal((await get("s1"))?.status, "processing");
+  });
+
+  it("lets exactly one of two concurrent callers win the same move", async () => {
+    await save(newSession("s2"));
+
+    const results = await Promise.all([
+      transition("s2", "created", "processing"),
+      transition("s2", "created", "processing")
+    ]);
+
+    assert.equal(results.filter(Boolean).length, 1);
+    const moves = (await history("s2")).filter((event) => event.type === "status");
+    assert.deepEqual(
+      moves.map((event) => [event.fromStatus, event.toStatus]),
+      [["created", "processing"]]
+    );
+  });
+
+  it("accepts any of several expected statuses", async () => {
+    await save(newSession("s3", { status: "failed" }));
+
+    const revived = await transition("s3", ["created", "failed", "expired"], "processing");
+    assert.equal(revived?.status, "processing");
+  });
+
+  it("refuses a move the state machine does not allow, before touching the session", async () => {
+    await save(newSession("s4", { status: "paid" }));
+
+    await assert.rejects(transition("s4", "paid", "created"), SessionTransitionError);
+    assert.equal((await get("s4"))?.status, "paid");
+  });
+
+  it("never leaves refunded, and only settles refunds after payment", () => {
+    assert.equal(canTransition("refunded", "paid"), false);
+    assert.equal(canTransition("paid", "partially_refunded"), true);
+    assert.equal(canTransition("partially_refunded", "refunded"), true);
+    assert.equal(canTransition("created", "refunded"), false);
+    assert.equal(canTransition("expired", "processing"), true);
+  });
+
+  it("records a Cayman transaction on one session only", async () => {
+    await save(newSession("s5", { status: "paid", cayman: { orderId: "order_s5", transactionId: "txn-5" } }));
+    await save(newSession("s6"));
+
+    await assert.rejects(
+      transition("s6", "created", "processing", { cayman: { transactionId: "txn-5" } }),
+      (error: unknown) => error instanceof TransactionInUseError && error.sessionId === "s5"
+    );
+    assert.equal((await get("s6"))?.status, "created");
+  });
+
+  it("resolves undefined for a session that does not exist", async () => {
+    assert.equal(await transition("missing", "created", "processing"), undefined);
+  });
+});
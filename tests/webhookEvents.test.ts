@@ -0,0 +1,66 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import express from "express";
+import request from "supertest";
+import { isDatabaseConfigured } from "../src/db/mysql.js";
+import { createTokenNotificationHandler, type TokenNotification, type TokenNotificationResult } from "../src/services/webhookEvents.js";
+
+// Deliveries are stored in MySQL (schema.sql applied, DATABASE_URL or MYSQL_HOST); without it the handler answers 503.
+const skip = isDatabaseConfigured() ? false : "needs DATABASE_URL or MYSQL_HOST with schema.sql applied";
+
+describe("createTokenNotificationHandler", { skip }, () => {
+  const received: TokenNotification[] = [];
+  let answer: () => Promise<TokenNotificationResult>;
+
+  const app = express()
+    .use(express.urlencoded({ extended: false }))
+    .all(
+      "/cayman/vault",
+      createTokenNotificationHandler({
+        kind: "vault",
+        tokenParam: "setupToken",
+        label: "add-card",
+        unavailable: "Saved cards require a configured database",
+        handle: async (notification) => {
+          received.push(notification);
+          return answer();
+        }
+      })
+    );
+
+  it("hands the service its token apart from Cayman's fields", async () => {
+    answer = async () => ({ status: "active", siteKey: "test-site" });
+
+    const response = await request(app)
+      .post("/cayman/vault?setupToken=tok-1")
+      .type("form")
+      .send({ "customer-vault-id": "vault-1" });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body, { received: true, status: "active", siteKey: "test-site" });
+    const notification = received.at(-1);
+    assert.equal(notification?.token, "tok-1");
+    assert.equal(notification?.source, "vault:post");
+    assert.equal(notification?.payload.setupToken, undefined);
+    assert.equal(notification?.payload["customer-vault-id"], "vault-1");
+  });
+
+  it("answers an unknown token, a bad signature and a failed service call", async () => {
+    answer = async () => ({ status: "unknown", detail: "No pending card matches this notification" });
+    assert.equal((await request(app).get("/cayman/vault?setupToken=nope")).status, 404);
+
+    answer = async () => ({ status: "rejected", detail: "Invalid signature" });
+    assert.equal((await request(app).get("/cayman/vault?setupToken=tok-2").set("cayman-signature", "bad")).status, 401);
+
+    answer = async () => ({ status: "error", detail: "Cayman did not answer" });
+    assert.equal((await request(app).get("/cayman/vault?setupToken=tok-3")).status, 502);
+
+    answer = async () => {
+      throw new Error("boom");
+    };
+    const failed = await request(app).get("/cayman/vault?setupToken=tok-4");
+    assert.equal(failed.status, 500);
+    assert.equal(failed.body.received, false);
+  });
+});
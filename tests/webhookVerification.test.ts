@@ -0,0 +1,191 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import { type Tenant } from "../src/services/tenants.js";
+import {
+  confirmCaymanTransaction,
+  isApprovedTransaction,
+  NotificationVerificationError,
+  readCaymanTransaction,
+  verifyCaymanFailure,
+  verifyCaymanSignature,
+  type NotificationRejectReason
+} from "../src/services/webhookVerification.js";
+
+// Installed before any Cayman client exists: `axios.create` copies the adapter from `axios.defaults`.
+const cayman = new MockAdapter(axios);
+
+const tenant: Tenant = {
+  siteKey: "test-site",
+  source: "env",
+  currency: "KYD",
+  webhookSecret: "whsec_test",
+  mindbody: { siteId: "-99", apiKey: "mbo-test-key" },
+  cayman: { baseUrl: "https://cayman.test", apiKey: "cayman-test-key", username: "merchant", password: "secret" }
+};
+
+const sign = (body: Buffer, secret = tenant.webhookSecret!): string =>
+  crypto.createHmac("sha256", secret).update(body).digest("hex");
+
+const rejectedWith =
+  (reason: NotificationRejectReason) =>
+  (error: unknown): boolean =>
+    error instanceof NotificationVerificationError && error.reason === reason;
+
+describe("verifyCaymanSignature", () => {
+  const body = Buffer.from(JSON.stringify({ event: "transaction.sale.success", "transaction-id": "txn-1" }));
+
+  it("accepts the HMAC of the exact bytes received", () => {
+    assert.doesNotThrow(() => verifyCaymanSignature(tenant, body, sign(body)));
+  });
+
+  it("rejects a missing, forged or stale signature", () => {
+    assert.throws(() => verifyCaymanSignature(tenant, body, undefined), rejectedWith("bad_signature"));
+    assert.throws(() => verifyCaymanSignature(tenant, body, sign(body, "another-secret")), rejectedWith("bad_signature"));
+    assert.throws(
+      () => verifyCaymanSignature(tenant, Buffer.from(`${body.toString()} `), sign(body)),
+      rejectedWith("bad_signature")
+    );
+    assert.throws(() => verifyCaymanSignature(tenant, undefined, sign(body)), rejectedWith("bad_signature"));
+  });
+
+  it("rejects every signature for a tenant without a webhook secret", () => {
+    const unsigned: Tenant = { ...tenant, webhookSecret: undefined };
+    assert.throws(() => verifyCaymanSignature(unsigned, body, sign(body)), rejectedWith("bad_signature"));
+  });
+});
+
+describe("reading Cayman transactions", () => {
+  it("normalises the field spellings Cayman uses", () => {
+    const transaction = readCaymanTransaction({
+      transactionId: "txn-2",
+      total: "40.00",
+      currency: "kyd",
+      "order-id": "order_1",
+      "result-code": "100",
+      "cc-number": "4xxxxxxxxxxx1111"
+    });
+
+    assert.equal(transaction.transactionId, "txn-2");
+    assert.equal(transaction.amount, 40);
+    assert.equal(transaction.currency, "KYD");
+    assert.equal(transaction.orderId, "order_1");
+    assert.equal(transaction.last4, "1111");
+  });
+
+  it("treats only success codes and approved statuses as approved", () => {
+    assert.equal(isApprovedTransaction({ "result-code": "100" }), true);
+    assert.equal(isApprovedTransaction({ status: "PendingSettlement" }), true);
+    assert.equal(isApprovedTransaction({ "result-code": "200" }), false);
+    assert.equal(isApprovedTransaction({ status: "declined" }), false);
+    assert.equal(isApprovedTransaction({}), false);
+  });
+});
+
+describe("verifyCaymanFailure", () => {
+  const body = Buffer.from(JSON.stringify({ "result-code": "300", "transaction-id": "txn-9" }));
+
+  beforeEach(() => {
+    cayman.reset();
+  });
+
+  it("trusts a signed failure without asking Cayman, and refuses a forged one", async () => {
+    assert.deepEqual(await verifyCaymanFailure(tenant, { rawBody: body, signature: sign(body) }), { signed: true });
+    await assert.rejects(
+      verifyCaymanFailure(tenant, { rawBody: body, signature: sign(body, "another-secret") }),
+      rejectedWith("bad_signature")
+    );
+    assert.equal(cayman.history.post.length, 0);
+  });
+
+  it("accepts an unsigned failure only when Cayman declined that transaction for this order", async () => {
+    cayman.onPost("/transaction-info").reply(200, {
+      success: true,
+      transaction: { "transaction-id": "txn-9", "order-id": "order_s1", "result-code": "300" }
+    });
+
+    assert.deepEqual(await verifyCaymanFailure(tenant, { transactionId: "txn-9" }, { orderId: "order_s1" }), { signed: false });
+    await assert.rejects(
+      verifyCaymanFailure(tenant, { transactionId: "txn-9" }, { orderId: "order_other" }),
+      rejectedWith("order_mismatch")
+    );
+  });
+
+  it("refuses an unsigned failure it cannot check or that Cayman approved", async () => {
+    await assert.rejects(verifyCaymanFailure(tenant, { rawBody: body }), rejectedWith("unverifiable"));
+
+    cayman.onPost("/transaction-info").reply(200, {
+      success: true,
+      transaction: { "transaction-id": "txn-9", "order-id": "order_s1", "result-code": "100" }
+    });
+    await assert.rejects(verifyCaymanFailure(tenant, { transactionId: "txn-9" }, { orderId: "order_s1" }), rejectedWith("unverifiable"));
+  });
+});
+
+describe("confirmCaymanTransaction", () => {
+  const expected = { amount: 25, currency: "KYD", orderId: "order_s1" };
+  const replyWith = (transaction: Record<string, unknown>): void => {
+    cayman.onPost("/transaction-info").reply(200, { success: true, transaction });
+  };
+
+  beforeEach(() => {
+    cayman.reset();
+  });
+
+  after(() => {
+    cayman.restore();
+  });
+
+  it("confirms an approved transaction that matches the session", async () => {
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "KYD", "order-id": "order_s1", "result-code": "100" });
+
+    const confirmed = await confirmCaymanTransaction(tenant, "txn-1", expected);
+    assert.equal(confirmed.amount, 25);
+    assert.equal(JSON.parse(cayman.history.post[0].data)["transaction-id"], "txn-1");
+  });
+
+  it("rejects a transaction Cayman did not approve", async () => {
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "KYD", "order-id": "order_s1", "result-code": "300" });
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), rejectedWith("transaction_not_approved"));
+  });
+
+  it("rejects a payment for less than the session total", async () => {
+    replyWith({ "transaction-id": "txn-1", amount: "1.00", currency: "KYD", "order-id": "order_s1", "result-code": "100" });
+
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), (error: unknown) => {
+      assert.ok(rejectedWith("amount_mismatch")(error));
+      assert.deepEqual((error as NotificationVerificationError).actual?.amount, 1);
+      return true;
+    });
+  });
+
+  it("rejects a payment made for another order or in another currency", async () => {
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "KYD", "order-id": "order_other", "result-code": "100" });
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), rejectedWith("order_mismatch"));
+
+    cayman.reset();
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "USD", "order-id": "order_s1", "result-code": "100" });
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), rejectedWith("currency_mismatch"));
+  });
+
+  it("rejects a transaction that reports no order when the session has one", async () => {
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "KYD", "result-code": "100" });
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), rejectedWith("order_mismatch"));
+
+    cayman.reset();
+    replyWith({ "transaction-id": "txn-1", amount: "25.00", currency: "KYD", invoiceno: "order_s1", "result-code": "100" });
+    assert.equal((await confirmCaymanTransaction(tenant, "txn-1", expected)).orderId, "order_s1");
+  });
+
+  it("rejects a transaction id Cayman does not know, and a lookup that fails", async () => {
+    cayman.onPost("/transaction-info").reply(200, { success: false });
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-404", expected), rejectedWith("transaction_not_found"));
+
+    cayman.reset();
+    cayman.onPost("/transaction-info").networkError();
+    await assert.rejects(confirmCaymanTransaction(tenant, "txn-1", expected), rejectedWith("lookup_failed"));
+  });
+});
@@ -0,0 +1,98 @@
+import "./helpers/env.js";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, beforeEach, describe, it } from "node:test";
+import axios from "axios";
+import MockAdapter from "axios-mock-adapter";
+import express from "express";
+import request from "supertest";
+import { webhooksRouter } from "../src/web/webhooks.js";
+
+// Installed before any Cayman or Mindbody client exists: `axios.create` copies the adapter from `axios.defaults`.
+const upstream = new MockAdapter(axios);
+
+const app = express().use(webhooksRouter);
+
+const deliver = (event: Record<string, unknown>) => {
+  const body = JSON.stringify(event);
+  const signature = crypto.createHmac("sha256", process.env.CAYMAN_WEBHOOK_SECRET!).update(body).digest("hex");
+  return request(app).post("/webhooks/cayman").set("Content-Type", "application/json").set("cayman-signature", signature).send(body);
+};
+
+const paidEvent = (id: string, metadata: Record<string, unknown> = {}) => ({
+  id,
+  status: "succeeded",
+  amount: 2500,
+  metadata: { siteId: "test-site", itemId: "101", clientId: "100000001", ...metadata }
+});
+
+const approve = (transactionId: string): void => {
+  upstream
+    .onPost("/transaction-info")
+    .reply(200, { success: true, transaction: { "transaction-id": transactionId, amount: "25.00", currency: "USD", "result-code": "100" } });
+};
+
+describe("POST /webhooks/cayman", () => {
+  beforeEach(() => {
+    upstream.reset();
+    upstream.onPost("/usertoken/issue").reply(200, { AccessToken: "staff-token" });
+  });
+
+  after(() => {
+    upstream.restore();
+  });
+
+  it("posts the sale on redelivery when the first attempt failed to post it", async () => {
+    approve("txn-sale-retry");
+    upstream.onPost("/sale/checkoutshoppingcart").replyOnce(500, { Error: { Message: "Service unavailable" } });
+    upstream.onPost("/sale/checkoutshoppingcart").reply(200, { ShoppingCart: { Id: "cart-1" } });
+
+    const failed = await deliver(paidEvent("txn-sale-retry"));
+    assert.equal(failed.status, 400);
+
+    const redelivered = await deliver(paidEvent("txn-sale-retry"));
+    assert.equal(redelivered.status, 200);
+    assert.deepEqual(redelivered.body.sale, { ShoppingCart: { Id: "cart-1" } });
+    assert.equal(upstream.history.post.filter((call) => call.url === "/sale/checkoutshoppingcart").length, 2);
+  });
+
+  it("answers a redelivery of a processed event as a duplicate without posting another sale", async () => {
+    approve("txn-sale-once");
+    upstream.onPost("/sale/checkoutshoppingcart").reply(200, { ShoppingCart: { Id: "cart-2" } });
+
+    assert.equal((await deliver(paidEvent("txn-sale-once"))).status, 200);
+    const repeat = await deliver(paidEvent("txn-sale-once"));
+
+    assert.equal(repeat.status, 200);
+    assert.equal(repeat.body.deduped, true);
+    assert.equal(upstream.history.post.filter((call) => call.url === "/sale/checkoutshoppingcart").length, 1);
+  });
+
+  it("books the class on redelivery when Mindbody failed during the first booking", async () => {
+    approve("txn-class-retry");
+    upstream.onPost("/class/addclienttoclass").replyOnce(503, { Error: { Message: "Service unavailable" } });
+    upstream.onPost("/class/addclienttoclass").reply(200, { Visit: { Id: 901 } });
+    upstream.onPost("/sale/checkoutshoppingcart").reply(200, { ShoppingCart: { Id: "cart-3" } });
+
+    const failed = await deliver(paidEvent("txn-class-retry", { classId: "4242" }));
+    assert.equal(failed.status, 400);
+    assert.equal(upstream.history.post.filter((call) => call.url === "/sale/checkoutshoppingcart").length, 0);
+
+    const redelivered = await deliver(paidEvent("txn-class-retry", { classId: "4242" }));
+    assert.equal(redelivered.status, 200);
+    assert.deepEqual(redelivered.body.booking, { status: "booked", classId: "4242", visitId: "901" });
+    assert.match(JSON.parse(upstream.history.post.find((call) => call.url === "/sale/checkoutshoppingcart")!.data).Notes, /visit 901/);
+  });
+
+  it("refunds a class that cannot be booked and posts no sale", async () => {
+    approve("txn-class-full");
+    upstream.onPost("/class/addclienttoclass").reply(400, { Error: { Code: "ClassFull", Message: "The class is full" } });
+    upstream.onPost("/three-step").reply(200, { success: true, "result-code": "100", "transaction-id": "rf-2" });
+
+    const response = await deliver(paidEvent("txn-class-full", { classId: "4242" }));
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.refunded, true);
+    assert.equal(upstream.history.post.filter((call) => call.url === "/sale/checkoutshoppingcart").length, 0);
+  });
+});